@@ -3,6 +3,10 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   serverExternalPackages: ["pdf-parse"],
+  experimental: {
+    // Resume jobs run their stages after the response that started them.
+    after: true,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,143 @@
+/**
+ * Search quality evaluation CLI.
+ *
+ *   npm run eval -- --target rpc --label baseline
+ *   npm run eval -- --target agent --label prompt-v2 --compare eval-reports/baseline.json
+ *   npm run eval -- --report eval-reports/prompt-v2.json --compare eval-reports/baseline.json
+ *
+ * Runs with the `react-server` condition (see package.json) so server-only modules load outside Next.
+ */
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import { embed } from "ai";
+
+import { parseGoldenSet } from "@/lib/eval/golden-set";
+import { DEFAULT_EVAL_KS } from "@/lib/eval/metrics";
+import {
+  EVAL_TARGETS,
+  compareEvalReports,
+  formatEvalComparison,
+  formatEvalReport,
+  type EvalReport,
+  type EvalTarget,
+} from "@/lib/eval/report";
+import { createAgentExecutor, createRpcExecutor, runEvalSuite } from "@/lib/eval/runner";
+import type { LanguageModelSlot } from "@/lib/models/provider";
+import { getModelProvider } from "@/lib/models/server";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+const DEFAULT_GOLDEN_SET = "src/lib/eval/golden-sets/v1.json";
+const DEFAULT_REPORT_DIR = "eval-reports";
+
+const USAGE = `Usage: npm run eval -- [options]
+
+  --target <agent|rpc>   What to evaluate (default: rpc)
+  --golden <path>        Golden set file (default: ${DEFAULT_GOLDEN_SET})
+  --label <name>         Report label (default: <target>-<timestamp>)
+  --out <path>           Report path (default: ${DEFAULT_REPORT_DIR}/<label>.json)
+  --k <list>             Cutoffs for recall and nDCG (default: ${DEFAULT_EVAL_KS.join(",")})
+  --only <ids>           Comma-separated golden query ids to run
+  --compare <path>       Diff the result against an earlier report
+  --report <path>        Skip running; load this report instead (use with --compare)
+  --help                 Show this message`;
+
+async function readReport(filePath: string): Promise<EvalReport> {
+  return JSON.parse(await readFile(filePath, "utf8")) as EvalReport;
+}
+
+function parseKs(value: string | undefined): number[] {
+  if (!value) {
+    return DEFAULT_EVAL_KS;
+  }
+  const ks = value.split(",").map((item) => Number(item.trim()));
+  if (ks.some((k) => !Number.isInteger(k) || k < 1)) {
+    throw new Error(`Invalid --k value: ${value}`);
+  }
+  return ks;
+}
+
+async function runSuite(values: Record<string, string | boolean | undefined>): Promise<EvalReport> {
+  const target = (values.target ?? "rpc") as EvalTarget;
+  if (!EVAL_TARGETS.includes(target)) {
+    throw new Error(`Unknown --target ${target}; expected one of ${EVAL_TARGETS.join(", ")}`);
+  }
+
+  const goldenSet = parseGoldenSet(JSON.parse(await readFile(String(values.golden ?? DEFAULT_GOLDEN_SET), "utf8")));
+  const only = typeof values.only === "string" ? new Set(values.only.split(",").map((id) => id.trim())) : null;
+  const queries = only ? goldenSet.queries.filter((query) => only.has(query.id)) : goldenSet.queries;
+  if (!queries.length) {
+    throw new Error("No golden queries selected");
+  }
+
+  const models = getModelProvider();
+  const label = String(values.label ?? `${target}-${new Date().toISOString().replace(/[:.]/g, "-")}`);
+  const slots: LanguageModelSlot[] = target === "agent" ? ["agent", "reranker"] : [];
+  const executor = target === "agent"
+    ? createAgentExecutor({ modelProvider: models })
+    : createRpcExecutor(getSupabaseServerClient(), {
+        embedQuery: async (text) => (await embed({ model: models.embeddingModel(), value: text })).embedding,
+      });
+
+  const report = await runEvalSuite({
+    goldenSet: { ...goldenSet, queries },
+    target,
+    executor,
+    label,
+    ks: parseKs(typeof values.k === "string" ? values.k : undefined),
+    models: {
+      provider: models.name,
+      ...Object.fromEntries(slots.map((slot) => [slot, models.modelId(slot)])),
+      embedding: models.modelId("embedding"),
+    },
+    onQueryComplete: ({ queryId, completed, total, error }) => {
+      console.log(`[${completed}/${total}] ${queryId}${error ? ` failed: ${error}` : ""}`);
+    },
+  });
+
+  const outPath = String(values.out ?? path.join(DEFAULT_REPORT_DIR, `${label}.json`));
+  await mkdir(path.dirname(outPath), { recursive: true });
+  await writeFile(outPath, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`Report written to ${outPath}`);
+
+  return report;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      target: { type: "string" },
+      golden: { type: "string" },
+      label: { type: "string" },
+      out: { type: "string" },
+      k: { type: "string" },
+      only: { type: "string" },
+      compare: { type: "string" },
+      report: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (!values.report && existsSync(".env.local")) {
+    process.loadEnvFile(".env.local");
+  }
+
+  const report = values.report ? await readReport(values.report) : await runSuite(values);
+  console.log(`\n${formatEvalReport(report)}`);
+
+  if (values.compare) {
+    console.log(`\n${formatEvalComparison(compareEvalReports(await readReport(values.compare), report))}`);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,95 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { AdminHeader } from "@/components/admin/admin-header";
+import { EndReasonBadge, formatLatency, formatTimestamp, formatUsage } from "@/components/admin/run-format";
+import { RunReplay } from "@/components/admin/run-replay";
+import { RunResultsTable } from "@/components/admin/run-results-table";
+import { RunStepTimeline } from "@/components/admin/run-step-timeline";
+import { PropertyGrid } from "@/components/company/property-grid";
+import { requireAdminPageSession } from "@/lib/auth/server";
+import { findConversation } from "@/lib/conversations/conversations";
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import { getSearchRunDetail } from "@/lib/search/run-history";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Search run - Ceejay",
+};
+
+interface RunPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function RunPage({ params }: RunPageProps): Promise<React.JSX.Element> {
+  const { id } = await params;
+  await requireAdminPageSession(`/admin/runs/${encodeURIComponent(id)}`);
+  const supabase = getSupabaseServerClient();
+  const detail = await getSearchRunDetail(supabase, id);
+  if (!detail) {
+    notFound();
+  }
+
+  const { run, steps, results } = detail;
+  const [companies, conversation] = await Promise.all([
+    getCompaniesByIds(supabase, results.map((result) => result.company_id)),
+    run.user_id ? findConversation(supabase, run.user_id, run.session_id) : null,
+  ]);
+  const companyNames = Object.fromEntries(companies.map((company) => [company.id, company.company_name]));
+
+  return (
+    <main className="min-h-screen bg-background">
+      <AdminHeader backHref="/admin/runs" backLabel="All runs" />
+
+      <article className="mx-auto max-w-5xl space-y-8 px-8 py-8">
+        <header>
+          <p className="section-header mb-2">Search Run</p>
+          <h1 className="text-xl text-[var(--text-primary)]">{run.query_text}</h1>
+        </header>
+
+        <PropertyGrid
+          rows={[
+            { label: "Run id", value: <span className="font-mono text-xs">{run.id}</span> },
+            {
+              label: "Session",
+              value: conversation ? (
+                <Link href={`/?conversation=${encodeURIComponent(run.session_id)}`} className="hover:text-accent">
+                  <span className="font-mono text-xs">{run.session_id}</span> · {conversation.title}
+                </Link>
+              ) : (
+                <span className="font-mono text-xs">{run.session_id}</span>
+              ),
+            },
+            { label: "Started (UTC)", value: formatTimestamp(run.created_at) },
+            { label: "End reason", value: <EndReasonBadge endReason={run.end_reason} /> },
+            { label: "Latency", value: formatLatency(run.latency_ms) },
+            { label: "Model usage", value: formatUsage(run.input_tokens, run.output_tokens, run.cost_usd) },
+            { label: "Status scope", value: run.status_scope.join(", ") },
+            {
+              label: "Loop",
+              value: `${run.iteration_count} iterations · ${run.tool_call_count} tool calls · ${run.final_candidate_count} results`,
+            },
+          ]}
+        />
+
+        <section>
+          <p className="section-header mb-3">Replay</p>
+          <RunReplay runId={run.id} />
+        </section>
+
+        <section>
+          <p className="section-header mb-3">Steps</p>
+          <RunStepTimeline steps={steps} />
+        </section>
+
+        <section>
+          <p className="section-header mb-3">Final Results</p>
+          <RunResultsTable results={results} companyNames={companyNames} />
+        </section>
+      </article>
+    </main>
+  );
+}
@@ -0,0 +1,83 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+
+import { AdminHeader } from "@/components/admin/admin-header";
+import { RunFilters } from "@/components/admin/run-filters";
+import { RunTable } from "@/components/admin/run-table";
+import { EmptyState, ErrorState } from "@/components/ui/states";
+import { requireAdminPageSession } from "@/lib/auth/server";
+import {
+  listSearchRuns,
+  searchRunFiltersFromParams,
+  searchRunFiltersToParams,
+  type SearchRunRow,
+} from "@/lib/search/run-history";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Search runs - Ceejay",
+};
+
+const PAGE_SIZE = 50;
+
+interface RunsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function RunsPage({ searchParams }: RunsPageProps): Promise<React.JSX.Element> {
+  await requireAdminPageSession("/admin/runs");
+  const filters = searchRunFiltersFromParams(await searchParams);
+
+  let runs: SearchRunRow[] | null = null;
+  try {
+    runs = await listSearchRuns(getSupabaseServerClient(), { ...filters, limit: PAGE_SIZE });
+  } catch (error) {
+    console.error("[admin/runs] Failed to list runs", error);
+  }
+
+  const lastRun = runs?.at(-1);
+  const olderHref = runs?.length === PAGE_SIZE && lastRun
+    ? `/admin/runs?${searchRunFiltersToParams({ ...filters, before: lastRun.created_at })}`
+    : null;
+
+  return (
+    <main className="min-h-screen bg-background">
+      <AdminHeader backHref="/" backLabel="Search" />
+
+      <section className="mx-auto max-w-7xl space-y-6 px-8 py-8">
+        <header>
+          <p className="section-header mb-2">Search Runs</p>
+          <h1 className="text-xl text-[var(--text-primary)]">Recent chat searches</h1>
+        </header>
+
+        <RunFilters filters={filters} />
+
+        {runs === null ? (
+          <ErrorState title="Runs unavailable" description="Could not load search_runs. Check the Supabase connection." />
+        ) : runs.length === 0 ? (
+          <EmptyState title="No runs found" description="No search runs match these filters." />
+        ) : (
+          <>
+            <RunTable runs={runs} />
+            <div className="flex justify-between text-xs text-[var(--text-tertiary)]">
+              {filters.before ? (
+                <Link href={`/admin/runs?${searchRunFiltersToParams({ ...filters, before: undefined })}`} className="hover:text-[var(--text-primary)]">
+                  Newest runs
+                </Link>
+              ) : (
+                <span />
+              )}
+              {olderHref ? (
+                <Link href={olderHref} className="hover:text-[var(--text-primary)]">
+                  Older runs
+                </Link>
+              ) : null}
+            </div>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,45 @@
+import { replaySearchRun } from "@/lib/agent/run-replay";
+import { getAdminSession } from "@/lib/auth/server";
+import { jsonResponse } from "@/lib/http";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { checkUsageLimits, clientIp, limitExceededResponse, recordUsage } from "@/lib/usage/limits";
+import { getUsageLimits } from "@/lib/usage/server";
+import { createUsageMeter } from "@/lib/usage/usage-meter";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  // Non-admins get the same answer as for an unknown route, so the inspector is not advertised.
+  const session = await getAdminSession();
+  if (!session) {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+
+  const { id } = await params;
+  const runId = id.trim();
+  if (!runId) {
+    return jsonResponse({ error: "Missing run id" }, 400);
+  }
+
+  // A replay is a full chat search, so it is limited and charged to the admin like one.
+  const limits = getUsageLimits();
+  const limitSubject = { userId: session.user.id, ip: clientIp(request) };
+  const limitDecision = await checkUsageLimits(limits, "chat", limitSubject);
+  if (!limitDecision.allowed) {
+    return limitExceededResponse(limitDecision);
+  }
+  const usageMeter = createUsageMeter();
+
+  try {
+    const replay = await replaySearchRun(runId, { usageMeter });
+    if (!replay) {
+      return jsonResponse({ error: "Run not found" }, 404);
+    }
+    return jsonResponse(replay);
+  } catch (error) {
+    console.error("[api/admin/runs] Replay failed", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  } finally {
+    await recordUsage(limits, limitSubject, usageMeter.totals());
+  }
+}
@@ -0,0 +1,32 @@
+import { safeRedirectPath, signInRequestSchema } from "@/lib/auth/session";
+import { sendSignInLink } from "@/lib/auth/server";
+import { jsonResponse } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+/** `{ email, next? }` → `{ status: "sent" }`, or `{ status: "redirect", redirectTo }` with `AUTH_MODE=dev`. */
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  const parsed = signInRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: "Enter a valid email address." }, 400);
+  }
+
+  const origin = new URL(request.url).origin;
+  try {
+    const outcome = await sendSignInLink(parsed.data.email, {
+      origin,
+      next: safeRedirectPath(parsed.data.next, origin),
+    });
+    return jsonResponse(outcome);
+  } catch (error) {
+    console.error("[api/auth] Failed to start sign-in", error);
+    return jsonResponse({ error: "Could not send a sign-in link. Try again shortly." }, 502);
+  }
+}
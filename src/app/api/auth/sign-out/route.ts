@@ -0,0 +1,17 @@
+import { signOut } from "@/lib/auth/server";
+
+export const runtime = "nodejs";
+
+export async function POST(): Promise<Response> {
+  try {
+    await signOut();
+  } catch (error) {
+    // The cookies are already cleared; a failed revoke only leaves the refresh token to expire.
+    console.error("[api/auth] Sign-out failed", error);
+  }
+
+  return new Response(JSON.stringify({ signedOut: true }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,487 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createInMemorySupabase, type InMemorySupabase } from "@/lib/mock/in-memory-supabase";
+import {
+  callTool,
+  createScriptedModelProvider,
+  fetchDetailsForResults,
+  finalizeWithResults,
+  type ModelScript,
+  type ScriptedModelProvider,
+} from "@/lib/mock/scripted-models";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { createInMemoryLimitStore } from "@/lib/usage/limit-store";
+import { BUDGET_EXCEEDED_MESSAGE, RATE_LIMITED_MESSAGE, type UsageLimitConfig, type UsageLimits } from "@/lib/usage/limits";
+import type { ChatMessage } from "@/types/chat";
+
+const USER_ID = "5b0f3a7e-2c1d-4e8f-9a6b-3d2c1b0a9f8e";
+
+const harness = vi.hoisted(() => ({
+  supabase: null as InMemorySupabase | null,
+  models: null as ScriptedModelProvider | null,
+  /** Signed-in user for the next request; null means signed out. */
+  userId: null as string | null,
+  limits: null as UsageLimits | null,
+}));
+
+vi.mock("@/lib/supabase/server", () => ({
+  getSupabaseServerClient: () => {
+    if (!harness.supabase) {
+      throw new Error("In-memory Supabase not installed");
+    }
+    return harness.supabase.client;
+  },
+}));
+
+vi.mock("@/lib/auth/server", () => ({
+  getAuthSession: async () =>
+    harness.userId && harness.supabase
+      ? { user: { id: harness.userId, email: "dana@example.com" }, supabase: harness.supabase.client }
+      : null,
+}));
+
+vi.mock("@/lib/models/server", () => ({
+  getModelProvider: () => {
+    if (!harness.models) {
+      throw new Error("Scripted models not installed");
+    }
+    return harness.models;
+  },
+}));
+
+vi.mock("@/lib/usage/server", () => ({
+  getUsageLimits: () => {
+    if (!harness.limits) {
+      throw new Error("Usage limits not installed");
+    }
+    return harness.limits;
+  },
+}));
+
+const { POST } = await import("@/app/api/chat/route");
+
+interface StreamEvent {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+interface FinalAnswerData {
+  content: string;
+  references: Array<{ companyId: string }>;
+  statusScope?: string[];
+  telemetry: { endReason: string; iterationCount: number };
+}
+
+const UNLIMITED: UsageLimitConfig = {
+  rateLimits: { chat: { limit: 100, windowMs: 60_000 }, resume: { limit: 100, windowMs: 3_600_000 }, resume_search: { limit: 100, windowMs: 3_600_000 } },
+  dailyUserTokenBudget: null,
+  dailyUserCostBudgetUsd: null,
+  dailyTotalCostBudgetUsd: null,
+};
+
+function install(script: ModelScript, limits: Partial<UsageLimitConfig> = {}): InMemorySupabase {
+  harness.supabase = createInMemorySupabase();
+  harness.models = createScriptedModelProvider(script);
+  harness.userId = USER_ID;
+  harness.limits = { store: createInMemoryLimitStore(), config: { ...UNLIMITED, ...limits } };
+  return harness.supabase;
+}
+
+function userMessage(content: string): ChatMessage {
+  return { id: crypto.randomUUID(), role: "user", content, createdAt: "2025-01-01T00:00:00.000Z" };
+}
+
+async function postChat(body: unknown, signal?: AbortSignal): Promise<{ response: Response; events: StreamEvent[] }> {
+  const response = await POST(
+    new Request("http://localhost/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    })
+  );
+  const text = await response.text();
+  const events = text
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as StreamEvent);
+  return { response, events };
+}
+
+function finalAnswer(events: StreamEvent[]): FinalAnswerData {
+  const last = events.at(-1);
+  expect(last?.type).toBe("final_answer");
+  return last?.data as unknown as FinalAnswerData;
+}
+
+function referenceIds(answer: FinalAnswerData): string[] {
+  return answer.references.map((reference) => reference.companyId);
+}
+
+function activityDetail(events: StreamEvent[], id: string): string | undefined {
+  return events.find((event) => event.type === "activity" && event.data.id === id)?.data.detail as string | undefined;
+}
+
+function searchRun(supabase: InMemorySupabase): Record<string, unknown> | undefined {
+  return supabase.tables.get("search_runs")?.[0];
+}
+
+function rpcArgs(supabase: InMemorySupabase, fn: string): Record<string, unknown>[] {
+  return supabase.rpcCalls.filter((call) => call.fn === fn).map((call) => call.args);
+}
+
+const searchAndFinalize = (query: string, keywords: string) => [
+  callTool("search_semantic", { query }),
+  callTool("search_keyword", { keywords }),
+  fetchDetailsForResults(),
+  finalizeWithResults(),
+];
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  harness.supabase = null;
+  harness.models = null;
+  harness.userId = null;
+  harness.limits = null;
+});
+
+describe("POST /api/chat request modes", () => {
+  it("rejects requests without a session", async () => {
+    const supabase = install({});
+    harness.userId = null;
+
+    const { response } = await postChat({ messages: [userMessage("ai agents")], sessionId: "session-anonymous" });
+
+    expect(response.status).toBe(401);
+    expect(supabase.tables.get("search_runs")).toBeUndefined();
+  });
+
+  it("streams activity, partial text and a final answer for a new search", async () => {
+    const supabase = install({
+      agent: searchAndFinalize("real-time accent translation for contact centers", "accent translation speech"),
+      summary: "Sanas leads for accent translation.",
+    });
+
+    const { response, events } = await postChat({
+      messages: [userMessage("AI accent translation for contact centers")],
+      sessionId: "session-new",
+    });
+
+    expect(response.headers.get("Content-Type")).toContain("application/x-ndjson");
+    expect(events[0]).toMatchObject({ type: "activity", data: { id: "agent-start" } });
+    expect(activityDetail(events, "agent-start")).toContain("Mode: new");
+    expect(events.filter((event) => event.type === "activity").map((event) => event.data.label)).toEqual(
+      expect.arrayContaining(["Semantic search", "Keyword search", "Getting company details", "Finalizing results"])
+    );
+    const partialTexts = events.filter((event) => event.type === "partial_text").map((event) => event.data.text);
+    expect(partialTexts.length).toBeGreaterThan(1);
+    expect(partialTexts.join("")).toBe("Sanas leads for accent translation.");
+    const types = events.map((event) => event.type);
+    expect(types.indexOf("preliminary_results")).toBeLessThan(types.indexOf("partial_text"));
+    const preliminary = events.find((event) => event.type === "preliminary_results")?.data as {
+      references: Array<{ companyId: string; companyName: string }>;
+      companiesById: Record<string, unknown>;
+    };
+    expect(preliminary.references.length).toBeGreaterThan(0);
+    expect(preliminary.references.every((reference) => reference.companyName && preliminary.companiesById[reference.companyId])).toBe(true);
+
+    const answer = finalAnswer(events);
+    expect(answer.content).toBe("Sanas leads for accent translation.");
+    expect(referenceIds(answer)[0]).toBe("sanas-ai");
+    expect(answer.telemetry.endReason).toBe("confidence_met");
+    expect(searchRun(supabase)).toMatchObject({ session_id: "session-new", user_id: USER_ID, end_reason: "confidence_met" });
+    expect(supabase.tables.get("search_run_results")).toHaveLength(answer.references.length);
+    expect(supabase.tables.get("conversations")?.[0]).toMatchObject({
+      id: "session-new",
+      user_id: USER_ID,
+      title: "AI accent translation for contact centers",
+      previous_candidate_ids: referenceIds(answer),
+    });
+    expect(supabase.tables.get("conversation_messages")?.map((row) => [row.role, row.run_id])).toEqual([
+      ["user", null],
+      ["assistant", searchRun(supabase)?.id],
+    ]);
+  });
+
+  it("excludes previously shown companies when asking for more", async () => {
+    const supabase = install({ agent: searchAndFinalize("ai compliance automation", "compliance screening") });
+
+    const { events } = await postChat({
+      messages: [userMessage("AI compliance automation for banks"), userMessage("Show me more")],
+      clientContext: { previousCandidateIds: ["sandbar-ai"] },
+      sessionId: "session-more",
+    });
+
+    expect(activityDetail(events, "agent-start")).toContain("Mode: more");
+    expect(rpcArgs(supabase, "search_companies_hybrid_v1")[0].p_exclude_ids).toEqual(["sandbar-ai"]);
+    const ids = referenceIds(finalAnswer(events));
+    expect(ids.length).toBeGreaterThan(0);
+    expect(ids).not.toContain("sandbar-ai");
+  });
+
+  it("keeps the status scope picked in the UI over one named in the message", async () => {
+    const supabase = install({ agent: searchAndFinalize("fraud prevention", "fraud prevention") });
+
+    const { events } = await postChat({
+      messages: [userMessage("fraud prevention startups that were acquired")],
+      clientContext: { statusScope: ["startup", "ipoed"], statusScopeSelected: true },
+      sessionId: "session-scope",
+    });
+
+    expect(finalAnswer(events).statusScope).toEqual(["startup", "ipoed"]);
+    expect(searchRun(supabase)?.status_scope).toEqual(["startup", "ipoed"]);
+  });
+
+  it("keeps filter requests inside the previous result set", async () => {
+    const previous = ["sandbar-ai", "ropes-ai", "sanas-ai"];
+    install({
+      agent: [callTool("search_keyword", { keywords: "fraud prevention" }), fetchDetailsForResults(), finalizeWithResults()],
+    });
+
+    const { events } = await postChat({
+      messages: [userMessage("Filter those to fraud prevention")],
+      clientContext: { previousCandidateIds: previous },
+      sessionId: "session-filter",
+    });
+
+    expect(activityDetail(events, "agent-start")).toContain("Mode: filter");
+    const ids = referenceIds(finalAnswer(events));
+    expect(ids.length).toBeGreaterThan(0);
+    expect(ids.every((id) => previous.includes(id))).toBe(true);
+  });
+
+  it("anchors similar searches on the selected company and never returns it", async () => {
+    const supabase = install({
+      agent: [
+        callTool("search_similar", { companyId: "sakana-ai" }),
+        callTool("search_semantic", { query: "ai infrastructure machine learning platform" }),
+        fetchDetailsForResults(),
+        finalizeWithResults(),
+      ],
+    });
+
+    const { events } = await postChat({
+      messages: [userMessage("More companies like Sakana AI")],
+      clientContext: { similarToCompanyId: "sakana-ai" },
+      sessionId: "session-similar",
+    });
+
+    expect(activityDetail(events, "agent-start")).toContain("Mode: similar");
+    expect(rpcArgs(supabase, "search_similar_companies_v1")[0]).toMatchObject({ p_company_id: "sakana-ai" });
+    expect(rpcArgs(supabase, "search_companies_hybrid_v1")[0].p_exclude_ids).toEqual(["sakana-ai"]);
+    const ids = referenceIds(finalAnswer(events));
+    expect(ids.length).toBeGreaterThan(0);
+    expect(ids).not.toContain("sakana-ai");
+  });
+});
+
+describe("POST /api/chat clarification", () => {
+  it("pauses on a clarification request and resumes the same run with the selection", async () => {
+    const supabase = install({
+      agent: [
+        callTool("search_semantic", { query: "ai agents" }),
+        callTool("clarify_with_user", {
+          question: "Which kind of AI agents?",
+          options: [
+            { label: "Research", description: "Agent research labs", selection: "Multi-agent AI research labs" },
+            { label: "Security", description: "Agent identity", selection: "Security for AI agent identities" },
+          ],
+        }),
+        { text: "Waiting for the user to choose." },
+        callTool("search_keyword", { keywords: "multi-agent research" }),
+        fetchDetailsForResults(),
+        finalizeWithResults(),
+      ],
+    });
+
+    const first = await postChat({ messages: [userMessage("ai agents")], sessionId: "session-clarify" });
+
+    expect(first.events.at(-1)).toMatchObject({
+      type: "clarification_request",
+      data: { question: "Which kind of AI agents?" },
+    });
+    expect(supabase.tables.get("pending_clarifications")).toHaveLength(1);
+
+    const resumed = await postChat({
+      type: "clarification_response",
+      sessionId: "session-clarify",
+      selection: "Multi-agent AI research labs",
+    });
+
+    expect(activityDetail(resumed.events, "resume")).toContain("Multi-agent AI research labs");
+    const answer = finalAnswer(resumed.events);
+    expect(referenceIds(answer)).toContain("sakana-ai");
+    expect(answer.telemetry.iterationCount).toBe(2);
+    expect(supabase.tables.get("pending_clarifications")).toHaveLength(0);
+    expect(supabase.tables.get("search_runs")).toHaveLength(1);
+    expect(supabase.tables.get("conversation_messages")?.map((row) => [row.position, row.role, row.content])).toEqual([
+      [0, "user", "ai agents"],
+      [1, "user", "I want: Multi-agent AI research labs"],
+      [2, "assistant", answer.content],
+    ]);
+  });
+
+  it("only lets the user who started a run answer its clarification", async () => {
+    const supabase = install({
+      agent: [
+        callTool("search_semantic", { query: "ai agents" }),
+        callTool("clarify_with_user", {
+          question: "Which kind of AI agents?",
+          options: [
+            { label: "Research", description: "Agent research labs", selection: "Multi-agent AI research labs" },
+            { label: "Security", description: "Agent identity", selection: "Security for AI agent identities" },
+          ],
+        }),
+        { text: "Waiting for the user to choose." },
+      ],
+    });
+    const first = await postChat({ messages: [userMessage("ai agents")], sessionId: "session-owned" });
+    expect(first.events.at(-1)?.type).toBe("clarification_request");
+
+    harness.userId = "0a9f8e7d-6c5b-4a3f-8e2d-1c0b9a8f7e6d";
+    const { events } = await postChat({
+      type: "clarification_response",
+      sessionId: "session-owned",
+      selection: "Multi-agent AI research labs",
+    });
+
+    expect(finalAnswer(events).content).toBe("Session expired. Please start a new search.");
+    expect(supabase.tables.get("search_runs")).toHaveLength(1);
+    expect(supabase.tables.get("pending_clarifications"), "the owner can still answer").toHaveLength(1);
+  });
+
+  it("reports an expired session when no clarification is pending", async () => {
+    install({});
+
+    const { events } = await postChat({ type: "clarification_response", sessionId: "missing", selection: "anything" });
+
+    expect(finalAnswer(events).content).toBe("Session expired. Please start a new search.");
+  });
+});
+
+describe("POST /api/chat degraded runs", () => {
+  it("returns the unavailable message when the run exceeds its time budget", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const supabase = install({
+      agent: [
+        () => {
+          // Jump past the 240s runtime budget; the check runs when this step finishes.
+          vi.setSystemTime(Date.now() + 241_000);
+          return callTool("search_keyword", { keywords: "accent translation" });
+        },
+      ],
+    });
+
+    const { events } = await postChat({
+      messages: [userMessage("AI accent translation for contact centers")],
+      sessionId: "session-timeout",
+    });
+
+    const answer = finalAnswer(events);
+    expect(answer.content).toBe(SEARCH_UNAVAILABLE_MESSAGE);
+    expect(answer.references).toEqual([]);
+    expect(answer.telemetry.endReason).toBe("error");
+    expect(searchRun(supabase)).toMatchObject({ end_reason: "error" });
+  });
+
+  it("ranks gathered candidates deterministically when the agent never finalizes", async () => {
+    install({
+      agent: [
+        callTool("search_semantic", { query: "maritime emissions analytics" }),
+        callTool("search_keyword", { keywords: "vessel emissions" }),
+        fetchDetailsForResults(),
+      ],
+    });
+
+    const { events } = await postChat({
+      messages: [userMessage("Maritime emissions tracking for shipping fleets")],
+      sessionId: "session-no-finalize",
+    });
+
+    const answer = finalAnswer(events);
+    expect(referenceIds(answer)).toContain("sailplan-com");
+    expect(answer.telemetry.endReason).toBe("confidence_met");
+  });
+
+  it("falls back with guidance when the agent stops before fetching details", async () => {
+    const supabase = install({ agent: [] });
+
+    const { events } = await postChat({
+      messages: [userMessage("Maritime emissions tracking for shipping fleets")],
+      sessionId: "session-fallback",
+    });
+
+    const answer = finalAnswer(events);
+    expect(answer.content).toMatch(/^Search incomplete/);
+    expect(answer.references).toEqual([]);
+    expect(searchRun(supabase)).toMatchObject({ end_reason: "guardrail_hit" });
+  });
+});
+
+describe("POST /api/chat cancellation", () => {
+  it("stops the run when the client disconnects and records it as cancelled", async () => {
+    const client = new AbortController();
+    const supabase = install({
+      agent: [
+        callTool("search_semantic", { query: "maritime emissions analytics" }),
+        () => {
+          client.abort();
+          return callTool("search_keyword", { keywords: "vessel emissions" });
+        },
+        fetchDetailsForResults(),
+        finalizeWithResults(),
+      ],
+    });
+
+    const { events } = await postChat(
+      { messages: [userMessage("Maritime emissions tracking for shipping fleets")], sessionId: "session-stopped" },
+      client.signal
+    );
+
+    expect(events.map((event) => event.type)).not.toContain("final_answer");
+    expect(events.map((event) => event.type)).not.toContain("error");
+    expect(rpcArgs(supabase, "search_companies_keyword_v1")).toEqual([]);
+    expect(rpcArgs(supabase, "get_companies_by_ids_v1")).toEqual([]);
+    expect(searchRun(supabase)).toMatchObject({ end_reason: "cancelled", tool_call_count: 2 });
+  });
+});
+
+describe("POST /api/chat usage limits", () => {
+  it("records token usage on the run and refuses requests once the daily budget is spent", async () => {
+    const supabase = install(
+      { agent: searchAndFinalize("ai compliance automation", "compliance screening") },
+      { dailyUserTokenBudget: 100 }
+    );
+
+    await postChat({ messages: [userMessage("AI compliance automation for banks")], sessionId: "session-budget" });
+
+    expect(Number(searchRun(supabase)?.input_tokens)).toBeGreaterThan(100);
+    expect(Number(searchRun(supabase)?.output_tokens)).toBeGreaterThan(0);
+
+    const { response, events } = await postChat({ messages: [userMessage("Show me more")], sessionId: "session-budget" });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toMatch(/^\d+$/);
+    expect(events).toEqual([{ type: "error", data: { message: BUDGET_EXCEEDED_MESSAGE, code: "budget_exceeded" } }]);
+    expect(supabase.tables.get("search_runs")).toHaveLength(1);
+  });
+
+  it("rate limits chat requests per user", async () => {
+    install({ agent: [] }, { rateLimits: { ...UNLIMITED.rateLimits, chat: { limit: 1, windowMs: 60_000 } } });
+
+    const first = await postChat({ messages: [userMessage("ai agents")], sessionId: "session-rate-1" });
+    const second = await postChat({ messages: [userMessage("ai agents")], sessionId: "session-rate-2" });
+
+    expect(first.response.status).toBe(200);
+    expect(second.response.status).toBe(429);
+    expect(second.events[0]).toEqual({ type: "error", data: { message: RATE_LIMITED_MESSAGE, code: "rate_limited" } });
+  });
+});
@@ -1,6 +1,19 @@
 import type { ChatMessage, ClarificationRequestData } from "@/types/chat";
 import { runAgenticSearch, resumeAgentWithClarification } from "@/lib/agent/agentic-orchestrator";
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE, type AuthSession } from "@/lib/auth/session";
+import {
+  appendConversationMessages,
+  type ConversationMessageInput,
+  type ConversationTurn,
+} from "@/lib/conversations/conversations";
+import { jsonResponse } from "@/lib/http";
+import { normalizeStatusScope } from "@/lib/search/status-scope";
+import type { FinalAnswerPayload } from "@/lib/search/types";
 import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { checkUsageLimits, clientIp, limitExceededResponse, recordUsage } from "@/lib/usage/limits";
+import { getUsageLimits } from "@/lib/usage/server";
+import { createUsageMeter } from "@/lib/usage/usage-meter";
 
 export const runtime = "nodejs";
 
@@ -8,6 +21,9 @@ type ChatRequestBody = {
   messages: ChatMessage[];
   clientContext?: {
     previousCandidateIds?: string[];
+    statusScope?: string[];
+    statusScopeSelected?: boolean;
+    similarToCompanyId?: string;
   };
   sessionId?: string;
 };
@@ -28,14 +44,82 @@ function encodeEvent(value: unknown): Uint8Array {
   return new TextEncoder().encode(`${JSON.stringify(value)}\n`);
 }
 
+/**
+ * When the client stops a search, `signal` aborts and the response stream is cancelled under us;
+ * events sent after that are dropped, and closing twice is harmless.
+ */
+function createEventWriter(controller: ReadableStreamDefaultController<Uint8Array>, signal: AbortSignal) {
+  let closed = false;
+  return {
+    send(event: unknown): void {
+      if (!closed && !signal.aborted) {
+        controller.enqueue(encodeEvent(event));
+      }
+    },
+    close(): void {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      try {
+        controller.close();
+      } catch {
+        // Already cancelled by the client.
+      }
+    },
+  };
+}
+
+function answerMessage(result: FinalAnswerPayload): ConversationMessageInput {
+  return {
+    role: "assistant",
+    content: result.content,
+    references: result.references,
+    runId: result.telemetry.endReason !== "error" ? result.telemetry.runId : null,
+  };
+}
+
+function answerContext(result: FinalAnswerPayload): Pick<ConversationTurn, "statusScope" | "previousCandidateIds"> {
+  return {
+    statusScope: result.telemetry.statusScope ? normalizeStatusScope(result.telemetry.statusScope) : undefined,
+    previousCandidateIds: result.references.map((reference) => reference.companyId),
+  };
+}
+
+/** History is best-effort: a failed write is logged and never fails the chat response. */
+async function recordConversationTurn(session: AuthSession, sessionId: string, turn: ConversationTurn): Promise<void> {
+  try {
+    await appendConversationMessages(session.supabase, session.user.id, sessionId, turn);
+  } catch (error) {
+    console.error("[api/chat] Failed to save conversation", error);
+  }
+}
+
 export async function POST(request: Request): Promise<Response> {
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
   const body = (await request.json()) as RequestBody;
+  const sessionId = isClarificationResponse(body) ? body.sessionId : body.sessionId ?? crypto.randomUUID();
+
+  const limits = getUsageLimits();
+  const limitSubject = { userId: session.user.id, sessionId, ip: clientIp(request) };
+  const limitDecision = await checkUsageLimits(limits, "chat", limitSubject);
+  if (!limitDecision.allowed) {
+    return limitExceededResponse(limitDecision);
+  }
+  const usageMeter = createUsageMeter();
 
   // Handle clarification response (resume agent)
   if (isClarificationResponse(body)) {
     let clarificationData: ClarificationRequestData | null = null;
+    // Mirrors the message the client shows for the selection.
+    const selectionMessage: ConversationMessageInput = { role: "user", content: `I want: ${body.selection}` };
     const stream = new ReadableStream<Uint8Array>({
       async start(controller) {
+        const events = createEventWriter(controller, request.signal);
         try {
           const result = await resumeAgentWithClarification(
             body.sessionId,
@@ -44,11 +128,17 @@ export async function POST(request: Request): Promise<Response> {
               messages: [],
               clientContext: { previousCandidateIds: [] },
               sessionId: body.sessionId,
+              userId: session.user.id,
+              usageMeter,
+              abortSignal: request.signal,
               onActivity: async (event) => {
-                controller.enqueue(encodeEvent({ type: "activity", data: event }));
+                events.send({ type: "activity", data: event });
+              },
+              onPreliminaryResults: async (data) => {
+                events.send({ type: "preliminary_results", data });
               },
               onPartialText: async (text) => {
-                controller.enqueue(encodeEvent({ type: "partial_text", data: { text } }));
+                events.send({ type: "partial_text", data: { text } });
               },
               onClarificationRequest: (data) => {
                 clarificationData = data;
@@ -56,39 +146,47 @@ export async function POST(request: Request): Promise<Response> {
             }
           );
 
+          if (result?.telemetry.endReason === "cancelled") {
+            await recordConversationTurn(session, body.sessionId, { messages: [selectionMessage] });
+            return;
+          }
+
           if (result === null && clarificationData) {
-            controller.enqueue(
-              encodeEvent({
-                type: "clarification_request",
-                data: clarificationData,
-              })
-            );
-            controller.close();
+            events.send({
+              type: "clarification_request",
+              data: clarificationData,
+            });
+            await recordConversationTurn(session, body.sessionId, { messages: [selectionMessage] });
+            events.close();
             return;
           }
 
           if (!result) {
-            controller.enqueue(encodeEvent({ type: "error", data: { message: SEARCH_UNAVAILABLE_MESSAGE } }));
-            controller.close();
+            events.send({ type: "error", data: { message: SEARCH_UNAVAILABLE_MESSAGE } });
+            events.close();
             return;
           }
 
-          controller.enqueue(
-            encodeEvent({
-              type: "final_answer",
-              data: {
-                content: result.content,
-                references: result.references,
-                companiesById: result.companiesById,
-                telemetry: result.telemetry,
-              },
-            })
-          );
+          events.send({
+            type: "final_answer",
+            data: {
+              content: result.content,
+              references: result.references,
+              companiesById: result.companiesById,
+              statusScope: result.telemetry.statusScope,
+              telemetry: result.telemetry,
+            },
+          });
+          await recordConversationTurn(session, body.sessionId, {
+            messages: [selectionMessage, answerMessage(result)],
+            ...answerContext(result),
+          });
         } catch (error) {
           console.error("[api/chat] Failed to resume search", error);
-          controller.enqueue(encodeEvent({ type: "error", data: { message: SEARCH_UNAVAILABLE_MESSAGE } }));
+          events.send({ type: "error", data: { message: SEARCH_UNAVAILABLE_MESSAGE } });
         } finally {
-          controller.close();
+          await recordUsage(limits, limitSubject, usageMeter.totals());
+          events.close();
         }
       },
     });
@@ -103,62 +201,89 @@ export async function POST(request: Request): Promise<Response> {
   }
 
   // Handle initial search request
-  const sessionId = body.sessionId ?? crypto.randomUUID();
   const messages = body.messages ?? [];
   const previousCandidateIds = body.clientContext?.previousCandidateIds ?? [];
+  const statusScope = normalizeStatusScope(body.clientContext?.statusScope);
+  const statusScopeSelected = body.clientContext?.statusScopeSelected === true;
+  const similarToCompanyId = body.clientContext?.similarToCompanyId?.trim() || undefined;
+  const latestMessage = messages.at(-1);
+  const userTurn: ConversationMessageInput[] =
+    latestMessage?.role === "user" ? [{ role: "user", content: latestMessage.content }] : [];
+  const history: ConversationMessageInput[] = messages.slice(0, userTurn.length ? -1 : undefined).map((message) => ({
+    role: message.role,
+    content: message.content,
+    references: message.references,
+  }));
 
   // Track if we've sent a clarification request
   let clarificationData: ClarificationRequestData | null = null;
 
   const stream = new ReadableStream<Uint8Array>({
     async start(controller) {
+      const events = createEventWriter(controller, request.signal);
       try {
         const result = await runAgenticSearch({
           messages,
           sessionId,
-          clientContext: { previousCandidateIds },
+          userId: session.user.id,
+          usageMeter,
+          abortSignal: request.signal,
+          clientContext: { previousCandidateIds, statusScope, statusScopeSelected, similarToCompanyId },
           onActivity: async (event) => {
-            controller.enqueue(encodeEvent({ type: "activity", data: event }));
+            events.send({ type: "activity", data: event });
+          },
+          onPreliminaryResults: async (data) => {
+            events.send({ type: "preliminary_results", data });
           },
           onPartialText: async (text) => {
-            controller.enqueue(encodeEvent({ type: "partial_text", data: { text } }));
+            events.send({ type: "partial_text", data: { text } });
           },
           onClarificationRequest: (data) => {
             clarificationData = data;
           },
         });
 
+        // The client stopped the search: keep its question in history, there is no answer to send
+        if (result?.telemetry.endReason === "cancelled") {
+          await recordConversationTurn(session, sessionId, { messages: userTurn, history, statusScope });
+          return;
+        }
+
         // If result is null, it means we're waiting for clarification
         if (result === null && clarificationData) {
-          controller.enqueue(
-            encodeEvent({
-              type: "clarification_request",
-              data: clarificationData,
-            })
-          );
+          events.send({
+            type: "clarification_request",
+            data: clarificationData,
+          });
+          await recordConversationTurn(session, sessionId, { messages: userTurn, history, statusScope });
           // Don't close the stream yet - the client will resume with a new request
-          controller.close();
+          events.close();
           return;
         }
 
         if (result) {
-          controller.enqueue(
-            encodeEvent({
-              type: "final_answer",
-              data: {
-                content: result.content,
-                references: result.references,
-                companiesById: result.companiesById,
-                telemetry: result.telemetry,
-              },
-            })
-          );
+          events.send({
+            type: "final_answer",
+            data: {
+              content: result.content,
+              references: result.references,
+              companiesById: result.companiesById,
+              statusScope: result.telemetry.statusScope,
+              telemetry: result.telemetry,
+            },
+          });
+          await recordConversationTurn(session, sessionId, {
+            messages: [...userTurn, answerMessage(result)],
+            history,
+            ...answerContext(result),
+          });
         }
       } catch (error) {
         console.error("[api/chat] Failed to run search", error);
-        controller.enqueue(encodeEvent({ type: "error", data: { message: SEARCH_UNAVAILABLE_MESSAGE } }));
+        events.send({ type: "error", data: { message: SEARCH_UNAVAILABLE_MESSAGE } });
       } finally {
-        controller.close();
+        await recordUsage(limits, limitSubject, usageMeter.totals());
+        events.close();
       }
     },
   });
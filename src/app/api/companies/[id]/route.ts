@@ -0,0 +1,25 @@
+import { jsonResponse } from "@/lib/http";
+import { getCompanyById } from "@/lib/search/rpc";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const companyId = id.trim();
+  if (!companyId) {
+    return jsonResponse({ error: "Missing company id" }, 400);
+  }
+
+  try {
+    const company = await getCompanyById(getSupabaseServerClient(), companyId);
+    if (!company) {
+      return jsonResponse({ error: "Company not found" }, 404);
+    }
+    return jsonResponse({ company });
+  } catch (error) {
+    console.error("[api/companies] Failed to load company", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
@@ -0,0 +1,51 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { deleteConversation, restoreConversation } from "@/lib/conversations/conversations";
+import { jsonResponse } from "@/lib/http";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+interface ConversationRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Returns `{ conversation, messages, lastRunId, companiesById }`. */
+export async function GET(_request: Request, { params }: ConversationRouteContext): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const restored = await restoreConversation(session.supabase, session.user.id, id.trim(), getSupabaseServerClient());
+    if (!restored) {
+      return jsonResponse({ error: "Conversation not found" }, 404);
+    }
+    return jsonResponse(restored);
+  } catch (error) {
+    console.error("[api/conversations] Failed to load conversation", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: ConversationRouteContext): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const deleted = await deleteConversation(session.supabase, session.user.id, id.trim());
+    if (!deleted) {
+      return jsonResponse({ error: "Conversation not found" }, 404);
+    }
+    return jsonResponse({ deleted: true });
+  } catch (error) {
+    console.error("[api/conversations] Failed to delete conversation", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
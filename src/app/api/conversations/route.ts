@@ -0,0 +1,23 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { listConversations } from "@/lib/conversations/conversations";
+import { jsonResponse } from "@/lib/http";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+
+export const runtime = "nodejs";
+
+/** Most recently active conversations, without their messages. */
+export async function GET(): Promise<Response> {
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const conversations = await listConversations(session.supabase, session.user.id);
+    return jsonResponse({ conversations });
+  } catch (error) {
+    console.error("[api/conversations] Failed to load conversations", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
@@ -0,0 +1,33 @@
+import { getServerEnv } from "@/lib/env";
+import { jsonResponse } from "@/lib/http";
+import { embedSearchQuery } from "@/lib/models/server";
+import { rerunDueSavedSearches } from "@/lib/search/saved-searches";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Scheduled re-run of due saved searches; the scheduler sends `Authorization: Bearer $CRON_SECRET`. */
+export async function GET(request: Request): Promise<Response> {
+  const secret = getServerEnv().CRON_SECRET;
+  if (!secret) {
+    console.error("[api/cron/saved-searches] CRON_SECRET is not set; refusing to run");
+    return jsonResponse({ error: "Scheduled runs are not configured" }, 503);
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const outcomes = await rerunDueSavedSearches(getSupabaseServerClient(), { embedQuery: embedSearchQuery });
+    return jsonResponse({
+      ran: outcomes.length,
+      failed: outcomes.filter((outcome) => outcome.status === "error").length,
+      outcomes,
+    });
+  } catch (error) {
+    console.error("[api/cron/saved-searches] Scheduled re-run failed", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
@@ -0,0 +1,102 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE, type AuthSession } from "@/lib/auth/session";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportCompanyIds,
+  exportFilename,
+  exportRequestSchema,
+  referenceGroupsFromReferences,
+  referenceGroupsFromResume,
+  referenceGroupsFromRunResults,
+  resolveExportGroups,
+  serializeExport,
+  type ExportReferenceGroup,
+} from "@/lib/export/results-export";
+import { jsonResponse } from "@/lib/http";
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import { getSearchRunDetail } from "@/lib/search/run-history";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+async function handleExport(session: AuthSession, input: unknown): Promise<Response> {
+  const parsed = exportRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return jsonResponse(
+      {
+        error: parsed.error.issues
+          .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+          .join("; "),
+      },
+      400
+    );
+  }
+
+  const request = parsed.data;
+  const supabase = getSupabaseServerClient();
+  try {
+    let title: string;
+    let groups: ExportReferenceGroup[];
+    if (request.runId) {
+      const detail = await getSearchRunDetail(supabase, request.runId);
+      if (!detail || detail.run.user_id !== session.user.id) {
+        return jsonResponse({ error: "Run not found" }, 404);
+      }
+      title = request.title || detail.run.query_text;
+      groups = referenceGroupsFromRunResults(title, detail.results);
+    } else if (request.resume) {
+      title = request.title || "Resume matches";
+      groups = referenceGroupsFromResume(request.resume);
+    } else {
+      title = request.title || "Search results";
+      groups = referenceGroupsFromReferences(title, request.references ?? []);
+    }
+
+    const companies = await getCompaniesByIds(supabase, exportCompanyIds(groups));
+    const resolved = resolveExportGroups(groups, new Map(companies.map((company) => [company.id, company])));
+    const exportedAt = new Date().toISOString();
+
+    return new Response(serializeExport(request.format, title, resolved, exportedAt), {
+      status: 200,
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[request.format],
+        "Content-Disposition": `attachment; filename="${exportFilename(title, request.format, exportedAt)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[api/export] Export failed", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+/** `GET /api/export?runId=...&format=csv`: linkable export of a persisted chat run. */
+export async function GET(request: Request): Promise<Response> {
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  const params = new URL(request.url).searchParams;
+  return handleExport(session, {
+    format: params.get("format") ?? "csv",
+    title: params.get("title") ?? undefined,
+    runId: params.get("runId") ?? undefined,
+  });
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  return handleExport(session, body);
+}
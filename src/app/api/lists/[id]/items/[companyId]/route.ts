@@ -0,0 +1,62 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { listItemUpdateSchema, removeCompanyFromList, updateListItem } from "@/lib/lists/company-lists";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+
+export const runtime = "nodejs";
+
+interface ListItemRouteContext {
+  params: Promise<{ id: string; companyId: string }>;
+}
+
+/** Updates notes, tags or status of a company on the list. */
+export async function PATCH(request: Request, { params }: ListItemRouteContext): Promise<Response> {
+  const { id, companyId } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  const parsed = listItemUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") }, 400);
+  }
+
+  try {
+    const item = await updateListItem(session.supabase, session.user.id, id, companyId, parsed.data);
+    if (!item) {
+      return jsonResponse({ error: "List item not found" }, 404);
+    }
+    return jsonResponse({ item });
+  } catch (error) {
+    console.error("[api/lists] Failed to update list item", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: ListItemRouteContext): Promise<Response> {
+  const { id, companyId } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const removed = await removeCompanyFromList(session.supabase, session.user.id, id, companyId);
+    if (!removed) {
+      return jsonResponse({ error: "List item not found" }, 404);
+    }
+    return jsonResponse({ removed: true });
+  } catch (error) {
+    console.error("[api/lists] Failed to remove company", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
@@ -0,0 +1,48 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { addCompanyToList, getCompanyList, listItemInputSchema } from "@/lib/lists/company-lists";
+import { getCompanyById } from "@/lib/search/rpc";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+/** Adds `{ companyId, notes?, tags?, status? }` to the list; re-adding updates the given fields. */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  const parsed = listItemInputSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") }, 400);
+  }
+
+  try {
+    const [detail, company] = await Promise.all([
+      getCompanyList(session.supabase, session.user.id, id.trim()),
+      getCompanyById(getSupabaseServerClient(), parsed.data.companyId),
+    ]);
+    if (!detail) {
+      return jsonResponse({ error: "List not found" }, 404);
+    }
+    if (!company) {
+      return jsonResponse({ error: "Company not found" }, 404);
+    }
+    const item = await addCompanyToList(session.supabase, session.user.id, detail.list.id, parsed.data);
+    return jsonResponse({ item }, 201);
+  } catch (error) {
+    console.error("[api/lists] Failed to add company", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
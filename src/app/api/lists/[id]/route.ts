@@ -0,0 +1,88 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import {
+  companyListUpdateSchema,
+  deleteCompanyList,
+  getCompanyList,
+  updateCompanyList,
+} from "@/lib/lists/company-lists";
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+interface ListRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Returns `{ list, items, companiesById }`. */
+export async function GET(_request: Request, { params }: ListRouteContext): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const detail = await getCompanyList(session.supabase, session.user.id, id.trim());
+    if (!detail) {
+      return jsonResponse({ error: "List not found" }, 404);
+    }
+    const companies = await getCompaniesByIds(getSupabaseServerClient(), detail.items.map((item) => item.company_id));
+    return jsonResponse({ ...detail, companiesById: Object.fromEntries(companies.map((company) => [company.id, company])) });
+  } catch (error) {
+    console.error("[api/lists] Failed to load list", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+export async function PATCH(request: Request, { params }: ListRouteContext): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  const parsed = companyListUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") }, 400);
+  }
+
+  try {
+    const list = await updateCompanyList(session.supabase, session.user.id, id.trim(), parsed.data);
+    if (!list) {
+      return jsonResponse({ error: "List not found" }, 404);
+    }
+    return jsonResponse({ list });
+  } catch (error) {
+    console.error("[api/lists] Failed to update list", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: ListRouteContext): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const deleted = await deleteCompanyList(session.supabase, session.user.id, id.trim());
+    if (!deleted) {
+      return jsonResponse({ error: "List not found" }, 404);
+    }
+    return jsonResponse({ deleted: true });
+  } catch (error) {
+    console.error("[api/lists] Failed to delete list", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
@@ -0,0 +1,50 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { companyListInputSchema, createCompanyList, listCompanyLists } from "@/lib/lists/company-lists";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+
+export const runtime = "nodejs";
+
+/** Lists with their member company ids. */
+export async function GET(): Promise<Response> {
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const lists = await listCompanyLists(session.supabase, session.user.id);
+    return jsonResponse({ lists });
+  } catch (error) {
+    console.error("[api/lists] Failed to load lists", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  const parsed = companyListInputSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") }, 400);
+  }
+
+  try {
+    const list = await createCompanyList(session.supabase, session.user.id, parsed.data);
+    return jsonResponse({ list: { ...list, company_ids: [] } }, 201);
+  } catch (error) {
+    console.error("[api/lists] Failed to create list", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
@@ -0,0 +1,29 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { abortResumeJob } from "@/lib/resume/job-scheduler";
+import { cancelResumeJob, resumeJobView } from "@/lib/resume/resume-jobs";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+
+export const runtime = "nodejs";
+
+/** Stops a running job. Stages that finished keep their output, so a confirmed profile can be searched again. */
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const job = await cancelResumeJob(session.supabase, session.user.id, id.trim());
+    if (!job) {
+      return jsonResponse({ error: "Resume job not found" }, 404);
+    }
+    abortResumeJob(job.id);
+    return jsonResponse({ job: resumeJobView(job) });
+  } catch (error) {
+    console.error("[api/resume/jobs] Failed to cancel job", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
@@ -0,0 +1,55 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { scheduleResumeJob } from "@/lib/resume/job-scheduler";
+import { getResumeJob, PROFILE_REVIEW_STAGE, RESUME_JOB_STAGES, restartResumeJob, resumeJobView } from "@/lib/resume/resume-jobs";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { checkUsageLimits, clientIp, limitExceededResponse } from "@/lib/usage/limits";
+import { getUsageLimits } from "@/lib/usage/server";
+
+export const runtime = "nodejs";
+// Stages run after the response, within this time limit. Equal to `RESUME_JOB_MAX_DURATION_S`; Next.js only reads literals here.
+export const maxDuration = 800;
+
+/**
+ * Runs a failed or interrupted job again from the stage that failed, reusing what the stages before
+ * it stored. Returns the job with `202`.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const job = await getResumeJob(session.supabase, session.user.id, id.trim());
+    if (!job) {
+      return jsonResponse({ error: "Resume job not found" }, 404);
+    }
+    if (resumeJobView(job).status !== "failed") {
+      return jsonResponse({ error: "Only a failed step can be retried" }, 409);
+    }
+
+    const limits = getUsageLimits();
+    const limitSubject = { userId: session.user.id, ip: clientIp(request) };
+    const isProfileStage = RESUME_JOB_STAGES.indexOf(job.stage) <= RESUME_JOB_STAGES.indexOf(PROFILE_REVIEW_STAGE);
+    const limitDecision = await checkUsageLimits(limits, isProfileStage ? "resume" : "resume_search", limitSubject);
+    if (!limitDecision.allowed) {
+      console.info(`[resume:${job.id.slice(0, 8)}] refused user=${session.user.id} code=${limitDecision.code}`);
+      return limitExceededResponse(limitDecision);
+    }
+
+    const claimed = await restartResumeJob(session.supabase, job, job.stage);
+    if (!claimed) {
+      return jsonResponse({ error: "This resume job just changed. Reload and try again." }, 409);
+    }
+
+    console.info(`[resume:${job.id.slice(0, 8)}] retry accepted user=${session.user.id} stage=${job.stage}`);
+    scheduleResumeJob(claimed, job.stage, { client: session.supabase, limits, limitSubject });
+    return jsonResponse({ job: resumeJobView(claimed) }, 202);
+  } catch (error) {
+    console.error("[api/resume/jobs] Failed to retry job", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
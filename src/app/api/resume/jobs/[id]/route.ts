@@ -0,0 +1,27 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { getResumeJob, resumeJobView } from "@/lib/resume/resume-jobs";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+
+export const runtime = "nodejs";
+
+/** Returns `{ job }`: status, the state of each stage and search progress. Clients poll it while the job runs. */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const job = await getResumeJob(session.supabase, session.user.id, id.trim());
+    if (!job) {
+      return jsonResponse({ error: "Resume job not found" }, 404);
+    }
+    return jsonResponse({ job: resumeJobView(job) });
+  } catch (error) {
+    console.error("[api/resume/jobs] Failed to load job", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
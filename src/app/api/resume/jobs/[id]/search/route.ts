@@ -0,0 +1,80 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { errorResponse, jsonResponse, parseJson } from "@/lib/http";
+import { preferenceFilters } from "@/lib/resume/preferences";
+import { scheduleResumeJob } from "@/lib/resume/job-scheduler";
+import { getResumeJob, restartResumeJob, resumeJobView } from "@/lib/resume/resume-jobs";
+import { resumeSearchRequestSchema } from "@/lib/resume/schemas";
+import { describeStructuredFilters } from "@/lib/search/filters";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { checkUsageLimits, clientIp, limitExceededResponse } from "@/lib/usage/limits";
+import { getUsageLimits } from "@/lib/usage/server";
+
+export const runtime = "nodejs";
+// Stages run after the response, within this time limit. Equal to `RESUME_JOB_MAX_DURATION_S`; Next.js only reads literals here.
+export const maxDuration = 800;
+
+/** An edited profile is a few KB; anything far larger is not one. */
+const MAX_REQUEST_BYTES = 64 * 1024;
+
+/**
+ * Searches for the profile the candidate reviewed: `{ profile, preferences }` replaces the extracted
+ * profile, and planning, search, grouping and the job board check run in the background. Returns the
+ * job with `202`. Also starts a new search on a job whose results are in, or that was stopped.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return errorResponse(SIGN_IN_REQUIRED_MESSAGE, 401);
+  }
+
+  const body = await request.text();
+  if (body.length > MAX_REQUEST_BYTES) {
+    return errorResponse("Resume profile is too large", 413);
+  }
+  const parsed = resumeSearchRequestSchema.safeParse(parseJson(body));
+  if (!parsed.success) {
+    return errorResponse("Invalid resume profile");
+  }
+  const { profile, preferences } = parsed.data;
+
+  try {
+    const job = await getResumeJob(session.supabase, session.user.id, id.trim());
+    if (!job) {
+      return errorResponse("Resume job not found", 404);
+    }
+    if (resumeJobView(job).status === "running") {
+      return errorResponse("This resume is still being processed", 409);
+    }
+    if (job.stages.analyze.status !== "completed") {
+      return errorResponse("The profile is not ready to search yet", 409);
+    }
+
+    const limits = getUsageLimits();
+    const limitSubject = { userId: session.user.id, ip: clientIp(request) };
+    const limitDecision = await checkUsageLimits(limits, "resume_search", limitSubject);
+    if (!limitDecision.allowed) {
+      console.info(`[resume:${job.id.slice(0, 8)}] refused user=${session.user.id} code=${limitDecision.code}`);
+      return limitExceededResponse(limitDecision);
+    }
+
+    const claimed = await restartResumeJob(session.supabase, job, "plan", {
+      resumeText: job.state.resumeText,
+      profile,
+      preferences,
+    });
+    if (!claimed) {
+      return errorResponse("This resume job just changed. Reload and try again.", 409);
+    }
+
+    console.info(
+      `[resume:${job.id.slice(0, 8)}] search accepted user=${session.user.id} areas=${profile.experienceAreas.length} include=${preferences.includeSectors.length} exclude=${preferences.excludeSectors.length} filters="${describeStructuredFilters(preferenceFilters(preferences))}"`
+    );
+    scheduleResumeJob(claimed, "plan", { client: session.supabase, limits, limitSubject });
+    return jsonResponse({ job: resumeJobView(claimed) }, 202);
+  } catch (error) {
+    console.error("[api/resume/jobs] Failed to start search", error);
+    return errorResponse(SEARCH_UNAVAILABLE_MESSAGE, 502);
+  }
+}
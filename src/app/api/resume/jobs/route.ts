@@ -0,0 +1,112 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { errorResponse, jsonResponse } from "@/lib/http";
+import { detectResumeFormat, isLegacyWordDocument, LEGACY_WORD_MESSAGE } from "@/lib/resume/extractors";
+import {
+  formatSizeLimit,
+  MAX_RESUME_FILE_BYTES,
+  RESUME_FORMATS,
+  ResumeExtractionError,
+  sizeLimitMessage,
+  UNREADABLE_RESUME_MESSAGE,
+  UNSUPPORTED_RESUME_FORMAT_MESSAGE,
+  type ResumeFormat,
+} from "@/lib/resume/formats";
+import { scheduleResumeJob } from "@/lib/resume/job-scheduler";
+import { createResumeJob, resumeJobView, type ResumeJobRow } from "@/lib/resume/resume-jobs";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { checkUsageLimits, clientIp, limitExceededResponse } from "@/lib/usage/limits";
+import { getUsageLimits } from "@/lib/usage/server";
+
+export const runtime = "nodejs";
+// Stages run after the response, within this time limit. Equal to `RESUME_JOB_MAX_DURATION_S`; Next.js only reads literals here.
+export const maxDuration = 800;
+
+interface ResumeUpload {
+  format: ResumeFormat;
+  bytes: Buffer;
+  /** File name, or "Pasted text". */
+  name: string;
+}
+
+/** Reads the `resume` file or the pasted `text` field; a string is the 400 error to return. */
+async function readResumeUpload(formData: FormData): Promise<ResumeUpload | string> {
+  const pasted = formData.get("text");
+  if (typeof pasted === "string" && pasted.trim()) {
+    const bytes = Buffer.from(pasted, "utf8");
+    const format = RESUME_FORMATS.pasted;
+    return bytes.length > format.maxBytes ? sizeLimitMessage(format) : { format, bytes, name: format.label };
+  }
+
+  const file = formData.get("resume");
+  if (!file || !(file instanceof File)) {
+    return "No resume file provided";
+  }
+  if (file.size > MAX_RESUME_FILE_BYTES) {
+    return `File exceeds ${formatSizeLimit(MAX_RESUME_FILE_BYTES)} limit`;
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  let format: ResumeFormat | null;
+  try {
+    format = detectResumeFormat(bytes, file.name, file.type);
+  } catch (error) {
+    if (error instanceof ResumeExtractionError) {
+      return UNREADABLE_RESUME_MESSAGE;
+    }
+    throw error;
+  }
+  if (!format) {
+    return isLegacyWordDocument(bytes) ? LEGACY_WORD_MESSAGE : UNSUPPORTED_RESUME_FORMAT_MESSAGE;
+  }
+  return bytes.length > format.maxBytes ? sizeLimitMessage(format) : { format, bytes, name: file.name };
+}
+
+/**
+ * Starts a resume match job for the upload and returns it with `202`; extraction and analysis run in
+ * the background. Poll `GET /api/resume/jobs/[id]` until the job pauses for the profile review.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const contentType = request.headers.get("content-type") ?? "";
+
+  const session = await getAuthSession();
+  if (!session) {
+    return errorResponse(SIGN_IN_REQUIRED_MESSAGE, 401);
+  }
+
+  if (!contentType.includes("multipart/form-data")) {
+    return errorResponse("Expected multipart/form-data");
+  }
+
+  const upload = await readResumeUpload(await request.formData());
+  if (typeof upload === "string") {
+    return errorResponse(upload);
+  }
+
+  const limits = getUsageLimits();
+  const limitSubject = { userId: session.user.id, ip: clientIp(request) };
+  const limitDecision = await checkUsageLimits(limits, "resume", limitSubject);
+  if (!limitDecision.allowed) {
+    console.info(`[resume] refused user=${session.user.id} code=${limitDecision.code}`);
+    return limitExceededResponse(limitDecision);
+  }
+
+  let job: ResumeJobRow;
+  try {
+    job = await createResumeJob(session.supabase, session.user.id, {
+      formatId: upload.format.id,
+      name: upload.name,
+      bytes: upload.bytes,
+    });
+  } catch (error) {
+    console.error("[api/resume/jobs] Failed to create job", error);
+    return errorResponse(SEARCH_UNAVAILABLE_MESSAGE, 502);
+  }
+
+  console.info(
+    `[resume:${job.id.slice(0, 8)}] accepted user=${session.user.id} format=${upload.format.id} file="${upload.name}" size=${upload.bytes.length}B`
+  );
+  scheduleResumeJob(job, "extract", { client: session.supabase, limits, limitSubject });
+
+  return jsonResponse({ job: resumeJobView(job) }, 202);
+}
@@ -0,0 +1,64 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { restoreResumeRun, resumeRunUpdateSchema, setResumeRunShared } from "@/lib/resume/resume-runs";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+interface ResumeRunRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Returns `{ run, companiesById, isOwner }` for the caller's runs and for runs shared with a link. */
+export async function GET(_request: Request, { params }: ResumeRunRouteContext): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const restored = await restoreResumeRun(session.supabase, session.user.id, id.trim(), getSupabaseServerClient());
+    if (!restored) {
+      return jsonResponse({ error: "Resume run not found" }, 404);
+    }
+    return jsonResponse(restored);
+  } catch (error) {
+    console.error("[api/resume/runs] Failed to load run", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+/** `{ shared: boolean }` turns the share link on or off; only the owner can. Returns `{ run }`. */
+export async function PATCH(request: Request, { params }: ResumeRunRouteContext): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  const parsed = resumeRunUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") }, 400);
+  }
+
+  try {
+    const run = await setResumeRunShared(session.supabase, session.user.id, id.trim(), parsed.data.shared);
+    if (!run) {
+      return jsonResponse({ error: "Resume run not found" }, 404);
+    }
+    return jsonResponse({ run });
+  } catch (error) {
+    console.error("[api/resume/runs] Failed to update sharing", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
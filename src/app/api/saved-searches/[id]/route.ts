@@ -0,0 +1,51 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import { deleteSavedSearch, getSavedSearch } from "@/lib/search/saved-searches";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+/** Returns the saved search with the companies that are new since its previous run. */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const savedSearch = await getSavedSearch(session.supabase, session.user.id, id.trim());
+    if (!savedSearch) {
+      return jsonResponse({ error: "Saved search not found" }, 404);
+    }
+    const companies = await getCompaniesByIds(getSupabaseServerClient(), savedSearch.new_company_ids);
+    const byId = new Map(companies.map((company) => [company.id, company]));
+    const newSinceLastRun = savedSearch.new_company_ids.flatMap((companyId) => byId.get(companyId) ?? []);
+    return jsonResponse({ savedSearch, newSinceLastRun });
+  } catch (error) {
+    console.error("[api/saved-searches] Failed to load saved search", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const deleted = await deleteSavedSearch(session.supabase, session.user.id, id.trim());
+    if (!deleted) {
+      return jsonResponse({ error: "Saved search not found" }, 404);
+    }
+    return jsonResponse({ deleted: true });
+  } catch (error) {
+    console.error("[api/saved-searches] Failed to delete saved search", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
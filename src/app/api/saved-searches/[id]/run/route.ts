@@ -0,0 +1,36 @@
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { embedSearchQuery } from "@/lib/models/server";
+import { getSavedSearch, rerunSavedSearch } from "@/lib/search/saved-searches";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+/** Re-runs one saved search now, outside the schedule. */
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }): Promise<Response> {
+  const { id } = await params;
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const savedSearch = await getSavedSearch(session.supabase, session.user.id, id.trim());
+    if (!savedSearch) {
+      return jsonResponse({ error: "Saved search not found" }, 404);
+    }
+    const outcome = await rerunSavedSearch(session.supabase, savedSearch, {
+      embedQuery: embedSearchQuery,
+      searchClient: getSupabaseServerClient(),
+    });
+    if (outcome.status === "error") {
+      return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+    }
+    return jsonResponse(outcome);
+  } catch (error) {
+    console.error("[api/saved-searches] Re-run failed", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
@@ -0,0 +1,95 @@
+import { z } from "zod";
+
+import { getAuthSession } from "@/lib/auth/server";
+import { SIGN_IN_REQUIRED_MESSAGE } from "@/lib/auth/session";
+import { jsonResponse } from "@/lib/http";
+import { embedSearchQuery } from "@/lib/models/server";
+import { getSearchRunDetail } from "@/lib/search/run-history";
+import {
+  createSavedSearch,
+  listSavedSearches,
+  parseSavedSearchRequest,
+  savedSearchRequestFromRun,
+  type SavedSearchRequest,
+} from "@/lib/search/saved-searches";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+const createSavedSearchBodySchema = z
+  .object({
+    name: z.string().trim().max(120).optional(),
+    /** Saves the query, status scope and filters of a chat run. */
+    runId: z.string().trim().min(1).optional(),
+    /** An `/api/search` request body; limit and cursor are ignored. */
+    request: z.record(z.string(), z.unknown()).optional(),
+  })
+  .refine((value) => Boolean(value.runId) !== Boolean(value.request), {
+    message: "Provide exactly one of runId or request",
+  });
+
+export async function GET(): Promise<Response> {
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  try {
+    const savedSearches = await listSavedSearches(session.supabase, session.user.id);
+    return jsonResponse({ savedSearches });
+  } catch (error) {
+    console.error("[api/saved-searches] Failed to list saved searches", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const session = await getAuthSession();
+  if (!session) {
+    return jsonResponse({ error: SIGN_IN_REQUIRED_MESSAGE }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  const parsed = createSavedSearchBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: parsed.error.issues.map((issue) => issue.message).join("; ") }, 400);
+  }
+
+  const searchClient = getSupabaseServerClient();
+  try {
+    let searchRequest: SavedSearchRequest;
+    let sourceRunId: string | null = null;
+    if (parsed.data.runId) {
+      const detail = await getSearchRunDetail(searchClient, parsed.data.runId);
+      if (!detail || detail.run.user_id !== session.user.id) {
+        return jsonResponse({ error: "Run not found" }, 404);
+      }
+      searchRequest = savedSearchRequestFromRun(detail);
+      sourceRunId = detail.run.id;
+    } else {
+      try {
+        searchRequest = parseSavedSearchRequest(parsed.data.request);
+      } catch (error) {
+        return jsonResponse({ error: (error as Error).message }, 400);
+      }
+    }
+
+    const savedSearch = await createSavedSearch(
+      session.supabase,
+      session.user.id,
+      { name: parsed.data.name, request: searchRequest, sourceRunId },
+      { embedQuery: embedSearchQuery, searchClient }
+    );
+    return jsonResponse({ savedSearch }, 201);
+  } catch (error) {
+    console.error("[api/saved-searches] Failed to save search", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
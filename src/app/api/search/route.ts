@@ -0,0 +1,52 @@
+import type { z } from "zod";
+
+import { jsonResponse } from "@/lib/http";
+import { embedSearchQuery } from "@/lib/models/server";
+import {
+  directSearchRequestSchema,
+  runDirectSearch,
+  searchParamsToRequestInput,
+  type DirectSearchResponse,
+} from "@/lib/search/direct-search";
+import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+async function handleSearch(input: unknown): Promise<Response> {
+  const parsed = directSearchRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return jsonResponse({ error: formatIssues(parsed.error) }, 400);
+  }
+
+  try {
+    const response: DirectSearchResponse = await runDirectSearch(getSupabaseServerClient(), parsed.data, {
+      embedQuery: embedSearchQuery,
+    });
+    return jsonResponse(response);
+  } catch (error) {
+    console.error("[api/search] Search failed", error);
+    return jsonResponse({ error: SEARCH_UNAVAILABLE_MESSAGE }, 502);
+  }
+}
+
+export async function GET(request: Request): Promise<Response> {
+  return handleSearch(searchParamsToRequestInput(new URL(request.url).searchParams));
+}
+
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Expected a JSON body" }, 400);
+  }
+
+  return handleSearch(body);
+}
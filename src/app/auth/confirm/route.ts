@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { SIGN_IN_PATH, safeRedirectPath, writeSessionCookies } from "@/lib/auth/session";
+import { verifySignInLink, type SignInLinkType } from "@/lib/auth/server";
+
+export const runtime = "nodejs";
+
+const LINK_TYPES: SignInLinkType[] = ["email", "magiclink"];
+
+/** Target of the sign-in link: `?token_hash=...&type=email&next=/path`. */
+export async function GET(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const tokenHash = url.searchParams.get("token_hash");
+  const type = url.searchParams.get("type") as SignInLinkType | null;
+  const next = safeRedirectPath(url.searchParams.get("next"), url.origin);
+
+  const tokens = tokenHash && type && LINK_TYPES.includes(type) ? await verifySignInLink(tokenHash, type) : null;
+  if (!tokens) {
+    return NextResponse.redirect(new URL(`${SIGN_IN_PATH}?error=link`, url.origin));
+  }
+
+  const response = NextResponse.redirect(new URL(next, url.origin));
+  writeSessionCookies(response.cookies, tokens);
+  return response;
+}
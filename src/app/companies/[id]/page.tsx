@@ -0,0 +1,66 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { ArrowLeft } from "lucide-react";
+
+import { CompanyProfileHeader, CompanyProfileSections } from "@/components/company/company-profile";
+import { getCompanyById } from "@/lib/search/rpc";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+interface CompanyPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Shared between generateMetadata and the page so a request hits the RPC once.
+const loadCompany = cache(async (companyId: string) => getCompanyById(getSupabaseServerClient(), companyId));
+
+export async function generateMetadata({ params }: CompanyPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const company = await loadCompany(id);
+  if (!company) {
+    return { title: "Company not found - Ceejay" };
+  }
+
+  return {
+    title: `${company.company_name} - Ceejay`,
+    description: company.tagline ?? company.description ?? undefined,
+  };
+}
+
+export default async function CompanyPage({ params }: CompanyPageProps): Promise<React.JSX.Element> {
+  const { id } = await params;
+  const company = await loadCompany(id);
+  if (!company) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="flex h-14 items-center justify-between border-b border-border/60 px-7">
+        <Link href="/" className="flex items-center gap-3">
+          <Image src="/logo.png" alt="Ceejay logo" width={32} height={32} className="rounded" />
+          <p className="text-xs font-semibold uppercase tracking-[0.6px] text-[var(--text-tertiary)]">Ceejay</p>
+        </Link>
+        <Link
+          href="/"
+          className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Search
+        </Link>
+      </header>
+
+      <article className="mx-auto max-w-3xl px-8 py-8">
+        <header className="pb-4">
+          <p className="section-header mb-3">Company Details</p>
+          <CompanyProfileHeader company={company} />
+        </header>
+        <CompanyProfileSections company={company} />
+      </article>
+    </main>
+  );
+}
@@ -0,0 +1,63 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+
+import { requirePageSession } from "@/lib/auth/server";
+import { CompanyListView } from "@/components/lists/company-list-view";
+import { getCompanyList } from "@/lib/lists/company-lists";
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "List - Ceejay",
+};
+
+interface ListPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function ListPage({ params }: ListPageProps): Promise<React.JSX.Element> {
+  const { id } = await params;
+  const session = await requirePageSession(`/lists/${encodeURIComponent(id)}`);
+  const detail = await getCompanyList(session.supabase, session.user.id, id);
+  if (!detail) {
+    notFound();
+  }
+
+  const companies = await getCompaniesByIds(getSupabaseServerClient(), detail.items.map((item) => item.company_id));
+  const companiesById = Object.fromEntries(companies.map((company) => [company.id, company]));
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="flex h-14 items-center justify-between border-b border-border/60 px-7">
+        <Link href="/" className="flex items-center gap-3">
+          <Image src="/logo.png" alt="Ceejay logo" width={32} height={32} className="rounded" />
+          <p className="text-xs font-semibold uppercase tracking-[0.6px] text-[var(--text-tertiary)]">Ceejay</p>
+        </Link>
+        <Link
+          href="/lists"
+          className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          All lists
+        </Link>
+      </header>
+
+      <article className="mx-auto max-w-6xl space-y-6 px-8 py-8">
+        <header>
+          <p className="section-header mb-2">List</p>
+          <h1 className="text-xl text-[var(--text-primary)]">{detail.list.name}</h1>
+          {detail.list.description ? (
+            <p className="mt-1 text-sm text-[var(--text-secondary)]">{detail.list.description}</p>
+          ) : null}
+        </header>
+
+        <CompanyListView list={detail.list} items={detail.items} companiesById={companiesById} />
+      </article>
+    </main>
+  );
+}
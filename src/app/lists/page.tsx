@@ -0,0 +1,74 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { requirePageSession } from "@/lib/auth/server";
+import { CreateListForm } from "@/components/lists/create-list-form";
+import { EmptyState, ErrorState } from "@/components/ui/states";
+import { listCompanyLists, type CompanyListSummary } from "@/lib/lists/company-lists";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Lists - Ceejay",
+};
+
+export default async function ListsPage(): Promise<React.JSX.Element> {
+  const session = await requirePageSession("/lists");
+  let lists: CompanyListSummary[] | null = null;
+  try {
+    lists = await listCompanyLists(session.supabase, session.user.id);
+  } catch (error) {
+    console.error("[lists] Failed to load lists", error);
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="flex h-14 items-center justify-between border-b border-border/60 px-7">
+        <Link href="/" className="flex items-center gap-3">
+          <Image src="/logo.png" alt="Ceejay logo" width={32} height={32} className="rounded" />
+          <p className="text-xs font-semibold uppercase tracking-[0.6px] text-[var(--text-tertiary)]">Ceejay</p>
+        </Link>
+        <Link
+          href="/"
+          className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Search
+        </Link>
+      </header>
+
+      <section className="mx-auto max-w-3xl space-y-6 px-8 py-8">
+        <header>
+          <p className="section-header mb-2">Lists</p>
+          <h1 className="text-xl text-[var(--text-primary)]">Shortlists and pipelines</h1>
+        </header>
+
+        <CreateListForm />
+
+        {lists === null ? (
+          <ErrorState title="Lists unavailable" description="Could not load your lists. Try again shortly." />
+        ) : lists.length === 0 ? (
+          <EmptyState title="No lists yet" description="Create a list, or use the bookmark on any company to start one." />
+        ) : (
+          <ul className="divide-y divide-border/40">
+            {lists.map((list) => (
+              <li key={list.id} className="flex items-center justify-between gap-3 py-4">
+                <div className="min-w-0">
+                  <Link href={`/lists/${list.id}`} className="text-[15px] font-medium text-[var(--text-primary)] hover:text-accent">
+                    {list.name}
+                  </Link>
+                  {list.description ? <p className="mt-0.5 text-sm text-[var(--text-secondary)]">{list.description}</p> : null}
+                </div>
+                <span className="shrink-0 text-xs tabular-nums text-[var(--text-tertiary)]">
+                  {list.company_ids.length} {list.company_ids.length === 1 ? "company" : "companies"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -1,9 +1,55 @@
 import { ChatShell } from "@/components/chat/chat-shell";
+import { CompanyListsProvider } from "@/components/lists/company-lists-provider";
+import { requirePageSession } from "@/lib/auth/server";
+import { restoreConversation, type RestoredConversation } from "@/lib/conversations/conversations";
+import { restoreResumeRun, type RestoredResumeRun } from "@/lib/resume/resume-runs";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+interface HomePageProps {
+  searchParams: Promise<{ conversation?: string; resumeRun?: string }>;
+}
+
+export default async function HomePage({ searchParams }: HomePageProps): Promise<React.JSX.Element> {
+  const params = await searchParams;
+  const conversationId = params.conversation?.trim();
+  const resumeRunId = conversationId ? undefined : params.resumeRun?.trim();
+  const session = await requirePageSession(
+    conversationId
+      ? `/?conversation=${encodeURIComponent(conversationId)}`
+      : resumeRunId
+        ? `/?resumeRun=${encodeURIComponent(resumeRunId)}`
+        : "/"
+  );
+  let conversation: RestoredConversation | null = null;
+  if (conversationId) {
+    try {
+      conversation = await restoreConversation(session.supabase, session.user.id, conversationId, getSupabaseServerClient());
+    } catch (error) {
+      // Fall back to a fresh chat rather than an error page.
+      console.error("[home] Failed to restore conversation", error);
+    }
+  }
+  let resumeRun: RestoredResumeRun | null = null;
+  if (resumeRunId) {
+    try {
+      resumeRun = await restoreResumeRun(session.supabase, session.user.id, resumeRunId, getSupabaseServerClient());
+    } catch (error) {
+      console.error("[home] Failed to restore resume run", error);
+    }
+  }
 
-export default function HomePage(): React.JSX.Element {
   return (
     <main className="h-screen bg-background">
-      <ChatShell />
+      <CompanyListsProvider>
+        <ChatShell
+          key={conversation?.conversation.id ?? resumeRun?.run.id ?? "new"}
+          conversation={conversation}
+          resumeRun={resumeRun}
+          userEmail={session.user.email}
+        />
+      </CompanyListsProvider>
     </main>
   );
 }
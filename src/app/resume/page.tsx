@@ -1,9 +1,52 @@
+import { CompanyListsProvider } from "@/components/lists/company-lists-provider";
 import { ResumeShell } from "@/components/resume/resume-shell";
+import { requirePageSession } from "@/lib/auth/server";
+import { getResumeJob, resumeJobView, type ResumeJobView } from "@/lib/resume/resume-jobs";
+import { restoreResumeRun, type RestoredResumeRun } from "@/lib/resume/resume-runs";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+interface ResumePageProps {
+  searchParams: Promise<{ run?: string; job?: string }>;
+}
+
+export default async function ResumePage({ searchParams }: ResumePageProps): Promise<React.JSX.Element> {
+  const params = await searchParams;
+  const jobId = params.job?.trim();
+  let runId = params.run?.trim();
+  const session = await requirePageSession(
+    runId ? `/resume?run=${encodeURIComponent(runId)}` : jobId ? `/resume?job=${encodeURIComponent(jobId)}` : "/resume"
+  );
+  let job: ResumeJobView | null = null;
+  if (jobId && !runId) {
+    try {
+      const row = await getResumeJob(session.supabase, session.user.id, jobId);
+      // A finished job opens on its stored run.
+      if (row?.status === "completed" && row.run_id) {
+        runId = row.run_id;
+      } else if (row) {
+        job = resumeJobView(row);
+      }
+    } catch (error) {
+      console.error("[resume] Failed to load resume job", error);
+    }
+  }
+  let run: RestoredResumeRun | null = null;
+  if (runId) {
+    try {
+      run = await restoreResumeRun(session.supabase, session.user.id, runId, getSupabaseServerClient());
+    } catch (error) {
+      // Fall back to a fresh upload rather than an error page.
+      console.error("[resume] Failed to restore resume run", error);
+    }
+  }
 
-export default function ResumePage(): React.JSX.Element {
   return (
     <main className="h-screen bg-background">
-      <ResumeShell />
+      <CompanyListsProvider>
+        <ResumeShell key={run?.run.id ?? job?.id ?? "new"} initialRun={run} initialJob={run ? null : job} />
+      </CompanyListsProvider>
     </main>
   );
 }
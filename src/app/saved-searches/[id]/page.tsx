@@ -0,0 +1,91 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+
+import { requirePageSession } from "@/lib/auth/server";
+import { formatTimestamp } from "@/components/admin/run-format";
+import { PropertyGrid } from "@/components/company/property-grid";
+import { SavedSearchActions } from "@/components/saved-searches/saved-search-actions";
+import { SavedSearchResults } from "@/components/saved-searches/saved-search-results";
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import { describeSavedSearchRequest, getSavedSearch } from "@/lib/search/saved-searches";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Saved search - Ceejay",
+};
+
+interface SavedSearchPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function SavedSearchPage({ params }: SavedSearchPageProps): Promise<React.JSX.Element> {
+  const { id } = await params;
+  const session = await requirePageSession(`/saved-searches/${encodeURIComponent(id)}`);
+  const saved = await getSavedSearch(session.supabase, session.user.id, id);
+  if (!saved) {
+    notFound();
+  }
+
+  const companies = await getCompaniesByIds(getSupabaseServerClient(), saved.last_result_ids);
+  const byId = new Map(companies.map((company) => [company.id, company]));
+  const ranked = saved.last_result_ids.flatMap((companyId) => byId.get(companyId) ?? []);
+  const newSinceLastRun = ranked.filter((company) => saved.new_company_ids.includes(company.id));
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="flex h-14 items-center justify-between border-b border-border/60 px-7">
+        <Link href="/" className="flex items-center gap-3">
+          <Image src="/logo.png" alt="Ceejay logo" width={32} height={32} className="rounded" />
+          <p className="text-xs font-semibold uppercase tracking-[0.6px] text-[var(--text-tertiary)]">Ceejay</p>
+        </Link>
+        <Link
+          href="/saved-searches"
+          className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Saved searches
+        </Link>
+      </header>
+
+      <article className="mx-auto max-w-3xl space-y-8 px-8 py-8">
+        <header className="space-y-4">
+          <div>
+            <p className="section-header mb-2">Saved Search</p>
+            <h1 className="text-xl text-[var(--text-primary)]">{saved.name}</h1>
+          </div>
+          <SavedSearchActions savedSearchId={saved.id} />
+        </header>
+
+        <PropertyGrid
+          rows={[
+            { label: "Query", value: saved.request.query ?? "—" },
+            { label: "Search", value: describeSavedSearchRequest(saved.request) },
+            { label: "Last run (UTC)", value: formatTimestamp(saved.last_run_at) },
+            ...(saved.last_run_error
+              ? [{ label: "Last error", value: <span className="text-red-400">{saved.last_run_error}</span> }]
+              : []),
+          ]}
+        />
+
+        <section>
+          <p className="section-header mb-3">New Since Last Run</p>
+          <SavedSearchResults companies={newSinceLastRun} emptyMessage="No new companies since the previous run." />
+        </section>
+
+        <section>
+          <p className="section-header mb-3">Latest Results</p>
+          <SavedSearchResults
+            companies={ranked}
+            newCompanyIds={saved.new_company_ids}
+            emptyMessage="The latest run returned no companies."
+          />
+        </section>
+      </article>
+    </main>
+  );
+}
@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { requirePageSession } from "@/lib/auth/server";
+import { SavedSearchList } from "@/components/saved-searches/saved-search-list";
+import { EmptyState, ErrorState } from "@/components/ui/states";
+import { listSavedSearches, type SavedSearchRow } from "@/lib/search/saved-searches";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Saved searches - Ceejay",
+};
+
+export default async function SavedSearchesPage(): Promise<React.JSX.Element> {
+  const session = await requirePageSession("/saved-searches");
+  let savedSearches: SavedSearchRow[] | null = null;
+  try {
+    savedSearches = await listSavedSearches(session.supabase, session.user.id);
+  } catch (error) {
+    console.error("[saved-searches] Failed to list saved searches", error);
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="flex h-14 items-center justify-between border-b border-border/60 px-7">
+        <Link href="/" className="flex items-center gap-3">
+          <Image src="/logo.png" alt="Ceejay logo" width={32} height={32} className="rounded" />
+          <p className="text-xs font-semibold uppercase tracking-[0.6px] text-[var(--text-tertiary)]">Ceejay</p>
+        </Link>
+        <Link
+          href="/"
+          className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Search
+        </Link>
+      </header>
+
+      <section className="mx-auto max-w-3xl px-8 py-8">
+        <header className="pb-2">
+          <p className="section-header mb-2">Saved Searches</p>
+          <h1 className="text-xl text-[var(--text-primary)]">Re-run daily, with companies new since the last run</h1>
+        </header>
+
+        {savedSearches === null ? (
+          <ErrorState title="Saved searches unavailable" description="Could not load saved searches. Try again shortly." />
+        ) : savedSearches.length === 0 ? (
+          <EmptyState title="No saved searches yet" description="Run a search in chat, then use Save search to track it here." />
+        ) : (
+          <SavedSearchList savedSearches={savedSearches} />
+        )}
+      </section>
+    </main>
+  );
+}
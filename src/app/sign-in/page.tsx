@@ -0,0 +1,43 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import { redirect } from "next/navigation";
+
+import { SignInForm } from "@/components/auth/sign-in-form";
+import { getAuthSession } from "@/lib/auth/server";
+import { safeRedirectPath } from "@/lib/auth/session";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Sign in - Ceejay",
+};
+
+interface SignInPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps): Promise<React.JSX.Element> {
+  const { next, error } = await searchParams;
+  const nextPath = safeRedirectPath(next);
+  if (await getAuthSession()) {
+    redirect(nextPath);
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-background px-6">
+      <div className="w-full max-w-sm space-y-6">
+        <div className="flex items-center gap-3">
+          <Image src="/logo.png" alt="Ceejay logo" width={32} height={32} className="rounded" />
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.6px] text-[var(--text-tertiary)]">Ceejay</p>
+            <p className="text-sm text-[var(--text-secondary)]">Sign in to keep your conversations, lists and searches</p>
+          </div>
+        </div>
+        {error === "link" ? (
+          <p className="text-sm text-red-400">That sign-in link is invalid or has already been used. Request a new one.</p>
+        ) : null}
+        <SignInForm next={nextPath} />
+      </div>
+    </main>
+  );
+}
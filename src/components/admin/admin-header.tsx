@@ -0,0 +1,26 @@
+import Image from "next/image";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+interface AdminHeaderProps {
+  backHref: string;
+  backLabel: string;
+}
+
+export function AdminHeader({ backHref, backLabel }: AdminHeaderProps): React.JSX.Element {
+  return (
+    <header className="flex h-14 items-center justify-between border-b border-border/60 px-7">
+      <Link href="/admin/runs" className="flex items-center gap-3">
+        <Image src="/logo.png" alt="Ceejay logo" width={32} height={32} className="rounded" />
+        <p className="text-xs font-semibold uppercase tracking-[0.6px] text-[var(--text-tertiary)]">Ceejay Runs</p>
+      </Link>
+      <Link
+        href={backHref}
+        className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+      >
+        <ArrowLeft className="h-3.5 w-3.5" />
+        {backLabel}
+      </Link>
+    </header>
+  );
+}
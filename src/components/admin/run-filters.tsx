@@ -0,0 +1,60 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { SEARCH_RUN_END_REASONS, type SearchRunFilters } from "@/lib/search/run-history";
+
+const inputClassName =
+  "h-9 rounded-lg border border-border bg-card px-3 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-accent";
+
+interface RunFiltersProps {
+  filters: SearchRunFilters;
+}
+
+/** Plain GET form: filters live in the URL so filtered views can be shared. */
+export function RunFilters({ filters }: RunFiltersProps): React.JSX.Element {
+  return (
+    <form method="get" action="/admin/runs" className="flex flex-wrap items-end gap-3">
+      <label className="flex flex-col gap-1">
+        <span className="section-header">End reason</span>
+        <select name="endReason" defaultValue={filters.endReason ?? ""} className={inputClassName}>
+          <option value="">Any</option>
+          {SEARCH_RUN_END_REASONS.map((reason) => (
+            <option key={reason} value={reason}>
+              {reason}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="section-header">Session</span>
+        <input name="session" defaultValue={filters.sessionId ?? ""} placeholder="Session id" className={inputClassName} />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="section-header">Min latency (ms)</span>
+        <input
+          name="minLatencyMs"
+          type="number"
+          min={0}
+          defaultValue={filters.minLatencyMs ?? ""}
+          className={`${inputClassName} w-36`}
+        />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="section-header">Max latency (ms)</span>
+        <input
+          name="maxLatencyMs"
+          type="number"
+          min={0}
+          defaultValue={filters.maxLatencyMs ?? ""}
+          className={`${inputClassName} w-36`}
+        />
+      </label>
+      <Button type="submit" size="sm">
+        Apply
+      </Button>
+      <Link href="/admin/runs" className="pb-2 text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">
+        Reset
+      </Link>
+    </form>
+  );
+}
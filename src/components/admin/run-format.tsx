@@ -0,0 +1,57 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+const END_REASON_STYLES: Record<string, string> = {
+  confidence_met: "border-green-500/40 bg-green-500/10 text-green-400",
+  exact_match: "border-green-500/40 bg-green-500/10 text-green-400",
+  converged: "border-green-500/40 bg-green-500/10 text-green-400",
+  guardrail_hit: "border-accent/40 bg-accent/10 text-accent",
+  cancelled: "border-border bg-muted text-[var(--text-tertiary)]",
+  error: "border-red-500/40 bg-red-500/10 text-red-400",
+};
+
+export function EndReasonBadge({ endReason }: { endReason: string }): React.JSX.Element {
+  return <Badge className={cn("px-2 py-0.5 font-mono", END_REASON_STYLES[endReason])}>{endReason}</Badge>;
+}
+
+export function formatLatency(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+/** Tokens in and out plus cost; "—" for runs recorded before usage accounting. */
+export function formatUsage(
+  inputTokens: number | null | undefined,
+  outputTokens: number | null | undefined,
+  costUsd: number | string | null | undefined
+): string {
+  if (inputTokens == null && outputTokens == null) {
+    return "—";
+  }
+  const cost = Number(costUsd ?? 0);
+  return `${(inputTokens ?? 0).toLocaleString("en-US")} in · ${(outputTokens ?? 0).toLocaleString("en-US")} out · $${cost.toFixed(4)}`;
+}
+
+export function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+    timeZone: "UTC",
+  });
+}
+
+export function JsonBlock({ label, value }: { label: string; value: unknown }): React.JSX.Element {
+  return (
+    <details className="group">
+      <summary className="cursor-pointer text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]">
+        {label}
+      </summary>
+      <pre className="mt-1 max-h-72 overflow-auto rounded-lg border border-border/60 bg-[var(--bg-secondary)] p-3 text-xs text-[var(--text-readable)]">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </details>
+  );
+}
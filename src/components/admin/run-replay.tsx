@@ -0,0 +1,134 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { LoaderCircle, RotateCcw } from "lucide-react";
+
+import { EndReasonBadge, formatLatency } from "@/components/admin/run-format";
+import { Button } from "@/components/ui/button";
+import type { ResultDiffRow, SearchRunReplay } from "@/lib/agent/run-replay";
+import type { LimitErrorEvent } from "@/lib/usage/limits";
+import { cn } from "@/lib/utils";
+
+interface RunReplayProps {
+  runId: string;
+}
+
+function ChangeMarker({ row, side }: { row: ResultDiffRow; side: "original" | "replay" }): React.JSX.Element | null {
+  if (row.change === "added" && side === "replay") {
+    return <span className="text-xs font-semibold text-green-400">new</span>;
+  }
+  if (row.change === "removed" && side === "original") {
+    return <span className="text-xs font-semibold text-red-400">dropped</span>;
+  }
+  if (row.change === "moved" && row.originalRank !== null && row.replayRank !== null) {
+    const shift = row.originalRank - row.replayRank;
+    return (
+      <span className={cn("text-xs font-semibold tabular-nums", shift > 0 ? "text-green-400" : "text-red-400")}>
+        {shift > 0 ? `↑${shift}` : `↓${-shift}`}
+      </span>
+    );
+  }
+  return null;
+}
+
+function RankedColumn({
+  title,
+  rows,
+  side,
+  companyNames,
+}: {
+  title: string;
+  rows: ResultDiffRow[];
+  side: "original" | "replay";
+  companyNames: Record<string, string>;
+}): React.JSX.Element {
+  const rankOf = (row: ResultDiffRow) => (side === "original" ? row.originalRank : row.replayRank);
+  const ranked = rows
+    .filter((row) => rankOf(row) !== null)
+    .sort((a, b) => (rankOf(a) ?? 0) - (rankOf(b) ?? 0));
+
+  return (
+    <div>
+      <p className="section-header mb-2">{title}</p>
+      {ranked.length ? (
+        <ol className="divide-y divide-border/40">
+          {ranked.map((row) => (
+            <li key={row.companyId} className="flex items-center gap-3 py-1.5">
+              <span className="w-6 text-sm tabular-nums text-[var(--text-tertiary)]">{rankOf(row)}</span>
+              <span className="flex-1 truncate text-sm text-[var(--text-primary)]">
+                {companyNames[row.companyId] ?? row.companyId}
+              </span>
+              <ChangeMarker row={row} side={side} />
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-[var(--text-tertiary)]">No results.</p>
+      )}
+    </div>
+  );
+}
+
+export function RunReplay({ runId }: RunReplayProps): React.JSX.Element {
+  const [replay, setReplay] = useState<SearchRunReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const startReplay = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/runs/${encodeURIComponent(runId)}/replay`, { method: "POST" });
+      // Usage limit refusals (429) carry a single NDJSON error event instead of `{ error }`.
+      const body = (await response.json()) as SearchRunReplay | { error: string } | LimitErrorEvent;
+      if ("type" in body) {
+        setError(body.data.message);
+        return;
+      }
+      if (!response.ok || "error" in body) {
+        setError("error" in body ? body.error : "Replay failed.");
+        return;
+      }
+      setReplay(body);
+    } catch {
+      setError("Replay failed.");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const changedCount = replay?.diff.filter((row) => row.change !== "unchanged").length ?? 0;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="secondary" size="sm" onClick={startReplay} disabled={isRunning}>
+          {isRunning ? (
+            <LoaderCircle className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <RotateCcw className="mr-2 h-4 w-4" aria-hidden="true" />
+          )}
+          {isRunning ? "Replaying..." : "Replay with current code"}
+        </Button>
+        {replay ? (
+          <p className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+            <EndReasonBadge endReason={replay.replay.endReason} />
+            {formatLatency(replay.replay.latencyMs)} · {changedCount} of {replay.diff.length} positions changed ·
+            <Link href={`/admin/runs/${replay.replay.runId}`} className="hover:text-accent">
+              Open replay run
+            </Link>
+          </p>
+        ) : null}
+        {error ? <p className="text-xs text-red-400">{error}</p> : null}
+      </div>
+
+      {replay ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          <RankedColumn title="Original" rows={replay.diff} side="original" companyNames={replay.companyNames} />
+          <RankedColumn title="Replay" rows={replay.diff} side="replay" companyNames={replay.companyNames} />
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+import Link from "next/link";
+
+import { TagPill } from "@/components/ui/tag-pill";
+import type { SearchRunResultRow } from "@/lib/search/run-history";
+
+interface RunResultsTableProps {
+  results: SearchRunResultRow[];
+  companyNames: Record<string, string>;
+}
+
+function readEvidence(evidence: Record<string, unknown>): { reason: string | null; chips: string[] } {
+  const chips = Array.isArray(evidence.evidenceChips)
+    ? evidence.evidenceChips.filter((chip): chip is string => typeof chip === "string")
+    : [];
+  return { reason: typeof evidence.reason === "string" ? evidence.reason : null, chips };
+}
+
+export function RunResultsTable({ results, companyNames }: RunResultsTableProps): React.JSX.Element {
+  if (!results.length) {
+    return <p className="text-sm text-[var(--text-tertiary)]">This run returned no results.</p>;
+  }
+
+  return (
+    <ol className="divide-y divide-border/40">
+      {results.map((result) => {
+        const { reason, chips } = readEvidence(result.evidence);
+        return (
+          <li key={result.company_id} className="grid gap-3 py-3" style={{ gridTemplateColumns: "32px minmax(0, 1fr) 64px" }}>
+            <span className="text-sm tabular-nums text-[var(--text-tertiary)]">{result.rank}</span>
+            <div>
+              <Link href={`/companies/${result.company_id}`} className="text-sm font-medium text-[var(--text-primary)] hover:text-accent">
+                {companyNames[result.company_id] ?? result.company_id}
+              </Link>
+              {reason ? <p className="mt-0.5 text-xs text-[var(--text-secondary)]">{reason}</p> : null}
+              {chips.length ? (
+                <div className="mt-1.5 flex flex-wrap gap-1.5">
+                  {chips.map((chip) => (
+                    <TagPill key={chip} label={chip} />
+                  ))}
+                </div>
+              ) : null}
+            </div>
+            <span className="text-right text-sm tabular-nums text-[var(--text-secondary)]">{result.confidence.toFixed(2)}</span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,51 @@
+import { formatLatency, JsonBlock } from "@/components/admin/run-format";
+import type { SearchRunStepRow } from "@/lib/search/run-history";
+
+interface RunStepTimelineProps {
+  steps: SearchRunStepRow[];
+}
+
+function CandidateDelta({ before, after }: { before: number; after: number }): React.JSX.Element {
+  const delta = after - before;
+  return (
+    <span className="tabular-nums">
+      {before} → {after}
+      {delta !== 0 ? (
+        <span className={delta > 0 ? "ml-1 text-green-400" : "ml-1 text-red-400"}>
+          ({delta > 0 ? "+" : ""}
+          {delta})
+        </span>
+      ) : null}
+    </span>
+  );
+}
+
+export function RunStepTimeline({ steps }: RunStepTimelineProps): React.JSX.Element {
+  if (!steps.length) {
+    return <p className="text-sm text-[var(--text-tertiary)]">No steps were recorded for this run.</p>;
+  }
+
+  return (
+    <ol className="space-y-3 border-l border-border/60 pl-5">
+      {steps.map((step) => (
+        <li key={step.id} className="relative">
+          <span className="absolute -left-[25px] top-1.5 h-2 w-2 rounded-full bg-accent" aria-hidden="true" />
+          <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+            <span className="font-mono text-sm text-[var(--text-primary)]">{step.tool_name}</span>
+            <span className="text-xs text-[var(--text-tertiary)]">
+              iteration {step.iteration_no} · step {step.step_order}
+            </span>
+            <span className="text-xs text-[var(--text-secondary)]">{formatLatency(step.duration_ms)}</span>
+            <span className="text-xs text-[var(--text-secondary)]">
+              candidates <CandidateDelta before={step.candidate_count_before} after={step.candidate_count_after} />
+            </span>
+          </div>
+          <div className="mt-1.5 grid gap-2 md:grid-cols-2">
+            <JsonBlock label="Input" value={step.input_summary} />
+            <JsonBlock label="Output" value={step.output_summary} />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
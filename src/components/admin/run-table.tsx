@@ -0,0 +1,57 @@
+import Link from "next/link";
+
+import { EndReasonBadge, formatLatency, formatTimestamp } from "@/components/admin/run-format";
+import type { SearchRunRow } from "@/lib/search/run-history";
+
+interface RunTableProps {
+  runs: SearchRunRow[];
+}
+
+export function RunTable({ runs }: RunTableProps): React.JSX.Element {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead>
+          <tr className="border-b border-border/60 text-xs uppercase tracking-[0.5px] text-[var(--text-tertiary)]">
+            <th className="py-2 pr-4 font-semibold">Started (UTC)</th>
+            <th className="py-2 pr-4 font-semibold">Query</th>
+            <th className="py-2 pr-4 font-semibold">End reason</th>
+            <th className="py-2 pr-4 text-right font-semibold">Latency</th>
+            <th className="py-2 pr-4 text-right font-semibold">Iterations</th>
+            <th className="py-2 pr-4 text-right font-semibold">Tool calls</th>
+            <th className="py-2 pr-4 text-right font-semibold">Results</th>
+            <th className="py-2 font-semibold">Session</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border/40">
+          {runs.map((run) => (
+            <tr key={run.id} className="align-top hover:bg-muted/40">
+              <td className="whitespace-nowrap py-2 pr-4 text-[var(--text-secondary)]">{formatTimestamp(run.created_at)}</td>
+              <td className="max-w-md py-2 pr-4">
+                <Link href={`/admin/runs/${run.id}`} className="text-[var(--text-primary)] hover:text-accent">
+                  {run.query_text}
+                </Link>
+                <p className="mt-0.5 text-xs text-[var(--text-tertiary)]">{run.status_scope.join(", ")}</p>
+              </td>
+              <td className="py-2 pr-4">
+                <EndReasonBadge endReason={run.end_reason} />
+              </td>
+              <td className="py-2 pr-4 text-right tabular-nums">{formatLatency(run.latency_ms)}</td>
+              <td className="py-2 pr-4 text-right tabular-nums">{run.iteration_count}</td>
+              <td className="py-2 pr-4 text-right tabular-nums">{run.tool_call_count}</td>
+              <td className="py-2 pr-4 text-right tabular-nums">{run.final_candidate_count}</td>
+              <td className="py-2">
+                <Link
+                  href={`/admin/runs?session=${encodeURIComponent(run.session_id)}`}
+                  className="font-mono text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                >
+                  {run.session_id}
+                </Link>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
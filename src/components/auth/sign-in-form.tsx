@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { LoaderCircle, Mail } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+interface SignInFormProps {
+  next: string;
+}
+
+type SignInResponse = { status: "sent" } | { status: "redirect"; redirectTo: string } | { error: string };
+
+export function SignInForm({ next }: SignInFormProps): React.JSX.Element {
+  const [email, setEmail] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const submit = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/sign-in", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, next }),
+      });
+      const body = (await response.json()) as SignInResponse;
+      if (!response.ok || "error" in body) {
+        setError("error" in body ? body.error : "Could not send a sign-in link.");
+        return;
+      }
+      if (body.status === "redirect") {
+        window.location.assign(body.redirectTo);
+        return;
+      }
+      setSentTo(email.trim());
+    } catch {
+      setError("Could not send a sign-in link.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="space-y-2 text-sm text-[var(--text-secondary)]">
+        <p className="text-[var(--text-primary)]">Check your inbox.</p>
+        <p>
+          We sent a sign-in link to <span className="text-[var(--text-primary)]">{sentTo}</span>. It works once and
+          expires after an hour.
+        </p>
+        <button type="button" onClick={() => setSentTo(null)} className="text-xs text-accent hover:underline">
+          Use a different email
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        void submit();
+      }}
+    >
+      <input
+        type="email"
+        value={email}
+        onChange={(event) => setEmail(event.target.value)}
+        placeholder="you@example.com"
+        aria-label="Email address"
+        autoComplete="email"
+        required
+        className="h-10 w-full rounded-lg border border-border/60 bg-transparent px-3 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none"
+      />
+      <Button type="submit" disabled={isSending || !email.trim()} className="w-full gap-2">
+        {isSending ? (
+          <LoaderCircle className="h-4 w-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <Mail className="h-4 w-4" aria-hidden="true" />
+        )}
+        Email me a sign-in link
+      </Button>
+      {error ? <p className="text-xs text-red-400">{error}</p> : null}
+    </form>
+  );
+}
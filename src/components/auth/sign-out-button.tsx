@@ -0,0 +1,31 @@
+"use client";
+
+import { LogOut } from "lucide-react";
+
+import { SIGN_IN_PATH } from "@/lib/auth/session";
+
+interface SignOutButtonProps {
+  email: string | null;
+}
+
+export function SignOutButton({ email }: SignOutButtonProps): React.JSX.Element {
+  const signOut = async () => {
+    try {
+      await fetch("/api/auth/sign-out", { method: "POST" });
+    } finally {
+      window.location.assign(SIGN_IN_PATH);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={() => void signOut()}
+      title={email ? `Signed in as ${email}` : undefined}
+      className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+    >
+      <LogOut className="h-3.5 w-3.5" aria-hidden="true" />
+      Sign out
+    </button>
+  );
+}
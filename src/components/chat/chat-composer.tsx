@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { SendHorizontal } from "lucide-react";
+import { SendHorizontal, Square } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -10,12 +10,17 @@ interface ChatComposerProps {
   disabled?: boolean;
   placeholder?: string;
   onSubmit: (value: string) => Promise<void>;
+  /** While set, a Stop button replaces Send. */
+  onStop?: () => void;
+  toolbar?: React.ReactNode;
 }
 
 export function ChatComposer({
   disabled = false,
   placeholder = "Ask for startups by niche, for example: companies focused on AI healthcare",
   onSubmit,
+  onStop,
+  toolbar,
 }: ChatComposerProps): React.JSX.Element {
   const [value, setValue] = useState("");
 
@@ -38,6 +43,7 @@ export function ChatComposer({
       className="border-t border-border/60 px-7 py-4"
       aria-label="Chat input form"
     >
+      {toolbar}
       <textarea
         value={value}
         disabled={disabled}
@@ -57,10 +63,17 @@ export function ChatComposer({
 
       <div className="mt-2 flex items-center justify-between">
         <p className="text-xs text-[var(--text-tertiary)]">Enter to send, Shift+Enter for newline</p>
-        <Button type="submit" disabled={disabled || value.trim().length === 0} className="gap-2">
-          Send
-          <SendHorizontal className="h-4 w-4" aria-hidden="true" />
-        </Button>
+        {onStop ? (
+          <Button type="button" variant="secondary" onClick={onStop} className="gap-2">
+            Stop
+            <Square className="h-3.5 w-3.5 fill-current" aria-hidden="true" />
+          </Button>
+        ) : (
+          <Button type="submit" disabled={disabled || value.trim().length === 0} className="gap-2">
+            Send
+            <SendHorizontal className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        )}
       </div>
     </form>
   );
@@ -3,16 +3,39 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
-import { FileText } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { Bookmark, FileText, ListChecks } from "lucide-react";
 
+import { SignOutButton } from "@/components/auth/sign-out-button";
 import { ChatComposer } from "@/components/chat/chat-composer";
 import { ClarificationPrompt } from "@/components/chat/clarification-prompt";
+import { ConversationSidebar } from "@/components/chat/conversation-sidebar";
 import { MessageList } from "@/components/chat/message-list";
+import { SaveSearchButton } from "@/components/chat/save-search-button";
+import { StatusScopeControl } from "@/components/chat/status-scope-control";
 import { CompanySidePanel } from "@/components/company/company-side-panel";
 import { useAgentChat, type UseAgentChatOptions } from "@/hooks/use-agent-chat";
+import type { RestoredConversation } from "@/lib/conversations/conversations";
+import type { RestoredResumeRun } from "@/lib/resume/resume-runs";
+import type { GroupedResults } from "@/lib/resume/schemas";
 import type { ChatMessage } from "@/types/chat";
 import type { Company } from "@/types/company";
 
+function resumeSeedMessage(grouped: GroupedResults): ChatMessage {
+  const totalCompanies = grouped.groups.reduce((sum, g) => sum + g.companyIds.length, 0) + grouped.feelingLucky.companyIds.length;
+
+  const groupSummary = grouped.groups
+    .map((g) => `- ${g.title} (${g.companyIds.length} companies)`)
+    .join("\n");
+
+  return {
+    id: "resume-seed",
+    role: "assistant",
+    content: `Based on your resume, I found ${totalCompanies} matching startups across these areas:\n\n${groupSummary}\n\nI also found ${grouped.feelingLucky.companyIds.length} tangential matches in the "Feeling Lucky" section.\n\nYou can ask me to refine these results — for example, "tell me more about the lending ones" or "which of these are Series A?"`,
+    createdAt: new Date().toISOString(),
+  };
+}
+
 function useResumeContext(): UseAgentChatOptions | undefined {
   const loaded = useRef(false);
   const [options, setOptions] = useState<UseAgentChatOptions | undefined>(undefined);
@@ -31,29 +54,14 @@ function useResumeContext(): UseAgentChatOptions | undefined {
 
     try {
       const ctx = JSON.parse(raw) as {
-        profile: { summary: string; experienceAreas: Array<{ domain: string }> };
-        groupedResults: { groups: Array<{ title: string; companyIds: string[] }>; feelingLucky: { companyIds: string[] } };
+        groupedResults: GroupedResults;
         companiesById: Record<string, Company>;
       };
 
       sessionStorage.removeItem("resumeContext");
 
-      // Build seed messages
-      const totalCompanies = ctx.groupedResults.groups.reduce((sum, g) => sum + g.companyIds.length, 0) + ctx.groupedResults.feelingLucky.companyIds.length;
-
-      const groupSummary = ctx.groupedResults.groups
-        .map((g) => `- ${g.title} (${g.companyIds.length} companies)`)
-        .join("\n");
-
-      const seedMessage: ChatMessage = {
-        id: "resume-seed",
-        role: "assistant",
-        content: `Based on your resume, I found ${totalCompanies} matching startups across these areas:\n\n${groupSummary}\n\nI also found ${ctx.groupedResults.feelingLucky.companyIds.length} tangential matches in the "Feeling Lucky" section.\n\nYou can ask me to refine these results — for example, "tell me more about the lending ones" or "which of these are Series A?"`,
-        createdAt: new Date().toISOString(),
-      };
-
       setOptions({
-        initialMessages: [seedMessage],
+        initialMessages: [resumeSeedMessage(ctx.groupedResults)],
         initialCompaniesById: ctx.companiesById,
       });
 
@@ -67,17 +75,54 @@ function useResumeContext(): UseAgentChatOptions | undefined {
   return options;
 }
 
-export function ChatShell(): React.JSX.Element {
+function resumeRunChatOptions(resumeRun: RestoredResumeRun): UseAgentChatOptions {
+  return {
+    initialMessages: [resumeSeedMessage(resumeRun.run.grouped_results)],
+    initialCompaniesById: resumeRun.companiesById,
+  };
+}
+
+function restoredChatOptions(conversation: RestoredConversation): UseAgentChatOptions {
+  return {
+    sessionId: conversation.conversation.id,
+    initialMessages: conversation.messages,
+    initialCompaniesById: conversation.companiesById,
+    initialPreviousCandidateIds: conversation.conversation.previous_candidate_ids,
+    initialStatusScope: conversation.conversation.status_scope,
+    initialLastRunId: conversation.lastRunId,
+  };
+}
+
+interface ChatShellProps {
+  /** Stored conversation to continue; remount with `key` when it changes. */
+  conversation?: RestoredConversation | null;
+  /** Stored resume run to start a chat from; ignored when `conversation` is set. */
+  resumeRun?: RestoredResumeRun | null;
+  /** Shown on the sign-out button; omit to hide the button. */
+  userEmail?: string | null;
+}
+
+export function ChatShell({ conversation = null, resumeRun = null, userEmail }: ChatShellProps): React.JSX.Element {
+  const router = useRouter();
   const resumeContext = useResumeContext();
   const {
+    sessionId,
     messages,
     isLoading,
     activitySteps,
     sendMessage,
+    findSimilar,
     companiesById,
     clarificationPending,
+    statusScope,
+    lastRunId,
+    setStatusScope,
     handleClarificationResponse,
-  } = useAgentChat(resumeContext);
+    stopSearch,
+    startNewConversation,
+  } = useAgentChat(
+    conversation ? restoredChatOptions(conversation) : resumeRun ? resumeRunChatOptions(resumeRun) : resumeContext
+  );
   const [selectedCompanyId, setSelectedCompanyId] = useState<string | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
 
@@ -86,6 +131,26 @@ export function ChatShell(): React.JSX.Element {
     [companiesById, selectedCompanyId],
   );
 
+  // Point the URL at the conversation once it has a turn, so a reload resumes it.
+  useEffect(() => {
+    if (isLoading || !messages.some((message) => message.role === "user")) {
+      return;
+    }
+    const url = new URL(window.location.href);
+    if (url.searchParams.get("conversation") === sessionId) {
+      return;
+    }
+    url.searchParams.set("conversation", sessionId);
+    url.searchParams.delete("resumeRun");
+    window.history.replaceState(null, "", url);
+  }, [isLoading, messages, sessionId]);
+
+  function newConversation(): void {
+    startNewConversation();
+    closeCompanyDetails();
+    router.replace("/");
+  }
+
   function openCompany(companyId: string): void {
     setSelectedCompanyId(companyId);
     setDetailsOpen(true);
@@ -111,6 +176,23 @@ export function ChatShell(): React.JSX.Element {
           </div>
         </div>
         <div className="flex items-center gap-4">
+          {lastRunId && !clarificationPending ? (
+            <SaveSearchButton key={lastRunId} runId={lastRunId} disabled={isLoading} />
+          ) : null}
+          <Link
+            href="/saved-searches"
+            className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <Bookmark className="h-3.5 w-3.5" />
+            Saved
+          </Link>
+          <Link
+            href="/lists"
+            className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <ListChecks className="h-3.5 w-3.5" />
+            Lists
+          </Link>
           <Link
             href="/resume"
             className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
@@ -118,6 +200,7 @@ export function ChatShell(): React.JSX.Element {
             <FileText className="h-3.5 w-3.5" />
             Resume Match
           </Link>
+          {userEmail !== undefined ? <SignOutButton email={userEmail} /> : null}
           {detailsOpen ? (
             <button
               type="button"
@@ -130,38 +213,53 @@ export function ChatShell(): React.JSX.Element {
         </div>
       </header>
 
-      <div className={`min-h-0 flex flex-1 flex-col ${detailsOpen ? "lg:grid lg:grid-cols-2" : ""}`}>
-        <section className={`flex min-h-0 flex-1 flex-col ${detailsOpen ? "lg:border-r lg:border-border/60" : ""}`}>
-          <div className="min-h-0 flex-1">
-            <MessageList
-              messages={messages}
-              activitySteps={activitySteps}
-              isLoading={isLoading}
-              onOpenReference={openCompany}
-            />
-          </div>
+      <div className="flex min-h-0 flex-1">
+        <ConversationSidebar
+          activeId={sessionId}
+          refreshKey={isLoading ? null : messages.length}
+          onNewConversation={newConversation}
+        />
 
-          {clarificationPending ? (
-            <ClarificationPrompt
-              question={clarificationPending.question}
-              options={clarificationPending.options}
-              onSelect={handleClarificationResponse}
-              disabled={isLoading}
-            />
-          ) : null}
+        <div className={`min-h-0 min-w-0 flex flex-1 flex-col ${detailsOpen ? "lg:grid lg:grid-cols-2" : ""}`}>
+          <section className={`flex min-h-0 flex-1 flex-col ${detailsOpen ? "lg:border-r lg:border-border/60" : ""}`}>
+            <div className="min-h-0 flex-1">
+              <MessageList
+                messages={messages}
+                activitySteps={activitySteps}
+                isLoading={isLoading}
+                onOpenReference={openCompany}
+              />
+            </div>
 
-          <ChatComposer
-            onSubmit={clarificationPending ? handleClarificationResponse : sendMessage}
-            disabled={isLoading}
-            placeholder={composerPlaceholder}
-          />
-        </section>
+            {clarificationPending ? (
+              <ClarificationPrompt
+                question={clarificationPending.question}
+                options={clarificationPending.options}
+                onSelect={handleClarificationResponse}
+                disabled={isLoading}
+              />
+            ) : null}
 
-        {detailsOpen ? (
-          <section className="fixed inset-x-0 bottom-0 top-14 z-20 min-h-0 bg-background lg:static lg:inset-auto lg:z-auto lg:flex-1">
-            <CompanySidePanel company={selectedCompany} onClose={closeCompanyDetails} />
+            <ChatComposer
+              onSubmit={clarificationPending ? handleClarificationResponse : sendMessage}
+              disabled={isLoading}
+              onStop={isLoading ? stopSearch : undefined}
+              placeholder={composerPlaceholder}
+              toolbar={<StatusScopeControl value={statusScope} onChange={setStatusScope} disabled={isLoading} />}
+            />
           </section>
-        ) : null}
+
+          {detailsOpen ? (
+            <section className="fixed inset-x-0 bottom-0 top-14 z-20 min-h-0 bg-background lg:static lg:inset-auto lg:z-auto lg:flex-1">
+              <CompanySidePanel
+                company={selectedCompany}
+                onClose={closeCompanyDetails}
+                onFindSimilar={(company) => void findSimilar(company)}
+                findSimilarDisabled={isLoading || Boolean(clarificationPending)}
+              />
+            </section>
+          ) : null}
+        </div>
       </div>
     </div>
   );
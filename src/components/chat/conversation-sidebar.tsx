@@ -0,0 +1,117 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { MessageSquare, Plus, Trash2 } from "lucide-react";
+
+import type { ConversationRow } from "@/lib/conversations/conversations";
+import { cn } from "@/lib/utils";
+
+interface ConversationSidebarProps {
+  activeId: string;
+  /** Changes whenever the active conversation may have been written, to refetch the list. */
+  refreshKey: number | null;
+  onNewConversation: () => void;
+}
+
+function formatDay(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+export function ConversationSidebar({ activeId, refreshKey, onNewConversation }: ConversationSidebarProps): React.JSX.Element {
+  const [conversations, setConversations] = useState<ConversationRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (refreshKey === null) {
+      return;
+    }
+
+    let cancelled = false;
+    void (async () => {
+      try {
+        const response = await fetch("/api/conversations");
+        const body = (await response.json()) as { conversations: ConversationRow[] } | { error: string };
+        if (cancelled) {
+          return;
+        }
+        if (!response.ok || "error" in body) {
+          setError("error" in body ? body.error : "Could not load conversations.");
+          return;
+        }
+        setConversations(body.conversations);
+        setError(null);
+      } catch {
+        if (!cancelled) {
+          setError("Could not load conversations.");
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const remove = async (conversationId: string) => {
+    setConversations((previous) => previous.filter((conversation) => conversation.id !== conversationId));
+    try {
+      await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, { method: "DELETE" });
+    } catch {
+      setError("Could not delete the conversation.");
+    }
+    if (conversationId === activeId) {
+      onNewConversation();
+    }
+  };
+
+  return (
+    <aside className="hidden w-64 shrink-0 flex-col border-r border-border/60 md:flex" aria-label="Conversations">
+      <div className="p-3">
+        <button
+          type="button"
+          onClick={onNewConversation}
+          className="flex w-full items-center gap-2 rounded-md border border-border/60 px-3 py-2 text-sm text-[var(--text-primary)] transition-colors hover:bg-muted"
+        >
+          <Plus className="h-4 w-4" aria-hidden="true" />
+          New chat
+        </button>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto px-2 pb-3">
+        {error ? <p className="px-2 py-1.5 text-xs text-red-400">{error}</p> : null}
+        {!conversations.length && !error ? (
+          <p className="px-2 py-1.5 text-xs text-[var(--text-tertiary)]">Past conversations appear here.</p>
+        ) : null}
+        <ul className="space-y-0.5">
+          {conversations.map((conversation) => (
+            <li key={conversation.id} className="group relative">
+              <Link
+                href={`/?conversation=${encodeURIComponent(conversation.id)}`}
+                aria-current={conversation.id === activeId ? "page" : undefined}
+                className={cn(
+                  "flex items-start gap-2 rounded-md px-2 py-2 pr-8 text-sm transition-colors hover:bg-muted",
+                  conversation.id === activeId ? "bg-muted text-[var(--text-primary)]" : "text-[var(--text-secondary)]"
+                )}
+              >
+                <MessageSquare className="mt-0.5 h-3.5 w-3.5 shrink-0 text-[var(--text-tertiary)]" aria-hidden="true" />
+                <span className="min-w-0">
+                  <span className="block truncate">{conversation.title}</span>
+                  <span className="block text-xs text-[var(--text-tertiary)]">{formatDay(conversation.updated_at)}</span>
+                </span>
+              </Link>
+              <button
+                type="button"
+                onClick={() => void remove(conversation.id)}
+                className="absolute right-1.5 top-2 rounded-sm p-1 text-[var(--text-tertiary)] opacity-0 transition-opacity hover:text-red-400 focus:opacity-100 group-hover:opacity-100"
+                aria-label={`Delete ${conversation.title}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </aside>
+  );
+}
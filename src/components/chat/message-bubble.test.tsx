@@ -33,4 +33,24 @@ describe("MessageBubble", () => {
 
     expect(onOpenReference).toHaveBeenCalledWith("sanas-ai");
   });
+
+  it("marks provisional matches until the final answer arrives", () => {
+    const message = {
+      id: "2",
+      role: "assistant" as const,
+      content: "Sanas leads",
+      createdAt: new Date().toISOString(),
+      references: [{ companyId: "sanas-ai", companyName: "Sanas", reason: "Voice AI fit" }],
+    };
+
+    const { container, rerender } = render(<MessageBubble onOpenReference={vi.fn()} message={{ ...message, pending: true }} />);
+
+    expect(screen.getByText("Preliminary · ranking…")).toBeTruthy();
+    expect(container.querySelector("article")?.getAttribute("aria-busy")).toBe("true");
+
+    rerender(<MessageBubble onOpenReference={vi.fn()} message={message} />);
+
+    expect(screen.queryByText("Preliminary · ranking…")).toBeNull();
+    expect(container.querySelector("article")?.getAttribute("aria-busy")).toBeNull();
+  });
 });
@@ -1,4 +1,6 @@
 import { ReferenceChip } from "@/components/company/reference-chip";
+import { ExportMenu } from "@/components/export/export-menu";
+import { AddToListMenu } from "@/components/lists/add-to-list-menu";
 import { cn } from "@/lib/utils";
 import type { ChatMessage } from "@/types/chat";
 
@@ -11,20 +13,33 @@ export function MessageBubble({ message, onOpenReference }: MessageBubbleProps):
   const isUser = message.role === "user";
 
   return (
-    <article className={cn("space-y-2 py-2", isUser ? "ml-auto max-w-2xl text-right" : "mr-auto max-w-3xl text-left")}>
+    <article
+      aria-busy={message.pending || undefined}
+      className={cn("space-y-2 py-2", isUser ? "ml-auto max-w-2xl text-right" : "mr-auto max-w-3xl text-left")}
+    >
       <p className={cn("text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)]", isUser ? "text-right" : "text-left")}>
         {isUser ? "You" : "Ceejay"}
       </p>
-      <p className="whitespace-pre-wrap text-[15px] leading-7 text-[var(--text-primary)]">{message.content}</p>
+      {message.content ? (
+        <p className="whitespace-pre-wrap text-[15px] leading-7 text-[var(--text-primary)]">{message.content}</p>
+      ) : null}
 
       {message.references?.length ? (
         <div className="space-y-2 pt-1 text-left">
-          <p className="section-header">Matches</p>
-          <ul className="space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <p className="section-header">Matches</p>
+            {message.pending ? (
+              <span className="text-xs text-[var(--text-tertiary)]">Preliminary · ranking…</span>
+            ) : (
+              <ExportMenu source={{ references: message.references }} />
+            )}
+          </div>
+          <ul className={cn("space-y-2 transition-opacity", message.pending && "opacity-70")}>
             {message.references.map((reference) => (
               <li key={reference.companyId} className="text-[14px] leading-6 text-[var(--text-readable)]">
                 <span>{reference.inlineDescription ?? reference.reason}</span>{" "}
-                <ReferenceChip reference={reference} onOpen={onOpenReference} />
+                <ReferenceChip reference={reference} onOpen={onOpenReference} />{" "}
+                <AddToListMenu companyId={reference.companyId} companyName={reference.companyName} className="align-middle" />
                 {reference.evidenceChips?.length ? (
                   <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-[var(--text-secondary)]">
                     {reference.evidenceChips.map((chip) => (
@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { Bookmark, LoaderCircle } from "lucide-react";
+
+interface SaveSearchButtonProps {
+  runId: string;
+  disabled?: boolean;
+}
+
+/** Saves the query and resolved filters of a chat run; remount with `key={runId}` to reset. */
+export function SaveSearchButton({ runId, disabled = false }: SaveSearchButtonProps): React.JSX.Element {
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (savedId) {
+    return (
+      <Link
+        href={`/saved-searches/${savedId}`}
+        className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-accent"
+      >
+        <Bookmark className="h-3.5 w-3.5 fill-current" aria-hidden="true" />
+        Saved
+      </Link>
+    );
+  }
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ runId }),
+      });
+      const body = (await response.json()) as { savedSearch: { id: string } } | { error: string };
+      if (!response.ok || "error" in body) {
+        setError("error" in body ? body.error : "Could not save this search.");
+        return;
+      }
+      setSavedId(body.savedSearch.id);
+    } catch {
+      setError("Could not save this search.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={save}
+        disabled={disabled || isSaving}
+        className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)] disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {isSaving ? (
+          <LoaderCircle className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+        ) : (
+          <Bookmark className="h-3.5 w-3.5" aria-hidden="true" />
+        )}
+        Save search
+      </button>
+      {error ? <span className="text-xs text-red-400">{error}</span> : null}
+    </div>
+  );
+}
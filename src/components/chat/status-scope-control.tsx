@@ -0,0 +1,53 @@
+"use client";
+
+import {
+  SEARCHABLE_COMPANY_STATUSES,
+  STATUS_SCOPE_LABELS,
+  type SearchableCompanyStatus,
+} from "@/lib/search/status-scope";
+import { cn } from "@/lib/utils";
+
+interface StatusScopeControlProps {
+  value: SearchableCompanyStatus[];
+  onChange: (value: SearchableCompanyStatus[]) => void;
+  disabled?: boolean;
+}
+
+export function StatusScopeControl({ value, onChange, disabled = false }: StatusScopeControlProps): React.JSX.Element {
+  function toggle(status: SearchableCompanyStatus): void {
+    const selected = value.includes(status);
+    // Keep at least one status so searches never run against an empty scope.
+    if (selected && value.length === 1) {
+      return;
+    }
+
+    const next = selected ? value.filter((item) => item !== status) : [...value, status];
+    onChange(SEARCHABLE_COMPANY_STATUSES.filter((item) => next.includes(item)));
+  }
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-2" role="group" aria-label="Company status scope">
+      <span className="text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)]">Status</span>
+      {SEARCHABLE_COMPANY_STATUSES.map((status) => {
+        const selected = value.includes(status);
+        return (
+          <button
+            key={status}
+            type="button"
+            aria-pressed={selected}
+            disabled={disabled}
+            onClick={() => toggle(status)}
+            className={cn(
+              "rounded-full border px-3 py-0.5 text-xs transition-colors disabled:cursor-not-allowed disabled:opacity-50",
+              selected
+                ? "border-accent bg-accent/10 text-[var(--text-primary)]"
+                : "border-border/60 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]",
+            )}
+          >
+            {STATUS_SCOPE_LABELS[status]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -103,3 +103,66 @@ describe("CompanySidePanel investors", () => {
     expect(items[1]).toHaveTextContent("Sequoia Capital");
   });
 });
+
+describe("CompanySidePanel permalink", () => {
+  it("links to the shareable company page", () => {
+    render(<CompanySidePanel company={buildCompany({ id: "acme-ai" })} onClose={() => {}} />);
+
+    expect(screen.getByRole("link", { name: "Open permalink for Example Company" })).toHaveAttribute(
+      "href",
+      "/companies/acme-ai",
+    );
+  });
+});
+
+describe("CompanySidePanel more like this", () => {
+  it("hands the company to onFindSimilar", () => {
+    const onFindSimilar = vi.fn();
+    const company = buildCompany({ id: "acme-ai" });
+    render(<CompanySidePanel company={company} onClose={() => {}} onFindSimilar={onFindSimilar} />);
+
+    screen.getByRole("button", { name: "More like this" }).click();
+
+    expect(onFindSimilar).toHaveBeenCalledWith(company);
+  });
+
+  it("hides the action when no handler is provided", () => {
+    render(<CompanySidePanel company={buildCompany()} onClose={() => {}} />);
+
+    expect(screen.queryByRole("button", { name: "More like this" })).toBeNull();
+  });
+});
+
+describe("CompanySidePanel open roles", () => {
+  it("lists the roles relevant to the resume with links to the job board", () => {
+    render(
+      <CompanySidePanel
+        company={buildCompany()}
+        onClose={() => {}}
+        openRoles={{
+          totalCount: 12,
+          relevantCount: 1,
+          relevant: [
+            {
+              id: "role-1",
+              title: "Compliance Engineer, AML",
+              location: "San Francisco, CA",
+              department: "Risk Engineering",
+              url: "https://jobs.lever.co/example/role-1",
+              matchedTerms: ["compliance", "sanction"],
+            },
+          ],
+        }}
+      />,
+    );
+
+    const section = screen.getByRole("region", { name: "Open roles" });
+    expect(within(section).getByText("1 relevant open role")).toBeInTheDocument();
+    expect(within(section).getByText("12 open on the job board")).toBeInTheDocument();
+    expect(within(section).getByRole("link", { name: "Compliance Engineer, AML" })).toHaveAttribute(
+      "href",
+      "https://jobs.lever.co/example/role-1",
+    );
+    expect(within(section).getByText("Mentions compliance, sanction")).toBeInTheDocument();
+  });
+});
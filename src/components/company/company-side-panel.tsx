@@ -1,55 +1,62 @@
-import { ExternalLink, X } from "lucide-react";
-
-import { PropertyGrid } from "@/components/company/property-grid";
-import { TagPill } from "@/components/ui/tag-pill";
+import Link from "next/link";
+import { Briefcase, Link2, Sparkles, X } from "lucide-react";
+
+import { CompanyProfileHeader, CompanyProfileSections } from "@/components/company/company-profile";
+import { AddToListMenu } from "@/components/lists/add-to-list-menu";
+import { Button } from "@/components/ui/button";
+import { relevantRolesLabel, type CompanyOpenRoles } from "@/lib/jobs/open-roles";
+import { companyPermalink } from "@/lib/utils";
 import type { Company } from "@/types/company";
 
 interface CompanySidePanelProps {
   company: Company | null;
   onClose: () => void;
+  /** Shows a "More like this" action that seeds a similarity search from this company. */
+  onFindSimilar?: (company: Company) => void;
+  findSimilarDisabled?: boolean;
+  /** Roles on the company's job board that fit the candidate's resume, on the resume page. */
+  openRoles?: CompanyOpenRoles;
 }
 
-interface PropertyRow {
-  label: string;
-  value: React.ReactNode;
-}
-
-function LinkAnchor({ url, label }: { url: string; label: string }): React.JSX.Element {
-  return (
-    <a
-      href={url}
-      target="_blank"
-      rel="noreferrer"
-      className="inline-flex items-center gap-1 text-sm text-accent hover:text-[var(--accent-hover)]"
-    >
-      {label}
-      <ExternalLink className="h-3.5 w-3.5" aria-hidden="true" />
-    </a>
-  );
-}
-
-function SectionTitle({ children }: { children: React.ReactNode }): React.JSX.Element {
-  return <p className="section-header mb-2">{children}</p>;
-}
-
-function hasValue(value: string | number | null | undefined): boolean {
-  return value !== null && value !== undefined && String(value).trim().length > 0;
-}
-
-function TextSection({ title, value }: { title: string; value: string | null }): React.JSX.Element | null {
-  if (!hasValue(value)) {
-    return null;
-  }
-
+function OpenRolesSection({ openRoles }: { openRoles: CompanyOpenRoles }): React.JSX.Element {
   return (
-    <section>
-      <SectionTitle>{title}</SectionTitle>
-      <p className="text-[15px] leading-7 text-[var(--text-readable)]">{value}</p>
+    <section className="border-t border-border/60 py-5" aria-label="Open roles">
+      <p className="section-header mb-2 flex items-center gap-1.5">
+        <Briefcase className="h-3.5 w-3.5" aria-hidden="true" />
+        {relevantRolesLabel(openRoles)}
+      </p>
+      <p className="mb-3 text-xs text-[var(--text-tertiary)]">
+        {openRoles.totalCount} open on the job board
+        {openRoles.relevantCount > openRoles.relevant.length ? `; showing the best ${openRoles.relevant.length}` : ""}
+      </p>
+      {openRoles.relevant.length ? (
+        <ul className="space-y-2.5 text-sm">
+          {openRoles.relevant.map((role) => (
+            <li key={role.id} className="leading-5">
+              <a href={role.url} target="_blank" rel="noreferrer" className="text-accent hover:text-[var(--accent-hover)]">
+                {role.title}
+              </a>
+              <p className="text-xs text-[var(--text-secondary)]">
+                {[role.department, role.location].filter(Boolean).join(" · ")}
+              </p>
+              {role.matchedTerms.length ? (
+                <p className="text-xs text-[var(--text-tertiary)]">Mentions {role.matchedTerms.join(", ")}</p>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
     </section>
   );
 }
 
-export function CompanySidePanel({ company, onClose }: CompanySidePanelProps): React.JSX.Element {
+export function CompanySidePanel({
+  company,
+  onClose,
+  onFindSimilar,
+  findSimilarDisabled = false,
+  openRoles,
+}: CompanySidePanelProps): React.JSX.Element {
   if (!company) {
     return (
       <aside className="fixed inset-x-0 bottom-0 top-14 z-30 flex items-center justify-center bg-background px-8 py-6 lg:static lg:inset-auto lg:z-auto lg:h-full">
@@ -58,46 +65,6 @@ export function CompanySidePanel({ company, onClose }: CompanySidePanelProps): R
     );
   }
 
-  const coreRows: PropertyRow[] = [];
-  if (hasValue(company.status)) coreRows.push({ label: "Status", value: company.status });
-  if (company.founded_year !== null) coreRows.push({ label: "Founded", value: String(company.founded_year) });
-  if (hasValue(company.headquarters)) coreRows.push({ label: "Headquarters", value: company.headquarters });
-  if (hasValue(company.team_size)) coreRows.push({ label: "Team Size", value: company.team_size });
-  if (hasValue(company.total_raised)) coreRows.push({ label: "Total Raised", value: company.total_raised });
-  if (hasValue(company.ats_platform)) coreRows.push({ label: "ATS Platform", value: company.ats_platform });
-
-  const linksRows: PropertyRow[] = [];
-  if (hasValue(company.careers_page) && company.careers_page) {
-    linksRows.push({ label: "Careers", value: <LinkAnchor url={company.careers_page} label="Open careers page" /> });
-  }
-  if (hasValue(company.ats_jobs_url) && company.ats_jobs_url) {
-    linksRows.push({ label: "ATS Jobs", value: <LinkAnchor url={company.ats_jobs_url} label="Open jobs URL" /> });
-  }
-
-  const foundersRows = company.founders.filter((founder) => hasValue(founder.name));
-  const fundingRows = company.funding_rounds;
-  const uniqueInvestors = Array.from(
-    company.investors.reduce((investorMap, investor) => {
-      const trimmed = investor.trim();
-      if (!trimmed) {
-        return investorMap;
-      }
-
-      const normalizedInvestor = trimmed.toLowerCase();
-      if (!investorMap.has(normalizedInvestor)) {
-        investorMap.set(normalizedInvestor, trimmed);
-      }
-
-      return investorMap;
-    }, new Map<string, string>()),
-  ).map(([key, value]) => ({ key, value }));
-  const socialEntries = Object.entries(company.social_links).filter((entry) => hasValue(entry[1]));
-  const tagsExist =
-    company.sectors.length > 0 ||
-    company.categories.length > 0 ||
-    company.niches.length > 0 ||
-    company.business_models.length > 0;
-
   return (
     <aside
       role="complementary"
@@ -107,164 +74,47 @@ export function CompanySidePanel({ company, onClose }: CompanySidePanelProps): R
       <header className="pb-4">
         <div className="mb-3 flex items-start justify-between gap-3">
           <p className="section-header">Company Details</p>
-          <button
-            type="button"
-            onClick={onClose}
-            className="rounded-sm p-1 text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
-            aria-label="Close company details"
-          >
-            <X className="h-5 w-5" aria-hidden="true" />
-          </button>
-        </div>
-
-        <div className="flex items-start gap-3">
-          {company.logo_url ? (
-            // eslint-disable-next-line @next/next/no-img-element
-            <img
-              src={company.logo_url}
-              alt={`${company.company_name} logo`}
-              className="mt-1 h-10 w-10 rounded-md border border-border/60 object-contain bg-white/5"
-              loading="lazy"
-            />
-          ) : null}
-          <div>
-            <h2 className="text-2xl font-semibold text-[var(--text-primary)]">{company.company_name}</h2>
-            {company.tagline ? <p className="mt-1 text-base text-[var(--text-secondary)]">{company.tagline}</p> : null}
+          <div className="flex items-center gap-2">
+            <AddToListMenu companyId={company.id} companyName={company.company_name} iconClassName="h-5 w-5" />
+            <Link
+              href={companyPermalink(company.id)}
+              className="rounded-sm p-1 text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+              aria-label={`Open permalink for ${company.company_name}`}
+              title="Shareable link"
+            >
+              <Link2 className="h-5 w-5" aria-hidden="true" />
+            </Link>
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-sm p-1 text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+              aria-label="Close company details"
+            >
+              <X className="h-5 w-5" aria-hidden="true" />
+            </button>
           </div>
         </div>
 
-        <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-2">
-          {company.website_url ? <LinkAnchor url={company.website_url} label="Website" /> : null}
-          {socialEntries.map(([name, url]) => (
-            <LinkAnchor key={name} url={url} label={name} />
-          ))}
-        </div>
-      </header>
-
-      <div className="space-y-8 border-t border-border/60 pt-5">
-        {coreRows.length ? (
-          <section>
-            <SectionTitle>Core</SectionTitle>
-            <PropertyGrid rows={coreRows} />
-          </section>
-        ) : null}
-
-        {linksRows.length ? (
-          <section>
-            <SectionTitle>Links</SectionTitle>
-            <PropertyGrid rows={linksRows} />
-          </section>
-        ) : null}
-
-        <TextSection title="Description" value={company.description} />
-        <TextSection title="Product Description" value={company.product_description} />
-        <TextSection title="Target Customer" value={company.target_customer} />
-        <TextSection title="Problem Solved" value={company.problem_solved} />
-        <TextSection title="Differentiator" value={company.differentiator} />
-
-        {foundersRows.length ? (
-          <section>
-            <SectionTitle>Founders</SectionTitle>
-            <ul className="space-y-2 text-sm text-[var(--text-secondary)]">
-              {foundersRows.map((founder) => (
-                <li key={`${founder.name}-${founder.role}`} className="leading-6">
-                  <span className="text-[var(--text-primary)]">{founder.name}</span>
-                  {founder.role ? ` · ${founder.role}` : ""}
-                  {founder.linkedin ? (
-                    <>
-                      {" · "}
-                      <a
-                        href={founder.linkedin}
-                        target="_blank"
-                        rel="noreferrer"
-                        className="text-accent hover:text-[var(--accent-hover)]"
-                      >
-                        LinkedIn
-                      </a>
-                    </>
-                  ) : null}
-                </li>
-              ))}
-            </ul>
-          </section>
-        ) : null}
-
-        {fundingRows.length ? (
-          <section>
-            <SectionTitle>Funding Rounds</SectionTitle>
-            <ul className="space-y-2 text-sm text-[var(--text-secondary)]">
-              {fundingRows.map((round, index) => (
-                <li key={`${round.date ?? "unknown"}-${index}`} className="leading-6">
-                  {[round.type, round.amount, round.date].filter(Boolean).join(" · ") || "Funding round"}
-                  {round.investors.length ? ` · Investors: ${round.investors.join(", ")}` : ""}
-                </li>
-              ))}
-            </ul>
-          </section>
-        ) : null}
+        <CompanyProfileHeader company={company} />
 
-        {uniqueInvestors.length ? (
-          <section>
-            <SectionTitle>Investors</SectionTitle>
-            <ul className="space-y-1.5 text-sm text-[var(--text-secondary)]">
-              {uniqueInvestors.map((investor) => (
-                <li key={investor.key} className="leading-6">
-                  {investor.value}
-                </li>
-              ))}
-            </ul>
-          </section>
+        {onFindSimilar ? (
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => onFindSimilar(company)}
+            disabled={findSimilarDisabled}
+            className="mt-4 gap-2"
+          >
+            <Sparkles className="h-4 w-4" aria-hidden="true" />
+            More like this
+          </Button>
         ) : null}
+      </header>
 
-        {tagsExist ? (
-          <section>
-            <SectionTitle>Tags</SectionTitle>
-            <div className="space-y-3">
-              {company.sectors.length ? (
-                <div className="flex flex-wrap gap-2">
-                  {company.sectors.map((tag) => (
-                    <TagPill key={`sector-${tag}`} label={tag} />
-                  ))}
-                </div>
-              ) : null}
-              {company.categories.length ? (
-                <div className="flex flex-wrap gap-2">
-                  {company.categories.map((tag) => (
-                    <TagPill key={`category-${tag}`} label={tag} />
-                  ))}
-                </div>
-              ) : null}
-              {company.niches.length ? (
-                <div className="flex flex-wrap gap-2">
-                  {company.niches.map((tag) => (
-                    <TagPill key={`niche-${tag}`} label={tag} />
-                  ))}
-                </div>
-              ) : null}
-              {company.business_models.length ? (
-                <div className="flex flex-wrap gap-2">
-                  {company.business_models.map((tag) => (
-                    <TagPill key={`model-${tag}`} label={tag} />
-                  ))}
-                </div>
-              ) : null}
-            </div>
-          </section>
-        ) : null}
+      {openRoles ? <OpenRolesSection openRoles={openRoles} /> : null}
 
-        {company.recent_news.length ? (
-          <section>
-            <SectionTitle>Recent News</SectionTitle>
-            <ul className="space-y-1.5 text-sm text-[var(--text-secondary)]">
-              {company.recent_news.map((item) => (
-                <li key={item} className="leading-6">
-                  {item}
-                </li>
-              ))}
-            </ul>
-          </section>
-        ) : null}
-      </div>
+      <CompanyProfileSections company={company} />
     </aside>
   );
 }
@@ -1,6 +1,8 @@
-import { ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { ChevronRight, Link2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
+import { companyPermalink } from "@/lib/utils";
 import type { CompanyReference } from "@/types/company";
 
 interface ReferenceChipProps {
@@ -10,16 +12,26 @@ interface ReferenceChipProps {
 
 export function ReferenceChip({ reference, onOpen }: ReferenceChipProps): React.JSX.Element {
   return (
-    <Button
-      type="button"
-      variant="ghost"
-      size="sm"
-      onClick={() => onOpen(reference.companyId)}
-      className="h-auto gap-1 rounded-none px-0 py-0 text-xs text-accent hover:bg-transparent hover:text-[var(--accent-hover)] hover:underline"
-      aria-label={`Open details for ${reference.companyName}`}
-    >
-      <span>{reference.companyName}</span>
-      <ChevronRight className="h-3.5 w-3.5" aria-hidden="true" />
-    </Button>
+    <span className="inline-flex items-center gap-1.5">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => onOpen(reference.companyId)}
+        className="h-auto gap-1 rounded-none px-0 py-0 text-xs text-accent hover:bg-transparent hover:text-[var(--accent-hover)] hover:underline"
+        aria-label={`Open details for ${reference.companyName}`}
+      >
+        <span>{reference.companyName}</span>
+        <ChevronRight className="h-3.5 w-3.5" aria-hidden="true" />
+      </Button>
+      <Link
+        href={companyPermalink(reference.companyId)}
+        className="text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+        aria-label={`Open permalink for ${reference.companyName}`}
+        title="Shareable link"
+      >
+        <Link2 className="h-3.5 w-3.5" aria-hidden="true" />
+      </Link>
+    </span>
   );
 }
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download, LoaderCircle } from "lucide-react";
+
+import type { ExportFormat, ExportRequest } from "@/lib/export/results-export";
+import { cn } from "@/lib/utils";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV (spreadsheet)",
+  json: "JSON (full records)",
+  markdown: "Markdown brief",
+};
+
+interface ExportMenuProps {
+  /** Everything but the format: one of `runId`, `references` or `resume`, plus an optional title. */
+  source: Omit<ExportRequest, "format">;
+  className?: string;
+}
+
+function filenameFromDisposition(header: string | null, fallback: string): string {
+  return header?.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+}
+
+export function ExportMenu({ source, className }: ExportMenuProps): React.JSX.Element {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pendingFormat, setPendingFormat] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const closeOnOutsideClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", closeOnOutsideClick);
+    return () => document.removeEventListener("mousedown", closeOnOutsideClick);
+  }, [isOpen]);
+
+  const download = async (format: ExportFormat) => {
+    setPendingFormat(format);
+    setError(null);
+    try {
+      const response = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...source, format }),
+      });
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null;
+        setError(body?.error ?? "Could not export these results.");
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filenameFromDisposition(response.headers.get("Content-Disposition"), `ceejay-export.${format}`);
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch {
+      setError("Could not export these results.");
+    } finally {
+      setPendingFormat(null);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={cn("relative inline-flex", className)}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+      >
+        {pendingFormat ? (
+          <LoaderCircle className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+        ) : (
+          <Download className="h-3.5 w-3.5" aria-hidden="true" />
+        )}
+        Export
+      </button>
+
+      {isOpen ? (
+        <div
+          role="menu"
+          aria-label="Export format"
+          className="absolute right-0 top-full z-40 mt-1 w-48 rounded-lg border border-border/60 bg-[var(--bg-secondary)] p-1 text-left shadow-lg"
+        >
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              disabled={pendingFormat !== null}
+              onClick={() => void download(format)}
+              className="block w-full rounded-md px-2 py-1.5 text-left text-sm text-[var(--text-primary)] hover:bg-muted disabled:opacity-50"
+            >
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+          {error ? <p className="px-2 pt-1.5 text-xs text-red-400">{error}</p> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
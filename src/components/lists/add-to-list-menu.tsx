@@ -0,0 +1,135 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { Bookmark, Check, Plus } from "lucide-react";
+
+import { useCompanyListsContext } from "@/components/lists/company-lists-provider";
+import { cn } from "@/lib/utils";
+
+interface AddToListMenuProps {
+  companyId: string;
+  companyName: string;
+  className?: string;
+  iconClassName?: string;
+}
+
+export function AddToListMenu({
+  companyId,
+  companyName,
+  className,
+  iconClassName = "h-3.5 w-3.5",
+}: AddToListMenuProps): React.JSX.Element | null {
+  const lists = useCompanyListsContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newListName, setNewListName] = useState("");
+  const containerRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const closeOnOutsideClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", closeOnOutsideClick);
+    return () => document.removeEventListener("mousedown", closeOnOutsideClick);
+  }, [isOpen]);
+
+  if (!lists) {
+    return null;
+  }
+
+  const memberOf = lists.listsContaining(companyId);
+
+  return (
+    <span ref={containerRef} className={cn("relative inline-flex", className)}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className={cn(
+          "rounded-sm p-1 transition-colors hover:text-[var(--text-primary)]",
+          memberOf.length ? "text-accent" : "text-[var(--text-tertiary)]",
+        )}
+        aria-label={`Save ${companyName} to a list`}
+        aria-expanded={isOpen}
+        title={memberOf.length ? `On ${memberOf.length} list${memberOf.length === 1 ? "" : "s"}` : "Save to list"}
+      >
+        <Bookmark className={cn(iconClassName, memberOf.length ? "fill-current" : "")} aria-hidden="true" />
+      </button>
+
+      {isOpen ? (
+        <div
+          role="menu"
+          aria-label="Company lists"
+          className="absolute right-0 top-full z-40 mt-1 w-60 rounded-lg border border-border/60 bg-[var(--bg-secondary)] p-2 text-left shadow-lg"
+        >
+          {!lists.isLoaded ? (
+            <p className="px-2 py-1.5 text-xs text-[var(--text-tertiary)]">Loading lists...</p>
+          ) : lists.lists.length ? (
+            <ul className="max-h-56 overflow-y-auto">
+              {lists.lists.map((list) => {
+                const checked = memberOf.includes(list.id);
+                return (
+                  <li key={list.id}>
+                    <button
+                      type="button"
+                      role="menuitemcheckbox"
+                      aria-checked={checked}
+                      onClick={() => void lists.toggleCompany(list.id, companyId)}
+                      className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm text-[var(--text-primary)] hover:bg-muted"
+                    >
+                      <span className="flex h-4 w-4 shrink-0 items-center justify-center rounded border border-border">
+                        {checked ? <Check className="h-3 w-3 text-accent" aria-hidden="true" /> : null}
+                      </span>
+                      <span className="truncate">{list.name}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="px-2 py-1.5 text-xs text-[var(--text-tertiary)]">No lists yet.</p>
+          )}
+
+          <form
+            className="mt-2 flex items-center gap-1 border-t border-border/60 pt-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              const name = newListName.trim();
+              if (!name) {
+                return;
+              }
+              setNewListName("");
+              void lists.createList(name, companyId);
+            }}
+          >
+            <input
+              value={newListName}
+              onChange={(event) => setNewListName(event.target.value)}
+              placeholder="New list"
+              aria-label="New list name"
+              maxLength={80}
+              className="min-w-0 flex-1 rounded-md border border-border/60 bg-transparent px-2 py-1 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newListName.trim()}
+              className="rounded-md p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] disabled:opacity-50"
+              aria-label="Create list"
+            >
+              <Plus className="h-4 w-4" aria-hidden="true" />
+            </button>
+          </form>
+
+          {lists.error ? <p className="px-2 pt-1.5 text-xs text-red-400">{lists.error}</p> : null}
+          <Link href="/lists" className="mt-1 block px-2 py-1 text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">
+            Manage lists
+          </Link>
+        </div>
+      ) : null}
+    </span>
+  );
+}
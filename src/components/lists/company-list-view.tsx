@@ -0,0 +1,82 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+
+import { ListItemEditor } from "@/components/lists/list-item-editor";
+import { CompanyCard } from "@/components/resume/company-card";
+import { Button } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/states";
+import type { CompanyListItemRow, CompanyListRow } from "@/lib/lists/company-lists";
+import { companyPermalink } from "@/lib/utils";
+import type { Company } from "@/types/company";
+
+interface CompanyListViewProps {
+  list: CompanyListRow;
+  items: CompanyListItemRow[];
+  companiesById: Record<string, Company>;
+}
+
+export function CompanyListView({ list, items: initialItems, companiesById }: CompanyListViewProps): React.JSX.Element {
+  const router = useRouter();
+  const [items, setItems] = useState(initialItems);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const deleteList = async () => {
+    setDeleteError(null);
+    try {
+      const response = await fetch(`/api/lists/${list.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        setDeleteError("Could not delete the list.");
+        return;
+      }
+      router.push("/lists");
+      router.refresh();
+    } catch {
+      setDeleteError("Could not delete the list.");
+    }
+  };
+
+  // Skip items whose company could not be loaded (e.g. removed from the dataset).
+  const visibleItems = items.filter((item) => companiesById[item.company_id]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-[var(--text-secondary)]">
+          {visibleItems.length} {visibleItems.length === 1 ? "company" : "companies"}
+        </p>
+        <div className="flex items-center gap-3">
+          {deleteError ? <p className="text-xs text-red-400">{deleteError}</p> : null}
+          <Button variant="ghost" size="sm" onClick={() => void deleteList()} className="gap-2">
+            <Trash2 className="h-4 w-4" aria-hidden="true" />
+            Delete list
+          </Button>
+        </div>
+      </div>
+
+      {visibleItems.length ? (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {visibleItems.map((item) => (
+            <div key={item.id} className="space-y-2">
+              <CompanyCard
+                company={companiesById[item.company_id]}
+                onClick={(companyId) => router.push(companyPermalink(companyId))}
+              />
+              <ListItemEditor
+                item={item}
+                onRemoved={(companyId) => setItems((previous) => previous.filter((entry) => entry.company_id !== companyId))}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <EmptyState
+          title="This list is empty"
+          description="Use the bookmark on chat matches, resume cards or the company panel to add companies."
+        />
+      )}
+    </div>
+  );
+}
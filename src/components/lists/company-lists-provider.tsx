@@ -0,0 +1,18 @@
+"use client";
+
+import { createContext, useContext } from "react";
+
+import { useCompanyLists, type UseCompanyListsResult } from "@/hooks/use-company-lists";
+
+const CompanyListsContext = createContext<UseCompanyListsResult | null>(null);
+
+/** Loads the lists once for every `AddToListMenu` below it. */
+export function CompanyListsProvider({ children }: { children: React.ReactNode }): React.JSX.Element {
+  const value = useCompanyLists();
+  return <CompanyListsContext.Provider value={value}>{children}</CompanyListsContext.Provider>;
+}
+
+/** Null outside a provider, so list actions disappear where lists are not loaded. */
+export function useCompanyListsContext(): UseCompanyListsResult | null {
+  return useContext(CompanyListsContext);
+}
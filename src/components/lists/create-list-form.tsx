@@ -0,0 +1,65 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+export function CreateListForm(): React.JSX.Element {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/lists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: trimmed }),
+      });
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null;
+        setError(body?.error ?? "Could not create the list.");
+        return;
+      }
+      setName("");
+      router.refresh();
+    } catch {
+      setError("Could not create the list.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        void submit();
+      }}
+    >
+      <input
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        placeholder="New list, e.g. Q3 outreach"
+        aria-label="New list name"
+        maxLength={80}
+        className="h-9 min-w-0 flex-1 rounded-lg border border-border/60 bg-transparent px-3 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none"
+      />
+      <Button type="submit" size="sm" variant="secondary" disabled={isSaving || !name.trim()} className="gap-2">
+        <Plus className="h-4 w-4" aria-hidden="true" />
+        Create list
+      </Button>
+      {error ? <p className="w-full text-xs text-red-400">{error}</p> : null}
+    </form>
+  );
+}
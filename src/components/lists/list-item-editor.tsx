@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { LoaderCircle, Trash2 } from "lucide-react";
+
+import { TagPill } from "@/components/ui/tag-pill";
+import {
+  LIST_ITEM_STATUSES,
+  LIST_ITEM_STATUS_LABELS,
+  type CompanyListItemRow,
+  type ListItemStatus,
+} from "@/lib/lists/company-lists";
+
+interface ListItemEditorProps {
+  item: CompanyListItemRow;
+  onRemoved: (companyId: string) => void;
+}
+
+function parseTags(value: string): string[] {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/** Notes, tags and status for one company on a list; saves on demand, status changes save immediately. */
+export function ListItemEditor({ item, onRemoved }: ListItemEditorProps): React.JSX.Element {
+  const [saved, setSaved] = useState(item);
+  const [notes, setNotes] = useState(item.notes);
+  const [tagsText, setTagsText] = useState(item.tags.join(", "));
+  const [pending, setPending] = useState<"save" | "remove" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const endpoint = `/api/lists/${item.list_id}/items/${encodeURIComponent(item.company_id)}`;
+  const isDirty = notes !== saved.notes || parseTags(tagsText).join(",") !== saved.tags.join(",");
+
+  const save = async (update: { notes?: string; tags?: string[]; status?: ListItemStatus }) => {
+    setPending("save");
+    setError(null);
+    try {
+      const response = await fetch(endpoint, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      const body = (await response.json()) as { item: CompanyListItemRow } | { error: string };
+      if (!response.ok || "error" in body) {
+        setError("error" in body ? body.error : "Could not save.");
+        return;
+      }
+      setSaved(body.item);
+      setTagsText(body.item.tags.join(", "));
+    } catch {
+      setError("Could not save.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const remove = async () => {
+    setPending("remove");
+    setError(null);
+    try {
+      const response = await fetch(endpoint, { method: "DELETE" });
+      if (!response.ok) {
+        setError("Could not remove.");
+        return;
+      }
+      onRemoved(item.company_id);
+    } catch {
+      setError("Could not remove.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border/40 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <select
+          value={saved.status}
+          onChange={(event) => void save({ status: event.target.value as ListItemStatus })}
+          disabled={pending !== null}
+          aria-label="Status"
+          className="h-8 rounded-md border border-border/60 bg-transparent px-2 text-xs text-[var(--text-primary)] focus:outline-none"
+        >
+          {LIST_ITEM_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {LIST_ITEM_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => void remove()}
+          disabled={pending !== null}
+          className="flex items-center gap-1 text-xs text-[var(--text-tertiary)] hover:text-red-400 disabled:opacity-50"
+        >
+          <Trash2 className="h-3.5 w-3.5" aria-hidden="true" />
+          Remove
+        </button>
+      </div>
+
+      {saved.tags.length ? (
+        <div className="flex flex-wrap gap-1.5">
+          {saved.tags.map((tag) => (
+            <TagPill key={tag} label={tag} />
+          ))}
+        </div>
+      ) : null}
+
+      <input
+        value={tagsText}
+        onChange={(event) => setTagsText(event.target.value)}
+        placeholder="Tags, comma separated"
+        aria-label="Tags"
+        className="h-8 w-full rounded-md border border-border/60 bg-transparent px-2 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none"
+      />
+      <textarea
+        value={notes}
+        onChange={(event) => setNotes(event.target.value)}
+        placeholder="Notes"
+        aria-label="Notes"
+        maxLength={5000}
+        className="min-h-[64px] w-full resize-y rounded-md border border-border/60 bg-transparent px-2 py-1.5 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none"
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        {error ? <p className="text-xs text-red-400">{error}</p> : <span />}
+        <button
+          type="button"
+          onClick={() => void save({ notes, tags: parseTags(tagsText) })}
+          disabled={!isDirty || pending !== null}
+          className="flex items-center gap-1 text-xs font-semibold text-accent disabled:opacity-40"
+        >
+          {pending === "save" ? <LoaderCircle className="h-3.5 w-3.5 animate-spin" aria-hidden="true" /> : null}
+          Save notes
+        </button>
+      </div>
+    </div>
+  );
+}
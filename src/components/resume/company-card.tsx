@@ -1,60 +1,174 @@
 "use client";
 
+import Link from "next/link";
+import { Briefcase, Check, HelpCircle, Link2, X } from "lucide-react";
+
+import { AddToListMenu } from "@/components/lists/add-to-list-menu";
 import { Badge } from "@/components/ui/badge";
+import { relevantRolesLabel, type CompanyOpenRoles } from "@/lib/jobs/open-roles";
+import {
+  MATCH_DIMENSION_LABELS,
+  MATCH_DIMENSIONS,
+  strongestDimension,
+  type MatchScore,
+} from "@/lib/resume/match-score";
+import type { PreferenceFit } from "@/lib/resume/preferences";
+import { cn, companyPermalink } from "@/lib/utils";
 import type { Company } from "@/types/company";
 
 interface CompanyCardProps {
   company: Company;
   matchReason?: string;
+  preferenceFit?: PreferenceFit;
+  matchScore?: MatchScore;
+  /** Adds a line naming the dimension the company matches best. */
+  explainPick?: boolean;
+  /** Present once the company's job board was read. */
+  openRoles?: CompanyOpenRoles;
   onClick: (companyId: string) => void;
 }
 
+function PreferenceFitList({ fit }: { fit: PreferenceFit }): React.JSX.Element | null {
+  if (!fit.satisfied.length && !fit.violated.length && !fit.unknown.length) return null;
+
+  return (
+    <ul className="space-y-0.5 text-[11px] leading-relaxed" aria-label="Your preferences">
+      {fit.satisfied.map((label) => (
+        <li key={`satisfied-${label}`} className="flex items-center gap-1 text-green-400">
+          <Check className="h-3 w-3 shrink-0" aria-label="Matches" />
+          <span className="truncate">{label}</span>
+        </li>
+      ))}
+      {fit.violated.map((label) => (
+        <li key={`violated-${label}`} className="flex items-center gap-1 text-red-400">
+          <X className="h-3 w-3 shrink-0" aria-label="Does not match" />
+          <span className="truncate">{label}</span>
+        </li>
+      ))}
+      {fit.unknown.length ? (
+        <li className="flex items-center gap-1 text-[var(--text-tertiary)]">
+          <HelpCircle className="h-3 w-3 shrink-0" aria-hidden="true" />
+          <span className="truncate">Unknown: {fit.unknown.join(", ").toLowerCase()}</span>
+        </li>
+      ) : null}
+    </ul>
+  );
+}
+
+function MatchBreakdown({ score }: { score: MatchScore }): React.JSX.Element {
+  return (
+    <dl className="grid grid-cols-[auto_1fr_auto] items-center gap-x-2 gap-y-0.5 text-[11px]" aria-label="Match breakdown">
+      {MATCH_DIMENSIONS.map((dimension) => {
+        const { score: value, matched, comparable } = score.dimensions[dimension];
+        return (
+          <div key={dimension} className="contents" title={matched.length ? `Matched: ${matched.join(", ")}` : undefined}>
+            <dt className="text-[var(--text-tertiary)]">{MATCH_DIMENSION_LABELS[dimension]}</dt>
+            <dd className="h-1 overflow-hidden rounded-full bg-[var(--bg-tertiary)]">
+              <div className="h-full rounded-full bg-accent" style={{ width: `${comparable ? value : 0}%` }} />
+            </dd>
+            <dd className="w-6 text-right tabular-nums text-[var(--text-secondary)]">{comparable ? value : "–"}</dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+}
+
+function explainStrongest(score: MatchScore): string | null {
+  const dimension = strongestDimension(score);
+  if (!dimension) return null;
+  const { matched } = score.dimensions[dimension];
+  const label = MATCH_DIMENSION_LABELS[dimension].toLowerCase();
+  return matched.length ? `Picked for ${label}: ${matched.join(", ")}` : `Picked for ${label} overlap`;
+}
+
 function formatFundingStage(company: Company): string | null {
   if (!company.funding_rounds.length) return null;
   const latest = company.funding_rounds[company.funding_rounds.length - 1];
   return latest.type ?? null;
 }
 
-export function CompanyCard({ company, matchReason, onClick }: CompanyCardProps): React.JSX.Element {
+export function CompanyCard({
+  company,
+  matchReason,
+  preferenceFit,
+  matchScore,
+  explainPick = false,
+  openRoles,
+  onClick,
+}: CompanyCardProps): React.JSX.Element {
   const fundingStage = formatFundingStage(company);
+  const pickExplanation = explainPick && matchScore ? explainStrongest(matchScore) : null;
   const primarySector = company.sectors[0] ?? null;
 
   return (
-    <button
-      type="button"
-      onClick={() => onClick(company.id)}
-      className="flex w-full flex-col gap-2 rounded-lg border border-border/60 bg-[var(--bg-secondary)] p-4 text-left transition-all duration-150 hover:border-[var(--text-tertiary)] hover:bg-[var(--bg-tertiary)]"
-    >
-      <div className="flex items-start gap-3">
-        {company.logo_url ? (
-          // eslint-disable-next-line @next/next/no-img-element
-          <img
-            src={company.logo_url}
-            alt=""
-            className="mt-0.5 h-8 w-8 shrink-0 rounded-md border border-border/60 object-contain bg-white/5"
-            loading="lazy"
-          />
-        ) : (
-          <div className="mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-md border border-border/60 bg-[var(--bg-tertiary)] text-xs font-semibold text-[var(--text-tertiary)]">
-            {company.company_name.charAt(0)}
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => onClick(company.id)}
+        className="flex w-full flex-col gap-2 rounded-lg border border-border/60 bg-[var(--bg-secondary)] p-4 pr-16 text-left transition-all duration-150 hover:border-[var(--text-tertiary)] hover:bg-[var(--bg-tertiary)]"
+      >
+        <div className="flex items-start gap-3">
+          {company.logo_url ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={company.logo_url}
+              alt=""
+              className="mt-0.5 h-8 w-8 shrink-0 rounded-md border border-border/60 object-contain bg-white/5"
+              loading="lazy"
+            />
+          ) : (
+            <div className="mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-md border border-border/60 bg-[var(--bg-tertiary)] text-xs font-semibold text-[var(--text-tertiary)]">
+              {company.company_name.charAt(0)}
+            </div>
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-semibold text-[var(--text-primary)]">{company.company_name}</p>
+            {company.tagline ? (
+              <p className="mt-0.5 truncate text-xs text-[var(--text-secondary)]">{company.tagline}</p>
+            ) : null}
           </div>
-        )}
-        <div className="min-w-0 flex-1">
-          <p className="truncate text-sm font-semibold text-[var(--text-primary)]">{company.company_name}</p>
-          {company.tagline ? (
-            <p className="mt-0.5 truncate text-xs text-[var(--text-secondary)]">{company.tagline}</p>
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {matchScore ? (
+            <Badge variant="accent" className="text-[10px] px-2 py-0.5">
+              Match {matchScore.overall}
+            </Badge>
           ) : null}
+          {fundingStage ? <Badge className="text-[10px] px-2 py-0.5">{fundingStage}</Badge> : null}
+          {primarySector ? <Badge className="text-[10px] px-2 py-0.5">{primarySector}</Badge> : null}
         </div>
-      </div>
 
-      <div className="flex flex-wrap gap-1.5">
-        {fundingStage ? <Badge className="text-[10px] px-2 py-0.5">{fundingStage}</Badge> : null}
-        {primarySector ? <Badge className="text-[10px] px-2 py-0.5">{primarySector}</Badge> : null}
-      </div>
+        {matchReason ? (
+          <p className="line-clamp-2 text-xs leading-relaxed text-[var(--text-tertiary)]">{matchReason}</p>
+        ) : null}
 
-      {matchReason ? (
-        <p className="line-clamp-2 text-xs leading-relaxed text-[var(--text-tertiary)]">{matchReason}</p>
-      ) : null}
-    </button>
+        {pickExplanation ? <p className="text-[11px] text-[var(--text-secondary)]">{pickExplanation}</p> : null}
+
+        {matchScore ? <MatchBreakdown score={matchScore} /> : null}
+
+        {preferenceFit ? <PreferenceFitList fit={preferenceFit} /> : null}
+
+        {openRoles ? (
+          <p className={cn("flex items-center gap-1 text-[11px]", openRoles.relevantCount ? "text-accent" : "text-[var(--text-tertiary)]")}>
+            <Briefcase className="h-3 w-3 shrink-0" aria-hidden="true" />
+            {relevantRolesLabel(openRoles)}
+          </p>
+        ) : null}
+      </button>
+      {/* Siblings of the card button: links and buttons can't be nested inside a button. */}
+      <div className="absolute right-3 top-3 flex items-center gap-1">
+        <AddToListMenu companyId={company.id} companyName={company.company_name} />
+        <Link
+          href={companyPermalink(company.id)}
+          className="rounded-sm p-1 text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)]"
+          aria-label={`Open permalink for ${company.company_name}`}
+          title="Shareable link"
+        >
+          <Link2 className="h-3.5 w-3.5" aria-hidden="true" />
+        </Link>
+      </div>
+    </div>
   );
 }
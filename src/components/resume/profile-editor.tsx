@@ -0,0 +1,390 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { COMPANY_STAGE_LABELS, COMPANY_STAGES } from "@/lib/resume/preferences";
+import type { ResumePreferences, ResumeProfile } from "@/lib/resume/schemas";
+import { TEAM_SIZE_BUCKETS } from "@/lib/search/filters";
+import { SECTORS } from "@/lib/search/taxonomy";
+
+type Sector = (typeof SECTORS)[number];
+type ProfileListField = "industriesWorked" | "problemSpaces" | "productTypes" | "customerSegments";
+
+const USD_PER_MILLION = 1_000_000;
+
+const LIST_FIELDS: Array<{ field: ProfileListField; label: string; placeholder: string }> = [
+  { field: "industriesWorked", label: "Industries", placeholder: "e.g. Fintech" },
+  { field: "problemSpaces", label: "Problem spaces", placeholder: "e.g. fraud detection" },
+  { field: "productTypes", label: "Product types", placeholder: "e.g. API platforms" },
+  { field: "customerSegments", label: "Customer segments", placeholder: "e.g. SMBs" },
+];
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-border/60 bg-transparent px-3 py-2 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:border-accent focus:outline-none";
+const SECTION_LABEL_CLASS = "text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)]";
+
+interface ProfileEditorProps {
+  profile: ResumeProfile;
+  preferences: ResumePreferences;
+  onConfirm: (profile: ResumeProfile, preferences: ResumePreferences) => void;
+  disabled?: boolean;
+}
+
+function TagListEditor({
+  label,
+  placeholder,
+  values,
+  onChange,
+}: {
+  label: string;
+  placeholder: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}): React.JSX.Element {
+  const [draft, setDraft] = useState("");
+
+  const add = () => {
+    const value = draft.trim();
+    if (value && !values.some((existing) => existing.toLowerCase() === value.toLowerCase())) {
+      onChange([...values, value]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className={SECTION_LABEL_CLASS}>{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {values.map((value) => (
+          <span
+            key={value}
+            className="inline-flex items-center gap-1 rounded-full border border-border bg-muted py-1 pl-2.5 pr-1.5 text-xs text-[var(--text-secondary)]"
+          >
+            {value}
+            <button
+              type="button"
+              onClick={() => onChange(values.filter((existing) => existing !== value))}
+              aria-label={`Remove ${value}`}
+              className="rounded-full p-0.5 hover:text-[var(--text-primary)]"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              add();
+            }
+          }}
+          onBlur={add}
+          placeholder={placeholder}
+          aria-label={`Add to ${label.toLowerCase()}`}
+          className="min-w-[140px] flex-1 bg-transparent px-1 py-1 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none"
+        />
+      </div>
+    </div>
+  );
+}
+
+function ChipToggle({
+  label,
+  selected,
+  muted,
+  onClick,
+}: {
+  label: string;
+  selected: boolean;
+  muted?: boolean;
+  onClick: () => void;
+}): React.JSX.Element {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      onClick={onClick}
+      className={`rounded-full border px-2.5 py-1 text-xs transition-colors ${
+        selected
+          ? "border-accent/40 bg-accent/10 text-accent"
+          : muted
+            ? "border-border/40 text-[var(--text-tertiary)] line-through"
+            : "border-border text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((existing) => existing !== value) : [...values, value];
+}
+
+/** Millions typed by the candidate, in USD; empty means no bound. */
+function parseMillions(value: string): number | undefined {
+  const millions = Number.parseFloat(value);
+  return value.trim() && Number.isFinite(millions) && millions >= 0 ? Math.round(millions * USD_PER_MILLION) : undefined;
+}
+
+function SectorPicker({
+  label,
+  selected,
+  blocked,
+  onToggle,
+}: {
+  label: string;
+  selected: Sector[];
+  /** Sectors chosen in the other list; picking one here moves it. */
+  blocked: Sector[];
+  onToggle: (sector: Sector) => void;
+}): React.JSX.Element {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-[var(--text-secondary)]">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {SECTORS.map((sector) => (
+          <ChipToggle
+            key={sector}
+            label={sector}
+            selected={selected.includes(sector)}
+            muted={blocked.includes(sector)}
+            onClick={() => onToggle(sector)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Lets the candidate correct the extracted profile and set what they want from a company before searching. */
+export function ProfileEditor({ profile, preferences, onConfirm, disabled }: ProfileEditorProps): React.JSX.Element {
+  const [draft, setDraft] = useState<ResumeProfile>(profile);
+  const [draftPreferences, setDraftPreferences] = useState<ResumePreferences>(preferences);
+  const [minRaisedMillions, setMinRaisedMillions] = useState(
+    preferences.minRaisedUsd !== undefined ? String(preferences.minRaisedUsd / USD_PER_MILLION) : ""
+  );
+  const [maxRaisedMillions, setMaxRaisedMillions] = useState(
+    preferences.maxRaisedUsd !== undefined ? String(preferences.maxRaisedUsd / USD_PER_MILLION) : ""
+  );
+
+  const experienceAreas = draft.experienceAreas.filter((area) => area.domain.trim());
+  const minRaisedUsd = parseMillions(minRaisedMillions);
+  const maxRaisedUsd = parseMillions(maxRaisedMillions);
+  const raisedRangeInvalid = minRaisedUsd !== undefined && maxRaisedUsd !== undefined && minRaisedUsd > maxRaisedUsd;
+  const canConfirm = !disabled && experienceAreas.length > 0 && !raisedRangeInvalid;
+
+  const updateArea = (index: number, patch: Partial<ResumeProfile["experienceAreas"][number]>) => {
+    setDraft((prev) => ({
+      ...prev,
+      experienceAreas: prev.experienceAreas.map((area, areaIndex) => (areaIndex === index ? { ...area, ...patch } : area)),
+    }));
+  };
+
+  const toggleSector = (sector: Sector, list: "includeSectors" | "excludeSectors") => {
+    const other = list === "includeSectors" ? "excludeSectors" : "includeSectors";
+    setDraftPreferences((prev) => ({
+      ...prev,
+      [list]: toggleValue(prev[list], sector),
+      [other]: prev[other].filter((value) => value !== sector),
+    }));
+  };
+
+  return (
+    <form
+      className="mx-auto w-full max-w-2xl space-y-8"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (!canConfirm) return;
+        onConfirm({ ...draft, experienceAreas }, { ...draftPreferences, minRaisedUsd, maxRaisedUsd });
+      }}
+    >
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className={SECTION_LABEL_CLASS}>Experience areas</p>
+          <button
+            type="button"
+            onClick={() =>
+              setDraft((prev) => ({
+                ...prev,
+                experienceAreas: [...prev.experienceAreas, { domain: "", context: "", yearsApprox: 1 }],
+              }))
+            }
+            className="flex items-center gap-1 text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add area
+          </button>
+        </div>
+        {draft.experienceAreas.map((area, index) => (
+          <div key={index} className="space-y-2 rounded-xl border border-border/60 p-3">
+            <div className="flex items-center gap-2">
+              <input
+                value={area.domain}
+                onChange={(event) => updateArea(index, { domain: event.target.value })}
+                placeholder="Domain, e.g. SMB lending products"
+                aria-label="Domain"
+                className={INPUT_CLASS}
+              />
+              <input
+                type="number"
+                min={0}
+                max={60}
+                value={area.yearsApprox}
+                onChange={(event) => updateArea(index, { yearsApprox: Math.max(0, Number(event.target.value) || 0) })}
+                aria-label="Years"
+                className={`${INPUT_CLASS} w-20 shrink-0`}
+              />
+              <span className="text-xs text-[var(--text-tertiary)]">yrs</span>
+              <button
+                type="button"
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    experienceAreas: prev.experienceAreas.filter((_, areaIndex) => areaIndex !== index),
+                  }))
+                }
+                aria-label={`Remove ${area.domain || "experience area"}`}
+                className="shrink-0 rounded-md p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <input
+              value={area.context}
+              onChange={(event) => updateArea(index, { context: event.target.value })}
+              placeholder="What you built or did"
+              aria-label="Context"
+              className={INPUT_CLASS}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-6 sm:grid-cols-2">
+        {LIST_FIELDS.map(({ field, label, placeholder }) => (
+          <TagListEditor
+            key={field}
+            label={label}
+            placeholder={placeholder}
+            values={draft[field]}
+            onChange={(values) => setDraft((prev) => ({ ...prev, [field]: values }))}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <p className={SECTION_LABEL_CLASS}>Preferences</p>
+        <SectorPicker
+          label="Sectors I want to work in"
+          selected={draftPreferences.includeSectors}
+          blocked={draftPreferences.excludeSectors}
+          onToggle={(sector) => toggleSector(sector, "includeSectors")}
+        />
+        <SectorPicker
+          label="Sectors to leave out"
+          selected={draftPreferences.excludeSectors}
+          blocked={draftPreferences.includeSectors}
+          onToggle={(sector) => toggleSector(sector, "excludeSectors")}
+        />
+
+        <div className="grid gap-6 sm:grid-cols-2">
+          <div className="space-y-2">
+            <TagListEditor
+              label="Locations"
+              placeholder="e.g. New York, Germany"
+              values={draftPreferences.locations}
+              onChange={(locations) => setDraftPreferences((prev) => ({ ...prev, locations }))}
+            />
+            <label className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+              <input
+                type="checkbox"
+                checked={draftPreferences.openToRemote}
+                onChange={(event) => setDraftPreferences((prev) => ({ ...prev, openToRemote: event.target.checked }))}
+                className="accent-[var(--accent)]"
+              />
+              Open to remote (locations rank companies instead of filtering them)
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <p className={SECTION_LABEL_CLASS}>Funding raised ($M)</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={minRaisedMillions}
+                onChange={(event) => setMinRaisedMillions(event.target.value)}
+                placeholder="Min"
+                aria-label="Minimum raised in millions of USD"
+                className={INPUT_CLASS}
+              />
+              <span className="text-xs text-[var(--text-tertiary)]">to</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={maxRaisedMillions}
+                onChange={(event) => setMaxRaisedMillions(event.target.value)}
+                placeholder="Max"
+                aria-label="Maximum raised in millions of USD"
+                className={INPUT_CLASS}
+              />
+            </div>
+            {raisedRangeInvalid ? (
+              <p className="text-xs text-red-400">The minimum is above the maximum.</p>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-[var(--text-secondary)]">Company stage</p>
+          <div className="flex flex-wrap gap-2">
+            {COMPANY_STAGES.map((stage) => (
+              <ChipToggle
+                key={stage}
+                label={COMPANY_STAGE_LABELS[stage]}
+                selected={draftPreferences.stages.includes(stage)}
+                onClick={() => setDraftPreferences((prev) => ({ ...prev, stages: toggleValue(prev.stages, stage) }))}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-[var(--text-secondary)]">Team size</p>
+          <div className="flex flex-wrap gap-2">
+            {TEAM_SIZE_BUCKETS.map((bucket) => (
+              <ChipToggle
+                key={bucket}
+                label={bucket}
+                selected={draftPreferences.teamSizeBuckets.includes(bucket)}
+                onClick={() =>
+                  setDraftPreferences((prev) => ({ ...prev, teamSizeBuckets: toggleValue(prev.teamSizeBuckets, bucket) }))
+                }
+              />
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-[var(--text-tertiary)]">
+          Locations, team size and funding filter the search, so companies without that data are left out. Stage only
+          reorders results.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {!experienceAreas.length ? (
+          <p className="text-xs text-[var(--text-tertiary)]">Add at least one experience area.</p>
+        ) : null}
+        <Button type="submit" disabled={!canConfirm}>
+          Find matching startups
+        </Button>
+      </div>
+    </form>
+  );
+}
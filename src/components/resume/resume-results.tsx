@@ -1,24 +1,52 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { ChevronDown, ChevronRight, Dice5 } from "lucide-react";
 
+import { ExportMenu } from "@/components/export/export-menu";
 import { CompanyCard } from "@/components/resume/company-card";
+import type { CompanyOpenRoles } from "@/lib/jobs/open-roles";
+import { MATCH_DIMENSION_LABELS, MATCH_DIMENSIONS, type MatchDimension, type MatchScore } from "@/lib/resume/match-score";
+import type { PreferenceFit } from "@/lib/resume/preferences";
 import { reasonsToMap, type GroupedResults } from "@/lib/resume/schemas";
 import type { Company } from "@/types/company";
 
 interface ResumeResultsProps {
   grouped: GroupedResults;
   companiesById: Record<string, Company>;
+  /** Job-seeker preference fit per company, when the candidate set preferences. */
+  preferenceFit?: Record<string, PreferenceFit>;
+  matchScores: Record<string, MatchScore>;
+  /** Relevant roles per company with a supported job board. */
+  openRoles?: Record<string, CompanyOpenRoles>;
   onCompanyClick: (companyId: string) => void;
 }
 
+/** "rank" keeps the search order; the others sort by the overall match score or one of its dimensions. */
+type ResultsSort = "rank" | "overall" | MatchDimension;
+
+const MIN_SCORE_OPTIONS = [0, 25, 50, 75] as const;
+
+const selectClassName =
+  "h-8 rounded-md border border-border/60 bg-transparent px-2 text-xs text-[var(--text-primary)] focus:outline-none";
+
+function sortScore(score: MatchScore | undefined, sort: Exclude<ResultsSort, "rank">): number {
+  if (!score) return -1;
+  return sort === "overall" ? score.overall : score.dimensions[sort].score;
+}
+
 function GroupSection({
   title,
   description,
   companyIds,
   matchReasons,
   companiesById,
+  preferenceFit,
+  matchScores,
+  openRoles,
+  sort,
+  minScore,
+  explainPicks,
   onCompanyClick,
   icon,
   defaultOpen,
@@ -28,12 +56,25 @@ function GroupSection({
   companyIds: string[];
   matchReasons: Record<string, string>;
   companiesById: Record<string, Company>;
+  preferenceFit?: Record<string, PreferenceFit>;
+  matchScores: Record<string, MatchScore>;
+  openRoles?: Record<string, CompanyOpenRoles>;
+  sort: ResultsSort;
+  minScore: number;
+  /** Names each card's strongest match dimension, for picks whose fit is not obvious. */
+  explainPicks?: boolean;
   onCompanyClick: (companyId: string) => void;
   icon?: React.ReactNode;
   defaultOpen?: boolean;
 }): React.JSX.Element {
   const [isOpen, setIsOpen] = useState(defaultOpen ?? true);
-  const validCompanies = companyIds.filter((id) => companiesById[id]);
+  const validCompanies = useMemo(() => {
+    const visible = companyIds.filter(
+      (id) => companiesById[id] && (minScore === 0 || (matchScores[id]?.overall ?? 0) >= minScore)
+    );
+    if (sort === "rank") return visible;
+    return [...visible].sort((a, b) => sortScore(matchScores[b], sort) - sortScore(matchScores[a], sort));
+  }, [companiesById, companyIds, matchScores, minScore, sort]);
 
   if (!validCompanies.length) return <></>;
 
@@ -68,6 +109,10 @@ function GroupSection({
                   key={id}
                   company={company}
                   matchReason={matchReasons[id]}
+                  preferenceFit={preferenceFit?.[id]}
+                  matchScore={matchScores[id]}
+                  explainPick={explainPicks}
+                  openRoles={openRoles?.[id]}
                   onClick={onCompanyClick}
                 />
               );
@@ -79,16 +124,57 @@ function GroupSection({
   );
 }
 
-export function ResumeResults({ grouped, companiesById, onCompanyClick }: ResumeResultsProps): React.JSX.Element {
-  const totalCompanies =
-    grouped.groups.reduce((sum, g) => sum + g.companyIds.length, 0) + grouped.feelingLucky.companyIds.length;
+export function ResumeResults({
+  grouped,
+  companiesById,
+  preferenceFit,
+  matchScores,
+  openRoles,
+  onCompanyClick,
+}: ResumeResultsProps): React.JSX.Element {
+  const [sort, setSort] = useState<ResultsSort>("rank");
+  const [minScore, setMinScore] = useState(0);
+  const allIds = [...grouped.groups.flatMap((g) => g.companyIds), ...grouped.feelingLucky.companyIds];
+  const totalCompanies = allIds.length;
+  const shownCompanies =
+    minScore === 0 ? totalCompanies : allIds.filter((id) => (matchScores[id]?.overall ?? 0) >= minScore).length;
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-3">
         <p className="text-xs text-[var(--text-tertiary)]">
+          {shownCompanies < totalCompanies ? `${shownCompanies} of ` : ""}
           {totalCompanies} companies across {grouped.groups.length} categories
         </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={sort}
+            onChange={(event) => setSort(event.target.value as ResultsSort)}
+            aria-label="Sort companies"
+            className={selectClassName}
+          >
+            <option value="rank">Search rank</option>
+            <option value="overall">Match score</option>
+            {MATCH_DIMENSIONS.map((dimension) => (
+              <option key={dimension} value={dimension}>
+                {MATCH_DIMENSION_LABELS[dimension]} match
+              </option>
+            ))}
+          </select>
+          <select
+            value={minScore}
+            onChange={(event) => setMinScore(Number(event.target.value))}
+            aria-label="Minimum match score"
+            className={selectClassName}
+          >
+            {MIN_SCORE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option === 0 ? "Any match score" : `Match ${option}+`}
+              </option>
+            ))}
+          </select>
+          <ExportMenu source={{ resume: grouped }} />
+        </div>
       </div>
 
       {grouped.groups.map((group, index) => (
@@ -99,6 +185,11 @@ export function ResumeResults({ grouped, companiesById, onCompanyClick }: Resume
           companyIds={group.companyIds}
           matchReasons={reasonsToMap(group.companyReasons)}
           companiesById={companiesById}
+          preferenceFit={preferenceFit}
+          matchScores={matchScores}
+          openRoles={openRoles}
+          sort={sort}
+          minScore={minScore}
           onCompanyClick={onCompanyClick}
           defaultOpen={index < 3}
         />
@@ -112,6 +203,12 @@ export function ResumeResults({ grouped, companiesById, onCompanyClick }: Resume
             companyIds={grouped.feelingLucky.companyIds}
             matchReasons={reasonsToMap(grouped.feelingLucky.companyReasons)}
             companiesById={companiesById}
+            preferenceFit={preferenceFit}
+            matchScores={matchScores}
+            openRoles={openRoles}
+            sort={sort}
+            minScore={minScore}
+            explainPicks
             onCompanyClick={onCompanyClick}
             icon={<Dice5 className="h-4 w-4 text-accent" />}
             defaultOpen
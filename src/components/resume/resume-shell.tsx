@@ -1,15 +1,19 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
-import { ArrowLeft, ArrowRight, Loader2 } from "lucide-react";
+import { ArrowLeft, ArrowRight, Loader2, RotateCcw } from "lucide-react";
 
+import { ProfileEditor } from "@/components/resume/profile-editor";
 import { ResumeUploadZone } from "@/components/resume/resume-upload-zone";
 import { ResumeResults } from "@/components/resume/resume-results";
+import { ShareRunButton } from "@/components/resume/share-run-button";
 import { CompanySidePanel } from "@/components/company/company-side-panel";
 import { Badge } from "@/components/ui/badge";
 import { useResumeMatch, type ActivityStep } from "@/hooks/use-resume-match";
+import type { ResumeJobView } from "@/lib/resume/resume-jobs";
+import type { RestoredResumeRun } from "@/lib/resume/resume-runs";
 
 function ActivityTimeline({ steps, searchProgress }: { steps: ActivityStep[]; searchProgress: { completed: number; total: number; currentQuery: string; recentQueries: string[] } | null }): React.JSX.Element {
   return (
@@ -18,6 +22,8 @@ function ActivityTimeline({ steps, searchProgress }: { steps: ActivityStep[]; se
         <div key={step.id} className="flex items-center gap-3">
           {step.status === "running" ? (
             <Loader2 className="h-4 w-4 shrink-0 animate-spin text-accent" />
+          ) : step.status === "failed" ? (
+            <div className="h-4 w-4 shrink-0 rounded-full border-2 border-red-400 bg-red-400/20" />
           ) : (
             <div className="h-4 w-4 shrink-0 rounded-full border-2 border-accent bg-accent/20" />
           )}
@@ -56,7 +62,14 @@ function ActivityTimeline({ steps, searchProgress }: { steps: ActivityStep[]; se
   );
 }
 
-export function ResumeShell(): React.JSX.Element {
+interface ResumeShellProps {
+  /** Stored run to reopen from its permalink; remount with `key` when it changes. */
+  initialRun?: RestoredResumeRun | null;
+  /** Job to reattach to after a reload; remount with `key` when it changes. */
+  initialJob?: ResumeJobView | null;
+}
+
+export function ResumeShell({ initialRun = null, initialJob = null }: ResumeShellProps): React.JSX.Element {
   const router = useRouter();
   const {
     phase,
@@ -65,11 +78,24 @@ export function ResumeShell(): React.JSX.Element {
     activitySteps,
     searchProgress,
     profile,
+    preferences,
     groupedResults,
     companiesById,
+    preferenceFit,
+    matchScores,
+    openRoles,
+    jobId,
+    failedStage,
+    runId,
+    runShared,
+    isRunOwner,
     uploadResume,
+    submitResumeText,
+    confirmProfile,
+    retry,
+    cancel,
     reset,
-  } = useResumeMatch();
+  } = useResumeMatch({ initialRun, initialJob });
 
   const [selectedCompanyId, setSelectedCompanyId] = useState<string | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
@@ -89,8 +115,30 @@ export function ResumeShell(): React.JSX.Element {
     setSelectedCompanyId(null);
   }, []);
 
+  // Point the URL at the stored run, or at the job until its results are in, so a reload picks up
+  // where the page was and a copied link reopens the results.
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const job = runId ? null : jobId;
+    if (url.searchParams.get("run") === runId && url.searchParams.get("job") === job) {
+      return;
+    }
+    for (const [name, value] of [["run", runId], ["job", job]] as const) {
+      if (value) {
+        url.searchParams.set(name, value);
+      } else {
+        url.searchParams.delete(name);
+      }
+    }
+    window.history.replaceState(null, "", url);
+  }, [jobId, runId]);
+
   const handleContinueInChat = useCallback(() => {
-    // Store resume context in sessionStorage for the chat to pick up
+    if (runId) {
+      router.push(`/?resumeRun=${encodeURIComponent(runId)}`);
+      return;
+    }
+    // The run was not stored: hand the results over in sessionStorage instead
     if (profile && groupedResults) {
       const context = {
         profile,
@@ -104,7 +152,7 @@ export function ResumeShell(): React.JSX.Element {
       sessionStorage.setItem("resumeContext", JSON.stringify(context));
       router.push("/?from=resume");
     }
-  }, [profile, groupedResults, companiesById, router]);
+  }, [runId, profile, groupedResults, companiesById, router]);
 
   return (
     <div className="flex h-screen flex-col">
@@ -125,8 +173,30 @@ export function ResumeShell(): React.JSX.Element {
         </div>
 
         <div className="flex items-center gap-3">
+          {phase === "processing" && !failedStage ? (
+            <button
+              type="button"
+              onClick={cancel}
+              className="text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+            >
+              Stop
+            </button>
+          ) : null}
+          {phase === "review" || failedStage ? (
+            <button
+              type="button"
+              onClick={reset}
+              className="text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+            >
+              New Upload
+            </button>
+          ) : null}
           {phase === "results" ? (
             <>
+              {runId && isRunOwner ? <ShareRunButton key={runId} runId={runId} shared={runShared} /> : null}
+              {runId && !isRunOwner ? (
+                <span className="text-xs text-[var(--text-tertiary)]">Shared with you</span>
+              ) : null}
               <button
                 type="button"
                 onClick={reset}
@@ -168,7 +238,7 @@ export function ResumeShell(): React.JSX.Element {
                   Upload your resume and we&apos;ll search across hundreds of startups to find companies in your domain.
                 </p>
               </div>
-              <ResumeUploadZone onFileSelected={uploadResume} disabled={isProcessing} />
+              <ResumeUploadZone onFileSelected={uploadResume} onTextSubmitted={submitResumeText} disabled={isProcessing} />
               {error ? (
                 <p className="text-sm text-red-400">{error}</p>
               ) : null}
@@ -179,11 +249,11 @@ export function ResumeShell(): React.JSX.Element {
           {phase === "processing" ? (
             <div className="flex h-full flex-col items-center justify-center gap-8 px-6">
               <div className="text-center">
-                <h2 className="text-lg font-semibold text-[var(--text-primary)]">Analyzing your resume</h2>
+                <h2 className="text-lg font-semibold text-[var(--text-primary)]">{profile ? "Finding matching startups" : "Analyzing your resume"}</h2>
                 <p className="mt-1 text-sm text-[var(--text-secondary)]">This may take a minute...</p>
               </div>
 
-              <ActivityTimeline steps={activitySteps} searchProgress={searchProgress} />
+              <ActivityTimeline steps={activitySteps} searchProgress={failedStage ? null : searchProgress} />
 
               {profile ? (
                 <div className="mx-auto max-w-lg space-y-3">
@@ -205,6 +275,34 @@ export function ResumeShell(): React.JSX.Element {
               {error ? (
                 <p className="text-sm text-red-400">{error}</p>
               ) : null}
+              {failedStage ? (
+                <button
+                  type="button"
+                  onClick={retry}
+                  disabled={isProcessing}
+                  className="flex items-center gap-1.5 rounded-md bg-accent px-3 py-1.5 text-xs font-semibold text-[var(--bg-primary)] hover:bg-[var(--accent-hover)] transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  Retry this step
+                </button>
+              ) : null}
+            </div>
+          ) : null}
+
+          {/* Review Phase */}
+          {phase === "review" && profile ? (
+            <div className="space-y-6 px-6 py-8">
+              <div className="text-center">
+                <h2 className="text-lg font-semibold text-[var(--text-primary)]">Check your profile</h2>
+                <p className="mx-auto mt-1 max-w-xl text-sm text-[var(--text-secondary)]">{profile.summary}</p>
+                <p className="mt-2 text-xs text-[var(--text-tertiary)]">
+                  Fix anything we got wrong and pick the sectors you care about. We search with exactly what you confirm.
+                </p>
+              </div>
+              <ProfileEditor profile={profile} preferences={preferences} onConfirm={confirmProfile} disabled={isProcessing} />
+              {error ? (
+                <p className="text-center text-sm text-red-400">{error}</p>
+              ) : null}
             </div>
           ) : null}
 
@@ -231,6 +329,9 @@ export function ResumeShell(): React.JSX.Element {
               <ResumeResults
                 grouped={groupedResults}
                 companiesById={companiesById}
+                preferenceFit={preferenceFit}
+                matchScores={matchScores}
+                openRoles={openRoles}
                 onCompanyClick={openCompany}
               />
             </div>
@@ -240,7 +341,11 @@ export function ResumeShell(): React.JSX.Element {
         {/* Side Panel */}
         {detailsOpen ? (
           <section className="min-h-0">
-            <CompanySidePanel company={selectedCompany} onClose={closeCompanyDetails} />
+            <CompanySidePanel
+              company={selectedCompany}
+              onClose={closeCompanyDetails}
+              openRoles={selectedCompanyId ? openRoles[selectedCompanyId] : undefined}
+            />
           </section>
         ) : null}
       </div>
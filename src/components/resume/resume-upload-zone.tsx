@@ -1,24 +1,55 @@
 "use client";
 
 import { useCallback, useRef, useState } from "react";
-import { FileUp } from "lucide-react";
+import { ClipboardPaste, FileUp } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  declaredResumeFormat,
+  formatSizeLimit,
+  MAX_RESUME_FILE_BYTES,
+  RESUME_FILE_ACCEPT,
+  RESUME_FORMATS,
+  sizeLimitMessage,
+  UNSUPPORTED_RESUME_FORMAT_MESSAGE,
+} from "@/lib/resume/formats";
+
+/** The server needs at least this much text to build a profile. */
+const MIN_PASTED_LENGTH = 50;
 
 interface ResumeUploadZoneProps {
   onFileSelected: (file: File) => void;
+  /** Receives a resume or LinkedIn profile pasted in "Paste text" mode. */
+  onTextSubmitted: (text: string) => void;
   disabled?: boolean;
 }
 
-export function ResumeUploadZone({ onFileSelected, disabled }: ResumeUploadZoneProps): React.JSX.Element {
+export function ResumeUploadZone({ onFileSelected, onTextSubmitted, disabled }: ResumeUploadZoneProps): React.JSX.Element {
+  const [mode, setMode] = useState<"file" | "paste">("file");
+  const [pastedText, setPastedText] = useState("");
   const [isDragOver, setIsDragOver] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  // The declared type is only a first check; the server reads the file's bytes to decide its format.
   const validate = useCallback((file: File): string | null => {
-    if (file.type !== "application/pdf") return "Only PDF files are supported";
-    if (file.size > 5 * 1024 * 1024) return "File must be under 5MB";
+    const format = declaredResumeFormat(file.name, file.type);
+    if (!format) return UNSUPPORTED_RESUME_FORMAT_MESSAGE;
+    if (file.size > format.maxBytes) return sizeLimitMessage(format);
     return null;
   }, []);
 
+  const handleTextSubmit = useCallback(() => {
+    const text = pastedText.trim();
+    if (disabled || text.length < MIN_PASTED_LENGTH) return;
+    if (new TextEncoder().encode(text).length > RESUME_FORMATS.pasted.maxBytes) {
+      setValidationError(sizeLimitMessage(RESUME_FORMATS.pasted));
+      return;
+    }
+    setValidationError(null);
+    onTextSubmitted(text);
+  }, [disabled, onTextSubmitted, pastedText]);
+
   const handleFile = useCallback(
     (file: File) => {
       const error = validate(file);
@@ -70,6 +101,45 @@ export function ResumeUploadZone({ onFileSelected, disabled }: ResumeUploadZoneP
     [handleFile]
   );
 
+  if (mode === "paste") {
+    return (
+      <form
+        className="flex w-full max-w-md flex-col gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleTextSubmit();
+        }}
+      >
+        <textarea
+          value={pastedText}
+          disabled={disabled}
+          onChange={(event) => setPastedText(event.target.value)}
+          placeholder="Paste your resume or LinkedIn profile (About, Experience, Skills)"
+          aria-label="Resume text"
+          className="min-h-[220px] w-full resize-y rounded-xl border border-border/60 bg-transparent p-4 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:border-accent focus:outline-none"
+        />
+        <div className="flex items-center justify-between gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              setMode("file");
+              setValidationError(null);
+            }}
+            className="text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            Upload a file instead
+          </button>
+          <Button type="submit" disabled={disabled || pastedText.trim().length < MIN_PASTED_LENGTH}>
+            Match my profile
+          </Button>
+        </div>
+        {validationError ? (
+          <p className="text-sm text-red-400">{validationError}</p>
+        ) : null}
+      </form>
+    );
+  }
+
   return (
     <div className="flex flex-col items-center gap-4">
       <button
@@ -93,19 +163,34 @@ export function ResumeUploadZone({ onFileSelected, disabled }: ResumeUploadZoneP
           <p className="text-sm font-medium text-[var(--text-primary)]">
             Drop your resume here or click to browse
           </p>
-          <p className="mt-1 text-xs text-[var(--text-tertiary)]">PDF only, up to 5MB</p>
+          <p className="mt-1 text-xs text-[var(--text-tertiary)]">
+            PDF, Word (.docx), RTF, Markdown or text, up to {formatSizeLimit(MAX_RESUME_FILE_BYTES)}
+          </p>
         </div>
       </button>
 
       <input
         ref={inputRef}
         type="file"
-        accept="application/pdf"
+        accept={RESUME_FILE_ACCEPT}
         onChange={handleChange}
         className="hidden"
-        aria-label="Upload resume PDF"
+        aria-label="Upload resume file"
       />
 
+      <button
+        type="button"
+        onClick={() => {
+          setMode("paste");
+          setValidationError(null);
+        }}
+        disabled={disabled}
+        className="flex items-center gap-1.5 text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors disabled:cursor-not-allowed"
+      >
+        <ClipboardPaste className="h-3.5 w-3.5" aria-hidden="true" />
+        Paste text or a LinkedIn profile instead
+      </button>
+
       {validationError ? (
         <p className="text-sm text-red-400">{validationError}</p>
       ) : null}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { Check, LoaderCircle, Share2 } from "lucide-react";
+
+interface ShareRunButtonProps {
+  runId: string;
+  /** Whether the run's share link is already on. */
+  shared: boolean;
+}
+
+export function resumeRunPermalink(runId: string): string {
+  return `/resume?run=${encodeURIComponent(runId)}`;
+}
+
+/** Turns on the run's share link and copies it; remount with `key={runId}` to reset. */
+export function ShareRunButton({ runId, shared }: ShareRunButtonProps): React.JSX.Element {
+  const [isShared, setIsShared] = useState(shared);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const share = async () => {
+    setIsSharing(true);
+    setError(null);
+    try {
+      if (!isShared) {
+        const response = await fetch(`/api/resume/runs/${encodeURIComponent(runId)}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ shared: true }),
+        });
+        const body = (await response.json()) as { run: { shared: boolean } } | { error: string };
+        if (!response.ok || "error" in body) {
+          setError("error" in body ? body.error : "Could not share these results.");
+          return;
+        }
+        setIsShared(body.run.shared);
+      }
+      await navigator.clipboard.writeText(new URL(resumeRunPermalink(runId), window.location.origin).toString());
+      setCopied(true);
+    } catch {
+      setError("Could not copy the link.");
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={share}
+        disabled={isSharing}
+        title="Anyone signed in with the link can view these results"
+        className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.5px] text-[var(--text-tertiary)] transition-colors hover:text-[var(--text-primary)] disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {isSharing ? (
+          <LoaderCircle className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+        ) : copied ? (
+          <Check className="h-3.5 w-3.5" aria-hidden="true" />
+        ) : (
+          <Share2 className="h-3.5 w-3.5" aria-hidden="true" />
+        )}
+        {copied ? "Link copied" : "Share"}
+      </button>
+      {error ? <span className="text-xs text-red-400">{error}</span> : null}
+    </div>
+  );
+}
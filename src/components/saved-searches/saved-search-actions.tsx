@@ -0,0 +1,59 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { LoaderCircle, RotateCcw, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+interface SavedSearchActionsProps {
+  savedSearchId: string;
+}
+
+export function SavedSearchActions({ savedSearchId }: SavedSearchActionsProps): React.JSX.Element {
+  const router = useRouter();
+  const [pending, setPending] = useState<"run" | "delete" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const endpoint = `/api/saved-searches/${encodeURIComponent(savedSearchId)}`;
+
+  const perform = async (action: "run" | "delete") => {
+    setPending(action);
+    setError(null);
+    try {
+      const response = await fetch(action === "run" ? `${endpoint}/run` : endpoint, {
+        method: action === "run" ? "POST" : "DELETE",
+      });
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null;
+        setError(body?.error ?? (action === "run" ? "Re-run failed." : "Delete failed."));
+        return;
+      }
+      if (action === "delete") {
+        router.push("/saved-searches");
+      }
+      router.refresh();
+    } catch {
+      setError(action === "run" ? "Re-run failed." : "Delete failed.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Button variant="secondary" size="sm" onClick={() => void perform("run")} disabled={pending !== null}>
+        {pending === "run" ? (
+          <LoaderCircle className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <RotateCcw className="mr-2 h-4 w-4" aria-hidden="true" />
+        )}
+        {pending === "run" ? "Running..." : "Run now"}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => void perform("delete")} disabled={pending !== null}>
+        <Trash2 className="mr-2 h-4 w-4" aria-hidden="true" />
+        Delete
+      </Button>
+      {error ? <p className="text-xs text-red-400">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import Link from "next/link";
+
+import { formatTimestamp } from "@/components/admin/run-format";
+import { Badge } from "@/components/ui/badge";
+import { describeSavedSearchRequest, type SavedSearchRow } from "@/lib/search/saved-searches";
+
+interface SavedSearchListProps {
+  savedSearches: SavedSearchRow[];
+}
+
+export function SavedSearchList({ savedSearches }: SavedSearchListProps): React.JSX.Element {
+  return (
+    <ul className="divide-y divide-border/40">
+      {savedSearches.map((saved) => (
+        <li key={saved.id} className="flex flex-wrap items-start justify-between gap-3 py-4">
+          <div className="min-w-0">
+            <Link href={`/saved-searches/${saved.id}`} className="text-[15px] font-medium text-[var(--text-primary)] hover:text-accent">
+              {saved.name}
+            </Link>
+            {saved.request.query && saved.request.query !== saved.name ? (
+              <p className="mt-0.5 text-sm text-[var(--text-secondary)]">{saved.request.query}</p>
+            ) : null}
+            <p className="mt-1 text-xs text-[var(--text-tertiary)]">{describeSavedSearchRequest(saved.request)}</p>
+          </div>
+          <div className="flex shrink-0 flex-col items-end gap-1.5">
+            {saved.new_company_ids.length ? (
+              <Badge variant="accent">{saved.new_company_ids.length} new since last run</Badge>
+            ) : (
+              <Badge>No new companies</Badge>
+            )}
+            <p className="text-xs text-[var(--text-tertiary)]">
+              {saved.last_run_error ? <span className="text-red-400">Last run failed · </span> : null}
+              Ran {formatTimestamp(saved.last_run_at)} UTC
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
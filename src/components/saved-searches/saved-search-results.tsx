@@ -0,0 +1,34 @@
+import Link from "next/link";
+
+import { Badge } from "@/components/ui/badge";
+import type { Company } from "@/types/company";
+
+interface SavedSearchResultsProps {
+  companies: Company[];
+  /** Companies to mark as new since the previous run. */
+  newCompanyIds?: string[];
+  emptyMessage: string;
+}
+
+export function SavedSearchResults({ companies, newCompanyIds = [], emptyMessage }: SavedSearchResultsProps): React.JSX.Element {
+  if (!companies.length) {
+    return <p className="text-sm text-[var(--text-tertiary)]">{emptyMessage}</p>;
+  }
+
+  const newIds = new Set(newCompanyIds);
+  return (
+    <ol className="divide-y divide-border/40">
+      {companies.map((company) => (
+        <li key={company.id} className="flex items-start justify-between gap-3 py-3">
+          <div className="min-w-0">
+            <Link href={`/companies/${company.id}`} className="text-sm font-medium text-[var(--text-primary)] hover:text-accent">
+              {company.company_name}
+            </Link>
+            {company.tagline ? <p className="mt-0.5 text-xs text-[var(--text-secondary)]">{company.tagline}</p> : null}
+          </div>
+          {newIds.has(company.id) ? <Badge variant="accent" className="shrink-0 px-2 py-0.5">New</Badge> : null}
+        </li>
+      ))}
+    </ol>
+  );
+}
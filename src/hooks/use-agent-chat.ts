@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
+import { DEFAULT_STATUS_SCOPE, type SearchableCompanyStatus } from "@/lib/search/status-scope";
 import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
 import type { AgentActivityStep, AgentStreamEvent, ChatMessage, ClarificationRequestData } from "@/types/chat";
 import type { Company, CompanyReference } from "@/types/company";
@@ -25,26 +26,52 @@ function normalizeActivity(previous: AgentActivityStep[], incoming: AgentActivit
   return previous.map((step) => (step.id === incoming.id ? incoming : step));
 }
 
+const SEARCH_STOPPED_MESSAGE = "Search stopped.";
+
+/** A rate limit or daily budget refused the request; its message is shown as is. */
+class UsageLimitError extends Error {}
+
 function shouldLogClientError(error: unknown): boolean {
   if (!(error instanceof Error)) {
     return true;
   }
-  return error.message !== SEARCH_UNAVAILABLE_MESSAGE;
+  return !(error instanceof UsageLimitError) && error.message !== SEARCH_UNAVAILABLE_MESSAGE;
+}
+
+function failureMessage(error: unknown): string {
+  return error instanceof UsageLimitError ? error.message : SEARCH_UNAVAILABLE_MESSAGE;
 }
 
 export interface UseAgentChatOptions {
+  /** Continues a stored conversation; a fresh id starts a new one. */
+  sessionId?: string;
   initialMessages?: ChatMessage[];
   initialCompaniesById?: Record<string, Company>;
+  initialPreviousCandidateIds?: string[];
+  initialStatusScope?: SearchableCompanyStatus[];
+  initialLastRunId?: string | null;
 }
 
 export interface UseAgentChatResult {
+  /** Id of the server-side conversation this chat writes to. */
+  sessionId: string;
   messages: ChatMessage[];
   isLoading: boolean;
   activitySteps: AgentActivityStep[];
   companiesById: Record<string, Company>;
   clarificationPending: ClarificationRequestData | null;
+  statusScope: SearchableCompanyStatus[];
+  /** Run id of the latest answered search, for saving it; null after failures. */
+  lastRunId: string | null;
+  /** The user's pick in the scope control; from then on it wins over statuses named in messages. */
+  setStatusScope: (value: SearchableCompanyStatus[]) => void;
   sendMessage: (value: string) => Promise<void>;
+  findSimilar: (company: Pick<Company, "id" | "company_name">) => Promise<void>;
   handleClarificationResponse: (selection: string) => Promise<void>;
+  /** Aborts the in-flight request; the server cancels the run and records it as `cancelled`. */
+  stopSearch: () => void;
+  /** Clears the chat and starts writing to a new conversation. */
+  startNewConversation: () => void;
 }
 
 export function useAgentChat(options?: UseAgentChatOptions): UseAgentChatResult {
@@ -53,20 +80,29 @@ export function useAgentChat(options?: UseAgentChatOptions): UseAgentChatResult
   const [activitySteps, setActivitySteps] = useState<AgentActivityStep[]>([]);
   const [companiesById, setCompaniesById] = useState<Record<string, Company>>(options?.initialCompaniesById ?? {});
   const [clarificationPending, setClarificationPending] = useState<ClarificationRequestData | null>(null);
+  const [statusScope, setStatusScope] = useState<SearchableCompanyStatus[]>(
+    options?.initialStatusScope ?? DEFAULT_STATUS_SCOPE
+  );
+  const [lastRunId, setLastRunId] = useState<string | null>(options?.initialLastRunId ?? null);
+  const [sessionId, setSessionId] = useState<string>(() => options?.sessionId ?? crypto.randomUUID());
 
-  const sessionIdRef = useRef<string>(crypto.randomUUID());
-  const previousCandidateIdsRef = useRef<string[]>([]);
+  const previousCandidateIdsRef = useRef<string[]>(options?.initialPreviousCandidateIds ?? []);
+  // Set once the user picks a scope in the control; the server then stops inferring one from messages.
+  const statusScopeSelectedRef = useRef(false);
   const mountedRef = useRef(true);
+  const requestControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     return () => {
       mountedRef.current = false;
+      requestControllerRef.current?.abort();
     };
   }, []);
 
   const processStream = useCallback(
     async (response: Response) => {
-      if (!response.ok || !response.body) {
+      // A 429 body is a single NDJSON error event explaining the limit.
+      if ((!response.ok && response.status !== 429) || !response.body) {
         throw new Error(`Chat API request failed with status ${response.status}`);
       }
 
@@ -74,107 +110,172 @@ export function useAgentChat(options?: UseAgentChatOptions): UseAgentChatResult
       const decoder = new TextDecoder();
       let buffer = "";
       let partialAssistantText = "";
-
-      while (true) {
-        const { done, value: chunk } = await reader.read();
-        if (done) {
-          break;
+      // The answer is shown while it streams and finalized in place, so the message never jumps.
+      let streamingMessageId: string | null = null;
+      const updateStreamingMessage = (patch: Partial<ChatMessage>) => {
+        const id = streamingMessageId;
+        if (id) {
+          setMessages((previous) => previous.map((message) => (message.id === id ? { ...message, ...patch } : message)));
+          return;
         }
+        const message: ChatMessage = { ...createMessage("assistant", ""), pending: true, ...patch };
+        streamingMessageId = message.id;
+        setMessages((previous) => [...previous, message]);
+      };
+      const discardStreamingMessage = () => {
+        const id = streamingMessageId;
+        if (id) {
+          streamingMessageId = null;
+          setMessages((previous) => previous.filter((message) => message.id !== id));
+        }
+      };
 
-        buffer += decoder.decode(chunk, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
-
-        for (const line of lines) {
-          const raw = line.trim();
-          if (!raw) {
-            continue;
+      try {
+        while (true) {
+          const { done, value: chunk } = await reader.read();
+          if (done) {
+            break;
           }
 
-          const event = JSON.parse(raw) as AgentStreamEvent;
+          buffer += decoder.decode(chunk, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
 
-          if (event.type === "activity") {
-            setActivitySteps((previous) => normalizeActivity(previous, event.data));
-          }
+          for (const line of lines) {
+            const raw = line.trim();
+            if (!raw) {
+              continue;
+            }
 
-          if (event.type === "partial_text") {
-            partialAssistantText = `${partialAssistantText}${event.data.text}`.trim();
-          }
+            const event = JSON.parse(raw) as AgentStreamEvent;
 
-          if (event.type === "clarification_request") {
-            setClarificationPending(event.data);
-            setIsLoading(false);
-            return; // Stop processing, wait for user
-          }
+            if (event.type === "activity") {
+              setActivitySteps((previous) => normalizeActivity(previous, event.data));
+            }
 
-          if (event.type === "final_answer") {
-            const content = event.data.content || partialAssistantText || "I found matching companies.";
-            setMessages((previous) => [
-              ...previous,
-              createMessage("assistant", content, event.data.references),
-            ]);
-            if (event.data.companiesById) {
+            if (event.type === "preliminary_results") {
               setCompaniesById((previous) => ({ ...previous, ...event.data.companiesById }));
+              updateStreamingMessage({ references: event.data.references });
             }
-            previousCandidateIdsRef.current = event.data.references.map((reference) => reference.companyId);
-            setActivitySteps([]);
-          }
 
-          if (event.type === "error") {
-            throw new Error(event.data.message);
+            if (event.type === "partial_text") {
+              partialAssistantText = `${partialAssistantText}${event.data.text}`;
+              updateStreamingMessage({ content: partialAssistantText.trim() });
+            }
+
+            if (event.type === "clarification_request") {
+              setClarificationPending(event.data);
+              setIsLoading(false);
+              return; // Stop processing, wait for user
+            }
+
+            if (event.type === "final_answer") {
+              const content = event.data.content || partialAssistantText.trim() || "I found matching companies.";
+              updateStreamingMessage({ content, references: event.data.references, pending: false });
+              streamingMessageId = null;
+              if (event.data.companiesById) {
+                setCompaniesById((previous) => ({ ...previous, ...event.data.companiesById }));
+              }
+              previousCandidateIdsRef.current = event.data.references.map((reference) => reference.companyId);
+              const telemetry = event.data.telemetry;
+              setLastRunId(telemetry && telemetry.endReason !== "error" ? telemetry.runId : null);
+              // The server may have inferred a different scope from the message; mirror it in the control.
+              if (event.data.statusScope?.length) {
+                setStatusScope(event.data.statusScope);
+              }
+              setActivitySteps([]);
+            }
+
+            if (event.type === "error") {
+              throw event.data.code ? new UsageLimitError(event.data.message) : new Error(event.data.message);
+            }
           }
         }
+      } finally {
+        // Provisional text and references never outlive a stream that ended without a final answer.
+        discardStreamingMessage();
       }
     },
     []
   );
 
-  const sendMessage = useCallback(
-    async (value: string) => {
-      const trimmed = value.trim();
-      if (!trimmed || isLoading) {
-        return;
-      }
-
-      const userMessage = createMessage("user", trimmed);
-      const nextMessages = [...messages, userMessage];
-      setMessages(nextMessages);
-      setIsLoading(true);
-      setActivitySteps([]);
-      setClarificationPending(null);
+  /** Runs one `/api/chat` request; failures and stops end with a short assistant message. */
+  const runChatRequest = useCallback(
+    async (body: unknown, logLabel: string) => {
+      const controller = new AbortController();
+      requestControllerRef.current = controller;
 
       try {
         const response = await fetch("/api/chat", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            sessionId: sessionIdRef.current,
-            messages: nextMessages,
-            clientContext: {
-              previousCandidateIds: previousCandidateIdsRef.current,
-            },
-          }),
+          body: JSON.stringify(body),
+          signal: controller.signal,
         });
 
         await processStream(response);
       } catch (error) {
-        if (shouldLogClientError(error)) {
-          console.error("[use-agent-chat] Search request failed", error);
+        const stopped = controller.signal.aborted;
+        if (!stopped && shouldLogClientError(error)) {
+          console.error(`[use-agent-chat] ${logLabel}`, error);
         }
-        if (mountedRef.current) {
+        // A new conversation abandons the request without leaving a note in the fresh chat.
+        if (mountedRef.current && requestControllerRef.current === controller) {
           setMessages((previous) => [
             ...previous,
-            createMessage("assistant", SEARCH_UNAVAILABLE_MESSAGE),
+            createMessage("assistant", stopped ? SEARCH_STOPPED_MESSAGE : failureMessage(error)),
           ]);
           setActivitySteps([]);
         }
       } finally {
+        if (requestControllerRef.current === controller) {
+          requestControllerRef.current = null;
+        }
         if (mountedRef.current) {
           setIsLoading(false);
         }
       }
     },
-    [isLoading, messages, processStream]
+    [processStream]
+  );
+
+  const submitMessage = useCallback(
+    async (value: string, extraContext?: { similarToCompanyId?: string }) => {
+      const trimmed = value.trim();
+      if (!trimmed || isLoading) {
+        return;
+      }
+
+      const userMessage = createMessage("user", trimmed);
+      const nextMessages = [...messages, userMessage];
+      setMessages(nextMessages);
+      setIsLoading(true);
+      setActivitySteps([]);
+      setClarificationPending(null);
+
+      await runChatRequest(
+        {
+          sessionId,
+          messages: nextMessages,
+          clientContext: {
+            previousCandidateIds: previousCandidateIdsRef.current,
+            statusScope,
+            statusScopeSelected: statusScopeSelectedRef.current,
+            ...extraContext,
+          },
+        },
+        "Search request failed"
+      );
+    },
+    [isLoading, messages, runChatRequest, sessionId, statusScope]
+  );
+
+  const sendMessage = useCallback((value: string) => submitMessage(value), [submitMessage]);
+
+  const findSimilar = useCallback(
+    (company: Pick<Company, "id" | "company_name">) =>
+      submitMessage(`More companies like ${company.company_name}`, { similarToCompanyId: company.id }),
+    [submitMessage]
   );
 
   const handleClarificationResponse = useCallback(
@@ -193,48 +294,70 @@ export function useAgentChat(options?: UseAgentChatOptions): UseAgentChatResult
       );
       setMessages((previous) => [...previous, clarificationMessage]);
 
-      try {
-        const response = await fetch("/api/chat", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            type: "clarification_response",
-            sessionId: sessionIdRef.current,
-            selection,
-          }),
-        });
-
-        await processStream(response);
-      } catch (error) {
-        if (shouldLogClientError(error)) {
-          console.error("[use-agent-chat] Clarification resume failed", error);
-        }
-        if (mountedRef.current) {
-          setMessages((previous) => [
-            ...previous,
-            createMessage("assistant", SEARCH_UNAVAILABLE_MESSAGE),
-          ]);
-          setActivitySteps([]);
-        }
-      } finally {
-        if (mountedRef.current) {
-          setIsLoading(false);
-        }
-      }
+      await runChatRequest(
+        { type: "clarification_response", sessionId, selection },
+        "Clarification resume failed"
+      );
     },
-    [clarificationPending, processStream]
+    [clarificationPending, runChatRequest, sessionId]
   );
 
+  const selectStatusScope = useCallback((value: SearchableCompanyStatus[]) => {
+    statusScopeSelectedRef.current = true;
+    setStatusScope(value);
+  }, []);
+
+  const stopSearch = useCallback(() => {
+    requestControllerRef.current?.abort();
+  }, []);
+
+  const startNewConversation = useCallback(() => {
+    const inFlight = requestControllerRef.current;
+    requestControllerRef.current = null;
+    inFlight?.abort();
+    setSessionId(crypto.randomUUID());
+    setMessages([]);
+    setCompaniesById({});
+    setActivitySteps([]);
+    setClarificationPending(null);
+    setStatusScope(DEFAULT_STATUS_SCOPE);
+    statusScopeSelectedRef.current = false;
+    setLastRunId(null);
+    previousCandidateIdsRef.current = [];
+  }, []);
+
   return useMemo(
     () => ({
+      sessionId,
       messages,
       isLoading,
       activitySteps,
       companiesById,
       clarificationPending,
+      statusScope,
+      lastRunId,
+      setStatusScope: selectStatusScope,
       sendMessage,
+      findSimilar,
       handleClarificationResponse,
+      stopSearch,
+      startNewConversation,
     }),
-    [activitySteps, companiesById, isLoading, messages, clarificationPending, sendMessage, handleClarificationResponse]
+    [
+      sessionId,
+      activitySteps,
+      companiesById,
+      isLoading,
+      messages,
+      clarificationPending,
+      statusScope,
+      lastRunId,
+      selectStatusScope,
+      sendMessage,
+      findSimilar,
+      handleClarificationResponse,
+      stopSearch,
+      startNewConversation,
+    ]
   );
 }
@@ -0,0 +1,131 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import type { CompanyListSummary } from "@/lib/lists/company-lists";
+
+export interface UseCompanyListsResult {
+  lists: CompanyListSummary[];
+  isLoaded: boolean;
+  error: string | null;
+  /** Ids of the lists that contain the company. */
+  listsContaining: (companyId: string) => string[];
+  toggleCompany: (listId: string, companyId: string) => Promise<void>;
+  /** Creates a list, optionally adding a first company to it. */
+  createList: (name: string, companyId?: string) => Promise<void>;
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const body = (await response.json().catch(() => null)) as { error?: string } | null;
+  return body?.error ?? fallback;
+}
+
+function withMembership(lists: CompanyListSummary[], listId: string, companyId: string, member: boolean): CompanyListSummary[] {
+  return lists.map((list) => {
+    if (list.id !== listId) {
+      return list;
+    }
+    const others = list.company_ids.filter((id) => id !== companyId);
+    return { ...list, company_ids: member ? [...others, companyId] : others };
+  });
+}
+
+export function useCompanyLists(): UseCompanyListsResult {
+  const [lists, setLists] = useState<CompanyListSummary[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/lists")
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, "Could not load lists."));
+        }
+        return (await response.json()) as { lists: CompanyListSummary[] };
+      })
+      .then((body) => {
+        if (!cancelled) {
+          setLists(body.lists);
+        }
+      })
+      .catch((loadError: unknown) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Could not load lists.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoaded(true);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const listsContaining = useCallback(
+    (companyId: string) => lists.filter((list) => list.company_ids.includes(companyId)).map((list) => list.id),
+    [lists]
+  );
+
+  const toggleCompany = useCallback(
+    async (listId: string, companyId: string) => {
+      const member = lists.find((list) => list.id === listId)?.company_ids.includes(companyId) ?? false;
+      // Optimistic: flip membership now, restore it if the request fails.
+      setLists((previous) => withMembership(previous, listId, companyId, !member));
+      setError(null);
+      try {
+        const response = member
+          ? await fetch(`/api/lists/${listId}/items/${encodeURIComponent(companyId)}`, { method: "DELETE" })
+          : await fetch(`/api/lists/${listId}/items`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ companyId }),
+            });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Could not update the list."));
+        }
+      } catch (toggleError) {
+        setLists((previous) => withMembership(previous, listId, companyId, member));
+        setError(toggleError instanceof Error ? toggleError.message : "Could not update the list.");
+      }
+    },
+    [lists]
+  );
+
+  const createList = useCallback(async (name: string, companyId?: string) => {
+    setError(null);
+    try {
+      const response = await fetch("/api/lists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Could not create the list."));
+      }
+      const { list } = (await response.json()) as { list: CompanyListSummary };
+      setLists((previous) => [list, ...previous]);
+
+      if (companyId) {
+        const added = await fetch(`/api/lists/${list.id}/items`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ companyId }),
+        });
+        if (!added.ok) {
+          throw new Error(await readError(added, "Could not add the company."));
+        }
+        setLists((previous) => withMembership(previous, list.id, companyId, true));
+      }
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : "Could not create the list.");
+    }
+  }, []);
+
+  return useMemo(
+    () => ({ lists, isLoaded, error, listsContaining, toggleCompany, createList }),
+    [lists, isLoaded, error, listsContaining, toggleCompany, createList]
+  );
+}
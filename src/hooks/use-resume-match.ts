@@ -2,16 +2,34 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 
-import type { ResumeProfile, GroupedResults, ResumeStreamEvent } from "@/lib/resume/schemas";
+import type { CompanyOpenRoles } from "@/lib/jobs/open-roles";
+import type { MatchScore } from "@/lib/resume/match-score";
+import type { PreferenceFit } from "@/lib/resume/preferences";
+import {
+  PROFILE_REVIEW_STAGE,
+  RESUME_JOB_STAGE_LABELS,
+  RESUME_JOB_STAGES,
+  resumeJobStagesFrom,
+  type ResumeJobStage,
+  type ResumeJobView,
+} from "@/lib/resume/resume-jobs";
+import type { RestoredResumeRun } from "@/lib/resume/resume-runs";
+import {
+  EMPTY_RESUME_PREFERENCES,
+  type ResumePreferences,
+  type ResumeProfile,
+  type GroupedResults,
+} from "@/lib/resume/schemas";
 import type { Company } from "@/types/company";
 
-export type ResumeMatchPhase = "upload" | "processing" | "results";
+/** "review": the profile is extracted and waits for the candidate to edit and confirm it. */
+export type ResumeMatchPhase = "upload" | "processing" | "review" | "results";
 
 export interface ActivityStep {
   id: string;
   label: string;
   detail: string;
-  status: "running" | "completed";
+  status: "running" | "completed" | "failed";
 }
 
 export interface SearchProgress {
@@ -28,233 +46,369 @@ export interface UseResumeMatchResult {
   activitySteps: ActivityStep[];
   searchProgress: SearchProgress | null;
   profile: ResumeProfile | null;
+  preferences: ResumePreferences;
   groupedResults: GroupedResults | null;
   companiesById: Record<string, Company>;
+  /** Per company, the job-seeker preferences it meets; empty when none were set. */
+  preferenceFit: Record<string, PreferenceFit>;
+  /** Per company, its match score and per-dimension breakdown against the profile. */
+  matchScores: Record<string, MatchScore>;
+  /** Per company with a supported job board, its roles relevant to the profile; arrives after the results. */
+  openRoles: Record<string, CompanyOpenRoles>;
+  /** The background job behind the page, for `/resume?job=<id>`; null before an upload and for stored runs. */
+  jobId: string | null;
+  /** The stage that failed; `retry` runs it again. */
+  failedStage: ResumeJobStage | null;
+  /** Stored run behind the results, for the permalink; null until results arrive. */
+  runId: string | null;
+  runShared: boolean;
+  /** False when viewing a run someone else shared. */
+  isRunOwner: boolean;
+  /** PDF, DOCX, RTF, Markdown or text; the server sniffs the actual format. */
   uploadResume: (file: File) => Promise<void>;
+  /** Matches a resume or LinkedIn profile pasted as text. */
+  submitResumeText: (text: string) => Promise<void>;
+  /** Runs planning and search for the reviewed profile. */
+  confirmProfile: (profile: ResumeProfile, preferences: ResumePreferences) => Promise<void>;
+  /** Runs the failed stage again, keeping what the stages before it produced. */
+  retry: () => Promise<void>;
+  /** Stops the job and returns to the step before it; the server cancels the pipeline. */
+  cancel: () => void;
   reset: () => void;
 }
 
-export function useResumeMatch(): UseResumeMatchResult {
-  const RESPONSE_START_TIMEOUT_MS = 120_000;
-  const STREAM_IDLE_TIMEOUT_MS = 600_000;
+export interface UseResumeMatchOptions {
+  /** Opens a stored run straight on its results. */
+  initialRun?: RestoredResumeRun | null;
+  /** Reattaches to a job started before a reload. */
+  initialJob?: ResumeJobView | null;
+}
+
+const POLL_INTERVAL_MS = 1_500;
+/** Polls that may fail in a row before the page says it lost the job; the job keeps running regardless. */
+const MAX_POLL_FAILURES = 5;
+
+function isProfileStage(stage: ResumeJobStage): boolean {
+  return RESUME_JOB_STAGES.indexOf(stage) <= RESUME_JOB_STAGES.indexOf(PROFILE_REVIEW_STAGE);
+}
+
+/** The steps of the job's current half, before or after the profile review, that have started. */
+function jobActivitySteps(job: ResumeJobView): ActivityStep[] {
+  // A job that was just started or retried has not marked its first stage running yet.
+  const isStarting = (stage: ResumeJobStage) => job.status === "running" && stage === job.stage;
+  return resumeJobStagesFrom(isProfileStage(job.stage) ? "extract" : "plan")
+    .filter((stage) => job.stages[stage].status !== "pending" || isStarting(stage))
+    .map((stage) => {
+      const state = job.stages[stage];
+      return {
+        id: stage,
+        label: RESUME_JOB_STAGE_LABELS[stage],
+        detail: state.status === "failed" ? state.error ?? "" : state.detail || "Starting",
+        status: state.status === "pending" ? "running" : state.status,
+      };
+    });
+}
+
+function jobPhase(job: ResumeJobView): ResumeMatchPhase {
+  if (job.status === "cancelled") {
+    return job.profile ? "review" : "upload";
+  }
+  return job.status === "review" ? "review" : "processing";
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => ({ error: fallback }));
+  // Rate limit and budget refusals (429) carry a single NDJSON error event instead of `{ error }`.
+  return body.error ?? body.data?.message ?? `${fallback} (${response.status})`;
+}
 
-  const [phase, setPhase] = useState<ResumeMatchPhase>("upload");
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [activitySteps, setActivitySteps] = useState<ActivityStep[]>([]);
+export function useResumeMatch({ initialRun = null, initialJob = null }: UseResumeMatchOptions = {}): UseResumeMatchResult {
+  const [phase, setPhase] = useState<ResumeMatchPhase>(initialRun ? "results" : initialJob ? jobPhase(initialJob) : "upload");
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(initialJob?.error ?? null);
+  const [activitySteps, setActivitySteps] = useState<ActivityStep[]>(initialJob ? jobActivitySteps(initialJob) : []);
   const [searchProgress, setSearchProgress] = useState<SearchProgress | null>(null);
-  const [profile, setProfile] = useState<ResumeProfile | null>(null);
-  const [groupedResults, setGroupedResults] = useState<GroupedResults | null>(null);
-  const [companiesById, setCompaniesById] = useState<Record<string, Company>>({});
+  const [profile, setProfile] = useState<ResumeProfile | null>(initialRun?.run.profile ?? initialJob?.profile ?? null);
+  const [preferences, setPreferences] = useState<ResumePreferences>(
+    initialRun?.run.preferences ?? initialJob?.preferences ?? EMPTY_RESUME_PREFERENCES
+  );
+  const [groupedResults, setGroupedResults] = useState<GroupedResults | null>(initialRun?.run.grouped_results ?? null);
+  const [companiesById, setCompaniesById] = useState<Record<string, Company>>(initialRun?.companiesById ?? {});
+  const [preferenceFit, setPreferenceFit] = useState<Record<string, PreferenceFit>>(initialRun?.run.preference_fit ?? {});
+  const [matchScores, setMatchScores] = useState<Record<string, MatchScore>>(initialRun?.run.match_scores ?? {});
+  const [openRoles, setOpenRoles] = useState<Record<string, CompanyOpenRoles>>(initialRun?.run.open_roles ?? {});
+  const [job, setJob] = useState<ResumeJobView | null>(initialJob);
+  const [pollFailures, setPollFailures] = useState(0);
+  const [runId, setRunId] = useState<string | null>(initialRun?.run.id ?? null);
+  const [runShared, setRunShared] = useState(initialRun?.run.shared ?? false);
+  const [isRunOwner, setIsRunOwner] = useState(initialRun?.isOwner ?? true);
 
   const mountedRef = useRef(true);
+  const requestControllerRef = useRef<AbortController | null>(null);
+  /** Run whose results are on screen, and whether its open roles were in yet. */
+  const loadedRunRef = useRef<{ id: string; hasOpenRoles: boolean } | null>(
+    initialRun ? { id: initialRun.run.id, hasOpenRoles: initialRun.run.open_roles !== null } : null
+  );
 
   useEffect(() => {
     return () => {
       mountedRef.current = false;
+      requestControllerRef.current?.abort();
     };
   }, []);
 
-  const updateActivity = useCallback((step: ActivityStep) => {
-    setActivitySteps((prev) => {
-      const exists = prev.some((s) => s.id === step.id);
-      if (!exists) return [...prev, step];
-      return prev.map((s) => (s.id === step.id ? step : s));
-    });
-  }, []);
-
-  const parseEventLine = useCallback((line: string): ResumeStreamEvent | null => {
-    const raw = line.trim();
-    if (!raw) return null;
-
-    const payload = raw.startsWith("data:")
-      ? raw.slice(5).trim()
-      : raw;
-    if (!payload) return null;
-
-    try {
-      return JSON.parse(payload) as ResumeStreamEvent;
-    } catch {
-      return null;
+  const loadRun = useCallback(async (id: string) => {
+    const response = await fetch(`/api/resume/runs/${encodeURIComponent(id)}`);
+    if (!response.ok) {
+      throw new Error(await readError(response, "Could not load the results"));
     }
+    const restored = (await response.json()) as RestoredResumeRun;
+    if (!mountedRef.current) return;
+    loadedRunRef.current = { id, hasOpenRoles: restored.run.open_roles !== null };
+    setGroupedResults(restored.run.grouped_results);
+    setCompaniesById(restored.companiesById);
+    setPreferenceFit(restored.run.preference_fit ?? {});
+    setMatchScores(restored.run.match_scores);
+    setOpenRoles(restored.run.open_roles ?? {});
+    setRunId(restored.run.id);
+    setRunShared(restored.run.shared);
+    setIsRunOwner(restored.isOwner);
+    setPhase("results");
   }, []);
 
-  const withTimeout = useCallback(async <T,>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> => {
-    let timer: ReturnType<typeof setTimeout> | null = null;
-
-    try {
-      return await Promise.race([
-        promise,
-        new Promise<T>((_, reject) => {
-          timer = setTimeout(() => {
-            reject(new Error(message));
-          }, timeoutMs);
-        }),
-      ]);
-    } finally {
-      if (timer) {
-        clearTimeout(timer);
+  const applyJob = useCallback((next: ResumeJobView) => {
+    setJob(next);
+    setPollFailures(0);
+    setActivitySteps(jobActivitySteps(next));
+    setSearchProgress((prev) => {
+      if (!next.progress || next.stage !== "search") {
+        return next.stage === "search" ? prev : null;
       }
-    }
-  }, []);
-
-  const uploadResume = useCallback(async (file: File) => {
-    setPhase("processing");
-    setIsProcessing(true);
-    setError(null);
-    setActivitySteps([{
-      id: "upload",
-      label: "Uploading resume",
-      detail: file.name,
-      status: "running",
-    }]);
-    setSearchProgress(null);
-    setProfile(null);
-    setGroupedResults(null);
-    setCompaniesById({});
-    const abortController = new AbortController();
-
-    try {
-      const formData = new FormData();
-      formData.append("resume", file);
-      const response = await withTimeout(
-        fetch("/api/resume", {
-          method: "POST",
-          body: formData,
-          signal: abortController.signal,
-        }),
-        RESPONSE_START_TIMEOUT_MS,
-        `Upload timed out waiting for server response after ${Math.round(RESPONSE_START_TIMEOUT_MS / 1000)}s.`
-      );
-
-      if (!response.ok || !response.body) {
-        const errBody = await response.json().catch(() => ({ error: "Upload failed" }));
-        throw new Error(errBody.error ?? `Upload failed (${response.status})`);
-      }
-      updateActivity({
-        id: "upload",
-        label: "Uploading resume",
-        detail: file.name,
-        status: "completed",
-      });
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let receivedEvent = false;
-      let receivedFinalResults = false;
-
-      const processLine = (line: string) => {
-        const event = parseEventLine(line);
-        if (!event) return;
-        receivedEvent = true;
+      const query = next.progress.currentQuery.trim();
+      const recent = query
+        ? [query, ...(prev?.recentQueries ?? []).filter((q) => q !== query)].slice(0, 6)
+        : (prev?.recentQueries ?? []);
+      return { ...next.progress, recentQueries: recent };
+    });
 
-        if (!mountedRef.current) return;
+    if (next.status === "failed") {
+      setError(next.error ?? "Resume processing failed");
+    }
+    if (next.status === "review") {
+      setProfile(next.profile);
+      setPreferences(next.preferences ?? EMPTY_RESUME_PREFERENCES);
+      setPhase("review");
+    }
 
-        if (event.type === "activity") {
-          updateActivity(event.data);
+    // Results show as soon as they are stored; open roles are read again once the job is done.
+    const loaded = loadedRunRef.current;
+    const needsRun =
+      next.runId && (loaded?.id !== next.runId || (next.status === "completed" && !loaded.hasOpenRoles));
+    if (next.runId && needsRun) {
+      loadRun(next.runId).catch((err: unknown) => {
+        if (mountedRef.current) {
+          setError(err instanceof Error ? err.message : "Could not load the results");
         }
+      });
+    }
+  }, [loadRun]);
 
-        if (event.type === "resume_profile") {
-          setProfile(event.data);
-        }
+  // Polls the job while it runs; every update schedules the next poll.
+  useEffect(() => {
+    if (!job || job.status !== "running") {
+      return;
+    }
+    if (pollFailures >= MAX_POLL_FAILURES) {
+      setError("Lost contact with the server. Reload the page to check on your resume.");
+      return;
+    }
 
-        if (event.type === "search_progress") {
-          setSearchProgress((prev) => {
-            const query = typeof event.data.currentQuery === "string"
-              ? event.data.currentQuery.trim()
-              : "";
-            const recent = query
-              ? [query, ...(prev?.recentQueries ?? []).filter((q) => q !== query)].slice(0, 6)
-              : (prev?.recentQueries ?? []);
-
-            return {
-              ...event.data,
-              recentQueries: recent,
-            };
-          });
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/resume/jobs/${encodeURIComponent(job.id)}`, { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error(await readError(response, "Could not check on your resume"));
         }
-
-        if (event.type === "final_results") {
-          receivedFinalResults = true;
-          setGroupedResults(event.data.groups);
-          setCompaniesById(event.data.companiesById as Record<string, Company>);
-          setPhase("results");
+        const body = (await response.json()) as { job: ResumeJobView };
+        if (mountedRef.current && !controller.signal.aborted) {
+          applyJob(body.job);
         }
-
-        if (event.type === "error") {
-          throw new Error(event.data.message);
+      } catch {
+        if (mountedRef.current && !controller.signal.aborted) {
+          setPollFailures((count) => count + 1);
         }
-      };
+      }
+    }, POLL_INTERVAL_MS * (pollFailures + 1));
 
-      while (true) {
-        const { done, value: chunk } = await withTimeout(
-          reader.read(),
-          STREAM_IDLE_TIMEOUT_MS,
-          "Resume processing timed out due to no progress updates."
-        );
-        if (done) {
-          break;
-        }
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [applyJob, job, pollFailures]);
 
-        buffer += decoder.decode(chunk, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
+  /** Posts a request that starts or restarts the job; the response is the job, which polling then follows. */
+  const startJob = useCallback(async (url: string, init: RequestInit, failedMessage: string) => {
+    setPhase("processing");
+    setIsUploading(true);
+    setError(null);
+    setSearchProgress(null);
+    const abortController = new AbortController();
+    requestControllerRef.current = abortController;
 
-        for (const line of lines) {
-          processLine(line);
-        }
-      }
-      const trailing = buffer.trim();
-      if (trailing) {
-        processLine(trailing);
+    try {
+      const response = await fetch(url, { ...init, method: "POST", signal: abortController.signal });
+      if (!response.ok) {
+        throw new Error(await readError(response, failedMessage));
       }
-
-      if (!receivedFinalResults) {
-        throw new Error(
-          receivedEvent
-            ? "Resume processing stream ended before final results reached the browser. Please retry."
-            : "No progress events were received from the server. Please retry."
-        );
+      const body = (await response.json()) as { job: ResumeJobView };
+      if (mountedRef.current) {
+        applyJob(body.job);
       }
     } catch (err) {
-      abortController.abort();
-      if (mountedRef.current) {
-        const message =
-          err instanceof Error
-            ? err.message
-            : "Resume processing failed";
-        setError(message);
-        setPhase("upload");
+      if (abortController.signal.aborted || !mountedRef.current) {
+        return;
       }
+      setError(err instanceof Error ? err.message : failedMessage);
+      throw err;
     } finally {
+      if (requestControllerRef.current === abortController) {
+        requestControllerRef.current = null;
+      }
       if (mountedRef.current) {
-        setIsProcessing(false);
+        setIsUploading(false);
       }
     }
-  }, [parseEventLine, updateActivity, withTimeout]);
+  }, [applyJob]);
+
+  const clearResults = useCallback(() => {
+    loadedRunRef.current = null;
+    setGroupedResults(null);
+    setCompaniesById({});
+    setPreferenceFit({});
+    setMatchScores({});
+    setOpenRoles({});
+    setRunId(null);
+    setRunShared(false);
+    setIsRunOwner(true);
+  }, []);
+
+  const runResumeMatch = useCallback(async (formData: FormData, sourceLabel: string) => {
+    const uploadStep: ActivityStep = { id: "upload", label: "Uploading resume", detail: sourceLabel, status: "running" };
+    setActivitySteps([uploadStep]);
+    setJob(null);
+    setProfile(null);
+    setPreferences(EMPTY_RESUME_PREFERENCES);
+    clearResults();
+    try {
+      await startJob("/api/resume/jobs", { body: formData }, "Upload failed");
+    } catch {
+      setActivitySteps([]);
+      setPhase("upload");
+    }
+  }, [clearResults, startJob]);
+
+  const uploadResume = useCallback((file: File) => {
+    const formData = new FormData();
+    formData.append("resume", file);
+    return runResumeMatch(formData, file.name);
+  }, [runResumeMatch]);
+
+  const submitResumeText = useCallback((text: string) => {
+    const formData = new FormData();
+    formData.append("text", text);
+    return runResumeMatch(formData, "Pasted text");
+  }, [runResumeMatch]);
+
+  const confirmProfile = useCallback(async (reviewed: ResumeProfile, reviewedPreferences: ResumePreferences) => {
+    if (!job) return;
+    setProfile(reviewed);
+    setPreferences(reviewedPreferences);
+    setActivitySteps([]);
+    clearResults();
+    try {
+      await startJob(
+        `/api/resume/jobs/${encodeURIComponent(job.id)}/search`,
+        {
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ profile: reviewed, preferences: reviewedPreferences }),
+        },
+        "Search failed"
+      );
+    } catch {
+      // The reviewed profile stays so the candidate can try again.
+      setPhase("review");
+    }
+  }, [clearResults, job, startJob]);
+
+  const retry = useCallback(async () => {
+    if (!job) return;
+    await startJob(`/api/resume/jobs/${encodeURIComponent(job.id)}/retry`, {}, "Retry failed").catch(() => {
+      // The failed step stays on screen with the error.
+    });
+  }, [job, startJob]);
+
+  const cancel = useCallback(() => {
+    requestControllerRef.current?.abort();
+    if (!job) {
+      setActivitySteps([]);
+      setPhase("upload");
+      return;
+    }
+    fetch(`/api/resume/jobs/${encodeURIComponent(job.id)}/cancel`, { method: "POST" }).catch(() => {
+      // The job stops on its own once it notices; nothing to show.
+    });
+    setActivitySteps([]);
+    setSearchProgress(null);
+    setError(null);
+    if (!isProfileStage(job.stage)) {
+      // The confirmed profile stays on the job, so it can be searched again.
+      setJob({ ...job, status: "cancelled" });
+      setPhase("review");
+      return;
+    }
+    setJob(null);
+    setPhase("upload");
+    setProfile(null);
+  }, [job]);
 
   const reset = useCallback(() => {
+    requestControllerRef.current?.abort();
     setPhase("upload");
-    setIsProcessing(false);
+    setIsUploading(false);
     setError(null);
     setActivitySteps([]);
     setSearchProgress(null);
     setProfile(null);
-    setGroupedResults(null);
-    setCompaniesById({});
-  }, []);
+    setPreferences(EMPTY_RESUME_PREFERENCES);
+    setJob(null);
+    setPollFailures(0);
+    clearResults();
+  }, [clearResults]);
 
   return {
     phase,
-    isProcessing,
+    isProcessing: isUploading || job?.status === "running",
     error,
     activitySteps,
     searchProgress,
     profile,
+    preferences,
     groupedResults,
     companiesById,
+    preferenceFit,
+    matchScores,
+    openRoles,
+    jobId: job?.id ?? null,
+    failedStage: job?.status === "failed" ? job.stage : null,
+    runId,
+    runShared,
+    isRunOwner,
     uploadResume,
+    submitResumeText,
+    confirmProfile,
+    retry,
+    cancel,
     reset,
   };
 }
@@ -1,60 +1,84 @@
-import { embedMany, generateObject, generateText, stepCountIs } from "ai";
-import { openai } from "@ai-sdk/openai";
-
-import { getServerEnv } from "@/lib/env";
+import {
+  embedMany,
+  generateObject,
+  generateText,
+  stepCountIs,
+  streamText,
+  type LanguageModel,
+  type LanguageModelUsage,
+} from "ai";
+
+import {
+  createInMemoryClarificationStore,
+  createSupabaseClarificationStore,
+  type ClarificationStore,
+  type PendingClarification,
+} from "@/lib/agent/clarification-store";
 import { agentSystemPrompt, buildAgentRuntimePrompt, type AgentRequestMode } from "@/lib/agent/prompts";
 import { rerankerSchema, type RerankerOutput } from "@/lib/agent/schemas";
 import { createSearchTools, type PreliminaryResult, type SearchAgentState } from "@/lib/agent/tools";
+import type { ModelProvider } from "@/lib/models/provider";
+import { getModelProvider } from "@/lib/models/server";
+import { describeStructuredFilters, type StructuredFilters } from "@/lib/search/filters";
 import { getCompaniesByIds } from "@/lib/search/rpc";
-import { insertSearchRun, insertSearchRunResults, insertSearchRunStep, updateSearchRun } from "@/lib/search/telemetry";
+import {
+  inferStatusScopeFromMessage,
+  normalizeStatusScope,
+  type SearchableCompanyStatus,
+} from "@/lib/search/status-scope";
+import {
+  insertSearchRun,
+  insertSearchRunResults,
+  insertSearchRunStep,
+  searchRunUsageColumns,
+  updateSearchRun,
+} from "@/lib/search/telemetry";
 import type { FinalAnswerPayload } from "@/lib/search/types";
 import { SEARCH_UNAVAILABLE_MESSAGE } from "@/lib/search/user-facing-errors";
 import { getSupabaseServerClient } from "@/lib/supabase/server";
-import type { AgentActivityEventPayload, ChatMessage, ClarificationOption } from "@/types/chat";
-import type { Company } from "@/types/company";
+import { addUsageTotals, createUsageMeter, type UsageMeter } from "@/lib/usage/usage-meter";
+import type {
+  AgentActivityEventPayload,
+  ChatMessage,
+  ClarificationOption,
+  PreliminaryResultsData,
+} from "@/types/chat";
+import type { Company, CompanyReference } from "@/types/company";
 
 export interface AgentOrchestratorInput {
   messages: ChatMessage[];
   clientContext: {
     previousCandidateIds: string[];
+    /** Current scope; a status mentioned in the message takes precedence unless `statusScopeSelected`. */
+    statusScope?: SearchableCompanyStatus[];
+    /** The user picked `statusScope` in the UI, so it is kept even when the message names a status. */
+    statusScopeSelected?: boolean;
+    similarToCompanyId?: string;
   };
   sessionId: string;
+  /** Signed-in user; recorded on the run and required to answer its clarifications. Null for eval and replays. */
+  userId?: string | null;
   onActivity?: (event: AgentActivityEventPayload) => Promise<void> | void;
+  /** Called as soon as finalize_search settles on results, before reranking. */
+  onPreliminaryResults?: (data: PreliminaryResultsData) => Promise<void> | void;
+  /** Receives the answer summary delta by delta as the model streams it. */
   onPartialText?: (value: string) => Promise<void> | void;
   onClarificationRequest?: (data: { question: string; options: ClarificationOption[] }) => void;
+  /** Defaults to the Supabase-backed store so clarifications survive restarts and span instances. */
+  clarificationStore?: ClarificationStore;
+  /** Defaults to the provider configured through env; tests inject the fake provider. */
+  modelProvider?: ModelProvider;
+  /** Collects the tokens and cost of this request's model calls; the chat route charges them to the user's budget. */
+  usageMeter?: UsageMeter;
+  /** Aborts model calls, embeddings and search RPCs; the run is recorded with end reason `cancelled`. */
+  abortSignal?: AbortSignal;
 }
 
-interface PendingClarification {
-  sessionId: string;
-  state: SearchAgentState;
-  messages: ChatMessage[];
-  runId: string;
-  telemetryEnabled: boolean;
-  startedAtMs: number;
-  runtimePrompt: string;
-  requestMode: AgentRequestMode;
-  targetResultCount: number;
-  previousCandidateIds: string[];
-}
-
-// In-memory store for pending clarifications (in production, use Redis or similar)
-const pendingClarifications = new Map<string, PendingClarification>();
-
-// Clean up expired clarifications every 5 minutes
-const CLARIFICATION_TIMEOUT_MS = 5 * 60 * 1000;
-
-function cleanupExpiredClarifications(): void {
-  const now = Date.now();
-  for (const [sessionId, pending] of pendingClarifications.entries()) {
-    if (now - pending.startedAtMs > CLARIFICATION_TIMEOUT_MS) {
-      pendingClarifications.delete(sessionId);
-    }
-  }
-}
-
-// Only set up interval in a Node.js environment
-if (typeof setInterval !== "undefined") {
-  setInterval(cleanupExpiredClarifications, 60_000);
+function resolveClarificationStore(
+  store: ClarificationStore | undefined,
+  supabase: ReturnType<typeof getSupabaseServerClient>
+): ClarificationStore {
+  return store ?? createSupabaseClarificationStore(supabase);
 }
 
 const MAX_STEPS = 15;
@@ -240,6 +264,7 @@ function formatToolLabel(toolName: string): string {
     search_semantic: "Semantic search",
     search_keyword: "Keyword search",
     search_taxonomy: "Taxonomy filter",
+    search_similar: "Finding similar companies",
     get_company_details: "Getting company details",
     clarify_with_user: "Asking for clarification",
     finalize_search: "Finalizing results",
@@ -249,18 +274,23 @@ function formatToolLabel(toolName: string): string {
 
 function formatToolDetail(toolName: string, input: unknown): string {
   const args = input as Record<string, unknown>;
+  const filterDetail = describeStructuredFilters(args.filters as StructuredFilters | undefined);
+  const withFilters = (detail: string) => (filterDetail ? `${detail} (${filterDetail})` : detail);
   switch (toolName) {
     case "search_exact_name":
       return `Looking for "${args.companyName}"`;
     case "search_semantic":
-      return `Query: "${args.query}"`;
+      return withFilters(`Query: "${args.query}"`);
     case "search_keyword":
-      return `Keywords: "${args.keywords}"`;
+      return withFilters(`Keywords: "${args.keywords}"`);
+    case "search_similar":
+      return `Neighbors of ${args.companyId}`;
     case "search_taxonomy": {
       const parts: string[] = [];
       if (args.sectors) parts.push(`sectors: ${(args.sectors as string[]).join(", ")}`);
       if (args.categories) parts.push(`categories: ${(args.categories as string[]).join(", ")}`);
       if (args.businessModels) parts.push(`models: ${(args.businessModels as string[]).join(", ")}`);
+      if (filterDetail) parts.push(filterDetail);
       return parts.join("; ") || "Filtering by taxonomy";
     }
     case "get_company_details":
@@ -279,6 +309,7 @@ function summarizeToolOutput(toolName: string, result: unknown): Record<string,
   switch (toolName) {
     case "search_exact_name":
     case "search_keyword":
+    case "search_similar":
       return {
         totalFound: data.totalFound,
         resultCount: Array.isArray(data.results) ? data.results.length : 0,
@@ -410,6 +441,104 @@ function buildFallbackResponse(message: string): FinalAnswerPayload {
   };
 }
 
+/** Nobody is listening for the answer any more, so the payload only carries the run for the caller's bookkeeping. */
+function buildCancelledResponse(runId: string, toolCallCount: number): FinalAnswerPayload {
+  return {
+    content: "Search cancelled.",
+    references: [],
+    companiesById: {},
+    telemetry: {
+      runId,
+      iterationCount: 1,
+      toolCallCount,
+      endReason: "cancelled",
+    },
+  };
+}
+
+/** Loads company rows through `cache`, so rows fetched for preliminary results are reused by the reranker. */
+async function loadCompanies(
+  supabase: ReturnType<typeof getSupabaseServerClient>,
+  companyIds: string[],
+  cache: Map<string, Company>,
+  signal?: AbortSignal
+): Promise<Company[]> {
+  const missingIds = companyIds.filter((companyId) => !cache.has(companyId));
+  if (missingIds.length) {
+    for (const company of await getCompaniesByIds(supabase, missingIds, signal)) {
+      cache.set(company.id, company);
+    }
+  }
+
+  return companyIds.map((companyId) => cache.get(companyId)).filter((company): company is Company => Boolean(company));
+}
+
+interface PreliminaryResultsPublisherOptions {
+  supabase: ReturnType<typeof getSupabaseServerClient>;
+  requestMode: AgentRequestMode;
+  previousCandidateIds: string[];
+  targetResultCount: number;
+  companyCache: Map<string, Company>;
+  abortSignal?: AbortSignal;
+  onPreliminaryResults?: AgentOrchestratorInput["onPreliminaryResults"];
+}
+
+/** Turns finalize_search output into provisional references, ordered as the agent ranked them. */
+function createPreliminaryResultsPublisher(options: PreliminaryResultsPublisherOptions) {
+  return async (results: PreliminaryResult[]): Promise<void> => {
+    if (!options.onPreliminaryResults) {
+      return;
+    }
+
+    const constrained = applyResultConstraints(
+      results,
+      options.requestMode,
+      options.previousCandidateIds,
+      options.targetResultCount
+    ).slice(0, options.targetResultCount);
+    const companies = await loadCompanies(
+      options.supabase,
+      constrained.map((result) => result.companyId),
+      options.companyCache,
+      options.abortSignal
+    );
+    const companiesById = Object.fromEntries(companies.map((company) => [company.id, company]));
+    const references: CompanyReference[] = constrained
+      .filter((result) => companiesById[result.companyId])
+      .map((result) => ({
+        companyId: result.companyId,
+        companyName: companiesById[result.companyId].company_name,
+        reason: result.reason,
+        inlineDescription: companiesById[result.companyId].description ?? "",
+        evidenceChips: result.evidenceChips,
+        confidence: result.confidence,
+      }));
+    if (references.length) {
+      await options.onPreliminaryResults({ references, companiesById });
+    }
+  };
+}
+
+/** Streams the summary to `onPartialText` as it is generated; resolves with the full text and usage. */
+async function streamSummary(
+  model: LanguageModel,
+  prompt: string,
+  onPartialText?: (value: string) => Promise<void> | void,
+  abortSignal?: AbortSignal
+): Promise<{ text: string; usage: LanguageModelUsage }> {
+  const result = streamText({ model, prompt, abortSignal });
+  for await (const part of result.fullStream) {
+    if (part.type === "text-delta" && part.text) {
+      await onPartialText?.(part.text);
+    }
+    if (part.type === "error") {
+      throw part.error;
+    }
+  }
+
+  return { text: await result.text, usage: await result.usage };
+}
+
 interface RunContext {
   supabase: ReturnType<typeof getSupabaseServerClient>;
   runId: string;
@@ -422,8 +551,10 @@ interface RunContext {
 }
 
 export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<FinalAnswerPayload | null> {
-  const env = getServerEnv();
+  const models = input.modelProvider ?? getModelProvider();
   const supabase = getSupabaseServerClient();
+  const clarificationStore = resolveClarificationStore(input.clarificationStore, supabase);
+  const usageMeter = input.usageMeter ?? createUsageMeter();
   const startedAtMs = Date.now();
   const runId = crypto.randomUUID();
 
@@ -432,23 +563,31 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
     return buildFallbackResponse("No user message found for search.");
   }
   const previousCandidateIds = dedupeCompanyIds(input.clientContext.previousCandidateIds ?? []);
-  const requestMode = inferRequestMode(userMessage, previousCandidateIds.length > 0);
+  const anchorCompanyId = input.clientContext.similarToCompanyId ?? null;
+  const requestMode = anchorCompanyId ? "similar" : inferRequestMode(userMessage, previousCandidateIds.length > 0);
   const targetResultCount = extractTargetResultCount(userMessage, requestMode, previousCandidateIds.length);
   const requiresUpfrontClarification = shouldClarifyBeforeSearch(userMessage, requestMode);
+  const clientStatusScope = normalizeStatusScope(input.clientContext.statusScope);
+  const statusScope = input.clientContext.statusScopeSelected
+    ? clientStatusScope
+    : inferStatusScopeFromMessage(userMessage) ?? clientStatusScope;
   const runtimePrompt = buildAgentRuntimePrompt({
     userMessage,
     requestMode,
     targetResultCount,
     previousCandidateIds,
     shouldClarifyBeforeSearch: requiresUpfrontClarification,
+    statusScope,
+    anchorCompanyId,
   });
 
   // Initialize search run telemetry
   const insertedRunId = await insertSearchRun(supabase, {
     id: runId,
     session_id: input.sessionId,
+    user_id: input.userId ?? null,
     query_text: userMessage,
-    status_scope: ["startup"],
+    status_scope: statusScope,
     iteration_count: 0,
     tool_call_count: 0,
     final_candidate_count: 0,
@@ -469,13 +608,14 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
     hasHighConfidenceExactMatch: false,
     preliminaryResults: null,
     targetResultCount,
-    defaultExcludeCompanyIds: requestMode === "more" ? previousCandidateIds : [],
+    defaultExcludeCompanyIds: requestMode === "more" ? previousCandidateIds : anchorCompanyId ? [anchorCompanyId] : [],
     constrainToCompanyIds: requestMode === "filter" && previousCandidateIds.length > 0 ? previousCandidateIds : null,
     companyDetailsFetchedCount: 0,
     requireClarificationBeforeFinalize: requiresUpfrontClarification,
     clarificationSatisfied: !requiresUpfrontClarification,
     clarificationPending: null,
     clarificationResponse: null,
+    statusScope,
   };
 
   const context: RunContext = {
@@ -488,6 +628,16 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
     clarificationRequested: false,
     toolDurationTotalMs: 0,
   };
+  const companyCache = new Map<string, Company>();
+  const publishPreliminaryResults = createPreliminaryResultsPublisher({
+    supabase,
+    requestMode,
+    previousCandidateIds,
+    targetResultCount,
+    companyCache,
+    abortSignal: input.abortSignal,
+    onPreliminaryResults: input.onPreliminaryResults,
+  });
   const logStepAsync = (payload: Parameters<typeof insertSearchRunStep>[1]): void => {
     if (!context.telemetryEnabled) {
       return;
@@ -503,9 +653,11 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
     embedQuery: async (text) => {
       const startedAt = Date.now();
       const result = await embedMany({
-        model: openai.embedding(env.OPENAI_EMBEDDING_MODEL),
+        model: models.embeddingModel(),
         values: [text],
+        abortSignal: input.abortSignal,
       });
+      usageMeter.record(models.modelId("embedding"), result.usage);
       return {
         embedding: result.embeddings[0],
         durationMs: Date.now() - startedAt,
@@ -519,6 +671,7 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
         input.onClarificationRequest(data);
       }
     },
+    abortSignal: input.abortSignal,
   });
 
   await input.onActivity?.({
@@ -532,16 +685,19 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
     // Phase 1: Agentic search - LLM decides tools based on results
     const agentLoopStartedAt = Date.now();
     const agentResult = await generateText({
-      model: openai(env.OPENAI_MODEL),
+      model: models.languageModel("agent"),
       system: buildAgentSystemMessage(runtimePrompt),
       messages: buildAgentMessages(input.messages),
       tools,
       stopWhen: stepCountIs(MAX_STEPS),
+      abortSignal: input.abortSignal,
       onStepFinish: async (step) => {
+        input.abortSignal?.throwIfAborted();
         // Check for timeout
         if (Date.now() - startedAtMs > MAX_RUNTIME_MS) {
           throw new Error("Search timeout exceeded");
         }
+        usageMeter.record(models.modelId("agent"), step.usage);
 
         // Build a map of tool results for logging
         const toolResultsMap = new Map<string, unknown>();
@@ -591,11 +747,16 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
             status: "completed",
           });
 
+          if (toolCall.toolName === "finalize_search" && resultRecord.status === "finalized" && state.preliminaryResults) {
+            await publishPreliminaryResults(state.preliminaryResults);
+          }
+
           // Check if clarification was requested
           if (toolCall.toolName === "clarify_with_user" && state.clarificationPending) {
-            // Store state for resumption
-            pendingClarifications.set(input.sessionId, {
+            // Persist state so the answer can resume the run on any instance
+            await clarificationStore.save({
               sessionId: input.sessionId,
+              userId: input.userId ?? null,
               state,
               messages: input.messages,
               runId,
@@ -605,6 +766,7 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
               requestMode,
               targetResultCount,
               previousCandidateIds,
+              usage: usageMeter.totals(),
             });
           }
         }
@@ -618,10 +780,15 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
       run_id: runId,
       iteration_no: 1,
       step_order: context.stepCounter,
-      tool_name: "openai.generate_text.agent_loop",
+      tool_name: "llm.generate_text.agent_loop",
       input_summary: {
-        model: env.OPENAI_MODEL,
+        provider: models.name,
+        model: models.modelId("agent"),
         hasTools: true,
+        // Request context, so a run can be replayed from telemetry alone.
+        requestMode,
+        previousCandidateIds,
+        anchorCompanyId,
       },
       output_summary: {
         finishReason: agentResult.finishReason,
@@ -646,6 +813,7 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
 
     // Check if we're waiting for clarification
     if (context.clarificationRequested && state.clarificationPending) {
+      await updateSearchRun(supabase, runId, searchRunUsageColumns(usageMeter.totals()));
       return null;
     }
 
@@ -668,11 +836,13 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
           previousCandidateIds,
           targetResultCount
         );
+        await publishPreliminaryResults(state.preliminaryResults);
       } else {
         await updateSearchRun(supabase, runId, {
           end_reason: "guardrail_hit",
           tool_call_count: state.toolCallCount,
           latency_ms: Date.now() - startedAtMs,
+          ...searchRunUsageColumns(usageMeter.totals()),
         });
 
         return buildFallbackResponse(
@@ -693,6 +863,7 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
         end_reason: "guardrail_hit",
         tool_call_count: state.toolCallCount,
         latency_ms: Date.now() - startedAtMs,
+        ...searchRunUsageColumns(usageMeter.totals()),
       });
       return buildFallbackResponse("No candidates satisfy the current request constraints.");
     }
@@ -705,16 +876,19 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
     });
 
     // Phase 2: Reranker (kept separate for quality)
-    const companyDetails = await getCompaniesByIds(
+    const companyDetails = await loadCompanies(
       supabase,
-      state.preliminaryResults.map((r) => r.companyId)
+      state.preliminaryResults.map((r) => r.companyId),
+      companyCache,
+      input.abortSignal
     );
 
     const rerankerStartedAt = Date.now();
     const reranked = await generateObject({
-      model: openai(env.OPENAI_MODEL),
+      model: models.languageModel("reranker"),
       schema: rerankerSchema,
       system: rerankerSystemPrompt,
+      abortSignal: input.abortSignal,
       prompt: buildRerankerPrompt({
         userMessage,
         candidates: state.preliminaryResults,
@@ -723,22 +897,23 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
       }),
     });
     const rerankerDurationMs = Date.now() - rerankerStartedAt;
-    const rerankerUsage = (reranked as { usage?: unknown }).usage ?? null;
+    usageMeter.record(models.modelId("reranker"), reranked.usage);
     context.stepCounter += 1;
     logStepAsync({
       run_id: runId,
       iteration_no: 1,
       step_order: context.stepCounter,
-      tool_name: "openai.generate_object.reranker",
+      tool_name: "llm.generate_object.reranker",
       input_summary: {
-        model: env.OPENAI_MODEL,
+        provider: models.name,
+        model: models.modelId("reranker"),
         candidateCount: state.preliminaryResults.length,
       },
       output_summary: {
         confidence: reranked.object.confidence,
         rankedCount: reranked.object.rankedCompanyIds.length,
         perCompanyCount: reranked.object.perCompany.length,
-        usage: rerankerUsage,
+        usage: reranked.usage,
       },
       duration_ms: rerankerDurationMs,
       candidate_count_before: state.preliminaryResults.length,
@@ -787,6 +962,7 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
         end_reason: "guardrail_hit",
         tool_call_count: state.toolCallCount,
         latency_ms: Date.now() - startedAtMs,
+        ...searchRunUsageColumns(usageMeter.totals()),
       });
       return buildFallbackResponse("No companies satisfy the requested constraints.");
     }
@@ -797,34 +973,28 @@ Requested ${targetResultCount} results. Returning ${references.length} companies
 Overall confidence: ${(rerankerData.confidence * 100).toFixed(0)}%. Focus on what was found, not the search process.`;
 
     const summaryStartedAt = Date.now();
-    const summaryResult = await generateText({
-      model: openai(env.OPENAI_MODEL),
-      prompt: summaryPrompt,
-    });
+    const summaryResult = await streamSummary(models.languageModel("agent"), summaryPrompt, input.onPartialText, input.abortSignal);
     const summaryDurationMs = Date.now() - summaryStartedAt;
-    const summaryUsage = (summaryResult as { usage?: unknown }).usage ?? null;
+    usageMeter.record(models.modelId("agent"), summaryResult.usage);
     context.stepCounter += 1;
     logStepAsync({
       run_id: runId,
       iteration_no: 1,
       step_order: context.stepCounter,
-      tool_name: "openai.generate_text.summary",
+      tool_name: "llm.generate_text.summary",
       input_summary: {
-        model: env.OPENAI_MODEL,
+        provider: models.name,
+        model: models.modelId("agent"),
       },
       output_summary: {
         textLength: summaryResult.text.length,
-        usage: summaryUsage,
+        usage: summaryResult.usage,
       },
       duration_ms: summaryDurationMs,
       candidate_count_before: references.length,
       candidate_count_after: references.length,
     });
 
-    if (input.onPartialText) {
-      await input.onPartialText(summaryResult.text.slice(0, 140));
-    }
-
     // Update telemetry
     await updateSearchRun(supabase, runId, {
       iteration_count: 1,
@@ -832,6 +1002,7 @@ Overall confidence: ${(rerankerData.confidence * 100).toFixed(0)}%. Focus on wha
       final_candidate_count: references.length,
       end_reason: "confidence_met",
       latency_ms: Date.now() - startedAtMs,
+      ...searchRunUsageColumns(usageMeter.totals()),
     });
 
     if (context.telemetryEnabled) {
@@ -859,15 +1030,27 @@ Overall confidence: ${(rerankerData.confidence * 100).toFixed(0)}%. Focus on wha
         iterationCount: 1,
         toolCallCount: state.toolCallCount,
         endReason: "confidence_met",
+        statusScope: state.statusScope,
       },
     };
   } catch (error) {
+    if (input.abortSignal?.aborted) {
+      await updateSearchRun(supabase, runId, {
+        end_reason: "cancelled",
+        tool_call_count: state.toolCallCount,
+        latency_ms: Date.now() - startedAtMs,
+        ...searchRunUsageColumns(usageMeter.totals()),
+      });
+      return buildCancelledResponse(runId, state.toolCallCount);
+    }
+
     console.error("[agentic-orchestrator] Search run failed", error);
 
     await updateSearchRun(supabase, runId, {
       end_reason: "error",
       tool_call_count: state.toolCallCount,
       latency_ms: Date.now() - startedAtMs,
+      ...searchRunUsageColumns(usageMeter.totals()),
     });
 
     return buildFallbackResponse(SEARCH_UNAVAILABLE_MESSAGE);
@@ -879,7 +1062,13 @@ export async function resumeAgentWithClarification(
   selection: string,
   input: AgentOrchestratorInput
 ): Promise<FinalAnswerPayload | null> {
-  const pending = pendingClarifications.get(sessionId);
+  const models = input.modelProvider ?? getModelProvider();
+  const supabase = getSupabaseServerClient();
+  const clarificationStore = resolveClarificationStore(input.clarificationStore, supabase);
+
+  // Taking the pending clarification removes it, so a second answer can't resume the same run.
+  // Only its owner can take it; anyone else finds nothing and leaves it in place.
+  const pending = await clarificationStore.take(sessionId, input.userId ?? null);
 
   if (!pending) {
     return buildFallbackResponse(
@@ -887,13 +1076,11 @@ export async function resumeAgentWithClarification(
     );
   }
 
-  // Clean up the pending clarification
-  pendingClarifications.delete(sessionId);
-
   // Resume with the clarification response
-  const env = getServerEnv();
-  const supabase = getSupabaseServerClient();
   const resumeStartedAtMs = Date.now();
+  const usageMeter = input.usageMeter ?? createUsageMeter();
+  // The meter holds this request's usage; the run's totals also include what it spent before pausing.
+  const runUsage = () => addUsageTotals(pending.usage, usageMeter.totals());
 
   // Update state with the user's selection
   pending.state.clarificationResponse = selection;
@@ -911,7 +1098,32 @@ export async function resumeAgentWithClarification(
 
   let stepCounter = pending.state.toolCallCount;
   let clarificationRequested = false;
+  let clarificationSaved = false;
+  const buildPendingClarification = (): PendingClarification => ({
+    sessionId,
+    userId: pending.userId,
+    state: pending.state,
+    messages: clarifiedMessages,
+    runId: pending.runId,
+    telemetryEnabled: pending.telemetryEnabled,
+    startedAtMs: pending.startedAtMs,
+    runtimePrompt: pending.runtimePrompt,
+    requestMode: pending.requestMode,
+    targetResultCount: pending.targetResultCount,
+    previousCandidateIds: pending.previousCandidateIds,
+    usage: runUsage(),
+  });
   let resumeToolDurationTotalMs = 0;
+  const companyCache = new Map<string, Company>();
+  const publishPreliminaryResults = createPreliminaryResultsPublisher({
+    supabase,
+    requestMode: pending.requestMode,
+    previousCandidateIds: pending.previousCandidateIds,
+    targetResultCount: pending.targetResultCount,
+    companyCache,
+    abortSignal: input.abortSignal,
+    onPreliminaryResults: input.onPreliminaryResults,
+  });
   const logResumeStepAsync = (payload: Parameters<typeof insertSearchRunStep>[1]): void => {
     if (!pending.telemetryEnabled) {
       return;
@@ -927,9 +1139,11 @@ export async function resumeAgentWithClarification(
     embedQuery: async (text) => {
       const startedAt = Date.now();
       const result = await embedMany({
-        model: openai.embedding(env.OPENAI_EMBEDDING_MODEL),
+        model: models.embeddingModel(),
         values: [text],
+        abortSignal: input.abortSignal,
       });
+      usageMeter.record(models.modelId("embedding"), result.usage);
       return {
         embedding: result.embeddings[0],
         durationMs: Date.now() - startedAt,
@@ -943,6 +1157,7 @@ export async function resumeAgentWithClarification(
         input.onClarificationRequest(data);
       }
     },
+    abortSignal: input.abortSignal,
   });
 
   await input.onActivity?.({
@@ -965,15 +1180,18 @@ export async function resumeAgentWithClarification(
     // Continue the agentic search
     const resumeAgentLoopStartedAt = Date.now();
     const resumeAgentResult = await generateText({
-      model: openai(env.OPENAI_MODEL),
+      model: models.languageModel("agent"),
       system: buildAgentSystemMessage(pending.runtimePrompt),
       messages: resumeMessages,
       tools,
       stopWhen: stepCountIs(MAX_STEPS - pending.state.toolCallCount),
+      abortSignal: input.abortSignal,
       onStepFinish: async (step) => {
+        input.abortSignal?.throwIfAborted();
         if (Date.now() - resumeStartedAtMs > MAX_RUNTIME_MS) {
           throw new Error("Search timeout exceeded");
         }
+        usageMeter.record(models.modelId("agent"), step.usage);
 
         // Build a map of tool results for logging
         const toolResultsMap = new Map<string, unknown>();
@@ -1022,19 +1240,17 @@ export async function resumeAgentWithClarification(
             status: "completed",
           });
 
+          if (
+            toolCall.toolName === "finalize_search"
+            && resultRecord.status === "finalized"
+            && pending.state.preliminaryResults
+          ) {
+            await publishPreliminaryResults(pending.state.preliminaryResults);
+          }
+
           if (toolCall.toolName === "clarify_with_user" && pending.state.clarificationPending) {
-            pendingClarifications.set(sessionId, {
-              sessionId,
-              state: pending.state,
-              messages: clarifiedMessages,
-              runId: pending.runId,
-              telemetryEnabled: pending.telemetryEnabled,
-              startedAtMs: pending.startedAtMs,
-              runtimePrompt: pending.runtimePrompt,
-              requestMode: pending.requestMode,
-              targetResultCount: pending.targetResultCount,
-              previousCandidateIds: pending.previousCandidateIds,
-            });
+            await clarificationStore.save(buildPendingClarification());
+            clarificationSaved = true;
           }
         }
       },
@@ -1047,11 +1263,13 @@ export async function resumeAgentWithClarification(
       run_id: pending.runId,
       iteration_no: 2,
       step_order: stepCounter,
-      tool_name: "openai.generate_text.agent_loop",
+      tool_name: "llm.generate_text.agent_loop",
       input_summary: {
-        model: env.OPENAI_MODEL,
+        provider: models.name,
+        model: models.modelId("agent"),
         hasTools: true,
         resumed: true,
+        clarificationSelection: selection,
       },
       output_summary: {
         finishReason: resumeAgentResult.finishReason,
@@ -1066,20 +1284,10 @@ export async function resumeAgentWithClarification(
     });
 
     if (clarificationRequested && pending.state.clarificationPending) {
-      if (!pendingClarifications.has(sessionId)) {
-        pendingClarifications.set(sessionId, {
-          sessionId,
-          state: pending.state,
-          messages: clarifiedMessages,
-          runId: pending.runId,
-          telemetryEnabled: pending.telemetryEnabled,
-          startedAtMs: pending.startedAtMs,
-          runtimePrompt: pending.runtimePrompt,
-          requestMode: pending.requestMode,
-          targetResultCount: pending.targetResultCount,
-          previousCandidateIds: pending.previousCandidateIds,
-        });
+      if (!clarificationSaved) {
+        await clarificationStore.save(buildPendingClarification());
       }
+      await updateSearchRun(supabase, pending.runId, searchRunUsageColumns(runUsage()));
       return null;
     }
 
@@ -1101,11 +1309,13 @@ export async function resumeAgentWithClarification(
           pending.previousCandidateIds,
           pending.targetResultCount
         );
+        await publishPreliminaryResults(pending.state.preliminaryResults);
       } else {
         await updateSearchRun(supabase, pending.runId, {
           end_reason: "guardrail_hit",
           tool_call_count: pending.state.toolCallCount,
           latency_ms: Date.now() - pending.startedAtMs,
+          ...searchRunUsageColumns(runUsage()),
         });
 
         return buildFallbackResponse(
@@ -1124,6 +1334,7 @@ export async function resumeAgentWithClarification(
         end_reason: "guardrail_hit",
         tool_call_count: pending.state.toolCallCount,
         latency_ms: Date.now() - pending.startedAtMs,
+        ...searchRunUsageColumns(runUsage()),
       });
       return buildFallbackResponse("No candidates satisfy the current request constraints.");
     }
@@ -1136,18 +1347,21 @@ export async function resumeAgentWithClarification(
     });
 
     // Rerank
-    const companyDetails = await getCompaniesByIds(
+    const companyDetails = await loadCompanies(
       supabase,
-      pending.state.preliminaryResults.map((r) => r.companyId)
+      pending.state.preliminaryResults.map((r) => r.companyId),
+      companyCache,
+      input.abortSignal
     );
 
     const userMessage = clarifiedMessages.filter((m) => m.role === "user").at(-1)?.content?.trim() ?? "";
 
     const resumeRerankerStartedAt = Date.now();
     const reranked = await generateObject({
-      model: openai(env.OPENAI_MODEL),
+      model: models.languageModel("reranker"),
       schema: rerankerSchema,
       system: rerankerSystemPrompt,
+      abortSignal: input.abortSignal,
       prompt: buildRerankerPrompt({
         userMessage: `${userMessage} (User clarified: ${selection})`,
         candidates: pending.state.preliminaryResults,
@@ -1156,15 +1370,16 @@ export async function resumeAgentWithClarification(
       }),
     });
     const resumeRerankerDurationMs = Date.now() - resumeRerankerStartedAt;
-    const resumeRerankerUsage = (reranked as { usage?: unknown }).usage ?? null;
+    usageMeter.record(models.modelId("reranker"), reranked.usage);
     stepCounter += 1;
     logResumeStepAsync({
       run_id: pending.runId,
       iteration_no: 2,
       step_order: stepCounter,
-      tool_name: "openai.generate_object.reranker",
+      tool_name: "llm.generate_object.reranker",
       input_summary: {
-        model: env.OPENAI_MODEL,
+        provider: models.name,
+        model: models.modelId("reranker"),
         candidateCount: pending.state.preliminaryResults.length,
         resumed: true,
       },
@@ -1172,7 +1387,7 @@ export async function resumeAgentWithClarification(
         confidence: reranked.object.confidence,
         rankedCount: reranked.object.rankedCompanyIds.length,
         perCompanyCount: reranked.object.perCompany.length,
-        usage: resumeRerankerUsage,
+        usage: reranked.usage,
       },
       duration_ms: resumeRerankerDurationMs,
       candidate_count_before: pending.state.preliminaryResults.length,
@@ -1219,6 +1434,7 @@ export async function resumeAgentWithClarification(
         end_reason: "guardrail_hit",
         tool_call_count: pending.state.toolCallCount,
         latency_ms: Date.now() - pending.startedAtMs,
+        ...searchRunUsageColumns(runUsage()),
       });
       return buildFallbackResponse("No companies satisfy the requested constraints.");
     }
@@ -1228,41 +1444,36 @@ Requested ${pending.targetResultCount} results. Returning ${references.length} c
 Overall confidence: ${(rerankerData.confidence * 100).toFixed(0)}%. Focus on what was found.`;
 
     const resumeSummaryStartedAt = Date.now();
-    const summaryResult = await generateText({
-      model: openai(env.OPENAI_MODEL),
-      prompt: summaryPrompt,
-    });
+    const summaryResult = await streamSummary(models.languageModel("agent"), summaryPrompt, input.onPartialText, input.abortSignal);
     const resumeSummaryDurationMs = Date.now() - resumeSummaryStartedAt;
-    const resumeSummaryUsage = (summaryResult as { usage?: unknown }).usage ?? null;
+    usageMeter.record(models.modelId("agent"), summaryResult.usage);
     stepCounter += 1;
     logResumeStepAsync({
       run_id: pending.runId,
       iteration_no: 2,
       step_order: stepCounter,
-      tool_name: "openai.generate_text.summary",
+      tool_name: "llm.generate_text.summary",
       input_summary: {
-        model: env.OPENAI_MODEL,
+        provider: models.name,
+        model: models.modelId("agent"),
         resumed: true,
       },
       output_summary: {
         textLength: summaryResult.text.length,
-        usage: resumeSummaryUsage,
+        usage: summaryResult.usage,
       },
       duration_ms: resumeSummaryDurationMs,
       candidate_count_before: references.length,
       candidate_count_after: references.length,
     });
 
-    if (input.onPartialText) {
-      await input.onPartialText(summaryResult.text.slice(0, 140));
-    }
-
     await updateSearchRun(supabase, pending.runId, {
       iteration_count: 2,
       tool_call_count: pending.state.toolCallCount,
       final_candidate_count: references.length,
       end_reason: "confidence_met",
       latency_ms: Date.now() - pending.startedAtMs,
+      ...searchRunUsageColumns(runUsage()),
     });
 
     if (pending.telemetryEnabled) {
@@ -1290,21 +1501,67 @@ Overall confidence: ${(rerankerData.confidence * 100).toFixed(0)}%. Focus on wha
         iterationCount: 2,
         toolCallCount: pending.state.toolCallCount,
         endReason: "confidence_met",
+        statusScope: pending.state.statusScope,
       },
     };
   } catch (error) {
+    if (input.abortSignal?.aborted) {
+      await updateSearchRun(supabase, pending.runId, {
+        end_reason: "cancelled",
+        tool_call_count: pending.state.toolCallCount,
+        latency_ms: Date.now() - pending.startedAtMs,
+        ...searchRunUsageColumns(runUsage()),
+      });
+      return buildCancelledResponse(pending.runId, pending.state.toolCallCount);
+    }
+
     console.error("[agentic-orchestrator] Resume search failed", error);
 
     await updateSearchRun(supabase, pending.runId, {
       end_reason: "error",
       tool_call_count: pending.state.toolCallCount,
       latency_ms: Date.now() - pending.startedAtMs,
+      ...searchRunUsageColumns(runUsage()),
     });
 
     return buildFallbackResponse(SEARCH_UNAVAILABLE_MESSAGE);
   }
 }
 
-export function hasPendingClarification(sessionId: string): boolean {
-  return pendingClarifications.has(sessionId);
+export async function hasPendingClarification(
+  sessionId: string,
+  store?: ClarificationStore
+): Promise<boolean> {
+  return resolveClarificationStore(store, getSupabaseServerClient()).has(sessionId);
+}
+
+/**
+ * Runs a search with no user in the loop (evals, replays). A clarification question is
+ * answered with `clarificationSelection`, or the first option the agent offered.
+ */
+export async function runAgenticSearchUnattended(
+  input: AgentOrchestratorInput & { clarificationSelection?: string }
+): Promise<FinalAnswerPayload> {
+  let offeredOptions: ClarificationOption[] = [];
+  const unattendedInput: AgentOrchestratorInput = {
+    ...input,
+    // Never persist a pending clarification nobody will answer.
+    clarificationStore: input.clarificationStore ?? createInMemoryClarificationStore(),
+    onClarificationRequest: (data) => {
+      offeredOptions = data.options;
+      input.onClarificationRequest?.(data);
+    },
+  };
+
+  const payload = await runAgenticSearch(unattendedInput);
+  if (payload) {
+    return payload;
+  }
+
+  const userMessage = input.messages.filter((m) => m.role === "user").at(-1)?.content ?? "";
+  const selection = input.clarificationSelection ?? offeredOptions[0]?.selection ?? userMessage;
+  return (
+    (await resumeAgentWithClarification(input.sessionId, selection, unattendedInput))
+    ?? buildFallbackResponse("Search incomplete: the agent asked a second clarification question.")
+  );
 }
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  CLARIFICATION_TIMEOUT_MS,
+  createInMemoryClarificationStore,
+  deserializePendingClarification,
+  serializePendingClarification,
+  type PendingClarification,
+} from "@/lib/agent/clarification-store";
+
+function buildPending(overrides: Partial<PendingClarification> = {}): PendingClarification {
+  return {
+    sessionId: "session-1",
+    userId: "user-1",
+    runId: "run-1",
+    telemetryEnabled: true,
+    startedAtMs: 1_000,
+    runtimePrompt: "Runtime request constraints:",
+    requestMode: "new",
+    targetResultCount: 15,
+    previousCandidateIds: [],
+    usage: { inputTokens: 1_200, outputTokens: 80, costUsd: 0.000228 },
+    messages: [{ id: "m1", role: "user", content: "ai agents", createdAt: "2025-01-01T00:00:00.000Z" }],
+    state: {
+      candidates: new Map([
+        [
+          "acme",
+          {
+            companyId: "acme",
+            semanticScore: 0.7,
+            keywordScore: 0.1,
+            nicheScore: 0,
+            combinedScore: 0.45,
+            exactMatchScore: 0,
+            matchedFields: ["semantic"],
+            matchedTerms: ["agents"],
+          },
+        ],
+      ]),
+      anchorCompany: null,
+      toolCallCount: 2,
+      retrievalQueryLog: ["ai agents"],
+      enforceQueryVariation: true,
+      hasHighConfidenceExactMatch: false,
+      preliminaryResults: null,
+      targetResultCount: 15,
+      defaultExcludeCompanyIds: [],
+      constrainToCompanyIds: null,
+      companyDetailsFetchedCount: 1,
+      requireClarificationBeforeFinalize: true,
+      clarificationSatisfied: false,
+      clarificationPending: { question: "Which kind?", options: [] },
+      clarificationResponse: null,
+      statusScope: ["acquired"],
+    },
+    ...overrides,
+  };
+}
+
+describe("clarification serialization", () => {
+  it("round-trips the candidate map through JSON", () => {
+    const json = JSON.stringify(serializePendingClarification(buildPending()));
+    const restored = deserializePendingClarification(JSON.parse(json));
+
+    expect(restored?.state.candidates).toBeInstanceOf(Map);
+    expect(restored?.state.candidates.get("acme")?.combinedScore).toBe(0.45);
+    expect(restored?.state.clarificationPending?.question).toBe("Which kind?");
+    expect(restored?.runtimePrompt).toBe("Runtime request constraints:");
+    expect(restored?.state.statusScope).toEqual(["acquired"]);
+    expect(restored?.usage).toEqual({ inputTokens: 1_200, outputTokens: 80, costUsd: 0.000228 });
+  });
+
+  it("rejects payloads without agent state", () => {
+    expect(deserializePendingClarification({ sessionId: "session-1" })).toBeNull();
+  });
+});
+
+describe("createInMemoryClarificationStore", () => {
+  it("hands a pending clarification out exactly once", async () => {
+    const store = createInMemoryClarificationStore();
+    await store.save(buildPending());
+
+    expect(await store.has("session-1")).toBe(true);
+    expect((await store.take("session-1", "user-1"))?.runId).toBe("run-1");
+    expect(await store.take("session-1", "user-1")).toBeNull();
+  });
+
+  it("leaves another user's clarification in place", async () => {
+    const store = createInMemoryClarificationStore();
+    await store.save(buildPending());
+
+    expect(await store.take("session-1", "user-2")).toBeNull();
+    expect(await store.take("session-1", null)).toBeNull();
+    expect((await store.take("session-1", "user-1"))?.runId).toBe("run-1");
+  });
+
+  it("does not share mutable state with the saved copy", async () => {
+    const store = createInMemoryClarificationStore();
+    const pending = buildPending();
+    await store.save(pending);
+    pending.state.candidates.clear();
+
+    expect((await store.take("session-1", "user-1"))?.state.candidates.size).toBe(1);
+  });
+
+  it("expires clarifications after the timeout", async () => {
+    let nowMs = 0;
+    const store = createInMemoryClarificationStore({ now: () => nowMs });
+    await store.save(buildPending());
+
+    nowMs = CLARIFICATION_TIMEOUT_MS + 1;
+
+    expect(await store.has("session-1")).toBe(false);
+    expect(await store.take("session-1", "user-1")).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { AgentRequestMode } from "@/lib/agent/prompts";
+import type { SearchAgentState, SearchCandidate } from "@/lib/agent/tools";
+import { normalizeStatusScope } from "@/lib/search/status-scope";
+import { EMPTY_USAGE, type UsageTotals } from "@/lib/usage/usage-meter";
+import type { ChatMessage } from "@/types/chat";
+
+export const CLARIFICATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface PendingClarification {
+  sessionId: string;
+  /** Owner of the paused run; only they can answer the clarification. */
+  userId: string | null;
+  state: SearchAgentState;
+  messages: ChatMessage[];
+  runId: string;
+  telemetryEnabled: boolean;
+  startedAtMs: number;
+  runtimePrompt: string;
+  requestMode: AgentRequestMode;
+  targetResultCount: number;
+  previousCandidateIds: string[];
+  /** Model usage of the run before it paused, so the resumed run reports its full cost. */
+  usage: UsageTotals;
+}
+
+/**
+ * Persists agent runs that are paused on clarify_with_user so the follow-up
+ * request can resume them from any server instance.
+ */
+export interface ClarificationStore {
+  save(pending: PendingClarification): Promise<void>;
+  /**
+   * Loads and removes the pending clarification of `userId`; returns null when missing, expired or
+   * someone else's, and leaves another user's clarification in place.
+   */
+  take(sessionId: string, userId: string | null): Promise<PendingClarification | null>;
+  has(sessionId: string): Promise<boolean>;
+}
+
+type SerializedSearchAgentState = Omit<SearchAgentState, "candidates"> & {
+  candidates: Array<[string, SearchCandidate]>;
+};
+
+interface SerializedPendingContext {
+  userId: string | null;
+  telemetryEnabled: boolean;
+  startedAtMs: number;
+  requestMode: AgentRequestMode;
+  targetResultCount: number;
+  previousCandidateIds: string[];
+  usage: UsageTotals;
+}
+
+export interface SerializedPendingClarification extends SerializedPendingContext {
+  sessionId: string;
+  runId: string;
+  runtimePrompt: string;
+  state: SerializedSearchAgentState;
+  messages: ChatMessage[];
+}
+
+const REQUEST_MODES: AgentRequestMode[] = ["new", "more", "filter", "similar"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readUsage(value: unknown): UsageTotals {
+  if (!isRecord(value)) {
+    return EMPTY_USAGE;
+  }
+  const count = (field: unknown) => (typeof field === "number" && Number.isFinite(field) ? field : 0);
+  return { inputTokens: count(value.inputTokens), outputTokens: count(value.outputTokens), costUsd: count(value.costUsd) };
+}
+
+export function serializePendingClarification(pending: PendingClarification): SerializedPendingClarification {
+  return {
+    sessionId: pending.sessionId,
+    runId: pending.runId,
+    runtimePrompt: pending.runtimePrompt,
+    userId: pending.userId,
+    telemetryEnabled: pending.telemetryEnabled,
+    startedAtMs: pending.startedAtMs,
+    requestMode: pending.requestMode,
+    targetResultCount: pending.targetResultCount,
+    previousCandidateIds: [...pending.previousCandidateIds],
+    usage: { ...pending.usage },
+    messages: pending.messages,
+    state: {
+      ...pending.state,
+      candidates: Array.from(pending.state.candidates.entries()),
+    },
+  };
+}
+
+export function deserializePendingClarification(value: unknown): PendingClarification | null {
+  if (!isRecord(value) || !isRecord(value.state)) {
+    return null;
+  }
+
+  const { state } = value;
+  if (
+    typeof value.sessionId !== "string"
+    || typeof value.runId !== "string"
+    || typeof value.runtimePrompt !== "string"
+    || !Array.isArray(value.messages)
+    || !Array.isArray(state.candidates)
+  ) {
+    return null;
+  }
+
+  const requestMode = REQUEST_MODES.includes(value.requestMode as AgentRequestMode)
+    ? (value.requestMode as AgentRequestMode)
+    : "new";
+  const candidates = new Map<string, SearchCandidate>(
+    (state.candidates as unknown[])
+      .filter((entry): entry is [string, SearchCandidate] =>
+        Array.isArray(entry) && typeof entry[0] === "string" && isRecord(entry[1])
+      )
+  );
+
+  return {
+    sessionId: value.sessionId,
+    runId: value.runId,
+    runtimePrompt: value.runtimePrompt,
+    userId: typeof value.userId === "string" ? value.userId : null,
+    telemetryEnabled: value.telemetryEnabled === true,
+    startedAtMs: typeof value.startedAtMs === "number" ? value.startedAtMs : Date.now(),
+    requestMode,
+    targetResultCount: typeof value.targetResultCount === "number" ? value.targetResultCount : 15,
+    previousCandidateIds: Array.isArray(value.previousCandidateIds)
+      ? value.previousCandidateIds.filter((id): id is string => typeof id === "string")
+      : [],
+    usage: readUsage(value.usage),
+    messages: value.messages as ChatMessage[],
+    state: {
+      ...(state as unknown as Omit<SearchAgentState, "candidates">),
+      candidates,
+      statusScope: normalizeStatusScope(state.statusScope),
+    },
+  };
+}
+
+export function createInMemoryClarificationStore(options?: { now?: () => number }): ClarificationStore {
+  const now = options?.now ?? Date.now;
+  // Entries are stored serialized so resumed runs never share mutable state with the saved copy.
+  const entries = new Map<string, { payload: string; userId: string | null; expiresAtMs: number }>();
+
+  const readLive = (sessionId: string) => {
+    const entry = entries.get(sessionId);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAtMs <= now()) {
+      entries.delete(sessionId);
+      return null;
+    }
+    return entry;
+  };
+
+  return {
+    async save(pending) {
+      entries.set(pending.sessionId, {
+        payload: JSON.stringify(serializePendingClarification(pending)),
+        userId: pending.userId,
+        expiresAtMs: now() + CLARIFICATION_TIMEOUT_MS,
+      });
+    },
+    async take(sessionId, userId) {
+      const entry = readLive(sessionId);
+      if (!entry || entry.userId !== userId) {
+        return null;
+      }
+      entries.delete(sessionId);
+      return deserializePendingClarification(JSON.parse(entry.payload) as unknown);
+    },
+    async has(sessionId) {
+      return readLive(sessionId) !== null;
+    },
+  };
+}
+
+interface PendingClarificationRow {
+  session_id: string;
+  user_id: string | null;
+  run_id: string;
+  runtime_prompt: string;
+  state: SerializedSearchAgentState;
+  messages: ChatMessage[];
+  context: SerializedPendingContext;
+  expires_at: string;
+}
+
+export function createSupabaseClarificationStore(client: SupabaseClient): ClarificationStore {
+  return {
+    async save(pending) {
+      const serialized = serializePendingClarification(pending);
+      const nowIso = new Date().toISOString();
+      const row: PendingClarificationRow = {
+        session_id: serialized.sessionId,
+        user_id: serialized.userId,
+        run_id: serialized.runId,
+        runtime_prompt: serialized.runtimePrompt,
+        state: serialized.state,
+        messages: serialized.messages,
+        context: {
+          userId: serialized.userId,
+          telemetryEnabled: serialized.telemetryEnabled,
+          startedAtMs: serialized.startedAtMs,
+          requestMode: serialized.requestMode,
+          targetResultCount: serialized.targetResultCount,
+          previousCandidateIds: serialized.previousCandidateIds,
+          usage: serialized.usage,
+        },
+        expires_at: new Date(Date.now() + CLARIFICATION_TIMEOUT_MS).toISOString(),
+      };
+
+      const { error } = await client.from("pending_clarifications").upsert(row, { onConflict: "session_id" });
+      if (error) {
+        console.error("savePendingClarification failed", error.message);
+        return;
+      }
+
+      // Opportunistic sweep so abandoned clarifications don't accumulate.
+      const { error: sweepError } = await client.from("pending_clarifications").delete().lt("expires_at", nowIso);
+      if (sweepError) {
+        console.error("sweepPendingClarifications failed", sweepError.message);
+      }
+    },
+    async take(sessionId, userId) {
+      // Delete-returning keeps the hand-off atomic when two instances race on the same answer.
+      const query = client.from("pending_clarifications").delete().eq("session_id", sessionId);
+      const { data, error } = await (userId === null ? query.is("user_id", null) : query.eq("user_id", userId))
+        .gt("expires_at", new Date().toISOString())
+        .select("session_id, user_id, run_id, runtime_prompt, state, messages, context, expires_at");
+
+      if (error) {
+        console.error("takePendingClarification failed", error.message);
+        return null;
+      }
+
+      const row = (data as PendingClarificationRow[] | null)?.[0];
+      if (!row) {
+        return null;
+      }
+
+      return deserializePendingClarification({
+        ...row.context,
+        sessionId: row.session_id,
+        runId: row.run_id,
+        runtimePrompt: row.runtime_prompt,
+        state: row.state,
+        messages: row.messages,
+      });
+    },
+    async has(sessionId) {
+      const { data, error } = await client
+        .from("pending_clarifications")
+        .select("session_id")
+        .eq("session_id", sessionId)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle<{ session_id: string }>();
+
+      if (error) {
+        console.error("hasPendingClarification failed", error.message);
+        return false;
+      }
+
+      return data !== null;
+    },
+  };
+}
@@ -1,7 +1,6 @@
 import { embedMany, generateObject, generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
 
-import { getServerEnv } from "@/lib/env";
+import { getModelProvider } from "@/lib/models/server";
 import {
   buildCriticPrompt,
   buildPlannerPrompt,
@@ -373,7 +372,7 @@ function converged(previousTopIds: string[], currentTopIds: string[]): boolean {
 }
 
 export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<FinalAnswerPayload> {
-  const env = getServerEnv();
+  const models = getModelProvider();
   const supabase = getSupabaseServerClient();
   const startedAtMs = Date.now();
   const runId = crypto.randomUUID();
@@ -670,8 +669,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
     }
 
     if (endReason !== "exact_match") {
-      const model = openai(env.OPENAI_MODEL);
-      const embeddingModel = openai.embedding(env.OPENAI_EMBEDDING_MODEL);
+      const model = models.languageModel("agent");
+      const embeddingModel = models.embeddingModel();
 
       const candidateMap = new Map<string, SearchCandidate>();
 
@@ -714,8 +713,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
             stepOrder: 1,
             toolName: "llm.plan_actions",
             inputSummary: {
-              provider: "openai",
-              model: env.OPENAI_MODEL,
+              provider: models.name,
+              model: models.modelId("agent"),
               systemPrompt: truncateText(plannerSystemPrompt),
               prompt: truncateText(plannerPrompt),
             },
@@ -748,8 +747,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
           stepOrder: 1,
           toolName: "llm.plan_actions",
           inputSummary: {
-            provider: "openai",
-            model: env.OPENAI_MODEL,
+            provider: models.name,
+            model: models.modelId("agent"),
             systemPrompt: truncateText(plannerSystemPrompt),
             prompt: truncateText(plannerPrompt),
           },
@@ -789,8 +788,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
             stepOrder: 2,
             toolName: "llm.embed_query_batch",
             inputSummary: {
-              provider: "openai",
-              model: env.OPENAI_EMBEDDING_MODEL,
+              provider: models.name,
+              model: models.modelId("embedding"),
               queries,
             },
             outputSummary: {
@@ -808,8 +807,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
           stepOrder: 2,
           toolName: "llm.embed_query_batch",
           inputSummary: {
-            provider: "openai",
-            model: env.OPENAI_EMBEDDING_MODEL,
+            provider: models.name,
+            model: models.modelId("embedding"),
             queries,
           },
           outputSummary: {
@@ -1109,7 +1108,7 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
         let reranked: { object: RerankerOutput };
         try {
           reranked = await generateObject({
-            model,
+            model: models.languageModel("reranker"),
             schema: rerankerSchema,
             system: rerankerSystemPrompt,
             prompt: rerankerPrompt,
@@ -1120,8 +1119,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
             stepOrder: 30,
             toolName: "llm.rerank_candidates",
             inputSummary: {
-              provider: "openai",
-              model: env.OPENAI_MODEL,
+              provider: models.name,
+              model: models.modelId("reranker"),
               systemPrompt: truncateText(rerankerSystemPrompt),
               prompt: truncateText(rerankerPrompt),
               candidateCount: ranked.length,
@@ -1162,8 +1161,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
           stepOrder: 30,
           toolName: "llm.rerank_candidates",
           inputSummary: {
-            provider: "openai",
-            model: env.OPENAI_MODEL,
+            provider: models.name,
+            model: models.modelId("reranker"),
             systemPrompt: truncateText(rerankerSystemPrompt),
             prompt: truncateText(rerankerPrompt),
             candidateCount: ranked.length,
@@ -1205,8 +1204,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
             stepOrder: 40,
             toolName: "llm.critic_continue_or_stop",
             inputSummary: {
-              provider: "openai",
-              model: env.OPENAI_MODEL,
+              provider: models.name,
+              model: models.modelId("agent"),
               systemPrompt: truncateText(criticSystemPrompt),
               prompt: truncateText(criticPrompt),
             },
@@ -1225,8 +1224,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
           stepOrder: 40,
           toolName: "llm.critic_continue_or_stop",
           inputSummary: {
-            provider: "openai",
-            model: env.OPENAI_MODEL,
+            provider: models.name,
+            model: models.modelId("agent"),
             systemPrompt: truncateText(criticSystemPrompt),
             prompt: truncateText(criticPrompt),
           },
@@ -1370,7 +1369,7 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
     let summaryResult: { text: string };
     try {
       summaryResult = await generateText({
-        model: openai(env.OPENAI_MODEL),
+        model: models.languageModel("agent"),
         prompt: summaryPrompt,
       });
     } catch (error) {
@@ -1379,8 +1378,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
         stepOrder: 50,
         toolName: "llm.final_summary",
         inputSummary: {
-          provider: "openai",
-          model: env.OPENAI_MODEL,
+          provider: models.name,
+          model: models.modelId("agent"),
           prompt: truncateText(summaryPrompt),
         },
         outputSummary: {
@@ -1398,8 +1397,8 @@ export async function runAgenticSearch(input: AgentOrchestratorInput): Promise<F
       stepOrder: 50,
       toolName: "llm.final_summary",
       inputSummary: {
-        provider: "openai",
-        model: env.OPENAI_MODEL,
+        provider: models.name,
+        model: models.modelId("agent"),
         prompt: truncateText(summaryPrompt),
       },
       outputSummary: {
@@ -1,3 +1,4 @@
+import { describeStatusScope, type SearchableCompanyStatus } from "@/lib/search/status-scope";
 import type { AgentPlan, RankedCandidate } from "@/lib/search/types";
 
 export type AgentRequestMode = "new" | "more" | "filter" | "similar";
@@ -8,6 +9,8 @@ export interface AgentRuntimePromptInput {
   targetResultCount: number;
   previousCandidateIds: string[];
   shouldClarifyBeforeSearch: boolean;
+  statusScope: SearchableCompanyStatus[];
+  anchorCompanyId?: string | null;
 }
 
 export const agentSystemPrompt = `You are a tool-calling company search agent for startup discovery.
@@ -34,6 +37,8 @@ Tooling expectations:
 - search_semantic: primary discovery by meaning
 - search_keyword: exact terminology disambiguation
 - search_taxonomy: strict sector/category/model filters
+- search_similar: nearest neighbors of an anchor company by ID; preferred first step for similarity requests once the anchor ID is known
+- filters (on search_semantic/search_keyword/search_taxonomy): hard constraints on total raised in USD, founded year, HQ country/city and team size bucket. Use them only when the user states such a constraint (e.g. "raised over $10M", "founded after 2020", "based in Berlin", "under 50 people"); never encode these constraints in the query text.
 - get_company_details: mandatory validation before finalize_search
 - clarify_with_user: use only when intent cannot be resolved confidently; each option must include a concrete selection text you can search with
 - finalize_search: structured handoff of ranked results`;
@@ -61,6 +66,7 @@ export function buildAgentRuntimePrompt(input: AgentRuntimePromptInput): string
     similar: [
       "User likely wants similar/alternative companies.",
       "If anchor company is present, find comparable offerings and exclude the anchor from final results.",
+      "Resolve the anchor company ID (search_exact_name if only a name is given), call search_similar with it, then add at least one semantic query describing the anchor's product/problem.",
       "Use at least two distinct retrieval queries that capture different aspects of similarity.",
     ],
   };
@@ -76,6 +82,10 @@ export function buildAgentRuntimePrompt(input: AgentRuntimePromptInput): string
     `- Target result count: ${input.targetResultCount}`,
     `- Previous candidate IDs count: ${input.previousCandidateIds.length}`,
     `- Previous candidate IDs: ${previousIdsText}`,
+    `- Company status scope: ${describeStatusScope(input.statusScope)} (searches only return companies with these statuses)`,
+    ...(input.anchorCompanyId
+      ? [`- Anchor company ID: ${input.anchorCompanyId}. Call search_similar with this ID first; never return the anchor itself.`]
+      : []),
     ...modeRules[input.requestMode].map((rule) => `- ${rule}`),
     `- ${clarificationRule}`,
     `- Do not return more than ${input.targetResultCount} final results.`,
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createInMemorySupabase, type InMemorySupabase } from "@/lib/mock/in-memory-supabase";
+import {
+  callTool,
+  createScriptedModelProvider,
+  fetchDetailsForResults,
+  finalizeWithResults,
+  type ScriptedModelProvider,
+} from "@/lib/mock/scripted-models";
+import { listSearchRuns } from "@/lib/search/run-history";
+
+const harness = vi.hoisted(() => ({
+  supabase: null as InMemorySupabase | null,
+  models: null as ScriptedModelProvider | null,
+}));
+
+vi.mock("@/lib/supabase/server", () => ({
+  getSupabaseServerClient: () => {
+    if (!harness.supabase) {
+      throw new Error("In-memory Supabase not installed");
+    }
+    return harness.supabase.client;
+  },
+}));
+
+vi.mock("@/lib/models/server", () => ({
+  getModelProvider: () => {
+    if (!harness.models) {
+      throw new Error("Scripted models not installed");
+    }
+    return harness.models;
+  },
+}));
+
+const { runAgenticSearch } = await import("@/lib/agent/agentic-orchestrator");
+const { diffRankedResults, readReplayContext, replaySearchRun } = await import("@/lib/agent/run-replay");
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  harness.supabase = null;
+  harness.models = null;
+});
+
+describe("diffRankedResults", () => {
+  it("marks moved, added and dropped companies", () => {
+    expect(diffRankedResults(["a", "b", "c"], ["b", "a", "d"])).toEqual([
+      { companyId: "b", originalRank: 2, replayRank: 1, change: "moved" },
+      { companyId: "a", originalRank: 1, replayRank: 2, change: "moved" },
+      { companyId: "d", originalRank: null, replayRank: 3, change: "added" },
+      { companyId: "c", originalRank: 3, replayRank: null, change: "removed" },
+    ]);
+  });
+});
+
+describe("readReplayContext", () => {
+  it("reads agent loop steps recorded under the old openai step name", () => {
+    const step = (toolName: string, inputSummary: Record<string, unknown>) => ({
+      id: toolName,
+      run_id: "run-1",
+      iteration_no: 1,
+      step_order: 1,
+      tool_name: toolName,
+      input_summary: inputSummary,
+      output_summary: {},
+      duration_ms: 0,
+      candidate_count_before: 0,
+      candidate_count_after: 0,
+      created_at: "2025-01-01T00:00:00.000Z",
+    });
+
+    expect(
+      readReplayContext([
+        step("openai.generate_text.agent_loop", { previousCandidateIds: ["sakana-ai"], anchorCompanyId: "sanas-ai" }),
+        step("llm.generate_text.agent_loop", { resumed: true, clarificationSelection: "Only startups" }),
+      ])
+    ).toEqual({
+      previousCandidateIds: ["sakana-ai"],
+      similarToCompanyId: "sanas-ai",
+      clarificationSelection: "Only startups",
+    });
+  });
+});
+
+describe("replaySearchRun", () => {
+  it("re-runs a recorded similar search with its original context", async () => {
+    const similarTurns = () => [
+      callTool("search_similar", { companyId: "sakana-ai" }),
+      fetchDetailsForResults(),
+      finalizeWithResults(),
+      // Ends this run's tool loop; the queue is shared with the replay.
+      { text: "Done searching." },
+    ];
+    harness.supabase = createInMemorySupabase();
+    harness.models = createScriptedModelProvider({ agent: [...similarTurns(), ...similarTurns()] });
+
+    const original = await runAgenticSearch({
+      messages: [{ id: "m1", role: "user", content: "More companies like Sakana AI", createdAt: "2025-01-01T00:00:00.000Z" }],
+      clientContext: { previousCandidateIds: [], similarToCompanyId: "sakana-ai" },
+      sessionId: "session-original",
+    });
+    const originalRunId = original?.telemetry.runId ?? "";
+
+    const replay = await replaySearchRun(originalRunId);
+
+    expect(replay?.context).toEqual({ previousCandidateIds: [], similarToCompanyId: "sakana-ai", clarificationSelection: undefined });
+    expect(replay?.original.steps.map((step) => step.tool_name)).toContain("agent.search_similar");
+    // Same script and data, so the replay reproduces the original ranking exactly.
+    expect(replay?.replay.results.length).toBeGreaterThan(0);
+    expect(replay?.replay.results.length).toBe(replay?.original.results.length);
+    expect(replay?.diff.every((row) => row.change === "unchanged")).toBe(true);
+    expect(replay?.replay.results.map((result) => result.company_id)).not.toContain("sakana-ai");
+    expect(Object.keys(replay?.companyNames ?? {})).toHaveLength(replay?.diff.length ?? -1);
+
+    const replayRuns = await listSearchRuns(harness.supabase.client, { sessionId: `replay:${originalRunId}` });
+    expect(replayRuns.map((run) => run.id)).toEqual([replay?.replay.runId]);
+    expect(await replaySearchRun("not-a-run-id")).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { runAgenticSearchUnattended } from "@/lib/agent/agentic-orchestrator";
+import type { ModelProvider } from "@/lib/models/provider";
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import {
+  getSearchRunDetail,
+  type SearchRunDetail,
+  type SearchRunResultRow,
+  type SearchRunStepRow,
+} from "@/lib/search/run-history";
+import { normalizeStatusScope } from "@/lib/search/status-scope";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+import type { UsageMeter } from "@/lib/usage/usage-meter";
+
+/** Request context recovered from the agent-loop steps of a recorded run. */
+export interface ReplayContext {
+  previousCandidateIds: string[];
+  similarToCompanyId?: string;
+  clarificationSelection?: string;
+}
+
+export type ResultChange = "unchanged" | "moved" | "added" | "removed";
+
+export interface ResultDiffRow {
+  companyId: string;
+  originalRank: number | null;
+  replayRank: number | null;
+  change: ResultChange;
+}
+
+export interface SearchRunReplay {
+  original: SearchRunDetail;
+  replay: {
+    runId: string;
+    endReason: string;
+    latencyMs: number;
+    content: string;
+    results: SearchRunResultRow[];
+  };
+  context: ReplayContext;
+  /** Replay order first, then companies that dropped out in their original order. */
+  diff: ResultDiffRow[];
+  /** Display names for every company in either result list. */
+  companyNames: Record<string, string>;
+}
+
+/** Step names of the agent loop; runs recorded before the pluggable model provider used the `openai.` one. */
+const AGENT_LOOP_STEPS = new Set(["llm.generate_text.agent_loop", "openai.generate_text.agent_loop"]);
+
+function asStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+export function readReplayContext(steps: SearchRunStepRow[]): ReplayContext {
+  const loops = steps.filter((step) => AGENT_LOOP_STEPS.has(step.tool_name));
+  const initial = loops.find((step) => step.input_summary.resumed !== true)?.input_summary ?? {};
+  const resumed = loops.find((step) => step.input_summary.resumed === true)?.input_summary ?? {};
+
+  return {
+    previousCandidateIds: asStringList(initial.previousCandidateIds),
+    similarToCompanyId: typeof initial.anchorCompanyId === "string" ? initial.anchorCompanyId : undefined,
+    clarificationSelection:
+      typeof resumed.clarificationSelection === "string" ? resumed.clarificationSelection : undefined,
+  };
+}
+
+export function diffRankedResults(original: string[], replay: string[]): ResultDiffRow[] {
+  const originalRanks = new Map(original.map((companyId, index) => [companyId, index + 1]));
+  const replayRanks = new Map(replay.map((companyId, index) => [companyId, index + 1]));
+
+  const current: ResultDiffRow[] = replay.map((companyId, index) => {
+    const originalRank = originalRanks.get(companyId) ?? null;
+    return {
+      companyId,
+      originalRank,
+      replayRank: index + 1,
+      change: originalRank === null ? "added" : originalRank === index + 1 ? "unchanged" : "moved",
+    };
+  });
+  const removed: ResultDiffRow[] = original
+    .filter((companyId) => !replayRanks.has(companyId))
+    .map((companyId) => ({
+      companyId,
+      originalRank: originalRanks.get(companyId) ?? null,
+      replayRank: null,
+      change: "removed",
+    }));
+
+  return [...current, ...removed];
+}
+
+/**
+ * Re-runs a recorded query through the current agent code and models. The replay is a new
+ * run (session `replay:<run id>`) with its own telemetry. Returns null when the run is unknown.
+ */
+export async function replaySearchRun(
+  runId: string,
+  options: { modelProvider?: ModelProvider; usageMeter?: UsageMeter } = {}
+): Promise<SearchRunReplay | null> {
+  const supabase = getSupabaseServerClient();
+  const original = await getSearchRunDetail(supabase, runId);
+  if (!original) {
+    return null;
+  }
+
+  const context = readReplayContext(original.steps);
+  const startedAtMs = Date.now();
+  const payload = await runAgenticSearchUnattended({
+    messages: [
+      { id: crypto.randomUUID(), role: "user", content: original.run.query_text, createdAt: new Date().toISOString() },
+    ],
+    clientContext: {
+      previousCandidateIds: context.previousCandidateIds,
+      statusScope: normalizeStatusScope(original.run.status_scope),
+      similarToCompanyId: context.similarToCompanyId,
+    },
+    sessionId: `replay:${runId}`,
+    clarificationSelection: context.clarificationSelection,
+    modelProvider: options.modelProvider,
+    usageMeter: options.usageMeter,
+  });
+
+  const replayResults: SearchRunResultRow[] = payload.references.map((reference, index) => ({
+    run_id: payload.telemetry.runId,
+    company_id: reference.companyId,
+    rank: index + 1,
+    confidence: reference.confidence,
+    evidence: { evidenceChips: reference.evidenceChips, reason: reference.reason },
+  }));
+
+  const companyNames: Record<string, string> = Object.fromEntries(
+    payload.references.map((reference) => [reference.companyId, reference.companyName])
+  );
+  const missingIds = original.results.map((result) => result.company_id).filter((companyId) => !companyNames[companyId]);
+  for (const company of await getCompaniesByIds(supabase, missingIds)) {
+    companyNames[company.id] = company.company_name;
+  }
+
+  return {
+    original,
+    replay: {
+      runId: payload.telemetry.runId,
+      endReason: payload.telemetry.endReason,
+      latencyMs: Date.now() - startedAtMs,
+      content: payload.content,
+      results: replayResults,
+    },
+    context,
+    diff: diffRankedResults(
+      original.results.map((result) => result.company_id),
+      replayResults.map((result) => result.company_id)
+    ),
+    companyNames,
+  };
+}
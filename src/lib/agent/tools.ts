@@ -2,13 +2,16 @@ import { tool } from "ai";
 import { z } from "zod";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
+import { describeStructuredFilters, structuredFiltersSchema, type StructuredFilters } from "@/lib/search/filters";
 import {
+  findSimilarCompanies,
   getCompaniesByIds,
   searchByTaxonomy,
   searchExactName,
   searchHybrid,
   searchKeyword,
 } from "@/lib/search/rpc";
+import type { SearchableCompanyStatus } from "@/lib/search/status-scope";
 import type { AgentActivityEventPayload, ClarificationOption } from "@/types/chat";
 import type { Company } from "@/types/company";
 
@@ -52,17 +55,20 @@ export interface SearchAgentState {
     options: ClarificationOption[];
   } | null;
   clarificationResponse: string | null;
+  statusScope: SearchableCompanyStatus[];
 }
 
 export interface ToolContext {
   supabase: SupabaseClient;
   embedQuery: (text: string) => Promise<{ embedding: number[]; durationMs: number }>;
   state: SearchAgentState;
+  /** Cancels in-flight search RPCs when the request is aborted. */
+  abortSignal?: AbortSignal;
   onActivity?: (event: AgentActivityEventPayload) => Promise<void> | void;
   onClarificationRequest?: (data: { question: string; options: ClarificationOption[] }) => void;
 }
 
-function buildCandidateFromExact(
+export function buildCandidateFromExact(
   companyId: string,
   score: number,
   matchedName: string
@@ -80,7 +86,7 @@ function buildCandidateFromExact(
   };
 }
 
-function buildCandidateFromHybrid(
+export function buildCandidateFromHybrid(
   row: Awaited<ReturnType<typeof searchHybrid>>[number]
 ): SearchCandidate {
   return {
@@ -95,7 +101,7 @@ function buildCandidateFromHybrid(
   };
 }
 
-function buildCandidateFromKeyword(
+export function buildCandidateFromKeyword(
   row: Awaited<ReturnType<typeof searchKeyword>>[number]
 ): SearchCandidate {
   return {
@@ -110,7 +116,7 @@ function buildCandidateFromKeyword(
   };
 }
 
-function buildCandidateFromTaxonomy(
+export function buildCandidateFromTaxonomy(
   row: Awaited<ReturnType<typeof searchByTaxonomy>>[number]
 ): SearchCandidate {
   return {
@@ -125,7 +131,22 @@ function buildCandidateFromTaxonomy(
   };
 }
 
-function mergeCandidates(
+export function buildCandidateFromSimilar(
+  row: Awaited<ReturnType<typeof findSimilarCompanies>>[number]
+): SearchCandidate {
+  return {
+    companyId: row.companyId,
+    semanticScore: row.similarityScore,
+    keywordScore: 0,
+    nicheScore: 0,
+    combinedScore: row.combinedScore,
+    exactMatchScore: 0,
+    matchedFields: row.taxonomyOverlap > 0 ? ["similar", "taxonomy"] : ["similar"],
+    matchedTerms: row.sharedLabels,
+  };
+}
+
+export function mergeCandidates(
   existing: Map<string, SearchCandidate>,
   incoming: SearchCandidate[]
 ): void {
@@ -185,8 +206,10 @@ function normalizeQueryForLog(value: string): string {
   return value.trim().toLowerCase().replace(/\s+/g, " ");
 }
 
-function recordRetrievalQuery(state: SearchAgentState, query: string): void {
-  const normalized = normalizeQueryForLog(query);
+function recordRetrievalQuery(state: SearchAgentState, query: string, filters?: StructuredFilters): void {
+  // The same query under different filters retrieves a different slice, so it counts as a distinct query.
+  const filterSignature = describeStructuredFilters(filters);
+  const normalized = normalizeQueryForLog(filterSignature ? `${query} [${filterSignature}]` : query);
   if (normalized) {
     state.retrievalQueryLog.push(normalized);
   }
@@ -209,10 +232,24 @@ const semanticSearchSchema = z.object({
     .array(z.string())
     .optional()
     .describe("Optional additional company IDs to exclude from this semantic search."),
+  filters: structuredFiltersSchema
+    .optional()
+    .describe("Optional hard filters on funding, founded year, headquarters and team size."),
+});
+
+const similarSearchSchema = z.object({
+  companyId: z.string().describe("ID of the anchor company to find neighbors for"),
+  excludeCompanyIds: z
+    .array(z.string())
+    .optional()
+    .describe("Optional additional company IDs to exclude from this similarity search."),
 });
 
 const keywordSearchSchema = z.object({
   keywords: z.string().describe("Keywords to search for"),
+  filters: structuredFiltersSchema
+    .optional()
+    .describe("Optional hard filters on funding, founded year, headquarters and team size."),
 });
 
 const taxonomySearchSchema = z.object({
@@ -228,6 +265,9 @@ const taxonomySearchSchema = z.object({
     .array(z.string())
     .optional()
     .describe("e.g., ['SaaS', 'API-First']"),
+  filters: structuredFiltersSchema
+    .optional()
+    .describe("Optional hard filters on funding, founded year, headquarters and team size."),
 });
 
 const clarifySchema = z.object({
@@ -292,8 +332,9 @@ export function createSearchTools(ctx: ToolContext) {
 
         const rows = await searchExactName(ctx.supabase, {
           queryText: companyName,
-          statuses: ["startup"],
+          statuses: ctx.state.statusScope,
           limit: 10,
+          signal: ctx.abortSignal,
         });
 
         const constrainedRows = rows.filter((row) =>
@@ -328,10 +369,10 @@ export function createSearchTools(ctx: ToolContext) {
     search_semantic: tool({
       description: "Semantic retrieval across company profile fields (description/product/problem/customer/niches).",
       inputSchema: semanticSearchSchema,
-      execute: async ({ query, searchFocus, excludeCompanyIds }: z.infer<typeof semanticSearchSchema>) => {
+      execute: async ({ query, searchFocus, excludeCompanyIds, filters }: z.infer<typeof semanticSearchSchema>) => {
         const startedAt = Date.now();
         ctx.state.toolCallCount += 1;
-        recordRetrievalQuery(ctx.state, query);
+        recordRetrievalQuery(ctx.state, query, filters);
         const candidateCountBefore = ctx.state.candidates.size;
         const mergedExcludeIds = dedupeCompanyIds([
           ...(excludeCompanyIds ?? []),
@@ -346,11 +387,13 @@ export function createSearchTools(ctx: ToolContext) {
         const rows = await searchHybrid(ctx.supabase, {
           queryText: query,
           queryEmbedding: embedding,
-          statuses: ["startup"],
+          statuses: ctx.state.statusScope,
           includeIds,
           excludeIds: mergedExcludeIds.length ? mergedExcludeIds : undefined,
           limit,
           minSemantic: 0.25,
+          filters,
+          signal: ctx.abortSignal,
         });
 
         const constrainedRows = rows.filter((row) =>
@@ -372,6 +415,7 @@ export function createSearchTools(ctx: ToolContext) {
           totalFound: constrainedRows.length,
           queryUsed: query,
           searchFocus: searchFocus ?? "broad",
+          filtersUsed: filters ?? null,
           candidateCountBefore,
           candidateCountAfter,
           embeddingDurationMs: embeddingResult.durationMs,
@@ -380,20 +424,69 @@ export function createSearchTools(ctx: ToolContext) {
       },
     }),
 
+    search_similar: tool({
+      description:
+        "Nearest-neighbor lookup from an anchor company's profile embedding, boosted by shared sectors/categories/business models. Needs a company ID (use search_exact_name to resolve a name first).",
+      inputSchema: similarSearchSchema,
+      execute: async ({ companyId, excludeCompanyIds }: z.infer<typeof similarSearchSchema>) => {
+        const startedAt = Date.now();
+        ctx.state.toolCallCount += 1;
+        recordRetrievalQuery(ctx.state, `similar:${companyId}`);
+        const candidateCountBefore = ctx.state.candidates.size;
+        const mergedExcludeIds = dedupeCompanyIds([
+          companyId,
+          ...(excludeCompanyIds ?? []),
+          ...ctx.state.defaultExcludeCompanyIds,
+        ]);
+
+        const rows = await findSimilarCompanies(ctx.supabase, {
+          companyId,
+          statuses: ctx.state.statusScope,
+          excludeIds: mergedExcludeIds,
+          limit: effectiveSearchLimit(ctx.state.targetResultCount),
+          signal: ctx.abortSignal,
+        });
+
+        const constrainedRows = rows.filter((row) =>
+          applyCompanyIdConstraints([row.companyId], ctx.state).length > 0
+        );
+        mergeCandidates(ctx.state.candidates, constrainedRows.map(buildCandidateFromSimilar));
+        const candidateCountAfter = ctx.state.candidates.size;
+        const previewLimit = Math.max(15, Math.min(60, ctx.state.targetResultCount));
+
+        return {
+          results: constrainedRows.slice(0, previewLimit).map((row) => ({
+            companyId: row.companyId,
+            similarityScore: Number(row.similarityScore.toFixed(3)),
+            sharedLabels: row.sharedLabels,
+            combinedScore: Number(row.combinedScore.toFixed(3)),
+          })),
+          totalFound: constrainedRows.length,
+          anchorCompanyId: companyId,
+          anchorFound: rows.length > 0,
+          candidateCountBefore,
+          candidateCountAfter,
+          durationMs: Date.now() - startedAt,
+        };
+      },
+    }),
+
     search_keyword: tool({
       description: "Lexical keyword retrieval for exact terminology and disambiguation.",
       inputSchema: keywordSearchSchema,
-      execute: async ({ keywords }: z.infer<typeof keywordSearchSchema>) => {
+      execute: async ({ keywords, filters }: z.infer<typeof keywordSearchSchema>) => {
         const startedAt = Date.now();
         ctx.state.toolCallCount += 1;
-        recordRetrievalQuery(ctx.state, keywords);
+        recordRetrievalQuery(ctx.state, keywords, filters);
         const candidateCountBefore = ctx.state.candidates.size;
         const limit = effectiveSearchLimit(ctx.state.targetResultCount);
 
         const rows = await searchKeyword(ctx.supabase, {
           queryText: keywords,
-          statuses: ["startup"],
+          statuses: ctx.state.statusScope,
           limit,
+          filters,
+          signal: ctx.abortSignal,
         });
 
         const constrainedRows = rows.filter((row) =>
@@ -413,6 +506,7 @@ export function createSearchTools(ctx: ToolContext) {
           })),
           totalFound: constrainedRows.length,
           queryUsed: keywords,
+          filtersUsed: filters ?? null,
           candidateCountBefore,
           candidateCountAfter,
           durationMs: Date.now() - startedAt,
@@ -423,7 +517,7 @@ export function createSearchTools(ctx: ToolContext) {
     search_taxonomy: tool({
       description: "Taxonomy filter using sector/category/business model labels.",
       inputSchema: taxonomySearchSchema,
-      execute: async ({ sectors, categories, businessModels }: z.infer<typeof taxonomySearchSchema>) => {
+      execute: async ({ sectors, categories, businessModels, filters }: z.infer<typeof taxonomySearchSchema>) => {
         const startedAt = Date.now();
         ctx.state.toolCallCount += 1;
         const taxonomySignature = [
@@ -432,7 +526,7 @@ export function createSearchTools(ctx: ToolContext) {
           ...(categories ?? []),
           ...(businessModels ?? []),
         ].join("|");
-        recordRetrievalQuery(ctx.state, taxonomySignature);
+        recordRetrievalQuery(ctx.state, taxonomySignature, filters);
         const candidateCountBefore = ctx.state.candidates.size;
         const limit = effectiveSearchLimit(ctx.state.targetResultCount);
 
@@ -440,8 +534,10 @@ export function createSearchTools(ctx: ToolContext) {
           sectors: sectors ?? [],
           categories: categories ?? [],
           businessModels: businessModels ?? [],
-          statuses: ["startup"],
+          statuses: ctx.state.statusScope,
           limit,
+          filters,
+          signal: ctx.abortSignal,
         });
 
         const constrainedRows = rows.filter((row) =>
@@ -461,7 +557,7 @@ export function createSearchTools(ctx: ToolContext) {
             tagScore: Number(row.tagScore.toFixed(3)),
           })),
           totalFound: constrainedRows.length,
-          filtersUsed: { sectors, categories, businessModels },
+          filtersUsed: { sectors, categories, businessModels, ...(filters ?? {}) },
           candidateCountBefore,
           candidateCountAfter,
           durationMs: Date.now() - startedAt,
@@ -516,7 +612,7 @@ export function createSearchTools(ctx: ToolContext) {
         const candidateCountBefore = ctx.state.candidates.size;
         const constrainedIds = applyCompanyIdConstraints(companyIds, ctx.state).slice(0, 25);
 
-        const companies = await getCompaniesByIds(ctx.supabase, constrainedIds);
+        const companies = await getCompaniesByIds(ctx.supabase, constrainedIds, ctx.abortSignal);
 
         // Update candidate info with company names
         for (const company of companies) {
@@ -0,0 +1,135 @@
+import "server-only";
+import { cookies } from "next/headers";
+import { notFound, redirect } from "next/navigation";
+import type { User } from "@supabase/supabase-js";
+
+import {
+  ACCESS_TOKEN_COOKIE,
+  signInPath,
+  writeSessionCookies,
+  type AuthSession,
+  type AuthUser,
+  type SessionTokens,
+} from "@/lib/auth/session";
+import { getServerEnv } from "@/lib/env";
+import { createUserSupabaseClient, getSupabaseAuthClient, getSupabaseServerClient } from "@/lib/supabase/server";
+
+export type SignInLinkOutcome =
+  /** The link was emailed. */
+  | { status: "sent" }
+  /** `AUTH_MODE=dev`: no email; the caller follows the link directly. */
+  | { status: "redirect"; redirectTo: string };
+
+export type SignInLinkType = "email" | "magiclink";
+
+function toSession(user: User, accessToken: string): AuthSession {
+  return {
+    user: { id: user.id, email: user.email ?? null },
+    supabase: createUserSupabaseClient(accessToken),
+  };
+}
+
+/**
+ * The signed-in user from the session cookie, or null. Expired access tokens are refreshed by
+ * the middleware before the request reaches here, so this only verifies the token.
+ */
+export async function getAuthSession(): Promise<AuthSession | null> {
+  const accessToken = (await cookies()).get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!accessToken) {
+    return null;
+  }
+
+  const { data, error } = await getSupabaseAuthClient().auth.getUser(accessToken);
+  if (error || !data.user) {
+    return null;
+  }
+
+  return toSession(data.user, accessToken);
+}
+
+/** For pages: redirects to sign-in, returning to `path` afterwards. */
+export async function requirePageSession(path: string): Promise<AuthSession> {
+  const session = await getAuthSession();
+  if (!session) {
+    redirect(signInPath(path));
+  }
+
+  return session;
+}
+
+export function isAdminUser(user: AuthUser): boolean {
+  return getServerEnv().ADMIN_USER_IDS.includes(user.id);
+}
+
+/** The signed-in user when they are listed in `ADMIN_USER_IDS`, or null. */
+export async function getAdminSession(): Promise<AuthSession | null> {
+  const session = await getAuthSession();
+  return session && isAdminUser(session.user) ? session : null;
+}
+
+/** For admin pages: redirects to sign-in like `requirePageSession`, and 404s for non-admins. */
+export async function requireAdminPageSession(path: string): Promise<AuthSession> {
+  const session = await requirePageSession(path);
+  if (!isAdminUser(session.user)) {
+    notFound();
+  }
+
+  return session;
+}
+
+/**
+ * Starts a sign-in for `email`. Magic-link mode has Supabase email a link to `/auth/confirm`;
+ * dev mode generates the same link with the admin API and hands it back instead of sending it.
+ */
+export async function sendSignInLink(email: string, options: { origin: string; next: string }): Promise<SignInLinkOutcome> {
+  if (getServerEnv().AUTH_MODE === "dev") {
+    const { data, error } = await getSupabaseServerClient().auth.admin.generateLink({ type: "magiclink", email });
+    if (error) {
+      throw new Error(`sendSignInLink failed: ${error.message}`);
+    }
+    const params = new URLSearchParams({
+      token_hash: data.properties.hashed_token,
+      type: "magiclink",
+      next: options.next,
+    });
+    return { status: "redirect", redirectTo: `/auth/confirm?${params.toString()}` };
+  }
+
+  const { error } = await getSupabaseAuthClient().auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: `${options.origin}${options.next}` },
+  });
+  if (error) {
+    throw new Error(`sendSignInLink failed: ${error.message}`);
+  }
+
+  return { status: "sent" };
+}
+
+/** Exchanges the token from a sign-in link for session tokens; null when the link is invalid or used. */
+export async function verifySignInLink(tokenHash: string, type: SignInLinkType): Promise<SessionTokens | null> {
+  const { data, error } = await getSupabaseAuthClient().auth.verifyOtp({ token_hash: tokenHash, type });
+  if (error || !data.session) {
+    if (error) {
+      console.error("[auth] Sign-in link verification failed", error.message);
+    }
+    return null;
+  }
+
+  return { accessToken: data.session.access_token, refreshToken: data.session.refresh_token };
+}
+
+/** Clears the session cookies and revokes the refresh token. Route handlers only. */
+export async function signOut(): Promise<void> {
+  const store = await cookies();
+  const accessToken = store.get(ACCESS_TOKEN_COOKIE)?.value;
+  writeSessionCookies(store, null);
+  if (!accessToken) {
+    return;
+  }
+
+  const { error } = await getSupabaseServerClient().auth.admin.signOut(accessToken);
+  if (error) {
+    console.error("[auth] Sign-out revoke failed", error.message);
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { accessTokenExpiresAt, safeRedirectPath, signInPath } from "@/lib/auth/session";
+
+function jwt(payload: Record<string, unknown>): string {
+  const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(payload)}.signature`;
+}
+
+describe("safeRedirectPath", () => {
+  it("keeps same-origin paths and drops everything else", () => {
+    expect(safeRedirectPath("/lists/abc?tab=notes")).toBe("/lists/abc?tab=notes");
+    expect(safeRedirectPath("https://ceejay.example/saved-searches", "https://ceejay.example")).toBe("/saved-searches");
+    expect(safeRedirectPath("https://evil.example/phish", "https://ceejay.example")).toBe("/");
+    expect(safeRedirectPath("//evil.example/phish")).toBe("/");
+    expect(safeRedirectPath("/sign-in?next=/sign-in")).toBe("/");
+    expect(safeRedirectPath(undefined)).toBe("/");
+  });
+
+  it("round-trips through the sign-in path", () => {
+    expect(signInPath("/")).toBe("/sign-in");
+    expect(signInPath("/?conversation=abc")).toBe("/sign-in?next=%2F%3Fconversation%3Dabc");
+  });
+});
+
+describe("accessTokenExpiresAt", () => {
+  it("reads the exp claim in milliseconds", () => {
+    expect(accessTokenExpiresAt(jwt({ sub: "user-1", exp: 1_735_689_600 }))).toBe(1_735_689_600_000);
+    expect(accessTokenExpiresAt(jwt({ sub: "user-1" }))).toBeNull();
+    expect(accessTokenExpiresAt("not-a-jwt")).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+export const ACCESS_TOKEN_COOKIE = "ceejay-access-token";
+export const REFRESH_TOKEN_COOKIE = "ceejay-refresh-token";
+/** Cookie lifetime; Supabase refresh tokens outlive the one-hour access token. */
+export const SESSION_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+export const SIGN_IN_PATH = "/sign-in";
+
+/** API routes answer 401 with this when there is no session. */
+export const SIGN_IN_REQUIRED_MESSAGE = "Sign in to continue.";
+
+export const signInRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  next: z.string().optional(),
+});
+
+export type SignInRequest = z.infer<typeof signInRequestSchema>;
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  /** Acts as the user: row-level security limits it to rows they own. */
+  supabase: SupabaseClient;
+}
+
+/** Base for resolving paths when no origin is known; no absolute URL can match it. */
+const RELATIVE_BASE = "http://relative.invalid";
+
+/**
+ * Post-sign-in destination. Only same-origin paths are allowed so the link cannot be used as an
+ * open redirect; absolute URLs (Supabase passes `RedirectTo` back) are reduced to their path.
+ */
+export function safeRedirectPath(value: string | null | undefined, origin = RELATIVE_BASE): string {
+  if (!value) {
+    return "/";
+  }
+
+  try {
+    const url = new URL(value, origin);
+    if (url.origin !== origin || url.pathname.startsWith(SIGN_IN_PATH)) {
+      return "/";
+    }
+    return `${url.pathname}${url.search}`;
+  } catch {
+    return "/";
+  }
+}
+
+export function signInPath(next: string): string {
+  return next === "/" ? SIGN_IN_PATH : `${SIGN_IN_PATH}?next=${encodeURIComponent(next)}`;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+interface CookieWriter {
+  set(name: string, value: string, options: { httpOnly: boolean; sameSite: "lax"; secure: boolean; path: string; maxAge: number }): unknown;
+}
+
+export function writeSessionCookies(cookies: CookieWriter, tokens: SessionTokens | null): void {
+  const options = {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: tokens ? SESSION_COOKIE_MAX_AGE_SECONDS : 0,
+  };
+  cookies.set(ACCESS_TOKEN_COOKIE, tokens?.accessToken ?? "", options);
+  cookies.set(REFRESH_TOKEN_COOKIE, tokens?.refreshToken ?? "", options);
+}
+
+/** Expiry (ms since epoch) from a JWT's `exp` claim, without verifying it; null when unreadable. */
+export function accessTokenExpiresAt(token: string): number | null {
+  const payload = token.split(".")[1];
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(payload.length / 4) * 4, "="));
+    const exp = (JSON.parse(json) as { exp?: unknown }).exp;
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,95 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+
+import {
+  appendConversationMessages,
+  conversationTitle,
+  deleteConversation,
+  getConversation,
+  listConversations,
+  restoreConversation,
+} from "@/lib/conversations/conversations";
+import { createInMemorySupabase } from "@/lib/mock/in-memory-supabase";
+
+const USER_ID = "5b0f3a7e-2c1d-4e8f-9a6b-3d2c1b0a9f8e";
+
+describe("conversationTitle", () => {
+  it("uses the first user line and cuts long titles at a word", () => {
+    expect(conversationTitle([{ role: "assistant", content: "Hi" }, { role: "user", content: "AI for banks\nmore" }])).toBe(
+      "AI for banks"
+    );
+    expect(conversationTitle([{ role: "user", content: `${"compliance ".repeat(10)}tools` }])).toBe(
+      `${"compliance ".repeat(7).trimEnd()}…`
+    );
+    expect(conversationTitle([])).toBe("New conversation");
+  });
+});
+
+describe("conversations", () => {
+  it("stores turns in order and restores references and candidate context", async () => {
+    const supabase = createInMemorySupabase();
+    const reference = { companyId: "sanas-ai", companyName: "Sanas", reason: "Accent translation" };
+
+    await appendConversationMessages(supabase.client, USER_ID, "session-1", {
+      history: [{ role: "assistant", content: "Based on your resume..." }],
+      messages: [
+        { role: "user", content: "Voice AI startups" },
+        { role: "assistant", content: "Sanas fits.", references: [reference], runId: "6f1d2c1e-8a53-4f7e-9a3b-0d7c5b1e2f90" },
+      ],
+      statusScope: ["startup", "acquired"],
+      previousCandidateIds: ["sanas-ai"],
+    });
+    await appendConversationMessages(supabase.client, USER_ID, "session-1", {
+      history: [{ role: "assistant", content: "ignored once the conversation exists" }],
+      messages: [{ role: "user", content: "Show me more" }],
+    });
+
+    const restored = await restoreConversation(supabase.client, USER_ID, "session-1");
+
+    expect(restored?.conversation).toMatchObject({
+      title: "Voice AI startups",
+      status_scope: ["startup", "acquired"],
+      previous_candidate_ids: ["sanas-ai"],
+    });
+    expect(restored?.messages.map((message) => [message.role, message.content])).toEqual([
+      ["assistant", "Based on your resume..."],
+      ["user", "Voice AI startups"],
+      ["assistant", "Sanas fits."],
+      ["user", "Show me more"],
+    ]);
+    expect(restored?.messages[2].references).toEqual([reference]);
+    expect(restored?.lastRunId).toBe("6f1d2c1e-8a53-4f7e-9a3b-0d7c5b1e2f90");
+    expect(Object.keys(restored?.companiesById ?? {})).toEqual(["sanas-ai"]);
+    expect((await listConversations(supabase.client, USER_ID)).map((conversation) => conversation.id)).toEqual(["session-1"]);
+    expect(await listConversations(supabase.client, "0a9f8e7d-6c5b-4a3f-8e2d-1c0b9a8f7e6d")).toEqual([]);
+    expect(await getConversation(supabase.client, "0a9f8e7d-6c5b-4a3f-8e2d-1c0b9a8f7e6d", "session-1")).toBeNull();
+
+    expect(await deleteConversation(supabase.client, USER_ID, "session-1")).toBe(true);
+    expect(await getConversation(supabase.client, USER_ID, "session-1")).toBeNull();
+    expect(await deleteConversation(supabase.client, USER_ID, "session-1")).toBe(false);
+  });
+
+  it("gives turns appended at the same time their own positions", async () => {
+    const supabase = createInMemorySupabase();
+    await appendConversationMessages(supabase.client, USER_ID, "session-1", { messages: [{ role: "user", content: "First" }] });
+
+    await Promise.all(
+      ["Second", "Third", "Fourth"].map((content) =>
+        appendConversationMessages(supabase.client, USER_ID, "session-1", {
+          messages: [
+            { role: "user", content },
+            { role: "assistant", content: `${content} answer` },
+          ],
+        })
+      )
+    );
+
+    const positions = (supabase.tables.get("conversation_messages") ?? []).map((row) => Number(row.position));
+    expect(positions.sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    const restored = await restoreConversation(supabase.client, USER_ID, "session-1");
+    for (const content of ["Second", "Third", "Fourth"]) {
+      const index = restored?.messages.findIndex((message) => message.content === content) ?? -1;
+      expect(restored?.messages[index + 1]?.content, "each answer follows its question").toBe(`${content} answer`);
+    }
+  });
+});
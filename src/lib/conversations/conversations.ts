@@ -0,0 +1,286 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import { DEFAULT_STATUS_SCOPE, normalizeStatusScope, type SearchableCompanyStatus } from "@/lib/search/status-scope";
+import type { ChatMessage, ChatRole } from "@/types/chat";
+import type { Company, CompanyReference } from "@/types/company";
+
+export const CONVERSATION_LIST_LIMIT = 50;
+
+const TITLE_MAX_LENGTH = 80;
+
+/** Postgres `unique_violation`. */
+const UNIQUE_VIOLATION = "23505";
+
+/** Appends that lose the race for the next positions to a concurrent append retry this many times. */
+const APPEND_ATTEMPTS = 5;
+
+export interface ConversationRow {
+  /** The chat sessionId; `search_runs.session_id` holds the same value. */
+  id: string;
+  user_id: string;
+  title: string;
+  status_scope: SearchableCompanyStatus[];
+  previous_candidate_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConversationMessageRow {
+  id: string;
+  conversation_id: string;
+  position: number;
+  role: ChatRole;
+  content: string;
+  company_references: CompanyReference[];
+  run_id: string | null;
+  created_at: string;
+}
+
+export interface ConversationDetail {
+  conversation: ConversationRow;
+  messages: ChatMessage[];
+  /** Run behind the latest assistant answer, for "Save search" after a reload. */
+  lastRunId: string | null;
+}
+
+/** Everything the chat needs to pick a conversation back up, including the referenced companies. */
+export interface RestoredConversation extends ConversationDetail {
+  companiesById: Record<string, Company>;
+}
+
+export interface ConversationMessageInput {
+  role: ChatRole;
+  content: string;
+  references?: CompanyReference[];
+  runId?: string | null;
+}
+
+export interface ConversationTurn {
+  messages: ConversationMessageInput[];
+  /** Messages from before this turn, stored only when the turn creates the conversation (e.g. the resume seed). */
+  history?: ConversationMessageInput[];
+  statusScope?: SearchableCompanyStatus[];
+  previousCandidateIds?: string[];
+}
+
+/** First line of the opening user message, cut at a word boundary. */
+export function conversationTitle(messages: ConversationMessageInput[]): string {
+  const text = messages.find((message) => message.role === "user")?.content.trim().split("\n")[0]?.trim();
+  if (!text) {
+    return "New conversation";
+  }
+  if (text.length <= TITLE_MAX_LENGTH) {
+    return text;
+  }
+  const cut = text.slice(0, TITLE_MAX_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function normalizeConversation(row: ConversationRow): ConversationRow {
+  return {
+    ...row,
+    status_scope: normalizeStatusScope(row.status_scope),
+    previous_candidate_ids: row.previous_candidate_ids ?? [],
+  };
+}
+
+/** The conversation row without its messages; null when unknown or owned by someone else. */
+export async function findConversation(
+  client: SupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<ConversationRow | null> {
+  const { data, error } = await client
+    .from("conversations")
+    .select("*")
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .maybeSingle<ConversationRow>();
+  if (error) {
+    throw new Error(`findConversation failed: ${error.message}`);
+  }
+
+  return data ? normalizeConversation(data) : null;
+}
+
+async function nextMessagePosition(client: SupabaseClient, conversationId: string): Promise<number> {
+  const { data, error } = await client
+    .from("conversation_messages")
+    .select("position")
+    .eq("conversation_id", conversationId)
+    .order("position", { ascending: false })
+    .limit(1);
+  if (error) {
+    throw new Error(`nextMessagePosition failed: ${error.message}`);
+  }
+
+  const last = (data as Array<{ position: number }> | null)?.[0];
+  return last ? last.position + 1 : 0;
+}
+
+/**
+ * Appends one chat turn, creating the conversation on its first turn. The conversation keeps
+ * the status scope and candidate ids of the latest answer so a resumed chat continues from them.
+ * A session id already used by another user fails on the primary key.
+ */
+export async function appendConversationMessages(
+  client: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  turn: ConversationTurn
+): Promise<ConversationRow> {
+  const now = new Date().toISOString();
+  const existing = await findConversation(client, userId, conversationId);
+  const messages = existing ? turn.messages : [...(turn.history ?? []), ...turn.messages];
+
+  if (!existing) {
+    const { error } = await client.from("conversations").insert({
+      id: conversationId,
+      user_id: userId,
+      title: conversationTitle(messages),
+      status_scope: turn.statusScope ?? DEFAULT_STATUS_SCOPE,
+      previous_candidate_ids: turn.previousCandidateIds ?? [],
+      created_at: now,
+      updated_at: now,
+    });
+    if (error) {
+      throw new Error(`appendConversationMessages failed: ${error.message}`);
+    }
+  }
+
+  if (messages.length) {
+    // Positions are read, then written; UNIQUE (conversation_id, position) rejects a turn that raced
+    // another append to the same positions, and it tries again after the other one.
+    for (let attempt = 1; ; attempt += 1) {
+      const firstPosition = existing || attempt > 1 ? await nextMessagePosition(client, conversationId) : 0;
+      const { error } = await client.from("conversation_messages").insert(
+        messages.map((message, index) => ({
+          id: crypto.randomUUID(),
+          conversation_id: conversationId,
+          position: firstPosition + index,
+          role: message.role,
+          content: message.content,
+          company_references: message.references ?? [],
+          run_id: message.runId ?? null,
+          created_at: now,
+        }))
+      );
+      if (!error) {
+        break;
+      }
+      if (error.code !== UNIQUE_VIOLATION || attempt === APPEND_ATTEMPTS) {
+        throw new Error(`appendConversationMessages failed: ${error.message}`);
+      }
+    }
+  }
+
+  const { data, error } = await client
+    .from("conversations")
+    .update({
+      ...(turn.statusScope ? { status_scope: turn.statusScope } : {}),
+      ...(turn.previousCandidateIds ? { previous_candidate_ids: turn.previousCandidateIds } : {}),
+      updated_at: now,
+    })
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .select("*")
+    .single<ConversationRow>();
+  if (error) {
+    throw new Error(`appendConversationMessages failed: ${error.message}`);
+  }
+
+  return normalizeConversation(data);
+}
+
+/** Most recently active first. */
+export async function listConversations(
+  client: SupabaseClient,
+  userId: string,
+  limit = CONVERSATION_LIST_LIMIT
+): Promise<ConversationRow[]> {
+  const { data, error } = await client
+    .from("conversations")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw new Error(`listConversations failed: ${error.message}`);
+  }
+
+  return ((data ?? []) as ConversationRow[]).map(normalizeConversation);
+}
+
+/** Returns null for unknown conversations and other users' conversations. */
+export async function getConversation(
+  client: SupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<ConversationDetail | null> {
+  const conversation = await findConversation(client, userId, conversationId);
+  if (!conversation) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("conversation_messages")
+    .select("*")
+    .eq("conversation_id", conversationId)
+    .order("position", { ascending: true });
+  if (error) {
+    throw new Error(`getConversation failed: ${error.message}`);
+  }
+
+  const rows = (data ?? []) as ConversationMessageRow[];
+  const lastAnswer = rows.filter((row) => row.role === "assistant").at(-1);
+  return {
+    conversation,
+    messages: rows.map((row) => ({
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      references: row.company_references?.length ? row.company_references : undefined,
+      createdAt: row.created_at,
+    })),
+    lastRunId: lastAnswer?.run_id ?? null,
+  };
+}
+
+/** `searchClient` loads the referenced companies when `client` is scoped to the user; defaults to `client`. */
+export async function restoreConversation(
+  client: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  searchClient: SupabaseClient = client
+): Promise<RestoredConversation | null> {
+  const detail = await getConversation(client, userId, conversationId);
+  if (!detail) {
+    return null;
+  }
+
+  const companies = await getCompaniesByIds(searchClient, conversationCompanyIds(detail.messages));
+  return { ...detail, companiesById: Object.fromEntries(companies.map((company) => [company.id, company])) };
+}
+
+/** Deletes the conversation and, through the foreign key cascade, its messages. Returns false when nothing was deleted. */
+export async function deleteConversation(client: SupabaseClient, userId: string, conversationId: string): Promise<boolean> {
+  const { data, error } = await client
+    .from("conversations")
+    .delete()
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .select("id");
+  if (error) {
+    throw new Error(`deleteConversation failed: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+export function conversationCompanyIds(messages: ChatMessage[]): string[] {
+  return Array.from(
+    new Set(messages.flatMap((message) => (message.references ?? []).map((reference) => reference.companyId)))
+  );
+}
@@ -1,13 +1,62 @@
 import "server-only";
 import { z } from "zod";
 
-const serverEnvSchema = z.object({
-  OPENAI_API_KEY: z.string().min(1),
-  OPENAI_MODEL: z.string().default("gpt-4o-mini"),
-  OPENAI_EMBEDDING_MODEL: z.string().default("text-embedding-3-small"),
-  SUPABASE_URL: z.string().url(),
-  SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
-});
+import { MODEL_PROVIDER_NAMES } from "@/lib/models/provider";
+
+export const AUTH_MODES = ["magic-link", "dev"] as const;
+export const RATE_LIMIT_STORES = ["postgres", "memory"] as const;
+export const JOB_BOARD_SOURCES = ["live", "fixtures", "off"] as const;
+
+const serverEnvSchema = z
+  .object({
+    MODEL_PROVIDER: z.enum(MODEL_PROVIDER_NAMES).default("openai"),
+    OPENAI_API_KEY: z.string().min(1).optional(),
+    OPENAI_BASE_URL: z.string().url().optional(),
+    OPENAI_MODEL: z.string().default("gpt-4o-mini"),
+    OPENAI_EMBEDDING_MODEL: z.string().default("text-embedding-3-small"),
+    AGENT_MODEL: z.string().optional(),
+    RERANKER_MODEL: z.string().optional(),
+    RESUME_EXTRACTION_MODEL: z.string().optional(),
+    RESUME_PLANNING_MODEL: z.string().optional(),
+    RESUME_GROUPING_MODEL: z.string().optional(),
+    SUPABASE_URL: z.string().url(),
+    SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
+    SUPABASE_ANON_KEY: z.string().min(1),
+    AUTH_MODE: z.enum(AUTH_MODES).default("magic-link"),
+    /** Comma-separated Supabase user ids allowed into `/admin`. */
+    ADMIN_USER_IDS: z
+      .string()
+      .default("")
+      .transform((value) =>
+        value
+          .split(",")
+          .map((id) => id.trim())
+          .filter(Boolean)
+      ),
+    CRON_SECRET: z.string().min(16).optional(),
+    RATE_LIMIT_STORE: z.enum(RATE_LIMIT_STORES).default("postgres"),
+    CHAT_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(10),
+    RESUME_RATE_LIMIT_PER_HOUR: z.coerce.number().int().positive().default(5),
+    DAILY_USER_TOKEN_BUDGET: z.coerce.number().int().positive().optional(),
+    DAILY_USER_COST_BUDGET_USD: z.coerce.number().positive().optional(),
+    DAILY_TOTAL_COST_BUDGET_USD: z.coerce.number().positive().optional(),
+    JOB_BOARD_SOURCE: z.enum(JOB_BOARD_SOURCES).default("live"),
+  })
+  .superRefine((value, ctx) => {
+    if (value.MODEL_PROVIDER === "openai" && !value.OPENAI_API_KEY) {
+      ctx.addIssue({ code: "custom", path: ["OPENAI_API_KEY"], message: "Required when MODEL_PROVIDER=openai" });
+    }
+    if (value.MODEL_PROVIDER === "openai-compatible" && !value.OPENAI_BASE_URL) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["OPENAI_BASE_URL"],
+        message: "Required when MODEL_PROVIDER=openai-compatible",
+      });
+    }
+    if (value.AUTH_MODE === "dev" && process.env.NODE_ENV === "production") {
+      ctx.addIssue({ code: "custom", path: ["AUTH_MODE"], message: "AUTH_MODE=dev signs in any email and is not allowed in production" });
+    }
+  });
 
 export type ServerEnv = z.infer<typeof serverEnvSchema>;
 
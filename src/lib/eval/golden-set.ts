@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+import type { AgentRequestMode } from "@/lib/agent/prompts";
+import { SEARCHABLE_COMPANY_STATUSES } from "@/lib/search/status-scope";
+
+export const EVAL_REQUEST_MODES = ["new", "more", "filter", "similar"] as const satisfies readonly AgentRequestMode[];
+
+const goldenQuerySchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase kebab-case ids"),
+    query: z.string().trim().min(1),
+    mode: z.enum(EVAL_REQUEST_MODES),
+    statusScope: z.array(z.enum(SEARCHABLE_COMPANY_STATUSES)).optional(),
+    /** Results "shown" before this turn; required for more and filter queries. */
+    previousCandidateIds: z.array(z.string().min(1)).optional(),
+    /** Anchor company for similar queries. */
+    similarToCompanyId: z.string().min(1).optional(),
+    /** Option picked if the agent asks a clarification question; defaults to its first option. */
+    clarificationSelection: z.string().min(1).optional(),
+    /** Company id → graded relevance: 1 relevant, 2 strong, 3 the answer the query is about. */
+    relevance: z.record(z.string().min(1), z.number().int().min(1).max(3)),
+    notes: z.string().optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (!Object.keys(value.relevance).length) {
+      ctx.addIssue({ code: "custom", path: ["relevance"], message: "At least one relevant company is required" });
+    }
+    if ((value.mode === "more" || value.mode === "filter") && !value.previousCandidateIds?.length) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["previousCandidateIds"],
+        message: `${value.mode} queries need previousCandidateIds`,
+      });
+    }
+    if (value.mode === "similar" && !value.similarToCompanyId) {
+      ctx.addIssue({ code: "custom", path: ["similarToCompanyId"], message: "similar queries need similarToCompanyId" });
+    }
+  });
+
+export const goldenSetSchema = z
+  .object({
+    name: z.string().min(1),
+    version: z.number().int().min(1),
+    description: z.string().optional(),
+    queries: z.array(goldenQuerySchema).min(1),
+  })
+  .superRefine((value, ctx) => {
+    const seen = new Set<string>();
+    value.queries.forEach((query, index) => {
+      if (seen.has(query.id)) {
+        ctx.addIssue({ code: "custom", path: ["queries", index, "id"], message: `Duplicate query id ${query.id}` });
+      }
+      seen.add(query.id);
+    });
+  });
+
+export type EvalRequestMode = (typeof EVAL_REQUEST_MODES)[number];
+export type GoldenQuery = z.infer<typeof goldenQuerySchema>;
+export type GoldenSet = z.infer<typeof goldenSetSchema>;
+
+export function parseGoldenSet(value: unknown): GoldenSet {
+  const parsed = goldenSetSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(`Invalid golden set: ${z.prettifyError(parsed.error)}`);
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { ndcgAtK, percentile, recallAtK, reciprocalRank, scoreQuery, summarizeMetrics } from "@/lib/eval/metrics";
+
+const judgments = { "sanas-ai": 3, "santori-ai": 1 };
+
+describe("ranking metrics", () => {
+  it("computes recall at k over the judged companies", () => {
+    const ranked = ["sanas-ai", "sandbar-ai", "ropes-ai", "santori-ai"];
+
+    expect(recallAtK(ranked, judgments, 2)).toBe(0.5);
+    expect(recallAtK(ranked, judgments, 4)).toBe(1);
+    expect(recallAtK([], judgments, 5)).toBe(0);
+  });
+
+  it("scores nDCG against the ideal graded ordering", () => {
+    expect(ndcgAtK(["sanas-ai", "santori-ai"], judgments, 5)).toBeCloseTo(1);
+    // Swapping the grade-3 and grade-1 hits: (1 + 7/log2(3)) / (7 + 1/log2(3)).
+    expect(ndcgAtK(["santori-ai", "sanas-ai"], judgments, 5)).toBeCloseTo(0.7098, 4);
+    expect(ndcgAtK(["ropes-ai"], judgments, 5)).toBe(0);
+  });
+
+  it("uses the first relevant rank for reciprocal rank", () => {
+    expect(reciprocalRank(["ropes-ai", "sandbar-ai", "santori-ai"], judgments)).toBeCloseTo(1 / 3);
+    expect(reciprocalRank(["ropes-ai"], judgments)).toBe(0);
+  });
+
+  it("takes nearest-rank percentiles", () => {
+    const values = [120, 40, 300, 80, 200];
+
+    expect(percentile(values, 50)).toBe(120);
+    expect(percentile(values, 95)).toBe(300);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it("averages per-query metrics into a summary", () => {
+    const summary = summarizeMetrics(
+      [
+        scoreQuery(["sanas-ai"], judgments, [1, 5], 100),
+        scoreQuery(["ropes-ai", "santori-ai"], judgments, [1, 5], 300),
+      ],
+      [1, 5]
+    );
+
+    expect(summary.queryCount).toBe(2);
+    expect(summary.recallAtK).toEqual({ "1": 0.25, "5": 0.5 });
+    expect(summary.mrr).toBeCloseTo(0.75);
+    expect(summary.latencyMs).toEqual({ mean: 200, p50: 100, p95: 300 });
+  });
+});
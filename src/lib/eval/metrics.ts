@@ -0,0 +1,129 @@
+/** Company id → graded relevance; ids missing from the map are not relevant. */
+export type RelevanceJudgments = Record<string, number>;
+
+export interface QueryMetrics {
+  /** Keyed by k, e.g. `{ "5": 1, "10": 1 }`. */
+  recallAtK: Record<string, number>;
+  ndcgAtK: Record<string, number>;
+  reciprocalRank: number;
+  latencyMs: number;
+  resultCount: number;
+}
+
+export interface MetricSummary {
+  queryCount: number;
+  recallAtK: Record<string, number>;
+  ndcgAtK: Record<string, number>;
+  /** Mean reciprocal rank. */
+  mrr: number;
+  latencyMs: { mean: number; p50: number; p95: number };
+}
+
+export const DEFAULT_EVAL_KS = [5, 10];
+
+function gradeOf(judgments: RelevanceJudgments, companyId: string): number {
+  return judgments[companyId] ?? 0;
+}
+
+export function recallAtK(ranked: string[], judgments: RelevanceJudgments, k: number): number {
+  const relevant = Object.keys(judgments).filter((companyId) => gradeOf(judgments, companyId) > 0);
+  if (!relevant.length) {
+    return 0;
+  }
+
+  const top = new Set(ranked.slice(0, k));
+  return relevant.filter((companyId) => top.has(companyId)).length / relevant.length;
+}
+
+function discountedGain(grades: number[]): number {
+  return grades.reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0);
+}
+
+/** nDCG with exponential gain (2^grade − 1), so a grade-3 hit outweighs several grade-1 hits. */
+export function ndcgAtK(ranked: string[], judgments: RelevanceJudgments, k: number): number {
+  const ideal = discountedGain(
+    Object.values(judgments)
+      .filter((grade) => grade > 0)
+      .sort((a, b) => b - a)
+      .slice(0, k)
+  );
+  if (ideal === 0) {
+    return 0;
+  }
+
+  return discountedGain(ranked.slice(0, k).map((companyId) => gradeOf(judgments, companyId))) / ideal;
+}
+
+/** 1 / rank of the first relevant result over the whole list; 0 when nothing relevant came back. */
+export function reciprocalRank(ranked: string[], judgments: RelevanceJudgments): number {
+  const index = ranked.findIndex((companyId) => gradeOf(judgments, companyId) > 0);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/** Nearest-rank percentile; `p` in [0, 100]. */
+export function percentile(values: number[], p: number): number {
+  if (!values.length) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function scoreQuery(
+  ranked: string[],
+  judgments: RelevanceJudgments,
+  ks: number[],
+  latencyMs: number
+): QueryMetrics {
+  return {
+    recallAtK: Object.fromEntries(ks.map((k) => [String(k), recallAtK(ranked, judgments, k)])),
+    ndcgAtK: Object.fromEntries(ks.map((k) => [String(k), ndcgAtK(ranked, judgments, k)])),
+    reciprocalRank: reciprocalRank(ranked, judgments),
+    latencyMs,
+    resultCount: ranked.length,
+  };
+}
+
+export function summarizeMetrics(metrics: QueryMetrics[], ks: number[]): MetricSummary {
+  const latencies = metrics.map((item) => item.latencyMs);
+
+  return {
+    queryCount: metrics.length,
+    recallAtK: Object.fromEntries(ks.map((k) => [String(k), mean(metrics.map((item) => item.recallAtK[String(k)] ?? 0))])),
+    ndcgAtK: Object.fromEntries(ks.map((k) => [String(k), mean(metrics.map((item) => item.ndcgAtK[String(k)] ?? 0))])),
+    mrr: mean(metrics.map((item) => item.reciprocalRank)),
+    latencyMs: { mean: mean(latencies), p50: percentile(latencies, 50), p95: percentile(latencies, 95) },
+  };
+}
+
+function flattenAtK(recall: Record<string, number>, ndcg: Record<string, number>): Record<string, number> {
+  return {
+    ...Object.fromEntries(Object.entries(recall).map(([k, value]) => [`recall@${k}`, value])),
+    ...Object.fromEntries(Object.entries(ndcg).map(([k, value]) => [`ndcg@${k}`, value])),
+  };
+}
+
+/** Flat `name → value` view used for tables and report diffs (`recall@5`, `ndcg@10`, `mrr`, `latency_p95_ms`...). */
+export function flattenSummary(summary: MetricSummary): Record<string, number> {
+  return {
+    ...flattenAtK(summary.recallAtK, summary.ndcgAtK),
+    mrr: summary.mrr,
+    latency_mean_ms: summary.latencyMs.mean,
+    latency_p50_ms: summary.latencyMs.p50,
+    latency_p95_ms: summary.latencyMs.p95,
+  };
+}
+
+export function flattenQueryMetrics(metrics: QueryMetrics): Record<string, number> {
+  return {
+    ...flattenAtK(metrics.recallAtK, metrics.ndcgAtK),
+    mrr: metrics.reciprocalRank,
+    latency_ms: metrics.latencyMs,
+  };
+}
@@ -0,0 +1,245 @@
+import { EVAL_REQUEST_MODES, type EvalRequestMode, type GoldenSet } from "@/lib/eval/golden-set";
+import {
+  flattenQueryMetrics,
+  flattenSummary,
+  scoreQuery,
+  summarizeMetrics,
+  type MetricSummary,
+  type QueryMetrics,
+} from "@/lib/eval/metrics";
+import type { SearchRunInsert, SearchRunResultInsert } from "@/lib/search/telemetry";
+
+export const EVAL_TARGETS = ["agent", "rpc"] as const;
+
+export type EvalTarget = (typeof EVAL_TARGETS)[number];
+
+export const EVAL_REPORT_FORMAT_VERSION = 1;
+
+/** A `search_runs` row as stored, plus its creation time. */
+export type EvalSearchRun = SearchRunInsert & { created_at: string };
+
+export interface EvalQueryOutcome {
+  queryId: string;
+  mode: EvalRequestMode;
+  runId: string;
+  metrics: QueryMetrics;
+}
+
+/**
+ * One evaluation pass over a golden set. `runs` and `results` use the `search_runs` /
+ * `search_run_results` row shapes, so the same metrics can be recomputed from rows the
+ * agent persisted in Supabase.
+ */
+export interface EvalReport {
+  formatVersion: typeof EVAL_REPORT_FORMAT_VERSION;
+  label: string;
+  target: EvalTarget;
+  goldenSet: { name: string; version: number };
+  createdAt: string;
+  ks: number[];
+  /** Provider name and model id per slot that produced the runs. */
+  models: Record<string, string>;
+  runs: EvalSearchRun[];
+  results: SearchRunResultInsert[];
+  queries: EvalQueryOutcome[];
+  summary: {
+    overall: MetricSummary;
+    byMode: Partial<Record<EvalRequestMode, MetricSummary>>;
+  };
+}
+
+export interface BuildEvalReportInput {
+  goldenSet: GoldenSet;
+  label: string;
+  target: EvalTarget;
+  ks: number[];
+  models: Record<string, string>;
+  runs: EvalSearchRun[];
+  results: SearchRunResultInsert[];
+  /** Golden query id → run id. Queries without a run are scored as empty result lists. */
+  runIdsByQuery: Record<string, string>;
+  createdAt?: string;
+}
+
+export function buildEvalReport(input: BuildEvalReportInput): EvalReport {
+  const runsById = new Map(input.runs.map((run) => [run.id, run]));
+  const rankedByRun = new Map<string, SearchRunResultInsert[]>();
+  for (const result of input.results) {
+    rankedByRun.set(result.run_id, [...(rankedByRun.get(result.run_id) ?? []), result]);
+  }
+
+  const queries: EvalQueryOutcome[] = input.goldenSet.queries.map((query) => {
+    const runId = input.runIdsByQuery[query.id] ?? "";
+    const ranked = (rankedByRun.get(runId) ?? [])
+      .sort((a, b) => a.rank - b.rank)
+      .map((result) => result.company_id);
+    const latencyMs = runsById.get(runId)?.latency_ms ?? 0;
+
+    return { queryId: query.id, mode: query.mode, runId, metrics: scoreQuery(ranked, query.relevance, input.ks, latencyMs) };
+  });
+
+  const byMode: EvalReport["summary"]["byMode"] = {};
+  for (const mode of EVAL_REQUEST_MODES) {
+    const modeMetrics = queries.filter((query) => query.mode === mode).map((query) => query.metrics);
+    if (modeMetrics.length) {
+      byMode[mode] = summarizeMetrics(modeMetrics, input.ks);
+    }
+  }
+
+  return {
+    formatVersion: EVAL_REPORT_FORMAT_VERSION,
+    label: input.label,
+    target: input.target,
+    goldenSet: { name: input.goldenSet.name, version: input.goldenSet.version },
+    createdAt: input.createdAt ?? new Date().toISOString(),
+    ks: input.ks,
+    models: input.models,
+    runs: input.runs,
+    results: input.results,
+    queries,
+    summary: {
+      overall: summarizeMetrics(queries.map((query) => query.metrics), input.ks),
+      byMode,
+    },
+  };
+}
+
+export interface MetricDelta {
+  metric: string;
+  base: number;
+  candidate: number;
+  delta: number;
+}
+
+export interface EvalComparison {
+  base: { label: string; target: EvalTarget; models: Record<string, string> };
+  candidate: { label: string; target: EvalTarget; models: Record<string, string> };
+  /** Reasons the two reports may not be comparable (different golden set, k values or target). */
+  warnings: string[];
+  overall: MetricDelta[];
+  byMode: Partial<Record<EvalRequestMode, MetricDelta[]>>;
+  /** Queries whose ranking metrics changed, largest regressions first. */
+  changedQueries: Array<{ queryId: string; mode: EvalRequestMode; deltas: MetricDelta[] }>;
+}
+
+function diffMetrics(base: Record<string, number>, candidate: Record<string, number>): MetricDelta[] {
+  return Object.keys({ ...base, ...candidate }).map((metric) => ({
+    metric,
+    base: base[metric] ?? 0,
+    candidate: candidate[metric] ?? 0,
+    delta: (candidate[metric] ?? 0) - (base[metric] ?? 0),
+  }));
+}
+
+function isLatencyMetric(metric: string): boolean {
+  return metric.startsWith("latency");
+}
+
+export function compareEvalReports(base: EvalReport, candidate: EvalReport): EvalComparison {
+  const warnings: string[] = [];
+  if (base.goldenSet.name !== candidate.goldenSet.name || base.goldenSet.version !== candidate.goldenSet.version) {
+    warnings.push(
+      `Golden sets differ: ${base.goldenSet.name}@v${base.goldenSet.version} vs ${candidate.goldenSet.name}@v${candidate.goldenSet.version}`
+    );
+  }
+  if (base.ks.join(",") !== candidate.ks.join(",")) {
+    warnings.push(`k values differ: ${base.ks.join(",")} vs ${candidate.ks.join(",")}`);
+  }
+  if (base.target !== candidate.target) {
+    warnings.push(`Targets differ: ${base.target} vs ${candidate.target}`);
+  }
+
+  const byMode: EvalComparison["byMode"] = {};
+  for (const mode of EVAL_REQUEST_MODES) {
+    const baseMode = base.summary.byMode[mode];
+    const candidateMode = candidate.summary.byMode[mode];
+    if (baseMode && candidateMode) {
+      byMode[mode] = diffMetrics(flattenSummary(baseMode), flattenSummary(candidateMode));
+    }
+  }
+
+  const baseQueries = new Map(base.queries.map((query) => [query.queryId, query]));
+  const changedQueries: EvalComparison["changedQueries"] = [];
+  for (const query of candidate.queries) {
+    const previous = baseQueries.get(query.queryId);
+    if (!previous) {
+      continue;
+    }
+    const deltas = diffMetrics(flattenQueryMetrics(previous.metrics), flattenQueryMetrics(query.metrics)).filter(
+      (delta) => !isLatencyMetric(delta.metric) && Math.abs(delta.delta) > 1e-9
+    );
+    if (deltas.length) {
+      changedQueries.push({ queryId: query.queryId, mode: query.mode, deltas });
+    }
+  }
+  const netChange = (deltas: MetricDelta[]) => deltas.reduce((sum, delta) => sum + delta.delta, 0);
+  changedQueries.sort((a, b) => netChange(a.deltas) - netChange(b.deltas));
+
+  return {
+    base: { label: base.label, target: base.target, models: base.models },
+    candidate: { label: candidate.label, target: candidate.target, models: candidate.models },
+    warnings,
+    overall: diffMetrics(flattenSummary(base.summary.overall), flattenSummary(candidate.summary.overall)),
+    byMode,
+    changedQueries,
+  };
+}
+
+function formatValue(metric: string, value: number): string {
+  return isLatencyMetric(metric) ? `${Math.round(value)}ms` : value.toFixed(3);
+}
+
+function formatDelta(delta: MetricDelta): string {
+  const sign = delta.delta > 0 ? "+" : "";
+  const value = isLatencyMetric(delta.metric) ? `${Math.round(delta.delta)}ms` : delta.delta.toFixed(3);
+  return `${sign}${value}`;
+}
+
+function formatSummaryLine(name: string, summary: MetricSummary): string {
+  const metrics = Object.entries(flattenSummary(summary))
+    .map(([metric, value]) => `${metric}=${formatValue(metric, value)}`)
+    .join("  ");
+  return `${name.padEnd(8)} n=${summary.queryCount}  ${metrics}`;
+}
+
+export function formatEvalReport(report: EvalReport): string {
+  const models = Object.entries(report.models).map(([slot, model]) => `${slot}=${model}`);
+  const lines = [
+    `Eval "${report.label}" (${report.target}) on ${report.goldenSet.name}@v${report.goldenSet.version}`,
+    ...(models.length ? [`Models: ${models.join(", ")}`] : []),
+    formatSummaryLine("overall", report.summary.overall),
+    ...EVAL_REQUEST_MODES.flatMap((mode) => {
+      const summary = report.summary.byMode[mode];
+      return summary ? [formatSummaryLine(mode, summary)] : [];
+    }),
+  ];
+
+  return lines.join("\n");
+}
+
+function formatDeltaLine(name: string, deltas: MetricDelta[]): string {
+  return `${name.padEnd(8)} ${deltas
+    .map((delta) => `${delta.metric}=${formatValue(delta.metric, delta.candidate)} (${formatDelta(delta)})`)
+    .join("  ")}`;
+}
+
+export function formatEvalComparison(comparison: EvalComparison): string {
+  const lines = [
+    `Compare "${comparison.base.label}" → "${comparison.candidate.label}"`,
+    ...comparison.warnings.map((warning) => `warning: ${warning}`),
+    formatDeltaLine("overall", comparison.overall),
+    ...EVAL_REQUEST_MODES.flatMap((mode) => {
+      const deltas = comparison.byMode[mode];
+      return deltas ? [formatDeltaLine(mode, deltas)] : [];
+    }),
+  ];
+
+  if (comparison.changedQueries.length) {
+    lines.push("Changed queries:");
+    for (const query of comparison.changedQueries) {
+      lines.push(`  ${query.queryId} (${query.mode}): ${query.deltas.map((delta) => `${delta.metric} ${formatDelta(delta)}`).join(", ")}`);
+    }
+  }
+
+  return lines.join("\n");
+}
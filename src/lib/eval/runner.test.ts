@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { parseGoldenSet, type GoldenSet } from "@/lib/eval/golden-set";
+import goldenSetV1 from "@/lib/eval/golden-sets/v1.json";
+import { compareEvalReports } from "@/lib/eval/report";
+import { createInMemorySupabase, type InMemorySupabase } from "@/lib/mock/in-memory-supabase";
+import { fakeEmbedding } from "@/lib/models/fake-provider";
+import {
+  callTool,
+  createScriptedModelProvider,
+  fetchDetailsForResults,
+  finalizeWithResults,
+  type ScriptedModelProvider,
+} from "@/lib/mock/scripted-models";
+
+const harness = vi.hoisted(() => ({
+  supabase: null as InMemorySupabase | null,
+  models: null as ScriptedModelProvider | null,
+}));
+
+vi.mock("@/lib/supabase/server", () => ({
+  getSupabaseServerClient: () => {
+    if (!harness.supabase) {
+      throw new Error("In-memory Supabase not installed");
+    }
+    return harness.supabase.client;
+  },
+}));
+
+vi.mock("@/lib/models/server", () => ({
+  getModelProvider: () => {
+    if (!harness.models) {
+      throw new Error("Scripted models not installed");
+    }
+    return harness.models;
+  },
+}));
+
+const { createAgentExecutor, createRpcExecutor, runEvalSuite } = await import("@/lib/eval/runner");
+
+const goldenSet = parseGoldenSet(goldenSetV1);
+
+function subset(...ids: string[]): GoldenSet {
+  return { ...goldenSet, queries: goldenSet.queries.filter((query) => ids.includes(query.id)) };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  harness.supabase = null;
+  harness.models = null;
+});
+
+describe("runEvalSuite", () => {
+  it("scores the rpc target on every golden query and mode", async () => {
+    harness.supabase = createInMemorySupabase();
+    const executor = createRpcExecutor(harness.supabase.client, { embedQuery: async (text) => fakeEmbedding(text) });
+
+    const report = await runEvalSuite({ goldenSet, target: "rpc", executor, label: "rpc-offline" });
+
+    expect(report.runs).toHaveLength(goldenSet.queries.length);
+    expect(Object.keys(report.summary.byMode).sort()).toEqual(["filter", "more", "new", "similar"]);
+    expect(report.runs.every((run) => run.end_reason === "completed")).toBe(true);
+
+    const aml = report.queries.find((query) => query.queryId === "new-aml-screening");
+    expect(aml?.metrics.reciprocalRank).toBe(1);
+
+    const filterRun = report.queries.find((query) => query.queryId === "filter-fraud-prevention")?.runId;
+    const filterIds = report.results.filter((result) => result.run_id === filterRun).map((result) => result.company_id);
+    expect(filterIds.every((id) => ["sandbar-ai", "ropes-ai", "sanas-ai", "sakana-ai"].includes(id))).toBe(true);
+
+    const moreRun = report.queries.find((query) => query.queryId === "more-compliance-automation")?.runId;
+    expect(report.results.some((result) => result.run_id === moreRun && result.company_id === "sandbar-ai")).toBe(false);
+  });
+
+  it("runs the agent target, answering clarifications, and records failures as empty runs", async () => {
+    harness.supabase = createInMemorySupabase();
+    harness.models = createScriptedModelProvider({
+      agent: [
+        callTool("clarify_with_user", {
+          question: "Which market?",
+          options: [
+            { label: "Contact centers", description: "Call centers", selection: "Accent translation for contact centers" },
+            { label: "Consumer", description: "Calling apps", selection: "Accent translation for consumer calls" },
+          ],
+        }),
+        { text: "Waiting for the user to choose." },
+        callTool("search_keyword", { keywords: "accent translation" }),
+        fetchDetailsForResults(),
+        finalizeWithResults(),
+      ],
+    });
+    const executor = createAgentExecutor();
+    const failing = vi.fn().mockRejectedValue(new Error("rpc down"));
+
+    const report = await runEvalSuite({
+      goldenSet: subset("new-accent-translation"),
+      target: "agent",
+      executor,
+      label: "agent-offline",
+    });
+    const failed = await runEvalSuite({
+      goldenSet: subset("new-accent-translation"),
+      target: "agent",
+      executor: failing,
+      label: "agent-down",
+    });
+
+    expect(report.queries[0].metrics.reciprocalRank).toBe(1);
+    expect(report.runs[0]).toMatchObject({ session_id: "eval:agent-offline:new-accent-translation", end_reason: "confidence_met" });
+    expect(harness.supabase.tables.get("search_runs")?.[0]).toMatchObject({ id: report.runs[0].id });
+    expect(failed.runs[0].end_reason).toBe("error");
+
+    const comparison = compareEvalReports(report, failed);
+    expect(comparison.warnings).toEqual([]);
+    expect(comparison.overall.find((delta) => delta.metric === "mrr")?.delta).toBe(-1);
+    expect(comparison.changedQueries.map((query) => query.queryId)).toEqual(["new-accent-translation"]);
+  });
+});
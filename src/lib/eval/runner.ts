@@ -0,0 +1,199 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { runAgenticSearchUnattended } from "@/lib/agent/agentic-orchestrator";
+import type { ClarificationStore } from "@/lib/agent/clarification-store";
+import type { GoldenQuery, GoldenSet } from "@/lib/eval/golden-set";
+import { DEFAULT_EVAL_KS } from "@/lib/eval/metrics";
+import { buildEvalReport, type EvalReport, type EvalSearchRun, type EvalTarget } from "@/lib/eval/report";
+import type { ModelProvider } from "@/lib/models/provider";
+import { runDirectSearch, type DirectSearchDeps } from "@/lib/search/direct-search";
+import { findSimilarCompanies } from "@/lib/search/rpc";
+import { normalizeStatusScope } from "@/lib/search/status-scope";
+import type { SearchRunResultInsert } from "@/lib/search/telemetry";
+
+/** What one target returned for a golden query, before scoring. */
+export interface EvalExecution {
+  runId: string;
+  statusScope: string[];
+  iterationCount: number;
+  toolCallCount: number;
+  endReason: string;
+  results: Array<{ companyId: string; confidence: number; evidence: Record<string, unknown> }>;
+}
+
+export type EvalExecutor = (query: GoldenQuery, context: { sessionId: string }) => Promise<EvalExecution>;
+
+/** Results fetched per query; deep enough for the largest k plus the companies `more`/`filter` drop. */
+const RPC_RESULT_LIMIT = 25;
+const FILTER_RESULT_LIMIT = 100;
+
+export interface AgentExecutorOptions {
+  modelProvider?: ModelProvider;
+  /** Defaults to an in-memory store, so eval runs never touch `pending_clarifications`. */
+  clarificationStore?: ClarificationStore;
+}
+
+/**
+ * Runs the full agent loop (planner, tools, reranker, summary). The agent writes its own
+ * `search_runs` telemetry under the eval session id, so runs can also be inspected in Supabase.
+ */
+export function createAgentExecutor(options: AgentExecutorOptions = {}): EvalExecutor {
+  return async (query, { sessionId }) => {
+    const payload = await runAgenticSearchUnattended({
+      messages: [{ id: crypto.randomUUID(), role: "user", content: query.query, createdAt: new Date().toISOString() }],
+      clientContext: {
+        previousCandidateIds: query.previousCandidateIds ?? [],
+        statusScope: query.statusScope,
+        similarToCompanyId: query.similarToCompanyId,
+      },
+      sessionId,
+      clarificationSelection: query.clarificationSelection,
+      clarificationStore: options.clarificationStore,
+      modelProvider: options.modelProvider,
+    });
+
+    return {
+      runId: payload.telemetry.runId,
+      statusScope: payload.telemetry.statusScope ?? normalizeStatusScope(query.statusScope),
+      iterationCount: payload.telemetry.iterationCount,
+      toolCallCount: payload.telemetry.toolCallCount,
+      endReason: payload.telemetry.endReason,
+      results: payload.references.map((reference) => ({
+        companyId: reference.companyId,
+        confidence: reference.confidence,
+        evidence: { evidenceChips: reference.evidenceChips, reason: reference.reason },
+      })),
+    };
+  };
+}
+
+/**
+ * Runs retrieval only: hybrid search for new/more/filter queries and the similar-companies
+ * RPC for similar queries. Isolates SQL scoring changes from prompt and model changes.
+ * `more` drops the previous candidates and `filter` keeps only them, as the agent is told to.
+ */
+export function createRpcExecutor(client: SupabaseClient, deps: DirectSearchDeps): EvalExecutor {
+  return async (query) => {
+    const statuses = normalizeStatusScope(query.statusScope);
+    const previous = new Set(query.previousCandidateIds ?? []);
+    let results: EvalExecution["results"];
+
+    if (query.mode === "similar" && query.similarToCompanyId) {
+      const rows = await findSimilarCompanies(client, {
+        companyId: query.similarToCompanyId,
+        statuses,
+        excludeIds: [query.similarToCompanyId],
+        limit: RPC_RESULT_LIMIT,
+      });
+      results = rows.map((row) => ({
+        companyId: row.companyId,
+        confidence: row.combinedScore,
+        evidence: { similarityScore: row.similarityScore, sharedLabels: row.sharedLabels },
+      }));
+    } else {
+      const response = await runDirectSearch(
+        client,
+        {
+          query: query.query,
+          mode: "hybrid",
+          statuses,
+          limit: query.mode === "filter" ? FILTER_RESULT_LIMIT : RPC_RESULT_LIMIT + previous.size,
+        },
+        deps
+      );
+      results = response.results
+        .filter((result) => (query.mode === "filter" ? previous.has(result.company.id) : !previous.has(result.company.id)))
+        .slice(0, RPC_RESULT_LIMIT)
+        .map((result) => ({
+          companyId: result.company.id,
+          confidence: result.score.combined,
+          evidence: { matchedFields: result.matchedFields, matchedTerms: result.matchedTerms },
+        }));
+    }
+
+    return {
+      runId: crypto.randomUUID(),
+      statusScope: statuses,
+      iterationCount: 1,
+      toolCallCount: 1,
+      endReason: "completed",
+      results,
+    };
+  };
+}
+
+export interface RunEvalSuiteOptions {
+  goldenSet: GoldenSet;
+  target: EvalTarget;
+  executor: EvalExecutor;
+  label: string;
+  ks?: number[];
+  models?: Record<string, string>;
+  onQueryComplete?: (progress: { queryId: string; completed: number; total: number; error?: string }) => void;
+}
+
+/** Runs every golden query sequentially (latency numbers stay comparable) and scores the results. */
+export async function runEvalSuite(options: RunEvalSuiteOptions): Promise<EvalReport> {
+  const runs: EvalSearchRun[] = [];
+  const results: SearchRunResultInsert[] = [];
+  const runIdsByQuery: Record<string, string> = {};
+  const total = options.goldenSet.queries.length;
+
+  for (const [index, query] of options.goldenSet.queries.entries()) {
+    const sessionId = `eval:${options.label}:${query.id}`;
+    const startedAt = new Date();
+    let execution: EvalExecution;
+    let error: string | undefined;
+
+    try {
+      execution = await options.executor(query, { sessionId });
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+      console.error(`[eval] ${query.id} failed`, error);
+      execution = {
+        runId: crypto.randomUUID(),
+        statusScope: normalizeStatusScope(query.statusScope),
+        iterationCount: 0,
+        toolCallCount: 0,
+        endReason: "error",
+        results: [],
+      };
+    }
+
+    runIdsByQuery[query.id] = execution.runId;
+    runs.push({
+      id: execution.runId,
+      session_id: sessionId,
+      query_text: query.query,
+      status_scope: execution.statusScope,
+      iteration_count: execution.iterationCount,
+      tool_call_count: execution.toolCallCount,
+      final_candidate_count: execution.results.length,
+      end_reason: execution.endReason,
+      latency_ms: Date.now() - startedAt.getTime(),
+      created_at: startedAt.toISOString(),
+    });
+    results.push(
+      ...execution.results.map((result, rank) => ({
+        run_id: execution.runId,
+        company_id: result.companyId,
+        rank: rank + 1,
+        confidence: result.confidence,
+        evidence: result.evidence,
+      }))
+    );
+
+    options.onQueryComplete?.({ queryId: query.id, completed: index + 1, total, error });
+  }
+
+  return buildEvalReport({
+    goldenSet: options.goldenSet,
+    label: options.label,
+    target: options.target,
+    ks: options.ks ?? DEFAULT_EVAL_KS,
+    models: options.models ?? {},
+    runs,
+    results,
+    runIdsByQuery,
+  });
+}
@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+
+import {
+  exportFilename,
+  exportRequestSchema,
+  referenceGroupsFromResume,
+  resolveExportGroups,
+  toCsv,
+  toMarkdown,
+} from "@/lib/export/results-export";
+import { MOCK_COMPANIES } from "@/lib/mock/companies";
+
+const [first, second, third] = MOCK_COMPANIES;
+const companiesById = new Map(MOCK_COMPANIES.map((company) => [company.id, company]));
+
+describe("exportRequestSchema", () => {
+  it("requires exactly one source", () => {
+    expect(exportRequestSchema.safeParse({ format: "csv", runId: "run-1" }).success).toBe(true);
+    expect(exportRequestSchema.safeParse({ format: "csv" }).success).toBe(false);
+    expect(exportRequestSchema.safeParse({ format: "csv", runId: "run-1", references: [] }).success).toBe(false);
+  });
+});
+
+describe("referenceGroupsFromResume", () => {
+  it("keeps group order, appends Feeling Lucky and drops unknown companies", () => {
+    const groups = resolveExportGroups(
+      referenceGroupsFromResume({
+        groups: [
+          {
+            title: "Payments",
+            description: "Card issuing experience",
+            companyIds: [second.id, "missing-company"],
+            companyReasons: [{ companyId: second.id, reason: "Issuing infra" }],
+          },
+        ],
+        feelingLucky: {
+          title: "Feeling Lucky",
+          description: "Adjacent bets",
+          companyIds: [first.id],
+          companyReasons: [],
+        },
+      }),
+      companiesById
+    );
+
+    expect(groups.map((group) => [group.title, group.entries.map((entry) => entry.company.id)])).toEqual([
+      ["Payments", [second.id]],
+      ["Feeling Lucky", [first.id]],
+    ]);
+    expect(groups[0].entries[0].reference).toMatchObject({ companyName: second.company_name, reason: "Issuing infra" });
+  });
+});
+
+describe("serializers", () => {
+  const groups = resolveExportGroups(
+    [
+      {
+        title: "Search results",
+        description: null,
+        references: [
+          { companyId: first.id, companyName: "", reason: '=HYPERLINK("x"), then "quoted"', confidence: 0.834 },
+          { companyId: third.id, companyName: "", reason: "Plain reason" },
+        ],
+      },
+    ],
+    companiesById
+  );
+
+  it("writes one CSV row per company with escaped, formula-safe cells", () => {
+    const lines = toCsv(groups).split("\r\n");
+
+    expect(lines[0]).toBe(
+      "group,rank,name,website,status,sectors,categories,total_raised,headquarters,careers_page,match_reason,confidence"
+    );
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toContain(`"'=HYPERLINK(""x""), then ""quoted"""`);
+    expect(lines[1].endsWith(",0.83")).toBe(true);
+    expect(lines[2].startsWith("Search results,2,")).toBe(true);
+  });
+
+  it("writes a Markdown brief grouped under headings", () => {
+    const markdown = toMarkdown("AI for *compliance*", groups, "2025-01-31T10:00:00.000Z");
+
+    expect(markdown).toContain("# AI for \\*compliance\\*");
+    expect(markdown).toContain("2 companies · exported 2025-01-31");
+    expect(markdown).toContain("## Search results (2)");
+    expect(markdown).toContain(`- **[${first.company_name}](${first.website_url})**`);
+    expect(markdown).toContain("(confidence 0.83)");
+  });
+});
+
+describe("exportFilename", () => {
+  it("slugs the title and dates the file", () => {
+    expect(exportFilename("AI for Compliance!", "markdown", "2025-01-31T10:00:00.000Z")).toBe(
+      "ceejay-ai-for-compliance-2025-01-31.md"
+    );
+  });
+});
@@ -0,0 +1,244 @@
+import { z } from "zod";
+
+import { groupedResultsSchema, reasonsToMap, type GroupedResults } from "@/lib/resume/schemas";
+import type { SearchRunResultRow } from "@/lib/search/run-history";
+import type { Company, CompanyReference } from "@/types/company";
+
+export const EXPORT_FORMATS = ["csv", "json", "markdown"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = { csv: "csv", json: "json", markdown: "md" };
+const MAX_EXPORT_COMPANIES = 1000;
+
+const companyReferenceSchema = z.object({
+  companyId: z.string().min(1),
+  companyName: z.string(),
+  reason: z.string(),
+  inlineDescription: z.string().optional(),
+  evidenceChips: z.array(z.string()).optional(),
+  confidence: z.number().optional(),
+});
+
+/**
+ * Body of `POST /api/export`. Exactly one source: a persisted chat run, the references of a
+ * chat answer, or resume grouped results. Only ids and match context travel; companies are
+ * loaded on the server.
+ */
+export const exportRequestSchema = z
+  .object({
+    format: z.enum(EXPORT_FORMATS),
+    title: z.string().trim().max(200).optional(),
+    runId: z.string().trim().min(1).optional(),
+    references: z.array(companyReferenceSchema).max(MAX_EXPORT_COMPANIES).optional(),
+    resume: groupedResultsSchema.optional(),
+  })
+  .refine((value) => [value.runId, value.references, value.resume].filter((source) => source !== undefined).length === 1, {
+    message: "Provide exactly one of runId, references or resume",
+  });
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+
+export interface ExportReferenceGroup {
+  title: string;
+  description: string | null;
+  references: CompanyReference[];
+}
+
+export interface ExportGroup {
+  title: string;
+  description: string | null;
+  entries: Array<{ reference: CompanyReference; company: Company }>;
+}
+
+export function referenceGroupsFromReferences(title: string, references: CompanyReference[]): ExportReferenceGroup[] {
+  return [{ title, description: null, references }];
+}
+
+/** Mirrors `ResumeResults`: the groups in order, then "Feeling Lucky" when it has companies. */
+export function referenceGroupsFromResume(grouped: GroupedResults): ExportReferenceGroup[] {
+  const sections = grouped.feelingLucky.companyIds.length ? [...grouped.groups, grouped.feelingLucky] : grouped.groups;
+  return sections.map((section) => {
+    const reasons = reasonsToMap(section.companyReasons);
+    return {
+      title: section.title,
+      description: section.description || null,
+      references: section.companyIds.map((companyId) => ({ companyId, companyName: "", reason: reasons[companyId] ?? "" })),
+    };
+  });
+}
+
+/** Ranked run results with the reason and evidence chips recorded in telemetry. */
+export function referenceGroupsFromRunResults(title: string, results: SearchRunResultRow[]): ExportReferenceGroup[] {
+  return referenceGroupsFromReferences(
+    title,
+    results.map((result) => ({
+      companyId: result.company_id,
+      companyName: "",
+      reason: typeof result.evidence.reason === "string" ? result.evidence.reason : "",
+      evidenceChips: Array.isArray(result.evidence.evidenceChips)
+        ? result.evidence.evidenceChips.filter((chip): chip is string => typeof chip === "string")
+        : undefined,
+      confidence: result.confidence,
+    }))
+  );
+}
+
+/** Joins references with loaded companies; references to unknown companies are dropped. */
+export function resolveExportGroups(groups: ExportReferenceGroup[], companiesById: Map<string, Company>): ExportGroup[] {
+  return groups.map((group) => ({
+    title: group.title,
+    description: group.description,
+    entries: group.references.flatMap((reference) => {
+      const company = companiesById.get(reference.companyId);
+      return company ? [{ reference: { ...reference, companyName: company.company_name }, company }] : [];
+    }),
+  }));
+}
+
+export function exportCompanyIds(groups: ExportReferenceGroup[]): string[] {
+  return Array.from(new Set(groups.flatMap((group) => group.references.map((reference) => reference.companyId))));
+}
+
+const CSV_COLUMNS = [
+  "group",
+  "rank",
+  "name",
+  "website",
+  "status",
+  "sectors",
+  "categories",
+  "total_raised",
+  "headquarters",
+  "careers_page",
+  "match_reason",
+  "confidence",
+] as const;
+
+function csvCell(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Spreadsheet apps evaluate cells starting with these characters as formulas.
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(groups: ExportGroup[]): string {
+  const rows: string[] = [CSV_COLUMNS.join(",")];
+  for (const group of groups) {
+    group.entries.forEach(({ reference, company }, index) => {
+      rows.push(
+        [
+          group.title,
+          index + 1,
+          company.company_name,
+          company.website_url,
+          company.status,
+          company.sectors.join("; "),
+          company.categories.join("; "),
+          company.total_raised,
+          company.headquarters,
+          company.careers_page,
+          reference.reason,
+          reference.confidence !== undefined ? reference.confidence.toFixed(2) : null,
+        ]
+          .map(csvCell)
+          .join(",")
+      );
+    });
+  }
+  // CRLF per RFC 4180, so Excel keeps quoted multi-line reasons in one cell.
+  return `${rows.join("\r\n")}\r\n`;
+}
+
+export function toJson(title: string, groups: ExportGroup[], exportedAt: string): string {
+  return JSON.stringify(
+    {
+      title,
+      exportedAt,
+      groups: groups.map((group) => ({
+        title: group.title,
+        description: group.description,
+        companies: group.entries,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function markdownText(value: string): string {
+  return value.replace(/([\\`*_[\]<>|])/g, "\\$1").replace(/\s*\n\s*/g, " ");
+}
+
+function companyFacts(company: Company): string {
+  return [
+    company.status !== "startup" ? company.status : null,
+    company.headquarters,
+    company.total_raised ? `raised ${company.total_raised}` : null,
+    company.sectors.length ? company.sectors.join(", ") : null,
+  ]
+    .filter((fact): fact is string => Boolean(fact))
+    .map(markdownText)
+    .join(" · ");
+}
+
+export function toMarkdown(title: string, groups: ExportGroup[], exportedAt: string): string {
+  const total = groups.reduce((sum, group) => sum + group.entries.length, 0);
+  const lines = [`# ${markdownText(title)}`, "", `${total} companies · exported ${exportedAt.slice(0, 10)}`];
+
+  for (const group of groups) {
+    if (!group.entries.length) {
+      continue;
+    }
+    lines.push("", `## ${markdownText(group.title)} (${group.entries.length})`);
+    if (group.description) {
+      lines.push("", markdownText(group.description));
+    }
+    lines.push("");
+    for (const { reference, company } of group.entries) {
+      const confidence = reference.confidence !== undefined ? ` (confidence ${reference.confidence.toFixed(2)})` : "";
+      lines.push(`- **[${markdownText(company.company_name)}](${company.website_url})**${company.tagline ? ` — ${markdownText(company.tagline)}` : ""}`);
+      const facts = companyFacts(company);
+      if (facts) {
+        lines.push(`  - ${facts}`);
+      }
+      if (reference.reason) {
+        lines.push(`  - Why: ${markdownText(reference.reason)}${confidence}`);
+      }
+      if (company.careers_page) {
+        lines.push(`  - Careers: ${company.careers_page}`);
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function serializeExport(format: ExportFormat, title: string, groups: ExportGroup[], exportedAt: string): string {
+  switch (format) {
+    case "csv":
+      return toCsv(groups);
+    case "json":
+      return toJson(title, groups, exportedAt);
+    case "markdown":
+      return toMarkdown(title, groups, exportedAt);
+  }
+}
+
+/** e.g. `ceejay-ai-for-compliance-2025-01-31.csv`. */
+export function exportFilename(title: string, format: ExportFormat, exportedAt: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `ceejay-${slug || "export"}-${exportedAt.slice(0, 10)}.${EXPORT_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,22 @@
+/** Response and request-body helpers shared by the route handlers under `src/app/api`. */
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** `{ error }` with a message the client can show as is. */
+export function errorResponse(error: string, status = 400): Response {
+  return jsonResponse({ error }, status);
+}
+
+/** Parses a request body read as text; malformed JSON yields null so schema validation rejects it. */
+export function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,214 @@
+import { z } from "zod";
+
+import type { Company } from "@/types/company";
+
+export const ATS_PLATFORMS = ["greenhouse", "lever", "ashby", "workable"] as const;
+
+export type AtsPlatform = (typeof ATS_PLATFORMS)[number];
+
+/** A company's public job board: the ATS it runs on and the board's account token. */
+export interface AtsBoard {
+  platform: AtsPlatform;
+  token: string;
+}
+
+export interface OpenRole {
+  id: string;
+  title: string;
+  location: string | null;
+  department: string | null;
+  url: string;
+  /** Plain-text job description, trimmed to `MAX_DESCRIPTION_CHARS`. */
+  descriptionText: string;
+}
+
+interface AtsAdapter {
+  /** Public JSON endpoint of the board; none of them need an API key. */
+  apiUrl(token: string): string;
+  parse(body: unknown): OpenRole[];
+}
+
+/** Enough of a description to match skills against without caching whole benefit sections. */
+const MAX_DESCRIPTION_CHARS = 4_000;
+
+/** Hosts that serve job boards, with the path segment or subdomain that holds the board token. */
+const BOARD_URL_PATTERNS: Array<[AtsPlatform, RegExp]> = [
+  ["greenhouse", /^(?:job-)?boards(?:\.eu)?\.greenhouse\.io\/(?:embed\/job_board\?for=)?([\w-]+)/i],
+  ["lever", /^jobs(?:\.eu)?\.lever\.co\/([\w.-]+)/i],
+  ["ashby", /^jobs\.ashbyhq\.com\/([\w.-]+)/i],
+  ["workable", /^apply\.workable\.com\/([\w-]+)/i],
+  ["workable", /^([\w-]+)\.workable\.com/i],
+];
+
+function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }[lower] ?? "";
+  });
+}
+
+/** Job descriptions arrive as HTML (Greenhouse escapes it once more); tags become spaces. */
+export function htmlToText(html: string): string {
+  let text = html;
+  // Entity-escaped markup decodes to tags, which are then stripped like any others.
+  if (/&lt;\/?[a-z]/i.test(text)) {
+    text = decodeHtmlEntities(text);
+  }
+  return decodeHtmlEntities(text.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+function describeText(...parts: Array<string | null | undefined>): string {
+  return parts
+    .filter((part): part is string => Boolean(part?.trim()))
+    .join(" ")
+    .slice(0, MAX_DESCRIPTION_CHARS);
+}
+
+function joinLocation(...parts: Array<string | null | undefined>): string | null {
+  const location = parts.filter((part) => part?.trim()).join(", ");
+  return location || null;
+}
+
+const greenhouseBoardSchema = z.object({
+  jobs: z.array(
+    z.object({
+      id: z.union([z.number(), z.string()]),
+      title: z.string(),
+      absolute_url: z.string(),
+      location: z.object({ name: z.string().nullish() }).nullish(),
+      departments: z.array(z.object({ name: z.string() })).nullish(),
+      content: z.string().nullish(),
+    })
+  ),
+});
+
+const leverPostingsSchema = z.array(
+  z.object({
+    id: z.string(),
+    text: z.string(),
+    hostedUrl: z.string(),
+    categories: z
+      .object({ location: z.string().nullish(), team: z.string().nullish(), department: z.string().nullish() })
+      .nullish(),
+    descriptionPlain: z.string().nullish(),
+    lists: z.array(z.object({ text: z.string().nullish(), content: z.string().nullish() })).nullish(),
+    additionalPlain: z.string().nullish(),
+  })
+);
+
+const ashbyBoardSchema = z.object({
+  jobs: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      jobUrl: z.string(),
+      location: z.string().nullish(),
+      department: z.string().nullish(),
+      team: z.string().nullish(),
+      isListed: z.boolean().nullish(),
+      descriptionPlain: z.string().nullish(),
+      descriptionHtml: z.string().nullish(),
+    })
+  ),
+});
+
+const workableAccountSchema = z.object({
+  jobs: z.array(
+    z.object({
+      shortcode: z.string(),
+      title: z.string(),
+      url: z.string(),
+      city: z.string().nullish(),
+      state: z.string().nullish(),
+      country: z.string().nullish(),
+      telecommuting: z.boolean().nullish(),
+      department: z.string().nullish(),
+      description: z.string().nullish(),
+    })
+  ),
+});
+
+export const ATS_ADAPTERS: Record<AtsPlatform, AtsAdapter> = {
+  greenhouse: {
+    apiUrl: (token) => `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(token)}/jobs?content=true`,
+    parse: (body) =>
+      greenhouseBoardSchema.parse(body).jobs.map((job) => ({
+        id: String(job.id),
+        title: job.title.trim(),
+        location: job.location?.name?.trim() || null,
+        department: job.departments?.[0]?.name ?? null,
+        url: job.absolute_url,
+        descriptionText: describeText(htmlToText(job.content ?? "")),
+      })),
+  },
+  lever: {
+    apiUrl: (token) => `https://api.lever.co/v0/postings/${encodeURIComponent(token)}?mode=json`,
+    parse: (body) =>
+      leverPostingsSchema.parse(body).map((posting) => ({
+        id: posting.id,
+        title: posting.text.trim(),
+        location: posting.categories?.location?.trim() || null,
+        department: posting.categories?.team ?? posting.categories?.department ?? null,
+        url: posting.hostedUrl,
+        descriptionText: describeText(
+          posting.descriptionPlain,
+          ...(posting.lists ?? []).map((list) => `${list.text ?? ""} ${htmlToText(list.content ?? "")}`),
+          posting.additionalPlain
+        ),
+      })),
+  },
+  ashby: {
+    apiUrl: (token) => `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(token)}`,
+    parse: (body) =>
+      ashbyBoardSchema
+        .parse(body)
+        .jobs.filter((job) => job.isListed !== false)
+        .map((job) => ({
+          id: job.id,
+          title: job.title.trim(),
+          location: job.location?.trim() || null,
+          department: job.department ?? job.team ?? null,
+          url: job.jobUrl,
+          descriptionText: describeText(job.descriptionPlain ?? htmlToText(job.descriptionHtml ?? "")),
+        })),
+  },
+  workable: {
+    apiUrl: (token) => `https://apply.workable.com/api/v1/widget/accounts/${encodeURIComponent(token)}?details=true`,
+    parse: (body) =>
+      workableAccountSchema.parse(body).jobs.map((job) => ({
+        id: job.shortcode,
+        title: job.title.trim(),
+        location: joinLocation(job.city, job.state, job.country, job.telecommuting ? "Remote" : null),
+        department: job.department || null,
+        url: job.url,
+        descriptionText: describeText(htmlToText(job.description ?? "")),
+      })),
+  },
+};
+
+/**
+ * The job board behind `ats_jobs_url`. The URL decides the platform, since `ats_platform` is scraped
+ * free text that can disagree with it; other ATSs (Workday, custom career pages) return null.
+ */
+export function parseAtsBoard(company: Pick<Company, "ats_jobs_url">): AtsBoard | null {
+  const url = company.ats_jobs_url?.trim();
+  if (!url) {
+    return null;
+  }
+  const withoutScheme = url.replace(/^https?:\/\//i, "").replace(/^www\./i, "");
+
+  for (const [platform, pattern] of BOARD_URL_PATTERNS) {
+    const token = pattern.exec(withoutScheme)?.[1];
+    // `apply.workable.com` itself matches the subdomain pattern.
+    if (token && token !== "apply") {
+      return { platform, token };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,50 @@
+import { ATS_ADAPTERS, type AtsBoard, type AtsPlatform, type OpenRole } from "@/lib/jobs/ats";
+import ashbyFixture from "@/lib/jobs/fixtures/ashby.json";
+import greenhouseFixture from "@/lib/jobs/fixtures/greenhouse.json";
+import leverFixture from "@/lib/jobs/fixtures/lever.json";
+import workableFixture from "@/lib/jobs/fixtures/workable.json";
+
+/** A slow board only holds up its own company; the rest of the batch keeps going. */
+const BOARD_FETCH_TIMEOUT_MS = 8_000;
+
+/**
+ * Loads the open roles on one company's job board. The HTTP fetcher calls the ATS's public API;
+ * the fixture fetcher answers every board of a platform with a recorded response, for tests and offline dev.
+ */
+export interface JobBoardFetcher {
+  fetchRoles(board: AtsBoard, signal?: AbortSignal): Promise<OpenRole[]>;
+}
+
+export function createHttpJobBoardFetcher(timeoutMs = BOARD_FETCH_TIMEOUT_MS): JobBoardFetcher {
+  return {
+    async fetchRoles(board, signal) {
+      const adapter = ATS_ADAPTERS[board.platform];
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const response = await fetch(adapter.apiUrl(board.token), {
+        headers: { Accept: "application/json" },
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        throw new Error(`${board.platform} board ${board.token} returned ${response.status}`);
+      }
+      return adapter.parse(await response.json());
+    },
+  };
+}
+
+export const JOB_BOARD_FIXTURES: Record<AtsPlatform, unknown> = {
+  greenhouse: greenhouseFixture,
+  lever: leverFixture,
+  ashby: ashbyFixture,
+  workable: workableFixture,
+};
+
+/** Responses go through the same adapters as live ones, so fixtures also pin the vendor formats. */
+export function createFixtureJobBoardFetcher(fixtures: Record<AtsPlatform, unknown> = JOB_BOARD_FIXTURES): JobBoardFetcher {
+  return {
+    async fetchRoles(board) {
+      return ATS_ADAPTERS[board.platform].parse(fixtures[board.platform]);
+    },
+  };
+}
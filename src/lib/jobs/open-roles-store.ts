@@ -0,0 +1,93 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { AtsPlatform, OpenRole } from "@/lib/jobs/ats";
+
+export interface CachedOpenRoles {
+  companyId: string;
+  platform: AtsPlatform;
+  roles: OpenRole[];
+  fetchedAt: string;
+}
+
+/**
+ * Open roles per company as last fetched from its job board, so repeated resume searches
+ * do not hit every ATS again. The Postgres store is shared by every server instance.
+ */
+export interface OpenRolesStore {
+  /** Cached entries for the companies that have one, fresh or not; the caller decides what is stale. */
+  getMany(companyIds: string[]): Promise<Map<string, CachedOpenRoles>>;
+  putMany(entries: CachedOpenRoles[]): Promise<void>;
+}
+
+export function createInMemoryOpenRolesStore(): OpenRolesStore {
+  const entries = new Map<string, CachedOpenRoles>();
+
+  return {
+    async getMany(companyIds) {
+      const found = new Map<string, CachedOpenRoles>();
+      for (const companyId of companyIds) {
+        const entry = entries.get(companyId);
+        if (entry) {
+          found.set(companyId, entry);
+        }
+      }
+      return found;
+    },
+    async putMany(added) {
+      for (const entry of added) {
+        entries.set(entry.companyId, entry);
+      }
+    },
+  };
+}
+
+interface CompanyOpenRolesRow {
+  company_id: string;
+  platform: AtsPlatform;
+  roles: OpenRole[];
+  fetched_at: string;
+}
+
+export function createSupabaseOpenRolesStore(client: SupabaseClient): OpenRolesStore {
+  return {
+    async getMany(companyIds) {
+      const found = new Map<string, CachedOpenRoles>();
+      if (!companyIds.length) {
+        return found;
+      }
+      const { data, error } = await client
+        .from("company_open_roles")
+        .select("company_id, platform, roles, fetched_at")
+        .in("company_id", companyIds);
+      if (error) {
+        throw new Error(`getCompanyOpenRoles failed: ${error.message}`);
+      }
+      for (const row of (data ?? []) as CompanyOpenRolesRow[]) {
+        found.set(row.company_id, {
+          companyId: row.company_id,
+          platform: row.platform,
+          roles: Array.isArray(row.roles) ? row.roles : [],
+          fetchedAt: row.fetched_at,
+        });
+      }
+      return found;
+    },
+    async putMany(entries) {
+      if (!entries.length) {
+        return;
+      }
+      const { error } = await client.from("company_open_roles").upsert(
+        entries.map((entry) => ({
+          company_id: entry.companyId,
+          platform: entry.platform,
+          roles: entry.roles,
+          fetched_at: entry.fetchedAt,
+        })),
+        { onConflict: "company_id" }
+      );
+      if (error) {
+        throw new Error(`saveCompanyOpenRoles failed: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+
+import { ATS_ADAPTERS, parseAtsBoard, type AtsBoard, type OpenRole } from "@/lib/jobs/ats";
+import { createFixtureJobBoardFetcher, JOB_BOARD_FIXTURES, type JobBoardFetcher } from "@/lib/jobs/job-boards";
+import { loadOpenRoles, matchOpenRoles, OPEN_ROLES_MAX_AGE_MS } from "@/lib/jobs/open-roles";
+import { createInMemoryOpenRolesStore } from "@/lib/jobs/open-roles-store";
+import { MOCK_COMPANIES } from "@/lib/mock/companies";
+import type { ResumeProfile } from "@/lib/resume/schemas";
+import type { Company } from "@/types/company";
+
+const profile: ResumeProfile = {
+  experienceAreas: [{ domain: "financial crime compliance", context: "Built AML screening at a neobank", yearsApprox: 5 }],
+  industriesWorked: ["Fintech"],
+  problemSpaces: ["sanctions screening", "fraud prevention"],
+  productTypes: ["B2B SaaS"],
+  customerSegments: ["banks"],
+  totalYearsExperience: 7,
+  summary: "Compliance engineer focused on AML and fraud tooling for banks.",
+};
+
+function company(id: string, atsJobsUrl: string | null): Company {
+  const base = MOCK_COMPANIES[0];
+  return { ...base, id, ats_platform: null, ats_jobs_url: atsJobsUrl };
+}
+
+describe("parseAtsBoard", () => {
+  it("reads the platform and board token from job board URLs", () => {
+    expect(parseAtsBoard({ ats_jobs_url: "https://boards.greenhouse.io/acme" })).toEqual({ platform: "greenhouse", token: "acme" });
+    expect(parseAtsBoard({ ats_jobs_url: "https://boards.greenhouse.io/embed/job_board?for=acme" })).toEqual({
+      platform: "greenhouse",
+      token: "acme",
+    });
+    expect(parseAtsBoard({ ats_jobs_url: "jobs.lever.co/acme/" })).toEqual({ platform: "lever", token: "acme" });
+    expect(parseAtsBoard({ ats_jobs_url: "https://apply.workable.com/acme/" })).toEqual({ platform: "workable", token: "acme" });
+    expect(parseAtsBoard({ ats_jobs_url: "https://acme.workable.com" })).toEqual({ platform: "workable", token: "acme" });
+    expect(parseAtsBoard({ ats_jobs_url: "https://acme.wd5.myworkdayjobs.com/External" })).toBeNull();
+    expect(parseAtsBoard({ ats_jobs_url: null })).toBeNull();
+
+    const getscope = MOCK_COMPANIES.find((candidate) => candidate.id === "getscope-ai");
+    expect(getscope && parseAtsBoard(getscope)).toEqual({ platform: "ashby", token: "getscope" });
+  });
+});
+
+describe("ATS adapters", () => {
+  it("turns each vendor's board format into plain-text roles", () => {
+    const [fraudRole] = ATS_ADAPTERS.greenhouse.parse(JOB_BOARD_FIXTURES.greenhouse);
+    expect(fraudRole).toMatchObject({ id: "4012345", location: "New York, NY", department: "Engineering" });
+    expect(fraudRole.descriptionText).toMatch(/^Build real-time fraud detection and sanctions screening services/);
+    expect(fraudRole.descriptionText).not.toContain("<");
+
+    const ashbyTitles = ATS_ADAPTERS.ashby.parse(JOB_BOARD_FIXTURES.ashby).map((role) => role.title);
+    expect(ashbyTitles, "unlisted postings are left out").toEqual(["Founding Engineer, Developer Platform", "Head of Marketing"]);
+
+    const [leverRole] = ATS_ADAPTERS.lever.parse(JOB_BOARD_FIXTURES.lever);
+    expect(leverRole.department).toBe("Risk Engineering");
+    expect(leverRole.descriptionText).toContain("Design sanctions screening pipelines");
+
+    expect(ATS_ADAPTERS.workable.parse(JOB_BOARD_FIXTURES.workable)[0].location).toBe("Berlin, Germany, Remote");
+    expect(() => ATS_ADAPTERS.greenhouse.parse({ error: "not found" })).toThrow();
+  });
+});
+
+describe("matchOpenRoles", () => {
+  it("keeps roles whose title or description mention the profile's terms", async () => {
+    const fetcher = createFixtureJobBoardFetcher();
+    const roles = [
+      ...(await fetcher.fetchRoles({ platform: "greenhouse", token: "any" })),
+      ...(await fetcher.fetchRoles({ platform: "lever", token: "any" })),
+      ...(await fetcher.fetchRoles({ platform: "workable", token: "any" })),
+    ];
+
+    const matched = matchOpenRoles(roles, profile);
+
+    expect(matched.totalCount).toBe(7);
+    expect(matched.relevant.map((role) => role.title)).toEqual([
+      "Senior Software Engineer, Fraud Prevention",
+      "Compliance Engineer, AML",
+      "Machine Learning Engineer, Fraud Detection",
+    ]);
+    expect(matched.relevantCount).toBe(3);
+    expect(matched.relevant[0].matchedTerms).toEqual(["fraud", "prevention", "sanction", "screening", "fintech"]);
+  });
+});
+
+describe("loadOpenRoles", () => {
+  const now = new Date("2026-03-02T12:00:00.000Z");
+  const companies = [
+    company("fresh-co", "https://jobs.lever.co/fresh"),
+    company("stale-co", "https://boards.greenhouse.io/stale"),
+    company("workday-co", "https://stale.wd1.myworkdayjobs.com/jobs"),
+  ];
+  const cachedRole: OpenRole = { id: "1", title: "Cached", location: null, department: null, url: "https://example.com/1", descriptionText: "" };
+
+  async function seededStore() {
+    const store = createInMemoryOpenRolesStore();
+    await store.putMany([
+      { companyId: "fresh-co", platform: "lever", roles: [cachedRole], fetchedAt: new Date(now.getTime() - 60_000).toISOString() },
+      {
+        companyId: "stale-co",
+        platform: "greenhouse",
+        roles: [cachedRole],
+        fetchedAt: new Date(now.getTime() - OPEN_ROLES_MAX_AGE_MS - 1).toISOString(),
+      },
+    ]);
+    return store;
+  }
+
+  it("serves fresh cache entries and refetches stale boards", async () => {
+    const store = await seededStore();
+    const fixtures = createFixtureJobBoardFetcher();
+    const fetchRoles = vi.fn((board: AtsBoard) => fixtures.fetchRoles(board));
+
+    const rolesByCompany = await loadOpenRoles(companies, { fetcher: { fetchRoles }, store }, { now });
+
+    expect(fetchRoles).toHaveBeenCalledTimes(1);
+    expect(fetchRoles.mock.calls[0][0]).toEqual({ platform: "greenhouse", token: "stale" });
+    expect(rolesByCompany.get("fresh-co")).toEqual([cachedRole]);
+    expect(rolesByCompany.get("stale-co")).toHaveLength(3);
+    expect(rolesByCompany.has("workday-co")).toBe(false);
+    expect((await store.getMany(["stale-co"])).get("stale-co")?.fetchedAt).toBe(now.toISOString());
+  });
+
+  it("falls back to the stale entry when a board cannot be read", async () => {
+    const store = await seededStore();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const failing: JobBoardFetcher = {
+      fetchRoles: async () => {
+        throw new Error("greenhouse board stale returned 503");
+      },
+    };
+
+    const rolesByCompany = await loadOpenRoles(companies, { fetcher: failing, store }, { now });
+
+    expect(rolesByCompany.get("stale-co")).toEqual([cachedRole]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("returned 503"));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,168 @@
+import { parseAtsBoard, type AtsBoard, type OpenRole } from "@/lib/jobs/ats";
+import type { JobBoardFetcher } from "@/lib/jobs/job-boards";
+import type { CachedOpenRoles, OpenRolesStore } from "@/lib/jobs/open-roles-store";
+import { keywordSet } from "@/lib/resume/keywords";
+import type { ResumeProfile } from "@/lib/resume/schemas";
+import type { Company } from "@/types/company";
+
+/** Job boards change daily at most; six hours keeps repeated searches off the ATS APIs. */
+export const OPEN_ROLES_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+const BOARD_FETCH_CONCURRENCY = 4;
+/** Relevant roles sent per company; the count still covers all of them. */
+const MAX_RELEVANT_ROLES = 20;
+const MAX_MATCHED_TERMS = 5;
+/** A profile term in the title counts twice, so one title hit or two description hits make a role relevant. */
+const TITLE_TERM_WEIGHT = 2;
+const RELEVANCE_THRESHOLD = 2;
+
+export interface OpenRoleMatch {
+  id: string;
+  title: string;
+  location: string | null;
+  department: string | null;
+  url: string;
+  /** Profile terms found in the role, title hits first. */
+  matchedTerms: string[];
+}
+
+/** What the results page shows for a company with a supported job board. */
+export interface CompanyOpenRoles {
+  totalCount: number;
+  relevantCount: number;
+  relevant: OpenRoleMatch[];
+}
+
+export interface OpenRolesSources {
+  fetcher: JobBoardFetcher;
+  store: OpenRolesStore;
+}
+
+export interface LoadOpenRolesOptions {
+  signal?: AbortSignal;
+  now?: Date;
+}
+
+export function relevantRolesLabel(openRoles: CompanyOpenRoles): string {
+  return `${openRoles.relevantCount} relevant open role${openRoles.relevantCount === 1 ? "" : "s"}`;
+}
+
+/** Keywords of the profile's domains, problem spaces, product types and industries. */
+export function profileTerms(profile: ResumeProfile): Set<string> {
+  return keywordSet(
+    [
+      ...profile.experienceAreas.map((area) => area.domain),
+      ...profile.problemSpaces,
+      ...profile.productTypes,
+      ...profile.industriesWorked,
+    ].join(" ")
+  );
+}
+
+function scoreOpenRole(role: OpenRole, terms: Set<string>): { score: number; matchedTerms: string[] } {
+  const titleTokens = keywordSet(role.title);
+  const descriptionTokens = keywordSet(role.descriptionText);
+  const titleHits = [...terms].filter((term) => titleTokens.has(term));
+  const descriptionHits = [...terms].filter((term) => !titleTokens.has(term) && descriptionTokens.has(term));
+
+  return {
+    score: TITLE_TERM_WEIGHT * titleHits.length + descriptionHits.length,
+    matchedTerms: [...titleHits, ...descriptionHits].slice(0, MAX_MATCHED_TERMS),
+  };
+}
+
+/** Roles whose title or description mention the profile's terms, best matches first. */
+export function matchOpenRoles(roles: OpenRole[], profile: ResumeProfile): CompanyOpenRoles {
+  const terms = profileTerms(profile);
+  const scored = roles
+    .map((role) => ({ role, ...scoreOpenRole(role, terms) }))
+    .filter((match) => match.score >= RELEVANCE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    totalCount: roles.length,
+    relevantCount: scored.length,
+    relevant: scored.slice(0, MAX_RELEVANT_ROLES).map(({ role, matchedTerms }) => ({
+      id: role.id,
+      title: role.title,
+      location: role.location,
+      department: role.department,
+      url: role.url,
+      matchedTerms,
+    })),
+  };
+}
+
+function isFresh(entry: CachedOpenRoles | undefined, board: AtsBoard, now: Date): entry is CachedOpenRoles {
+  return Boolean(
+    entry
+      && entry.platform === board.platform
+      && now.getTime() - new Date(entry.fetchedAt).getTime() < OPEN_ROLES_MAX_AGE_MS
+  );
+}
+
+/**
+ * Open roles of every company whose `ats_jobs_url` is a supported job board, from the cache when
+ * fresh and from the board otherwise. A board that fails falls back to its stale cache entry, or is
+ * left out; cache errors never fail the load.
+ */
+export async function loadOpenRoles(
+  companies: Company[],
+  sources: OpenRolesSources,
+  options: LoadOpenRolesOptions = {}
+): Promise<Map<string, OpenRole[]>> {
+  const now = options.now ?? new Date();
+  const boards = new Map<string, AtsBoard>();
+  for (const company of companies) {
+    const board = parseAtsBoard(company);
+    if (board) {
+      boards.set(company.id, board);
+    }
+  }
+
+  const rolesByCompany = new Map<string, OpenRole[]>();
+  if (!boards.size) {
+    return rolesByCompany;
+  }
+
+  const cached = await sources.store.getMany([...boards.keys()]).catch((error: unknown) => {
+    console.warn(`[open-roles] cache read failed: ${error instanceof Error ? error.message : String(error)}`);
+    return new Map<string, CachedOpenRoles>();
+  });
+
+  const stale: Array<[string, AtsBoard]> = [];
+  for (const [companyId, board] of boards) {
+    const entry = cached.get(companyId);
+    if (isFresh(entry, board, now)) {
+      rolesByCompany.set(companyId, entry.roles);
+    } else {
+      stale.push([companyId, board]);
+    }
+  }
+
+  const fetched: CachedOpenRoles[] = [];
+  const fetchNext = async (): Promise<void> => {
+    for (let next = stale.shift(); next && !options.signal?.aborted; next = stale.shift()) {
+      const [companyId, board] = next;
+      try {
+        const roles = await sources.fetcher.fetchRoles(board, options.signal);
+        rolesByCompany.set(companyId, roles);
+        fetched.push({ companyId, platform: board.platform, roles, fetchedAt: now.toISOString() });
+      } catch (error) {
+        console.warn(
+          `[open-roles] ${board.platform} board ${board.token} failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+        const previous = cached.get(companyId);
+        if (previous?.platform === board.platform) {
+          rolesByCompany.set(companyId, previous.roles);
+        }
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BOARD_FETCH_CONCURRENCY, stale.length) }, fetchNext));
+
+  await sources.store.putMany(fetched).catch((error: unknown) => {
+    console.warn(`[open-roles] cache write failed: ${error instanceof Error ? error.message : String(error)}`);
+  });
+
+  return rolesByCompany;
+}
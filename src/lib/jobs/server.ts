@@ -0,0 +1,26 @@
+import "server-only";
+
+import { getServerEnv } from "@/lib/env";
+import { createFixtureJobBoardFetcher, createHttpJobBoardFetcher } from "@/lib/jobs/job-boards";
+import type { OpenRolesSources } from "@/lib/jobs/open-roles";
+import { createInMemoryOpenRolesStore, createSupabaseOpenRolesStore, type OpenRolesStore } from "@/lib/jobs/open-roles-store";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+
+let cachedFixtureStore: OpenRolesStore | null = null;
+
+/**
+ * Job board fetcher and cache from the server env, or null when open roles are turned off.
+ * Fixture roles are cached in the process only, so they never land in the shared cache.
+ */
+export function getOpenRolesSources(): OpenRolesSources | null {
+  const env = getServerEnv();
+
+  if (env.JOB_BOARD_SOURCE === "off") {
+    return null;
+  }
+  if (env.JOB_BOARD_SOURCE === "fixtures") {
+    cachedFixtureStore ??= createInMemoryOpenRolesStore();
+    return { fetcher: createFixtureJobBoardFetcher(), store: cachedFixtureStore };
+  }
+  return { fetcher: createHttpJobBoardFetcher(), store: createSupabaseOpenRolesStore(getSupabaseServerClient()) };
+}
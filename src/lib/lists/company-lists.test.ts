@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+
+import {
+  addCompanyToList,
+  createCompanyList,
+  deleteCompanyList,
+  getCompanyList,
+  listCompanyLists,
+  listItemInputSchema,
+  removeCompanyFromList,
+  updateCompanyList,
+  updateListItem,
+} from "@/lib/lists/company-lists";
+import { createInMemorySupabase } from "@/lib/mock/in-memory-supabase";
+
+const USER_ID = "5b0f3a7e-2c1d-4e8f-9a6b-3d2c1b0a9f8e";
+const OTHER_USER_ID = "0a9f8e7d-6c5b-4a3f-8e2d-1c0b9a8f7e6d";
+
+describe("company lists", () => {
+  it("adds, annotates and removes companies", async () => {
+    const { client } = createInMemorySupabase();
+    const outreach = await createCompanyList(client, USER_ID, { name: "Q3 outreach" });
+    const pipeline = await createCompanyList(client, USER_ID, { name: "Interview pipeline", description: "Active loops" });
+
+    await addCompanyToList(client, USER_ID, outreach.id, { companyId: "sakana-ai" });
+    await addCompanyToList(client, USER_ID, outreach.id, { companyId: "sandbar-ai", tags: ["aml"] });
+    await addCompanyToList(client, USER_ID, pipeline.id, { companyId: "sakana-ai", status: "applied" });
+    // Re-adding updates the supplied fields rather than duplicating the company.
+    const readded = await addCompanyToList(client, USER_ID, outreach.id, { companyId: "sakana-ai", notes: "Met at a meetup" });
+
+    expect(readded).toMatchObject({ company_id: "sakana-ai", notes: "Met at a meetup", status: "saved" });
+    const summaries = await listCompanyLists(client, USER_ID);
+    expect(summaries.map((list) => [list.name, list.company_ids]).sort()).toEqual([
+      ["Interview pipeline", ["sakana-ai"]],
+      ["Q3 outreach", ["sakana-ai", "sandbar-ai"]],
+    ]);
+
+    const updated = await updateListItem(client, USER_ID, outreach.id, "sandbar-ai", { status: "contacted", tags: ["aml", "fintech"] });
+    expect(updated).toMatchObject({ status: "contacted", tags: ["aml", "fintech"], notes: "" });
+    expect(await updateListItem(client, USER_ID, outreach.id, "ropes-ai", { notes: "missing" })).toBeNull();
+
+    expect(await removeCompanyFromList(client, USER_ID, outreach.id, "sakana-ai")).toBe(true);
+    expect(await removeCompanyFromList(client, USER_ID, outreach.id, "sakana-ai")).toBe(false);
+    expect((await getCompanyList(client, USER_ID, outreach.id))?.items.map((item) => item.company_id)).toEqual(["sandbar-ai"]);
+
+    expect((await updateCompanyList(client, USER_ID, outreach.id, { name: "Q4 outreach" }))?.name).toBe("Q4 outreach");
+    expect(await deleteCompanyList(client, USER_ID, pipeline.id)).toBe(true);
+    expect(await getCompanyList(client, USER_ID, pipeline.id)).toBeNull();
+    expect(await getCompanyList(client, USER_ID, "not-a-uuid")).toBeNull();
+  });
+
+  it("keeps each user's lists to themselves", async () => {
+    const { client } = createInMemorySupabase();
+    const list = await createCompanyList(client, USER_ID, { name: "Mine" });
+    await addCompanyToList(client, USER_ID, list.id, { companyId: "sakana-ai" });
+
+    expect(await listCompanyLists(client, OTHER_USER_ID)).toEqual([]);
+    expect(await getCompanyList(client, OTHER_USER_ID, list.id)).toBeNull();
+    expect(await addCompanyToList(client, OTHER_USER_ID, list.id, { companyId: "sandbar-ai" })).toBeNull();
+    expect(await updateCompanyList(client, OTHER_USER_ID, list.id, { name: "Theirs" })).toBeNull();
+    expect(await removeCompanyFromList(client, OTHER_USER_ID, list.id, "sakana-ai")).toBe(false);
+    expect(await deleteCompanyList(client, OTHER_USER_ID, list.id)).toBe(false);
+    expect((await getCompanyList(client, USER_ID, list.id))?.items.map((item) => item.company_id)).toEqual(["sakana-ai"]);
+  });
+
+  it("normalizes tags case-insensitively and rejects unknown statuses", () => {
+    expect(listItemInputSchema.parse({ companyId: "sakana-ai", tags: [" AI ", "ai", "Tokyo"] }).tags).toEqual(["AI", "Tokyo"]);
+    expect(listItemInputSchema.safeParse({ companyId: "sakana-ai", status: "hired" }).success).toBe(false);
+  });
+});
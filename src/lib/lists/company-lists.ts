@@ -0,0 +1,320 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+export const LIST_ITEM_STATUSES = ["saved", "contacted", "applied", "interviewing", "offer", "rejected"] as const;
+
+export type ListItemStatus = (typeof LIST_ITEM_STATUSES)[number];
+
+export const LIST_ITEM_STATUS_LABELS: Record<ListItemStatus, string> = {
+  saved: "Saved",
+  contacted: "Contacted",
+  applied: "Applied",
+  interviewing: "Interviewing",
+  offer: "Offer",
+  rejected: "Rejected",
+};
+
+const MAX_TAGS = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const tagsSchema = z
+  .array(z.string().trim().min(1).max(40))
+  .max(MAX_TAGS)
+  // Tags are matched case-insensitively, so keep the first spelling of each.
+  .transform((tags) => tags.filter((tag, index) => tags.findIndex((other) => other.toLowerCase() === tag.toLowerCase()) === index));
+
+export const companyListInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+export const companyListUpdateSchema = companyListInputSchema.partial();
+
+export const listItemUpdateSchema = z.object({
+  notes: z.string().max(5000).optional(),
+  tags: tagsSchema.optional(),
+  status: z.enum(LIST_ITEM_STATUSES).optional(),
+});
+
+export const listItemInputSchema = listItemUpdateSchema.extend({
+  companyId: z.string().trim().min(1),
+});
+
+export type CompanyListInput = z.infer<typeof companyListInputSchema>;
+export type CompanyListUpdate = z.infer<typeof companyListUpdateSchema>;
+export type ListItemInput = z.infer<typeof listItemInputSchema>;
+export type ListItemUpdate = z.infer<typeof listItemUpdateSchema>;
+
+export interface CompanyListRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CompanyListItemRow {
+  id: string;
+  list_id: string;
+  company_id: string;
+  notes: string;
+  tags: string[];
+  status: ListItemStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A list with its member ids, enough to render membership toggles without loading items. */
+export interface CompanyListSummary extends CompanyListRow {
+  company_ids: string[];
+}
+
+export interface CompanyListDetail {
+  list: CompanyListRow;
+  /** Oldest first, the order companies were added. */
+  items: CompanyListItemRow[];
+}
+
+export async function listCompanyLists(client: SupabaseClient, userId: string): Promise<CompanyListSummary[]> {
+  const listsResult = await client
+    .from("company_lists")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (listsResult.error) {
+    throw new Error(`listCompanyLists failed: ${listsResult.error.message}`);
+  }
+
+  const lists = (listsResult.data ?? []) as CompanyListRow[];
+  if (!lists.length) {
+    return [];
+  }
+
+  const itemsResult = await client
+    .from("company_list_items")
+    .select("list_id, company_id")
+    .in("list_id", lists.map((list) => list.id))
+    .order("created_at", { ascending: true });
+  if (itemsResult.error) {
+    throw new Error(`listCompanyLists failed: ${itemsResult.error.message}`);
+  }
+
+  const idsByList = new Map<string, string[]>();
+  for (const item of (itemsResult.data ?? []) as Array<Pick<CompanyListItemRow, "list_id" | "company_id">>) {
+    idsByList.set(item.list_id, [...(idsByList.get(item.list_id) ?? []), item.company_id]);
+  }
+
+  return lists.map((list) => ({
+    ...list,
+    company_ids: idsByList.get(list.id) ?? [],
+  }));
+}
+
+async function findOwnedList(client: SupabaseClient, userId: string, listId: string): Promise<CompanyListRow | null> {
+  if (!UUID_PATTERN.test(listId)) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("company_lists")
+    .select("*")
+    .eq("id", listId)
+    .eq("user_id", userId)
+    .maybeSingle<CompanyListRow>();
+  if (error) {
+    throw new Error(`findOwnedList failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/** Returns null for unknown lists and lists owned by someone else, including ids that are not UUIDs. */
+export async function getCompanyList(client: SupabaseClient, userId: string, listId: string): Promise<CompanyListDetail | null> {
+  const list = await findOwnedList(client, userId, listId);
+  if (!list) {
+    return null;
+  }
+
+  const { data: items, error: itemsError } = await client
+    .from("company_list_items")
+    .select("*")
+    .eq("list_id", listId)
+    .order("created_at", { ascending: true });
+  if (itemsError) {
+    throw new Error(`getCompanyList failed: ${itemsError.message}`);
+  }
+
+  return { list, items: (items ?? []) as CompanyListItemRow[] };
+}
+
+export async function createCompanyList(client: SupabaseClient, userId: string, input: CompanyListInput): Promise<CompanyListRow> {
+  const now = new Date().toISOString();
+  const { data, error } = await client
+    .from("company_lists")
+    .insert({
+      id: crypto.randomUUID(),
+      user_id: userId,
+      name: input.name,
+      description: input.description || null,
+      created_at: now,
+      updated_at: now,
+    })
+    .select("*")
+    .single<CompanyListRow>();
+  if (error) {
+    throw new Error(`createCompanyList failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/** Returns null when the list does not exist or is not the user's. */
+export async function updateCompanyList(
+  client: SupabaseClient,
+  userId: string,
+  listId: string,
+  update: CompanyListUpdate
+): Promise<CompanyListRow | null> {
+  if (!UUID_PATTERN.test(listId)) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("company_lists")
+    .update({
+      ...(update.name !== undefined ? { name: update.name } : {}),
+      ...(update.description !== undefined ? { description: update.description || null } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", listId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle<CompanyListRow>();
+  if (error) {
+    throw new Error(`updateCompanyList failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/** Deletes the list and, through the foreign key cascade, its items. Returns false when nothing was deleted. */
+export async function deleteCompanyList(client: SupabaseClient, userId: string, listId: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(listId)) {
+    return false;
+  }
+
+  const { data, error } = await client.from("company_lists").delete().eq("id", listId).eq("user_id", userId).select("id");
+  if (error) {
+    throw new Error(`deleteCompanyList failed: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+async function findListItem(client: SupabaseClient, listId: string, companyId: string): Promise<CompanyListItemRow | null> {
+  const { data, error } = await client
+    .from("company_list_items")
+    .select("*")
+    .eq("list_id", listId)
+    .eq("company_id", companyId)
+    .maybeSingle<CompanyListItemRow>();
+  if (error) {
+    throw new Error(`findListItem failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Adds a company to a list. Adding a company that is already on the list updates the
+ * supplied fields instead of failing, so "save" buttons are safe to click twice.
+ * Returns null when the list does not exist or belongs to someone else.
+ */
+export async function addCompanyToList(
+  client: SupabaseClient,
+  userId: string,
+  listId: string,
+  input: ListItemInput
+): Promise<CompanyListItemRow | null> {
+  if (!(await findOwnedList(client, userId, listId))) {
+    return null;
+  }
+
+  const existing = await findListItem(client, listId, input.companyId);
+  if (existing) {
+    const { companyId, ...update } = input;
+    return (await updateListItem(client, userId, listId, companyId, update)) ?? existing;
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await client
+    .from("company_list_items")
+    .insert({
+      id: crypto.randomUUID(),
+      list_id: listId,
+      company_id: input.companyId,
+      notes: input.notes ?? "",
+      tags: input.tags ?? [],
+      status: input.status ?? "saved",
+      created_at: now,
+      updated_at: now,
+    })
+    .select("*")
+    .single<CompanyListItemRow>();
+  if (error) {
+    throw new Error(`addCompanyToList failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/** Returns null when the company is not on the list or the list is not the user's. */
+export async function updateListItem(
+  client: SupabaseClient,
+  userId: string,
+  listId: string,
+  companyId: string,
+  update: ListItemUpdate
+): Promise<CompanyListItemRow | null> {
+  if (!(await findOwnedList(client, userId, listId))) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("company_list_items")
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("list_id", listId)
+    .eq("company_id", companyId)
+    .select("*")
+    .maybeSingle<CompanyListItemRow>();
+  if (error) {
+    throw new Error(`updateListItem failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/** Returns false when the company was not on the list or the list is not the user's. */
+export async function removeCompanyFromList(
+  client: SupabaseClient,
+  userId: string,
+  listId: string,
+  companyId: string
+): Promise<boolean> {
+  if (!(await findOwnedList(client, userId, listId))) {
+    return false;
+  }
+
+  const { data, error } = await client
+    .from("company_list_items")
+    .delete()
+    .eq("list_id", listId)
+    .eq("company_id", companyId)
+    .select("id");
+  if (error) {
+    throw new Error(`removeCompanyFromList failed: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,574 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { MOCK_COMPANIES } from "@/lib/mock/companies";
+import { fakeEmbedding } from "@/lib/models/fake-provider";
+import { teamSizeBucket } from "@/lib/search/filters";
+import type { Company } from "@/types/company";
+
+type Row = Record<string, unknown>;
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string; code?: string } | null;
+}
+
+/** Multi-column UNIQUE constraints from the migrations that callers rely on; inserts that break one fail with 23505. */
+const UNIQUE_KEYS: Record<string, string[]> = {
+  conversation_messages: ["conversation_id", "position"],
+};
+
+export interface InMemorySupabase {
+  client: SupabaseClient;
+  /** Rows written through `from(table)`, e.g. `search_runs` or `pending_clarifications`. */
+  tables: Map<string, Row[]>;
+  rpcCalls: Array<{ fn: string; args: Record<string, unknown> }>;
+  companies: Company[];
+}
+
+export interface InMemorySupabaseOptions {
+  companies?: Company[];
+  /** RPC names that respond with an error, to exercise outage paths. */
+  failingRpcs?: string[];
+}
+
+function asStringList(value: unknown): string[] | null {
+  return Array.isArray(value) && value.length ? value.map(String) : null;
+}
+
+function asNumberOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function queryTerms(text: string): string[] {
+  return Array.from(new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter((term) => term.length >= 3)));
+}
+
+function searchableText(company: Company): string {
+  return [
+    company.company_name,
+    company.tagline,
+    company.description,
+    company.product_description,
+    company.target_customer,
+    company.problem_solved,
+    company.differentiator,
+    company.niches.join(" "),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+/** Short profile so fake embeddings of short queries still clear the RPC similarity floors. */
+function embeddingProfile(company: Company): string {
+  return [company.company_name, company.tagline, ...company.categories, ...company.niches.slice(0, 4)]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index] * b[index];
+  }
+  return dot;
+}
+
+function parseVectorLiteral(value: unknown): number[] {
+  if (Array.isArray(value)) {
+    return value.map(Number);
+  }
+  return String(value ?? "")
+    .replace(/^\[|\]$/g, "")
+    .split(",")
+    .filter(Boolean)
+    .map(Number);
+}
+
+function trigrams(value: string): Set<string> {
+  const grams = new Set<string>();
+  for (const word of value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let index = 0; index < padded.length - 2; index += 1) {
+      grams.add(padded.slice(index, index + 3));
+    }
+  }
+  return grams;
+}
+
+/** pg_trgm-style similarity: shared trigrams over the union. */
+function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (!left.size || !right.size) {
+    return 0;
+  }
+  const shared = Array.from(left).filter((gram) => right.has(gram)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+/** Mirrors the normalization migration for sample rows that only carry the display string ("$4.8M"). */
+function raisedUsd(company: Company): number | null {
+  if (company.total_raised_amount !== null) {
+    return (company.total_raised_currency_code ?? "USD").toUpperCase() === "USD" ? company.total_raised_amount : null;
+  }
+  const match = company.total_raised?.match(/\$\s*([\d.,]+)\s*([KMB])?/i);
+  if (!match) {
+    return null;
+  }
+  const multiplier = { K: 1e3, M: 1e6, B: 1e9 }[match[2]?.toUpperCase() ?? ""] ?? 1;
+  return Math.round(Number(match[1].replace(/,/g, "")) * multiplier);
+}
+
+/** Same semantics as `company_passes_structured_filters_v1`. */
+function passesStructuredFilters(company: Company, args: Record<string, unknown>): boolean {
+  const minRaised = asNumberOrNull(args.p_min_raised_usd);
+  const maxRaised = asNumberOrNull(args.p_max_raised_usd);
+  if (minRaised !== null || maxRaised !== null) {
+    const raised = raisedUsd(company);
+    if (raised === null || (minRaised !== null && raised < minRaised) || (maxRaised !== null && raised > maxRaised)) {
+      return false;
+    }
+  }
+
+  const foundedMin = asNumberOrNull(args.p_founded_year_min);
+  const foundedMax = asNumberOrNull(args.p_founded_year_max);
+  if (foundedMin !== null && (company.founded_year === null || company.founded_year < foundedMin)) {
+    return false;
+  }
+  if (foundedMax !== null && (company.founded_year === null || company.founded_year > foundedMax)) {
+    return false;
+  }
+
+  const headquarters = company.headquarters?.toLowerCase() ?? "";
+  for (const key of ["p_hq_countries", "p_hq_cities"]) {
+    const locations = asStringList(args[key]);
+    // Locations arrive regex-escaped and match whole words, like the `~*` in company_passes_structured_filters_v1.
+    const patterns = locations?.map((location) => new RegExp(`(^|[^\\p{L}\\p{N}_])${location}([^\\p{L}\\p{N}_]|$)`, "iu"));
+    if (patterns && !patterns.some((pattern) => pattern.test(headquarters))) {
+      return false;
+    }
+  }
+
+  const buckets = asStringList(args.p_team_size_buckets);
+  return !buckets || buckets.includes(teamSizeBucket(company.team_size) ?? "");
+}
+
+function createRpcHandlers(companies: Company[]): Record<string, (args: Record<string, unknown>) => Row[]> {
+  const embeddings = new Map(companies.map((company) => [company.id, fakeEmbedding(embeddingProfile(company))]));
+
+  const inScope = (args: Record<string, unknown>): Company[] => {
+    const statuses = asStringList(args.p_statuses);
+    const includeIds = asStringList(args.p_include_ids);
+    const excludeIds = asStringList(args.p_exclude_ids);
+    return companies.filter((company) =>
+      (!statuses || statuses.includes(company.status))
+      && (!includeIds || includeIds.includes(company.id))
+      && (!excludeIds || !excludeIds.includes(company.id))
+    );
+  };
+  const limitOf = (args: Record<string, unknown>, fallback: number): number =>
+    Math.max(1, asNumberOrNull(args.p_limit) ?? fallback);
+
+  const lexicalScores = (company: Company, terms: string[]) => {
+    const text = searchableText(company);
+    const niches = company.niches.join(" ").toLowerCase();
+    const matchedTerms = terms
+      .filter((term) => text.includes(term))
+      .sort((a, b) => b.length - a.length || a.localeCompare(b))
+      .slice(0, 8);
+    return {
+      keywordScore: terms.length ? matchedTerms.length / terms.length : 0,
+      nicheScore: terms.length ? terms.filter((term) => niches.includes(term)).length / terms.length : 0,
+      matchedTerms,
+    };
+  };
+
+  const hybrid = (args: Record<string, unknown>, filtered: boolean): Row[] => {
+    const terms = queryTerms(String(args.p_query_text ?? ""));
+    const queryEmbedding = parseVectorLiteral(args.p_query_embedding);
+    const minSemantic = asNumberOrNull(args.p_min_semantic) ?? 0.25;
+
+    return inScope(args)
+      .filter((company) => !filtered || passesStructuredFilters(company, args))
+      .map((company) => {
+        const similarity = cosine(queryEmbedding, embeddings.get(company.id) ?? []);
+        const semanticScore = similarity >= minSemantic ? similarity : 0;
+        const { keywordScore, nicheScore, matchedTerms } = lexicalScores(company, terms);
+        return {
+          company_id: company.id,
+          semantic_score: semanticScore,
+          keyword_score: keywordScore,
+          niche_score: nicheScore,
+          combined_score: 0.58 * semanticScore + 0.27 * keywordScore + 0.15 * nicheScore,
+          matched_fields: [
+            semanticScore > 0 ? "semantic" : null,
+            keywordScore > 0 ? "keyword" : null,
+            nicheScore > 0 ? "niche" : null,
+          ].filter(Boolean),
+          matched_terms: matchedTerms,
+        };
+      })
+      .filter((row) => row.semantic_score > 0 || row.keyword_score > 0 || row.niche_score > 0)
+      .sort((a, b) => b.combined_score - a.combined_score || b.semantic_score - a.semantic_score)
+      .slice(0, limitOf(args, 120));
+  };
+
+  const keyword = (args: Record<string, unknown>, filtered: boolean): Row[] => {
+    const terms = queryTerms(String(args.p_query_text ?? ""));
+    return inScope(args)
+      .filter((company) => !filtered || passesStructuredFilters(company, args))
+      .map((company) => {
+        const { keywordScore, nicheScore, matchedTerms } = lexicalScores(company, terms);
+        return {
+          company_id: company.id,
+          keyword_score: keywordScore,
+          niche_score: nicheScore,
+          combined_score: 0.85 * keywordScore + 0.15 * nicheScore,
+          matched_terms: matchedTerms,
+        };
+      })
+      .filter((row) => row.keyword_score > 0 || row.niche_score > 0)
+      .sort((a, b) => b.combined_score - a.combined_score)
+      .slice(0, limitOf(args, 120));
+  };
+
+  const taxonomy = (args: Record<string, unknown>, filtered: boolean): Row[] => {
+    const sectors = asStringList(args.p_sectors);
+    const categories = asStringList(args.p_categories);
+    const models = asStringList(args.p_business_models);
+    const hits = (values: string[], wanted: string[] | null) =>
+      wanted ? values.filter((value) => wanted.includes(value)).length : 0;
+
+    return inScope(args)
+      .filter((company) => !filtered || passesStructuredFilters(company, args))
+      .filter((company) =>
+        (!sectors || hits(company.sectors, sectors) > 0)
+        && (!categories || hits(company.categories, categories) > 0)
+        && (!models || hits(company.business_models, models) > 0)
+      )
+      .map((company) => {
+        const sectorHits = hits(company.sectors, sectors);
+        const categoryHits = hits(company.categories, categories);
+        const modelHits = hits(company.business_models, models);
+        return {
+          company_id: company.id,
+          company_name: company.company_name,
+          sector_hits: sectorHits,
+          category_hits: categoryHits,
+          model_hits: modelHits,
+          tag_score: sectorHits + categoryHits + modelHits,
+        };
+      })
+      .sort((a, b) => b.tag_score - a.tag_score || a.company_name.localeCompare(b.company_name))
+      .slice(0, limitOf(args, 500));
+  };
+
+  return {
+    search_exact_name_v1: (args) => {
+      const query = String(args.p_query_text ?? "").trim().toLowerCase();
+      if (!query) {
+        return [];
+      }
+      return inScope(args)
+        .map((company) => ({
+          company_id: company.id,
+          name_score: company.company_name.toLowerCase() === query ? 1 : trigramSimilarity(company.company_name, query),
+          matched_name: company.company_name,
+          website_match: company.website_url.toLowerCase().includes(query.replace(/\s+/g, "")),
+        }))
+        .filter((row) => row.name_score >= 0.35 || row.website_match)
+        .sort((a, b) => b.name_score - a.name_score || a.matched_name.localeCompare(b.matched_name))
+        .slice(0, limitOf(args, 10))
+        .map(({ company_id, name_score, matched_name }) => ({ company_id, name_score, matched_name }));
+    },
+    search_companies_hybrid_v1: (args) => hybrid(args, false),
+    search_companies_hybrid_v2: (args) => hybrid(args, true),
+    search_companies_keyword_v1: (args) => keyword(args, false),
+    search_companies_keyword_v2: (args) => keyword(args, true),
+    search_companies_by_taxonomy_v1: (args) => taxonomy(args, false),
+    search_companies_by_taxonomy_v2: (args) => taxonomy(args, true),
+    search_similar_companies_v1: (args) => {
+      const anchorId = String(args.p_company_id ?? "");
+      const anchor = companies.find((company) => company.id === anchorId);
+      const anchorEmbedding = embeddings.get(anchorId);
+      if (!anchor || !anchorEmbedding) {
+        return [];
+      }
+      const anchorLabels = new Set([...anchor.sectors, ...anchor.categories, ...anchor.business_models]);
+      const minSimilarity = asNumberOrNull(args.p_min_similarity) ?? 0.3;
+      const limit = limitOf(args, 30);
+
+      return inScope(args)
+        .filter((company) => company.id !== anchorId)
+        .map((company) => ({ company, similarity: cosine(anchorEmbedding, embeddings.get(company.id) ?? []) }))
+        .filter(({ similarity }) => similarity >= minSimilarity)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit * 3)
+        .map(({ company, similarity }) => {
+          const sharedLabels = Array.from(
+            new Set([...company.sectors, ...company.categories, ...company.business_models])
+          )
+            .filter((label) => anchorLabels.has(label))
+            .sort();
+          return {
+            company_id: company.id,
+            similarity_score: similarity,
+            taxonomy_overlap: sharedLabels.length,
+            combined_score: 0.85 * similarity + 0.05 * Math.min(sharedLabels.length, 3),
+            shared_labels: sharedLabels,
+          };
+        })
+        .sort((a, b) => b.combined_score - a.combined_score)
+        .slice(0, limit);
+    },
+    get_companies_by_ids_v1: (args) => {
+      const ids = new Set(asStringList(args.p_company_ids) ?? []);
+      return companies.filter((company) => ids.has(company.id)) as unknown as Row[];
+    },
+  };
+}
+
+type Filter = (row: Row) => boolean;
+
+/** Numbers compare numerically; everything else (ISO timestamps, ids) as strings. */
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+/** Chainable subset of the PostgREST builder used by telemetry and the clarification store. */
+class InMemoryQuery implements PromiseLike<QueryResult> {
+  private action: "select" | "insert" | "upsert" | "update" | "delete" = "select";
+  private payload: Row[] = [];
+  private conflictColumn: string | null = null;
+  private filters: Filter[] = [];
+  private returning = false;
+  private cardinality: "many" | "single" | "maybeSingle" = "many";
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+  private rowLimit: number | null = null;
+
+  constructor(
+    private readonly rows: Row[],
+    private readonly uniqueKey: string[] | null = null
+  ) {}
+
+  select(): this {
+    if (this.action !== "select") {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = "insert";
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options?: { onConflict?: string }): this {
+    this.action = "upsert";
+    this.payload = Array.isArray(values) ? values : [values];
+    this.conflictColumn = options?.onConflict ?? "id";
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = "update";
+    this.payload = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.action = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: null): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((row) => compareValues(row[column], value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((row) => compareValues(row[column], value) <= 0);
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((row) => compareValues(row[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((row) => compareValues(row[column], value) >= 0);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.ordering.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    const matches = (row: Row) => this.filters.every((filter) => filter(row));
+    let affected: Row[];
+
+    switch (this.action) {
+      case "insert": {
+        // Mirrors the `created_at DEFAULT NOW()` columns.
+        affected = this.payload.map((row) => ({ created_at: new Date().toISOString(), ...structuredClone(row) }));
+        const key = this.uniqueKey;
+        if (key) {
+          const keyOf = (row: Row) => JSON.stringify(key.map((column) => row[column]));
+          const taken = new Set(this.rows.map(keyOf));
+          if (affected.some((row) => taken.has(keyOf(row)) || !taken.add(keyOf(row)))) {
+            return { data: null, error: { code: "23505", message: `duplicate key value violates unique constraint (${key.join(", ")})` } };
+          }
+        }
+        this.rows.push(...affected);
+        break;
+      }
+      case "upsert": {
+        const column = this.conflictColumn ?? "id";
+        affected = this.payload.map((row) => {
+          const copy = structuredClone(row);
+          const index = this.rows.findIndex((existing) => existing[column] === copy[column]);
+          if (index >= 0) {
+            this.rows[index] = copy;
+          } else {
+            this.rows.push(copy);
+          }
+          return copy;
+        });
+        break;
+      }
+      case "update":
+        affected = this.rows.filter(matches);
+        for (const row of affected) {
+          Object.assign(row, structuredClone(this.payload[0]));
+        }
+        break;
+      case "delete":
+        affected = this.rows.filter(matches);
+        for (const row of affected) {
+          this.rows.splice(this.rows.indexOf(row), 1);
+        }
+        break;
+      default:
+        affected = this.rows.filter(matches);
+        for (const { column, ascending } of [...this.ordering].reverse()) {
+          // Array.prototype.sort is stable, so sorting by the last key first yields a multi-column order.
+          affected.sort((a, b) => compareValues(a[column], b[column]) * (ascending ? 1 : -1));
+        }
+        if (this.rowLimit !== null) {
+          affected = affected.slice(0, this.rowLimit);
+        }
+    }
+
+    const data = this.action === "select" || this.returning ? structuredClone(affected) : null;
+    if (this.cardinality === "many" || data === null) {
+      return { data, error: null };
+    }
+    if (data.length > 1 || (this.cardinality === "single" && data.length === 0)) {
+      return { data: null, error: { message: `Expected a single row, got ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+/** RPC call that, like PostgREST, resolves to an error result when its abort signal has fired. */
+class InMemoryRpc implements PromiseLike<QueryResult> {
+  private signal: AbortSignal | null = null;
+
+  constructor(private readonly run: () => QueryResult) {}
+
+  abortSignal(signal: AbortSignal): this {
+    this.signal = signal;
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    const result: QueryResult = this.signal?.aborted
+      ? { data: null, error: { message: "AbortError: This operation was aborted" } }
+      : this.run();
+    return Promise.resolve(result).then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * Supabase stand-in backed by the sample companies: search RPCs are re-implemented in
+ * TypeScript (approximating the SQL scoring) and tables are plain arrays.
+ * Query embeddings must come from the fake model provider for semantic scores to mean anything.
+ */
+export function createInMemorySupabase(options: InMemorySupabaseOptions = {}): InMemorySupabase {
+  const companies = options.companies ?? MOCK_COMPANIES;
+  const handlers = createRpcHandlers(companies);
+  const failing = new Set(options.failingRpcs ?? []);
+  const tables = new Map<string, Row[]>();
+  const rpcCalls: InMemorySupabase["rpcCalls"] = [];
+
+  const client = {
+    rpc: (fn: string, args: Record<string, unknown> = {}) =>
+      new InMemoryRpc(() => {
+        rpcCalls.push({ fn, args });
+        const handler = handlers[fn];
+        if (failing.has(fn)) {
+          return { data: null, error: { message: `${fn} is unavailable` } };
+        }
+        if (!handler) {
+          return { data: null, error: { message: `function ${fn} does not exist` } };
+        }
+        return { data: handler(args), error: null };
+      }),
+    from: (table: string) => {
+      if (!tables.has(table)) {
+        tables.set(table, []);
+      }
+      return new InMemoryQuery(tables.get(table) as Row[], UNIQUE_KEYS[table] ?? null);
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, tables, rpcCalls, companies };
+}
@@ -0,0 +1,123 @@
+import {
+  createFakeModelProvider,
+  type FakeModelRequest,
+  type FakeModelResponse,
+} from "@/lib/models/fake-provider";
+import type { LanguageModelSlot, ModelProvider } from "@/lib/models/provider";
+
+/** A canned model response, or one computed from the prompt and earlier tool results. */
+export type ScriptedTurn = FakeModelResponse | ((request: FakeModelRequest) => FakeModelResponse);
+
+export interface ModelScript {
+  /**
+   * Agent tool-loop turns, consumed in order across every agent run on the provider
+   * (so a clarification resume continues where the first run stopped). Once exhausted,
+   * the agent answers with plain text, which ends the loop.
+   */
+  agent?: ScriptedTurn[];
+  /** Defaults to ranking candidates in the order they appear in the reranker prompt. */
+  reranker?: ScriptedTurn;
+  summary?: string;
+  /** Structured outputs for the resume pipeline; unset slots get a minimal schema-valid object. */
+  resume?: Partial<Record<Exclude<LanguageModelSlot, "agent" | "reranker">, ScriptedTurn>>;
+}
+
+export interface ScriptedModelProvider extends ModelProvider {
+  /** Every language model call made so far, in order. */
+  readonly calls: FakeModelRequest[];
+}
+
+const AGENT_DONE_TEXT = "Done searching.";
+const DEFAULT_SUMMARY = "Here are the companies that best match your request.";
+
+function resolveTurn(turn: ScriptedTurn, request: FakeModelRequest): FakeModelResponse {
+  return typeof turn === "function" ? turn(request) : turn;
+}
+
+export function callTool(toolName: string, input: Record<string, unknown>): FakeModelResponse {
+  return { toolCalls: [{ toolName, input }] };
+}
+
+/** Company ids returned by earlier search tool calls in this run, best-first per call, deduplicated. */
+export function companyIdsFromToolResults(request: FakeModelRequest): string[] {
+  const ids: string[] = [];
+  for (const { output } of request.toolResults) {
+    const results = (output as { results?: Array<{ companyId?: string }> } | undefined)?.results;
+    for (const result of results ?? []) {
+      if (result.companyId && !ids.includes(result.companyId)) {
+        ids.push(result.companyId);
+      }
+    }
+  }
+  return ids;
+}
+
+export function fetchDetailsForResults(limit = 25): ScriptedTurn {
+  return (request) => callTool("get_company_details", { companyIds: companyIdsFromToolResults(request).slice(0, limit) });
+}
+
+export function finalizeWithResults(limit = 15): ScriptedTurn {
+  return (request) =>
+    callTool("finalize_search", {
+      rankedResults: companyIdsFromToolResults(request)
+        .slice(0, limit)
+        .map((companyId, index) => ({
+          companyId,
+          confidence: Math.max(0.5, 0.9 - index * 0.05),
+          reason: "Matches the requested capability.",
+          evidenceChips: [],
+        })),
+      overallConfidence: 0.8,
+      summary: "Scripted finalize.",
+    });
+}
+
+/** Keeps the candidate order of the reranker prompt, which lists one JSON object per candidate. */
+export function rankCandidatesInPromptOrder(request: FakeModelRequest): FakeModelResponse {
+  const companyIds = Array.from(
+    new Set(Array.from(request.promptText.matchAll(/"companyId":"([^"]+)"/g), (match) => match[1]))
+  );
+  return {
+    object: {
+      confidence: 0.8,
+      rankedCompanyIds: companyIds,
+      perCompany: companyIds.map((companyId) => ({
+        companyId,
+        reason: "Ranked by the scripted reranker.",
+        inlineDescription: "Scripted match.",
+        evidenceChips: [],
+        confidence: 0.8,
+      })),
+    },
+  };
+}
+
+/** Fake provider driven by a per-stage script; see `createFakeModelProvider` for the underlying model. */
+export function createScriptedModelProvider(script: ModelScript = {}): ScriptedModelProvider {
+  const agentTurns = [...(script.agent ?? [])];
+  const calls: FakeModelRequest[] = [];
+
+  const provider = createFakeModelProvider({
+    respond: (request) => {
+      calls.push(request);
+      switch (request.slot) {
+        case "agent": {
+          // The summary shares the agent slot but is the only agent call without tools.
+          if (!request.toolNames.length) {
+            return { text: script.summary ?? DEFAULT_SUMMARY };
+          }
+          const turn = agentTurns.shift();
+          return turn ? resolveTurn(turn, request) : { text: AGENT_DONE_TEXT };
+        }
+        case "reranker":
+          return resolveTurn(script.reranker ?? rankCandidatesInPromptOrder, request);
+        default: {
+          const turn = script.resume?.[request.slot];
+          return turn ? resolveTurn(turn, request) : undefined;
+        }
+      }
+    },
+  });
+
+  return Object.assign(provider, { calls });
+}
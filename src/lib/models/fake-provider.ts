@@ -0,0 +1,267 @@
+import { simulateReadableStream } from "ai";
+import { MockEmbeddingModelV3, MockLanguageModelV3 } from "ai/test";
+
+import type { LanguageModelSlot, ModelProvider, ModelSlot } from "@/lib/models/provider";
+
+type FakeCallOptions = Parameters<MockLanguageModelV3["doGenerate"]>[0];
+type FakeGenerateResult = Awaited<ReturnType<MockLanguageModelV3["doGenerate"]>>;
+type FakeStreamResult = Awaited<ReturnType<MockLanguageModelV3["doStream"]>>;
+type FakeStreamPart = FakeStreamResult["stream"] extends ReadableStream<infer Part> ? Part : never;
+
+/** Loose JSON Schema shape; only the keywords the default responder understands. */
+export interface FakeJsonSchema {
+  type?: string | string[];
+  properties?: Record<string, FakeJsonSchema>;
+  items?: FakeJsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: FakeJsonSchema[];
+  oneOf?: FakeJsonSchema[];
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+}
+
+export interface FakeModelRequest {
+  slot: LanguageModelSlot;
+  /** 0-based count of earlier calls to the same slot on this provider. */
+  callIndex: number;
+  /** All text parts of the prompt, joined in message order. */
+  promptText: string;
+  /** Names of the tools offered to the model on this call. */
+  toolNames: string[];
+  /** Completed tool-loop steps in the current `generateText` call (tool messages in the prompt). */
+  stepIndex: number;
+  /** Outputs of every tool call already present in the prompt, oldest first. */
+  toolResults: Array<{ toolName: string; output: unknown }>;
+  /** JSON Schema requested via structured output, or null for plain text calls. */
+  jsonSchema: FakeJsonSchema | null;
+  options: FakeCallOptions;
+}
+
+export interface FakeModelResponse {
+  text?: string;
+  /** Serialized as the text response; used for structured output calls. */
+  object?: unknown;
+  toolCalls?: Array<{ toolName: string; input: unknown }>;
+}
+
+export type FakeResponder = (request: FakeModelRequest) => FakeModelResponse | undefined;
+
+export interface FakeModelProviderOptions {
+  models?: Partial<Record<ModelSlot, string>>;
+  /**
+   * Scripts model output. Returning undefined falls back to the default response:
+   * a minimal object satisfying the requested schema, or a short fixed text.
+   */
+  respond?: FakeResponder;
+  embeddingDimensions?: number;
+}
+
+export const FAKE_EMBEDDING_DIMENSIONS = 1536;
+const FAKE_TEXT_RESPONSE = "Fake model response.";
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashes each token into a bucket and L2-normalizes, so texts sharing words get
+ * a positive cosine similarity. Identical text always yields an identical vector.
+ */
+export function fakeEmbedding(text: string, dimensions = FAKE_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[a-z0-9]{2,}/g) ?? [];
+  for (const token of tokens) {
+    vector[fnv1a(token) % dimensions] += 1;
+  }
+  if (!tokens.length) {
+    vector[0] = 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map((value) => value / norm);
+}
+
+/** Builds the smallest value that satisfies the schema's type, enum and length/range constraints. */
+export function sampleFromJsonSchema(schema: FakeJsonSchema | undefined): unknown {
+  if (!schema) {
+    return null;
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants?.length) {
+    return sampleFromJsonSchema(variants.find((variant) => variant.type !== "null") ?? variants[0]);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((item) => item !== "null") : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromJsonSchema(value)])
+      );
+    case "array":
+      return Array.from({ length: schema.minItems ?? 0 }, () => sampleFromJsonSchema(schema.items));
+    case "string":
+      return "fake".padEnd(schema.minLength ?? 0, "-");
+    case "number":
+    case "integer": {
+      const lower = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 0);
+      return schema.maximum !== undefined ? Math.min(lower, schema.maximum) : lower;
+    }
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+function readPrompt(options: FakeCallOptions): Pick<FakeModelRequest, "promptText" | "stepIndex" | "toolResults"> {
+  const texts: string[] = [];
+  const toolResults: FakeModelRequest["toolResults"] = [];
+  let stepIndex = 0;
+  for (const message of options.prompt) {
+    if (typeof message.content === "string") {
+      texts.push(message.content);
+      continue;
+    }
+    if (message.role === "tool") {
+      stepIndex += 1;
+    }
+    for (const part of message.content) {
+      if (part.type === "text") {
+        texts.push(part.text);
+      } else if (part.type === "tool-result") {
+        toolResults.push({
+          toolName: part.toolName,
+          output: "value" in part.output ? part.output.value : undefined,
+        });
+      }
+    }
+  }
+
+  return { promptText: texts.join("\n"), stepIndex, toolResults };
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function buildGenerateResult(
+  response: FakeModelResponse,
+  request: FakeModelRequest
+): FakeGenerateResult {
+  const text = response.object !== undefined ? JSON.stringify(response.object) : response.text;
+  const toolCalls = response.toolCalls ?? [];
+  const content: FakeGenerateResult["content"] = [];
+  if (text) {
+    content.push({ type: "text", text });
+  }
+  toolCalls.forEach((call, index) => {
+    content.push({
+      type: "tool-call",
+      toolCallId: `fake-${request.slot}-${request.callIndex}-${index}`,
+      toolName: call.toolName,
+      input: JSON.stringify(call.input ?? {}),
+    });
+  });
+
+  const inputTokens = estimateTokens(request.promptText);
+  const outputTokens = estimateTokens(text ?? "") + toolCalls.length * 10;
+
+  return {
+    content,
+    finishReason: { unified: toolCalls.length ? "tool-calls" : "stop", raw: undefined },
+    usage: {
+      inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: 0, cacheWrite: 0 },
+      outputTokens: { total: outputTokens, text: outputTokens, reasoning: 0 },
+    },
+    warnings: [],
+  };
+}
+
+/** Replays a generate result as a stream, one text delta per word, so streaming callers see incremental text. */
+function buildStreamResult(result: FakeGenerateResult): FakeStreamResult {
+  const chunks: FakeStreamPart[] = [{ type: "stream-start", warnings: [] }];
+  for (const part of result.content) {
+    if (part.type === "text") {
+      chunks.push({ type: "text-start", id: "text-0" });
+      for (const delta of part.text.match(/\S+\s*|\s+/g) ?? []) {
+        chunks.push({ type: "text-delta", id: "text-0", delta });
+      }
+      chunks.push({ type: "text-end", id: "text-0" });
+    } else if (part.type === "tool-call") {
+      chunks.push(part);
+    }
+  }
+  chunks.push({ type: "finish", usage: result.usage, finishReason: result.finishReason });
+
+  return { stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }) };
+}
+
+function defaultResponse(request: FakeModelRequest): FakeModelResponse {
+  return request.jsonSchema ? { object: sampleFromJsonSchema(request.jsonSchema) } : { text: FAKE_TEXT_RESPONSE };
+}
+
+/**
+ * Deterministic, network-free provider for tests and offline runs.
+ * Every slot answers through the same `respond` script so one test can drive the whole pipeline;
+ * streamed calls replay the same response word by word.
+ */
+export function createFakeModelProvider(options: FakeModelProviderOptions = {}): ModelProvider {
+  const dimensions = options.embeddingDimensions ?? FAKE_EMBEDDING_DIMENSIONS;
+  const callCounts = new Map<LanguageModelSlot, number>();
+  const modelId = (slot: ModelSlot): string => options.models?.[slot] ?? `fake-${slot}`;
+
+  const generate = (slot: LanguageModelSlot, callOptions: FakeCallOptions): FakeGenerateResult => {
+    const callIndex = callCounts.get(slot) ?? 0;
+    callCounts.set(slot, callIndex + 1);
+
+    const request: FakeModelRequest = {
+      slot,
+      callIndex,
+      ...readPrompt(callOptions),
+      toolNames: (callOptions.tools ?? []).map((tool) => tool.name),
+      jsonSchema: callOptions.responseFormat?.type === "json"
+        ? ((callOptions.responseFormat.schema ?? {}) as FakeJsonSchema)
+        : null,
+      options: callOptions,
+    };
+
+    return buildGenerateResult(options.respond?.(request) ?? defaultResponse(request), request);
+  };
+
+  return {
+    name: "fake",
+    languageModel: (slot) =>
+      new MockLanguageModelV3({
+        provider: "fake",
+        modelId: modelId(slot),
+        doGenerate: async (callOptions) => generate(slot, callOptions),
+        doStream: async (callOptions) => buildStreamResult(generate(slot, callOptions)),
+      }),
+    embeddingModel: () =>
+      new MockEmbeddingModelV3({
+        provider: "fake",
+        modelId: modelId("embedding"),
+        maxEmbeddingsPerCall: null,
+        doEmbed: async ({ values }) => ({
+          embeddings: values.map((value) => fakeEmbedding(value, dimensions)),
+          warnings: [],
+        }),
+      }),
+    modelId,
+  };
+}
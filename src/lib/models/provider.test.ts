@@ -0,0 +1,123 @@
+import { embedMany, generateObject, generateText, stepCountIs, streamText, tool } from "ai";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { rerankerSchema } from "@/lib/agent/schemas";
+import { createFakeModelProvider, fakeEmbedding } from "@/lib/models/fake-provider";
+import { createModelProvider, resolveModelProviderConfig } from "@/lib/models/provider";
+
+const baseEnv = {
+  MODEL_PROVIDER: "openai" as const,
+  OPENAI_API_KEY: "sk-test",
+  OPENAI_MODEL: "gpt-4o-mini",
+  OPENAI_EMBEDDING_MODEL: "text-embedding-3-small",
+};
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+}
+
+describe("resolveModelProviderConfig", () => {
+  it("falls back to OPENAI_MODEL for slots without an override", () => {
+    const config = resolveModelProviderConfig({ ...baseEnv, RERANKER_MODEL: "gpt-4.1-nano", AGENT_MODEL: " " });
+
+    expect(config.models).toEqual({
+      agent: "gpt-4o-mini",
+      reranker: "gpt-4.1-nano",
+      resumeExtraction: "gpt-4o-mini",
+      resumePlanning: "gpt-4o-mini",
+      resumeGrouping: "gpt-4o-mini",
+      embedding: "text-embedding-3-small",
+    });
+  });
+
+  it("lets resume planning inherit the extraction model", () => {
+    const config = resolveModelProviderConfig({ ...baseEnv, RESUME_EXTRACTION_MODEL: "gpt-4.1" });
+
+    expect(config.models.resumePlanning).toBe("gpt-4.1");
+  });
+
+  it("uses chat completions for OpenAI-compatible endpoints", () => {
+    const provider = createModelProvider(
+      resolveModelProviderConfig({
+        ...baseEnv,
+        MODEL_PROVIDER: "openai-compatible",
+        OPENAI_API_KEY: undefined,
+        OPENAI_BASE_URL: "http://localhost:11434/v1",
+        AGENT_MODEL: "llama3.1",
+      })
+    );
+    const model = provider.languageModel("agent");
+
+    expect(provider.name).toBe("openai-compatible");
+    expect(typeof model === "object" && model.provider).toBe("openai.chat");
+    expect(provider.modelId("agent")).toBe("llama3.1");
+  });
+});
+
+describe("createFakeModelProvider", () => {
+  it("answers structured output calls with a schema-valid object by default", async () => {
+    const provider = createModelProvider(resolveModelProviderConfig({ ...baseEnv, MODEL_PROVIDER: "fake" }));
+    const result = await generateObject({
+      model: provider.languageModel("reranker"),
+      schema: rerankerSchema,
+      prompt: "Rank these companies",
+    });
+
+    expect(provider.name).toBe("fake");
+    expect(rerankerSchema.safeParse(result.object).success).toBe(true);
+  });
+
+  it("runs scripted tool calls through the agent loop", async () => {
+    const executed: string[] = [];
+    const provider = createFakeModelProvider({
+      respond: ({ stepIndex, toolResults }) =>
+        stepIndex === 0
+          ? { toolCalls: [{ toolName: "lookup", input: { query: "robotics" } }] }
+          : { text: `Found ${(toolResults[0].output as { count: number }).count} robotics companies.` },
+    });
+
+    const result = await generateText({
+      model: provider.languageModel("agent"),
+      prompt: "Find robotics startups",
+      tools: {
+        lookup: tool({
+          inputSchema: z.object({ query: z.string() }),
+          execute: async ({ query }) => {
+            executed.push(query);
+            return { count: 3 };
+          },
+        }),
+      },
+      stopWhen: stepCountIs(3),
+    });
+
+    expect(executed).toEqual(["robotics"]);
+    expect(result.text).toBe("Found 3 robotics companies.");
+    expect(result.usage.inputTokens).toBeGreaterThan(0);
+  });
+
+  it("streams scripted text word by word", async () => {
+    const provider = createFakeModelProvider({ respond: () => ({ text: "Sanas leads for accent translation." }) });
+    const result = streamText({ model: provider.languageModel("agent"), prompt: "Summarize" });
+
+    const deltas: string[] = [];
+    for await (const delta of result.textStream) {
+      deltas.push(delta);
+    }
+
+    expect(deltas).toEqual(["Sanas ", "leads ", "for ", "accent ", "translation."]);
+    expect((await result.usage).outputTokens).toBeGreaterThan(0);
+  });
+
+  it("embeds deterministically with word-overlap similarity", async () => {
+    const provider = createFakeModelProvider();
+    const { embeddings } = await embedMany({
+      model: provider.embeddingModel(),
+      values: ["ai agents for sales", "sales ai agents", "industrial robotics"],
+    });
+
+    expect(embeddings[0]).toEqual(fakeEmbedding("ai agents for sales"));
+    expect(cosine(embeddings[0], embeddings[1])).toBeGreaterThan(cosine(embeddings[0], embeddings[2]));
+  });
+});
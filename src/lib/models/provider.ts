@@ -0,0 +1,90 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { EmbeddingModel, LanguageModel } from "ai";
+
+import { createFakeModelProvider } from "@/lib/models/fake-provider";
+
+export const MODEL_PROVIDER_NAMES = ["openai", "openai-compatible", "fake"] as const;
+
+export type ModelProviderName = (typeof MODEL_PROVIDER_NAMES)[number];
+
+/** Pipeline stages that call a language model; each can be pointed at its own model id. */
+export const LANGUAGE_MODEL_SLOTS = [
+  "agent",
+  "reranker",
+  "resumeExtraction",
+  "resumePlanning",
+  "resumeGrouping",
+] as const;
+
+export type LanguageModelSlot = (typeof LANGUAGE_MODEL_SLOTS)[number];
+
+export type ModelSlot = LanguageModelSlot | "embedding";
+
+export interface ModelProvider {
+  readonly name: ModelProviderName;
+  languageModel(slot: LanguageModelSlot): LanguageModel;
+  embeddingModel(): EmbeddingModel;
+  /** Model id configured for a slot, as recorded in telemetry. */
+  modelId(slot: ModelSlot): string;
+}
+
+export interface ModelProviderConfig {
+  provider: ModelProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  models: Record<ModelSlot, string>;
+}
+
+/** Subset of the server env read by {@link resolveModelProviderConfig}. */
+export interface ModelProviderEnv {
+  MODEL_PROVIDER: ModelProviderName;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_MODEL: string;
+  OPENAI_EMBEDDING_MODEL: string;
+  AGENT_MODEL?: string;
+  RERANKER_MODEL?: string;
+  RESUME_EXTRACTION_MODEL?: string;
+  RESUME_PLANNING_MODEL?: string;
+  RESUME_GROUPING_MODEL?: string;
+}
+
+/** Per-slot overrides fall back to `OPENAI_MODEL`; blank values count as unset. */
+export function resolveModelProviderConfig(env: ModelProviderEnv): ModelProviderConfig {
+  const pick = (override: string | undefined): string => override?.trim() || env.OPENAI_MODEL;
+
+  return {
+    provider: env.MODEL_PROVIDER,
+    apiKey: env.OPENAI_API_KEY,
+    baseUrl: env.OPENAI_BASE_URL,
+    models: {
+      agent: pick(env.AGENT_MODEL),
+      reranker: pick(env.RERANKER_MODEL),
+      resumeExtraction: pick(env.RESUME_EXTRACTION_MODEL),
+      // Planning shares the extraction model unless it is overridden separately.
+      resumePlanning: env.RESUME_PLANNING_MODEL?.trim() || pick(env.RESUME_EXTRACTION_MODEL),
+      resumeGrouping: pick(env.RESUME_GROUPING_MODEL),
+      embedding: env.OPENAI_EMBEDDING_MODEL,
+    },
+  };
+}
+
+export function createModelProvider(config: ModelProviderConfig): ModelProvider {
+  if (config.provider === "fake") {
+    return createFakeModelProvider({ models: config.models });
+  }
+
+  const openai = createOpenAI({
+    apiKey: config.apiKey ?? (config.provider === "openai-compatible" ? "local" : undefined),
+    baseURL: config.baseUrl,
+  });
+
+  return {
+    name: config.provider,
+    // Local OpenAI-compatible servers implement Chat Completions, not the Responses API.
+    languageModel: (slot) =>
+      config.provider === "openai" ? openai(config.models[slot]) : openai.chat(config.models[slot]),
+    embeddingModel: () => openai.embedding(config.models.embedding),
+    modelId: (slot) => config.models[slot],
+  };
+}
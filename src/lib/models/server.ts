@@ -0,0 +1,23 @@
+import "server-only";
+
+import { embed } from "ai";
+
+import { getServerEnv } from "@/lib/env";
+import { createModelProvider, resolveModelProviderConfig, type ModelProvider } from "@/lib/models/provider";
+
+let cachedProvider: ModelProvider | null = null;
+
+export function getModelProvider(): ModelProvider {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  cachedProvider = createModelProvider(resolveModelProviderConfig(getServerEnv()));
+  return cachedProvider;
+}
+
+/** Embeds one search query with the configured embedding model (the `embedQuery` dependency of direct search). */
+export async function embedSearchQuery(text: string): Promise<number[]> {
+  const { embedding } = await embed({ model: getModelProvider().embeddingModel(), value: text });
+  return embedding;
+}
@@ -1,9 +1,10 @@
 import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
 
-import { getServerEnv } from "@/lib/env";
+import { getModelProvider } from "@/lib/models/server";
+import { ResumeExtractionError } from "@/lib/resume/formats";
 import { resumeProfileSchema, type ResumeProfile } from "@/lib/resume/schemas";
 import { resumeExtractionPrompt } from "@/lib/resume/prompts";
+import type { UsageMeter } from "@/lib/usage/usage-meter";
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const { PDFParse } = require("pdf-parse") as {
@@ -17,7 +18,7 @@ const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 
 export async function extractTextFromPdf(buffer: Buffer): Promise<string> {
   if (buffer.length > MAX_FILE_SIZE) {
-    throw new Error("File exceeds 5MB limit");
+    throw new ResumeExtractionError("File exceeds 5MB limit");
   }
 
   const parser = new PDFParse({ data: buffer });
@@ -26,7 +27,7 @@ export async function extractTextFromPdf(buffer: Buffer): Promise<string> {
     const text = result.text.trim();
 
     if (!text || text.length < 50) {
-      throw new Error("Could not extract meaningful text from PDF. The file may be image-based or empty.");
+      throw new ResumeExtractionError("Could not extract meaningful text from PDF. The file may be image-based or empty.");
     }
 
     return text;
@@ -35,18 +36,23 @@ export async function extractTextFromPdf(buffer: Buffer): Promise<string> {
   }
 }
 
-export async function extractResumeProfile(resumeText: string): Promise<ResumeProfile> {
-  const env = getServerEnv();
-
+export async function extractResumeProfile(
+  resumeText: string,
+  usageMeter?: UsageMeter,
+  abortSignal?: AbortSignal
+): Promise<ResumeProfile> {
   // Truncate very long resumes to avoid token limits
   const truncated = resumeText.slice(0, 15_000);
+  const models = getModelProvider();
 
   const result = await generateObject({
-    model: openai(env.OPENAI_MODEL),
+    model: models.languageModel("resumeExtraction"),
     schema: resumeProfileSchema,
     system: resumeExtractionPrompt,
     prompt: `Here is the resume text to analyze:\n\n${truncated}`,
+    abortSignal,
   });
+  usageMeter?.record(models.modelId("resumeExtraction"), result.usage);
 
   return result.object;
 }
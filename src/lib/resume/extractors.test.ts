@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/models/server", () => ({
+  getModelProvider: () => {
+    throw new Error("Models are not used by text extraction");
+  },
+}));
+
+const { detectResumeFormat, docxXmlToText, extractResumeText, rtfToText } = await import("@/lib/resume/extractors");
+const { RESUME_FORMATS, ResumeExtractionError } = await import("@/lib/resume/formats");
+
+const DOCUMENT_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>',
+  "<w:p><w:r><w:t>Dana Okafor</w:t></w:r></w:p>",
+  '<w:p><w:r><w:t xml:space="preserve">Staff engineer, payments &amp; risk </w:t></w:r><w:r><w:tab/><w:t>2019–2024</w:t></w:r></w:p>',
+  "<w:p><w:r><w:delText>Removed line</w:delText></w:r><w:r><w:t>Built fraud scoring for card issuing at a neobank</w:t></w:r></w:p>",
+  "</w:body></w:document>",
+].join("");
+
+/**
+ * Minimal zip writer: deflated entries with local headers and a central directory (CRCs are not checked on read).
+ * `method` only changes the recorded compression method, to build archives the reader must refuse.
+ */
+function buildZip(entries: Record<string, string>, { method = 8 }: { method?: number } = {}): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name);
+    const raw = Buffer.from(content);
+    const data = deflateRawSync(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    directory.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directoryBytes = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directoryBytes.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directoryBytes, end]);
+}
+
+describe("detectResumeFormat", () => {
+  it("trusts the file's bytes over its declared type", () => {
+    const docx = buildZip({ "[Content_Types].xml": "<Types/>", "word/document.xml": DOCUMENT_XML });
+
+    expect(detectResumeFormat(docx, "resume.pdf", "application/pdf")?.id).toBe("docx");
+    expect(detectResumeFormat(Buffer.from("%PDF-1.7\n..."), "resume", "")?.id).toBe("pdf");
+    expect(detectResumeFormat(Buffer.from("{\\rtf1\\ansi Dana}"), "resume.txt", "text/plain")?.id).toBe("rtf");
+    expect(detectResumeFormat(Buffer.from("# Dana Okafor\n"), "resume.md", "")?.id).toBe("markdown");
+    expect(detectResumeFormat(Buffer.from("Dana Okafor\n"), "resume.txt", "text/plain")?.id).toBe("text");
+  });
+
+  it("rejects binaries that are not a known document", () => {
+    expect(detectResumeFormat(buildZip({ "photo.png": "x" }), "resume.docx", ""), "zip without a Word body").toBeNull();
+    expect(detectResumeFormat(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0]), "resume.doc", "")).toBeNull();
+    expect(detectResumeFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]), "resume.txt", "text/plain")).toBeNull();
+  });
+
+  it("reads only the zip directory, and refuses a zip without one", () => {
+    const lzma = buildZip({ "word/document.xml": DOCUMENT_XML }, { method: 14 });
+
+    expect(detectResumeFormat(lzma, "resume.docx", "")?.id).toBe("docx");
+    expect(() => detectResumeFormat(lzma.subarray(0, 40), "resume.docx", "")).toThrow(ResumeExtractionError);
+  });
+});
+
+describe("extractResumeText", () => {
+  it("reads paragraphs and tabs from a Word document", async () => {
+    const docx = buildZip({ "word/document.xml": DOCUMENT_XML });
+
+    expect(await extractResumeText(RESUME_FORMATS.docx, docx)).toBe(
+      "Dana Okafor\nStaff engineer, payments & risk \t2019–2024\nBuilt fraud scoring for card issuing at a neobank"
+    );
+  });
+
+  it("refuses Word documents with unsupported compression or a body over the size cap", async () => {
+    const lzma = buildZip({ "word/document.xml": DOCUMENT_XML }, { method: 14 });
+    const oversized = buildZip({ "word/document.xml": "a".repeat(26 * 1024 * 1024) });
+
+    await expect(extractResumeText(RESUME_FORMATS.docx, lzma)).rejects.toThrow(ResumeExtractionError);
+    await expect(extractResumeText(RESUME_FORMATS.docx, oversized)).rejects.toThrow(
+      "Could not read the Word document. The file may be damaged."
+    );
+  });
+
+  it("feeds pasted and plain text through unchanged apart from whitespace", async () => {
+    const pasted = "About\r\nPayments engineer.   \r\n\r\n\r\n\r\nExperience\r\nStaff engineer at a neobank, fraud and risk.";
+
+    expect(await extractResumeText(RESUME_FORMATS.pasted, Buffer.from(pasted))).toBe(
+      "About\nPayments engineer.\n\nExperience\nStaff engineer at a neobank, fraud and risk."
+    );
+  });
+
+  it("refuses text too short to build a profile and files over the format limit", async () => {
+    await expect(extractResumeText(RESUME_FORMATS.text, Buffer.from("Dana Okafor"))).rejects.toThrow(
+      "Could not extract meaningful text from the Text file."
+    );
+    await expect(
+      extractResumeText(RESUME_FORMATS.pasted, Buffer.alloc(RESUME_FORMATS.pasted.maxBytes + 1, "a"))
+    ).rejects.toThrow("size limit");
+  });
+});
+
+describe("rtfToText", () => {
+  it("keeps document text and drops font tables, hidden destinations and fallbacks", () => {
+    const rtf =
+      "{\\rtf1\\ansi\\ansicpg1252{\\fonttbl{\\f0 Calibri;}}{\\*\\generator Word;}" +
+      "\\f0 Dana Okafor\\par Caf\\'e9 owner \\u8211?\\uc0\\u8364  payments\\tab 2024\\par}";
+
+    expect(rtfToText(rtf)).toBe("Dana Okafor\nCafé owner –€ payments\t2024\n");
+  });
+});
+
+describe("docxXmlToText", () => {
+  it("decodes entities and line breaks", () => {
+    expect(docxXmlToText("<w:p><w:r><w:t>R&amp;D &#8211; ML</w:t><w:br/><w:t>&lt;lead&gt;</w:t></w:r></w:p>")).toBe(
+      "R&D – ML\n<lead>\n"
+    );
+  });
+});
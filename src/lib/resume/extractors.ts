@@ -0,0 +1,338 @@
+import { inflateRawSync } from "node:zlib";
+
+import { extractTextFromPdf } from "@/lib/resume/extract";
+import {
+  declaredResumeFormat,
+  RESUME_FORMATS,
+  ResumeExtractionError,
+  UNREADABLE_RESUME_MESSAGE,
+  type ResumeFormat,
+  type ResumeFormatId,
+} from "@/lib/resume/formats";
+
+/** Below this the profile extraction has nothing to work with. */
+const MIN_RESUME_TEXT_LENGTH = 50;
+/** DOCX parts are inflated in memory; a real document.xml is a few MB at most. */
+const MAX_ZIP_ENTRY_BYTES = 25 * 1024 * 1024;
+const SNIFF_BYTES = 8192;
+
+const PDF_MAGIC = Buffer.from("%PDF-");
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const RTF_MAGIC = Buffer.from("{\\rtf");
+/** Legacy Word `.doc` (OLE compound file). */
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+
+const DOCX_BODY_ENTRY = "word/document.xml";
+const DAMAGED_DOCX_MESSAGE = "Could not read the Word document. The file may be damaged.";
+
+export const LEGACY_WORD_MESSAGE = "Older .doc files are not supported. Save the resume as .docx or PDF and try again.";
+
+type ResumeTextExtractor = (bytes: Buffer) => Promise<string>;
+
+function startsWith(bytes: Buffer, magic: Buffer): boolean {
+  return bytes.length >= magic.length && bytes.subarray(0, magic.length).equals(magic);
+}
+
+function looksLikeText(bytes: Buffer): boolean {
+  return startsWith(bytes, UTF16LE_BOM) || !bytes.subarray(0, SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Identifies an uploaded file by its leading bytes, so a renamed or mislabeled file is still read
+ * correctly. Text has no magic bytes, so the declared type only decides between Markdown and text.
+ * Returns null for anything else, including legacy `.doc` (see `isLegacyWordDocument`). Never
+ * decompresses anything: a zip is a Word document when its directory lists a document body, and
+ * a zip without a readable directory throws a `ResumeExtractionError`.
+ */
+export function detectResumeFormat(bytes: Buffer, fileName: string, mimeType: string): ResumeFormat | null {
+  if (startsWith(bytes, PDF_MAGIC)) {
+    return RESUME_FORMATS.pdf;
+  }
+  if (startsWith(bytes, ZIP_MAGIC)) {
+    return findZipEntry(bytes, DOCX_BODY_ENTRY) ? RESUME_FORMATS.docx : null;
+  }
+  if (startsWith(bytes, RTF_MAGIC)) {
+    return RESUME_FORMATS.rtf;
+  }
+  if (startsWith(bytes, OLE_MAGIC) || !looksLikeText(bytes)) {
+    return null;
+  }
+
+  return declaredResumeFormat(fileName, mimeType)?.id === "markdown" ? RESUME_FORMATS.markdown : RESUME_FORMATS.text;
+}
+
+export function isLegacyWordDocument(bytes: Buffer): boolean {
+  return startsWith(bytes, OLE_MAGIC);
+}
+
+function decodeText(bytes: Buffer): string {
+  if (startsWith(bytes, UTF16LE_BOM)) {
+    return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+  }
+  // TextDecoder drops a UTF-8 BOM; invalid sequences become U+FFFD instead of failing.
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeader: number;
+}
+
+/**
+ * Looks `entryName` up in a zip archive's central directory without reading its data. Throws when
+ * there is no readable directory, e.g. for a truncated file.
+ */
+function findZipEntry(bytes: Buffer, entryName: string): ZipEntry | null {
+  const endOfDirectory = bytes.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (endOfDirectory < 0 || endOfDirectory + 22 > bytes.length) {
+    throw new ResumeExtractionError(UNREADABLE_RESUME_MESSAGE);
+  }
+
+  const entryCount = bytes.readUInt16LE(endOfDirectory + 10);
+  let offset = bytes.readUInt32LE(endOfDirectory + 16);
+  for (let index = 0; index < entryCount && offset + 46 <= bytes.length; index += 1) {
+    if (bytes.readUInt32LE(offset) !== 0x02014b50) {
+      throw new ResumeExtractionError(UNREADABLE_RESUME_MESSAGE);
+    }
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const name = bytes.toString("utf8", offset + 46, offset + 46 + nameLength);
+    if (name === entryName) {
+      return {
+        method: bytes.readUInt16LE(offset + 10),
+        compressedSize: bytes.readUInt32LE(offset + 20),
+        localHeader: bytes.readUInt32LE(offset + 42),
+      };
+    }
+    offset += 46 + nameLength + bytes.readUInt16LE(offset + 30) + bytes.readUInt16LE(offset + 32);
+  }
+
+  return null;
+}
+
+/**
+ * Reads one entry of a zip archive. Only stored and deflated entries are supported, which is all
+ * Office writes; others, and entries that inflate past `MAX_ZIP_ENTRY_BYTES`, throw.
+ */
+function readZipEntry(bytes: Buffer, entryName: string): Buffer | null {
+  const entry = findZipEntry(bytes, entryName);
+  if (!entry) {
+    return null;
+  }
+
+  const { localHeader } = entry;
+  if (localHeader + 30 > bytes.length || bytes.readUInt32LE(localHeader) !== 0x04034b50) {
+    return null;
+  }
+  const dataStart = localHeader + 30 + bytes.readUInt16LE(localHeader + 26) + bytes.readUInt16LE(localHeader + 28);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+  if (entry.method === 0) {
+    return data;
+  }
+  if (entry.method !== 8) {
+    throw new ResumeExtractionError(UNREADABLE_RESUME_MESSAGE);
+  }
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_BYTES });
+  } catch {
+    // Corrupt data, or a body over the size cap.
+    throw new ResumeExtractionError(DAMAGED_DOCX_MESSAGE);
+  }
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[lower] ?? "";
+  });
+}
+
+/** Paragraphs, tabs and line breaks of `word/document.xml` as plain text; tracked deletions and field codes are left out. */
+export function docxXmlToText(xml: string): string {
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:(delText|instrText)\b[^>]*>[\s\S]*?<\/w:\1>/g, "")
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\b[^>]*\/>/g, "\n")
+      .replace(/<\/w:p>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+async function extractTextFromDocx(bytes: Buffer): Promise<string> {
+  const documentXml = readZipEntry(bytes, DOCX_BODY_ENTRY);
+  if (!documentXml) {
+    throw new ResumeExtractionError(DAMAGED_DOCX_MESSAGE);
+  }
+  return docxXmlToText(documentXml.toString("utf8"));
+}
+
+/** Groups whose content is metadata, not document text. */
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "listtable",
+  "listoverridetable",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "footer",
+  "headerl",
+  "headerr",
+  "footerl",
+  "footerr",
+  "themedata",
+  "datastore",
+  "latentstyles",
+  "rsidtbl",
+  "generator",
+  "xmlnstbl",
+]);
+
+/**
+ * Plain text of an RTF document: paragraph and line controls become newlines, `\'hh` bytes are read
+ * as Windows-1252 and `\uN` as Unicode (skipping its `\ucN` fallback characters).
+ */
+export function rtfToText(rtf: string): string {
+  const cp1252 = new TextDecoder("windows-1252");
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  let output = "";
+  let index = 0;
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip -= 1;
+      return;
+    }
+    if (!skip) {
+      output += text;
+    }
+  };
+
+  while (index < rtf.length) {
+    const char = rtf[index];
+
+    if (char === "{") {
+      stack.push({ skip, unicodeSkip });
+      index += 1;
+      continue;
+    }
+    if (char === "}") {
+      const previous = stack.pop();
+      skip = previous?.skip ?? false;
+      unicodeSkip = previous?.unicodeSkip ?? 1;
+      index += 1;
+      continue;
+    }
+    if (char === "\r" || char === "\n") {
+      index += 1;
+      continue;
+    }
+    if (char !== "\\") {
+      emit(char);
+      index += 1;
+      continue;
+    }
+
+    const next = rtf[index + 1] ?? "";
+    if (next === "\\" || next === "{" || next === "}") {
+      emit(next);
+      index += 2;
+      continue;
+    }
+    if (next === "'") {
+      emit(cp1252.decode(Uint8Array.of(Number.parseInt(rtf.slice(index + 2, index + 4), 16) || 0x3f)));
+      index += 4;
+      continue;
+    }
+    if (next === "*") {
+      skip = true;
+      index += 2;
+      continue;
+    }
+    if (next === "~") {
+      emit(" ");
+      index += 2;
+      continue;
+    }
+    if (next === "\n" || next === "\r") {
+      emit("\n");
+      index += 2;
+      continue;
+    }
+
+    const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(index + 1, index + 40));
+    if (!match) {
+      index += 2;
+      continue;
+    }
+    index += 1 + match[0].length;
+    pendingSkip = 0;
+    const [, word, parameter] = match;
+
+    if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+      skip = true;
+    } else if (word === "par" || word === "line" || word === "sect" || word === "page" || word === "row") {
+      emit("\n");
+    } else if (word === "tab" || word === "cell") {
+      emit("\t");
+    } else if (word === "uc") {
+      unicodeSkip = Number(parameter ?? 1);
+    } else if (word === "u" && parameter !== undefined) {
+      const codeUnit = Number(parameter);
+      emit(String.fromCharCode(codeUnit < 0 ? codeUnit + 65_536 : codeUnit));
+      pendingSkip = unicodeSkip;
+    }
+  }
+
+  return output;
+}
+
+const EXTRACTORS: Record<ResumeFormatId, ResumeTextExtractor> = {
+  pdf: extractTextFromPdf,
+  docx: extractTextFromDocx,
+  // RTF is 7-bit ASCII; non-ASCII text is escaped inside it.
+  rtf: async (bytes) => rtfToText(bytes.toString("latin1")),
+  markdown: async (bytes) => decodeText(bytes),
+  text: async (bytes) => decodeText(bytes),
+  pasted: async (bytes) => decodeText(bytes),
+};
+
+/**
+ * Every format ends here, so `extractResumeProfile` always receives the same kind of text. Any file
+ * that cannot be read throws a `ResumeExtractionError`.
+ */
+export async function extractResumeText(format: ResumeFormat, bytes: Buffer): Promise<string> {
+  if (bytes.length > format.maxBytes) {
+    throw new ResumeExtractionError(`File exceeds the ${format.label} size limit`);
+  }
+
+  let extracted: string;
+  try {
+    extracted = await EXTRACTORS[format.id](bytes);
+  } catch (error) {
+    // Parser errors (e.g. from pdf-parse) describe the file's internals, not what the candidate can do.
+    throw error instanceof ResumeExtractionError ? error : new ResumeExtractionError(UNREADABLE_RESUME_MESSAGE);
+  }
+  const text = extracted
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (text.length < MIN_RESUME_TEXT_LENGTH) {
+    throw new ResumeExtractionError(`Could not extract meaningful text from the ${format.id === "pasted" ? "pasted text" : `${format.label} file`}.`);
+  }
+  return text;
+}
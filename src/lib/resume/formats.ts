@@ -0,0 +1,76 @@
+export const RESUME_FORMAT_IDS = ["pdf", "docx", "rtf", "markdown", "text", "pasted"] as const;
+
+export type ResumeFormatId = (typeof RESUME_FORMAT_IDS)[number];
+
+/** What the upload zone and `POST /api/resume/jobs` accept; the server extractors live in `extractors.ts`. */
+export interface ResumeFormat {
+  id: ResumeFormatId;
+  label: string;
+  mimeTypes: string[];
+  /** Lowercase, with the dot. Browsers often send no MIME type for `.md` and `.rtf`. */
+  extensions: string[];
+  maxBytes: number;
+}
+
+const MB = 1024 * 1024;
+const KB = 1024;
+
+export const RESUME_FORMATS: Record<ResumeFormatId, ResumeFormat> = {
+  pdf: { id: "pdf", label: "PDF", mimeTypes: ["application/pdf"], extensions: [".pdf"], maxBytes: 5 * MB },
+  docx: {
+    id: "docx",
+    label: "Word",
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: [".docx"],
+    maxBytes: 5 * MB,
+  },
+  rtf: { id: "rtf", label: "RTF", mimeTypes: ["application/rtf", "text/rtf"], extensions: [".rtf"], maxBytes: 2 * MB },
+  markdown: {
+    id: "markdown",
+    label: "Markdown",
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+    extensions: [".md", ".markdown"],
+    maxBytes: 512 * KB,
+  },
+  text: { id: "text", label: "Text", mimeTypes: ["text/plain"], extensions: [".txt"], maxBytes: 512 * KB },
+  /** Resume or LinkedIn profile pasted into the upload zone; sent as the `text` form field. */
+  pasted: { id: "pasted", label: "Pasted text", mimeTypes: [], extensions: [], maxBytes: 100 * KB },
+};
+
+const FILE_FORMATS = RESUME_FORMAT_IDS.filter((id) => id !== "pasted").map((id) => RESUME_FORMATS[id]);
+
+/** Largest file any format accepts; the route refuses bigger uploads before reading them. */
+export const MAX_RESUME_FILE_BYTES = Math.max(...FILE_FORMATS.map((format) => format.maxBytes));
+
+/** `accept` attribute for the file input. */
+export const RESUME_FILE_ACCEPT = FILE_FORMATS.flatMap((format) => [...format.mimeTypes, ...format.extensions]).join(",");
+
+export const UNSUPPORTED_RESUME_FORMAT_MESSAGE =
+  "Unsupported file type. Upload a PDF, Word (.docx), RTF, Markdown or text file, or paste your resume.";
+
+export const UNREADABLE_RESUME_MESSAGE = "Unsupported or unreadable resume file";
+
+/** An upload that cannot be read as a resume; the message is safe to show to the candidate. */
+export class ResumeExtractionError extends Error {}
+
+/** The format a file claims to be, from its MIME type or else its extension. The server also sniffs the bytes. */
+export function declaredResumeFormat(fileName: string, mimeType: string): ResumeFormat | null {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  const byType = type ? FILE_FORMATS.find((format) => format.mimeTypes.includes(type)) : undefined;
+  if (byType) {
+    return byType;
+  }
+
+  const name = fileName.toLowerCase();
+  return FILE_FORMATS.find((format) => format.extensions.some((extension) => name.endsWith(extension))) ?? null;
+}
+
+export function formatSizeLimit(bytes: number): string {
+  return bytes >= MB ? `${Math.round(bytes / MB)}MB` : `${Math.round(bytes / KB)}KB`;
+}
+
+export function sizeLimitMessage(format: ResumeFormat): string {
+  return format.id === "pasted"
+    ? `Pasted text must be under ${formatSizeLimit(format.maxBytes)}`
+    : `${format.label} files must be under ${formatSizeLimit(format.maxBytes)}`;
+}
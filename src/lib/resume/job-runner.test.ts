@@ -0,0 +1,166 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createInMemorySupabase, type InMemorySupabase } from "@/lib/mock/in-memory-supabase";
+import { createScriptedModelProvider, type ScriptedModelProvider } from "@/lib/mock/scripted-models";
+import {
+  cancelResumeJob,
+  createResumeJob,
+  getResumeJob,
+  RESUME_JOB_INTERRUPTED_MESSAGE,
+  RESUME_JOB_MAX_DURATION_S,
+  RESUME_JOB_STAGE_TIMEOUTS_MS,
+  RESUME_JOB_STAGES,
+  restartResumeJob,
+  resumeJobStagesFrom,
+  resumeJobView,
+  type ResumeJobRow,
+} from "@/lib/resume/resume-jobs";
+import { EMPTY_RESUME_PREFERENCES, type ResumeProfile, type SearchPlan } from "@/lib/resume/schemas";
+
+const harness = vi.hoisted(() => ({
+  supabase: null as InMemorySupabase | null,
+  models: null as ScriptedModelProvider | null,
+}));
+
+vi.mock("@/lib/supabase/server", () => ({
+  getSupabaseServerClient: () => {
+    if (!harness.supabase) {
+      throw new Error("In-memory Supabase not installed");
+    }
+    return harness.supabase.client;
+  },
+}));
+
+vi.mock("@/lib/models/server", () => ({
+  getModelProvider: () => {
+    if (!harness.models) {
+      throw new Error("Scripted models not installed");
+    }
+    return harness.models;
+  },
+}));
+
+const { runResumeJob } = await import("@/lib/resume/job-runner");
+
+const USER_ID = "5b0f3a7e-2c1d-4e8f-9a6b-3d2c1b0a9f8e";
+
+const profile: ResumeProfile = {
+  experienceAreas: [{ domain: "financial crime compliance", context: "Built AML screening at a neobank", yearsApprox: 5 }],
+  industriesWorked: ["Fintech"],
+  problemSpaces: ["sanctions screening", "fraud prevention"],
+  productTypes: ["B2B SaaS"],
+  customerSegments: ["banks"],
+  totalYearsExperience: 7,
+  summary: "Compliance engineer focused on AML and fraud tooling for banks.",
+};
+
+const plan: SearchPlan = {
+  coreSearches: [{ query: "aml sanctions screening", searchType: "keyword", rationale: "Direct AML experience" }],
+  adjacentSearches: [],
+  taxonomyFilters: [{ sectors: ["Fintech"], categories: ["Fraud Prevention"], rationale: "Fraud tooling" }],
+};
+
+const resumeText = "Seven years building AML screening, sanctions checks and fraud tooling for banks and neobanks.";
+
+async function uploadedJob(supabase: InMemorySupabase): Promise<ResumeJobRow> {
+  return createResumeJob(supabase.client, USER_ID, {
+    formatId: "pasted",
+    name: "Pasted text",
+    bytes: Buffer.from(resumeText),
+  });
+}
+
+afterEach(() => {
+  harness.supabase = null;
+  harness.models = null;
+});
+
+describe("runResumeJob", () => {
+  it("pauses for the review, then retries a failed stage without redoing earlier ones", async () => {
+    const supabase = createInMemorySupabase();
+    harness.supabase = supabase;
+    let planningFails = true;
+    harness.models = createScriptedModelProvider({
+      resume: {
+        resumeExtraction: { object: profile },
+        resumePlanning: () => {
+          if (planningFails) {
+            throw new Error("Planner overloaded");
+          }
+          return { object: plan };
+        },
+      },
+    });
+    const uploaded = await uploadedJob(supabase);
+
+    const reviewed = await runResumeJob(uploaded, "extract", { client: supabase.client });
+
+    expect(reviewed.status).toBe("review");
+    expect(reviewed.state.upload, "the upload is dropped once extracted").toBeUndefined();
+    expect(supabase.tables.get("resume_job_uploads"), "and its file deleted").toEqual([]);
+    expect(reviewed.stages.analyze).toMatchObject({ status: "completed", detail: "1 experience areas, 7 years" });
+    expect(resumeJobView(reviewed)).toMatchObject({ profile, stage: "analyze", error: null });
+
+    const claimed = await restartResumeJob(supabase.client, reviewed, "plan", {
+      ...reviewed.state,
+      preferences: EMPTY_RESUME_PREFERENCES,
+    });
+    const failed = await runResumeJob(claimed!, "plan", { client: supabase.client });
+
+    expect(failed).toMatchObject({ status: "failed", stage: "plan", run_id: null });
+    expect(resumeJobView(failed).error).toContain("Planner overloaded");
+    expect(failed.stages.search.status).toBe("pending");
+
+    planningFails = false;
+    const retried = await restartResumeJob(supabase.client, failed, failed.stage);
+    expect(await restartResumeJob(supabase.client, failed, failed.stage), "only one retry claims the job").toBeNull();
+    const completed = await runResumeJob(retried!, "plan", { client: supabase.client });
+
+    expect(completed.status).toBe("completed");
+    expect(completed.progress).toMatchObject({ completed: 2, total: 2 });
+    expect(completed.stages.roles.detail).toBe("Job boards are not checked");
+    expect(harness.models.calls.filter((call) => call.slot === "resumeExtraction")).toHaveLength(1);
+    const run = supabase.tables.get("resume_runs")?.find((row) => row.id === completed.run_id);
+    expect(run?.raw_scores).toHaveProperty("sandbar-ai");
+  });
+
+  it("stops at its next write once the job is cancelled", async () => {
+    const supabase = createInMemorySupabase();
+    harness.supabase = supabase;
+    harness.models = createScriptedModelProvider({
+      resume: {
+        resumeExtraction: () => {
+          void cancelResumeJob(supabase.client, USER_ID, uploaded.id);
+          return { object: profile };
+        },
+      },
+    });
+    const uploaded = await uploadedJob(supabase);
+
+    await runResumeJob(uploaded, "extract", { client: supabase.client });
+
+    const stored = await getResumeJob(supabase.client, USER_ID, uploaded.id);
+    expect(stored?.status).toBe("cancelled");
+    expect(stored?.state.profile).toBeUndefined();
+    expect(stored?.stages.analyze.status).toBe("pending");
+  });
+
+  it("reports a job whose stage stopped responding as failed", async () => {
+    const supabase = createInMemorySupabase();
+    const job = await uploadedJob(supabase);
+
+    const view = resumeJobView(job, new Date(Date.parse(job.updated_at) + 10 * 60_000));
+
+    expect(view.status).toBe("failed");
+    expect(view.error).toBe(RESUME_JOB_INTERRUPTED_MESSAGE);
+    expect(resumeJobView(job).status).toBe("running");
+  });
+
+  it("fits every run of stages in the time limit of the request that starts it", () => {
+    for (const stage of RESUME_JOB_STAGES) {
+      const totalMs = resumeJobStagesFrom(stage).reduce((sum, next) => sum + RESUME_JOB_STAGE_TIMEOUTS_MS[next], 0);
+      expect(totalMs, `stages from ${stage}`).toBeLessThan(RESUME_JOB_MAX_DURATION_S * 1000);
+    }
+  });
+});
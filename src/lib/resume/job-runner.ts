@@ -0,0 +1,282 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { loadOpenRoles, matchOpenRoles, type CompanyOpenRoles, type OpenRolesSources } from "@/lib/jobs/open-roles";
+import { extractResumeProfile } from "@/lib/resume/extract";
+import { extractResumeText } from "@/lib/resume/extractors";
+import { RESUME_FORMATS } from "@/lib/resume/formats";
+import {
+  PROFILE_REVIEW_STAGE,
+  RESUME_JOB_STAGE_LABELS,
+  RESUME_JOB_STAGE_TIMEOUTS_MS,
+  deleteResumeJobUpload,
+  pendingStage,
+  readResumeJobUpload,
+  resumeJobStagesFrom,
+  updateResumeJob,
+  type ResumeJobPatch,
+  type ResumeJobRow,
+  type ResumeJobSearchProgress,
+  type ResumeJobStage,
+  type ResumeJobState,
+} from "@/lib/resume/resume-jobs";
+import { restoreResumeRun, saveResumeRun, saveResumeRunOpenRoles } from "@/lib/resume/resume-runs";
+import { EMPTY_RESUME_PREFERENCES } from "@/lib/resume/schemas";
+import { executeSearchPlan, fetchAndGroupResults, generateSearchPlan } from "@/lib/resume/search-strategy";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+import type { UsageMeter } from "@/lib/usage/usage-meter";
+
+export interface RunResumeJobOptions {
+  /** Scoped to the job's owner; the job and its stored run are written with it. */
+  client: SupabaseClient;
+  usageMeter?: UsageMeter;
+  /** Null when job boards are turned off; the roles stage then has nothing to do. */
+  openRolesSources?: OpenRolesSources | null;
+  /** Cancels the stage in progress, e.g. when the job is cancelled on this server. */
+  signal?: AbortSignal;
+}
+
+/** Shown while a stage runs; a finished stage reports what it found instead. */
+const RUNNING_DETAILS: Record<ResumeJobStage, string> = {
+  extract: "Reading the upload",
+  analyze: "Identifying domains and expertise",
+  plan: "Generating targeted queries",
+  search: "Running searches",
+  group: "Grouping companies",
+  roles: "Reading company job boards",
+};
+
+interface StageOutcome {
+  detail: string;
+  state?: Partial<ResumeJobState>;
+  runId?: string;
+  /** Runs once the outcome is stored, so a stage that fails or is cancelled can still be retried from its input. */
+  cleanup?: () => Promise<void>;
+}
+
+interface StageContext {
+  job: ResumeJobRow;
+  options: RunResumeJobOptions;
+  signal: AbortSignal;
+  reportProgress: (progress: ResumeJobSearchProgress) => void;
+}
+
+export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    promise
+      .then((value) => {
+        clearTimeout(timer);
+        resolve(value);
+      })
+      .catch((error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+  });
+}
+
+function requireOutput<T>(value: T | undefined, stage: ResumeJobStage): T {
+  if (value === undefined) {
+    throw new Error(`${RESUME_JOB_STAGE_LABELS[stage]} has not finished; retry it first.`);
+  }
+  return value;
+}
+
+async function runStage(stage: ResumeJobStage, { job, options, signal, reportProgress }: StageContext): Promise<StageOutcome> {
+  const { state } = job;
+  const stageOptions = { usageMeter: options.usageMeter, abortSignal: signal, preferences: state.preferences };
+
+  switch (stage) {
+    case "extract": {
+      const upload = state.upload;
+      const bytes = upload ? await readResumeJobUpload(options.client, job) : null;
+      if (!upload || !bytes) {
+        throw new Error("The upload is no longer stored. Upload the resume again.");
+      }
+      const resumeText = await extractResumeText(RESUME_FORMATS[upload.formatId], bytes);
+      return {
+        detail: `${resumeText.length} characters`,
+        state: { upload: undefined, resumeText },
+        cleanup: () => deleteResumeJobUpload(options.client, job),
+      };
+    }
+    case "analyze": {
+      const profile = await extractResumeProfile(requireOutput(state.resumeText, "extract"), options.usageMeter, signal);
+      return {
+        detail: `${profile.experienceAreas.length} experience areas, ${profile.totalYearsExperience} years`,
+        state: { profile, preferences: EMPTY_RESUME_PREFERENCES },
+      };
+    }
+    case "plan": {
+      const searchPlan = await generateSearchPlan(requireOutput(state.profile, "analyze"), stageOptions);
+      const totalQueries = searchPlan.coreSearches.length + searchPlan.adjacentSearches.length + searchPlan.taxonomyFilters.length;
+      return { detail: `${totalQueries} targeted queries`, state: { searchPlan } };
+    }
+    case "search": {
+      const { results, adjacentIds } = await executeSearchPlan(
+        requireOutput(state.searchPlan, "plan"),
+        (completed, total, currentQuery) => reportProgress({ completed, total, currentQuery }),
+        stageOptions
+      );
+      return {
+        detail: `Found ${results.size} unique companies`,
+        state: { search: { results: Array.from(results.values()), adjacentIds: Array.from(adjacentIds) } },
+      };
+    }
+    case "group": {
+      const search = requireOutput(state.search, "search");
+      const profile = requireOutput(state.profile, "analyze");
+      const results = new Map(search.results.map((result) => [result.companyId, result]));
+      const { grouped, preferenceFit, matchScores } = await fetchAndGroupResults(
+        results,
+        new Set(search.adjacentIds),
+        profile,
+        stageOptions
+      );
+      const run = await saveResumeRun(options.client, job.user_id, crypto.randomUUID(), {
+        profile,
+        preferences: state.preferences ?? EMPTY_RESUME_PREFERENCES,
+        search_plan: requireOutput(state.searchPlan, "plan"),
+        raw_scores: Object.fromEntries(search.results.map((result) => [result.companyId, result.score])),
+        grouped_results: grouped,
+        preference_fit: preferenceFit ?? null,
+        match_scores: matchScores,
+      });
+      return { detail: `${grouped.groups.length} groups + Feeling Lucky`, runId: run.id };
+    }
+    case "roles": {
+      if (!options.openRolesSources || !job.run_id) {
+        return { detail: "Job boards are not checked" };
+      }
+      const restored = await restoreResumeRun(options.client, job.user_id, job.run_id, getSupabaseServerClient());
+      if (!restored) {
+        throw new Error("Resume run not found");
+      }
+      const rolesByCompany = await loadOpenRoles(Object.values(restored.companiesById), options.openRolesSources, { signal });
+      const openRoles: Record<string, CompanyOpenRoles> = {};
+      for (const [companyId, roles] of rolesByCompany) {
+        openRoles[companyId] = matchOpenRoles(roles, restored.run.profile);
+      }
+      await saveResumeRunOpenRoles(options.client, job.user_id, job.run_id, openRoles);
+      const hiring = Object.values(openRoles).filter((roles) => roles.relevantCount > 0).length;
+      return { detail: `${hiring} of ${rolesByCompany.size} job boards have relevant roles` };
+    }
+  }
+}
+
+/**
+ * Runs the job's stages from `from` up to the next pause (the profile review, or the end), storing
+ * each stage's status and output as it goes. A failed stage is stored, not thrown, so it can be retried
+ * on its own. Stops without further writes once the job changed elsewhere, e.g. was cancelled.
+ * Returns the job as last written.
+ */
+export async function runResumeJob(job: ResumeJobRow, from: ResumeJobStage, options: RunResumeJobOptions): Promise<ResumeJobRow> {
+  const logId = job.id.slice(0, 8);
+  const startedAtMs = Date.now();
+  const elapsedMs = () => Date.now() - startedAtMs;
+  const controller = new AbortController();
+  const abortFromCaller = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) {
+    return job;
+  }
+  options.signal?.addEventListener("abort", abortFromCaller, { once: true });
+
+  let current = job;
+  // Writes go out one at a time so progress updates never race the stage that reports them.
+  let writes: Promise<unknown> = Promise.resolve();
+  const save = (patch: (latest: ResumeJobRow) => ResumeJobPatch): Promise<boolean> => {
+    const write = writes.then(async () => {
+      if (controller.signal.aborted) {
+        return false;
+      }
+      const updated = await updateResumeJob(options.client, current, patch(current));
+      if (!updated) {
+        controller.abort(new Error("Resume job changed elsewhere"));
+        return false;
+      }
+      current = updated;
+      return true;
+    });
+    writes = write.catch(() => undefined);
+    return write;
+  };
+
+  const stages = resumeJobStagesFrom(from);
+  try {
+    for (const stage of stages) {
+      console.info(`[resume:${logId}] ${stage}:start t=${elapsedMs()}ms`);
+      const started = await save((latest) => ({
+        status: "running",
+        stage,
+        stages: {
+          ...latest.stages,
+          [stage]: { ...pendingStage(), status: "running", detail: RUNNING_DETAILS[stage], startedAt: new Date().toISOString() },
+        },
+        progress: stage === "search" ? null : latest.progress,
+      }));
+      if (!started) {
+        return current;
+      }
+
+      let outcome: StageOutcome;
+      try {
+        outcome = await withTimeout(
+          runStage(stage, {
+            job: current,
+            options,
+            signal: controller.signal,
+            reportProgress: (progress) => void save(() => ({ progress })),
+          }),
+          RESUME_JOB_STAGE_TIMEOUTS_MS[stage],
+          RESUME_JOB_STAGE_LABELS[stage]
+        );
+      } catch (error) {
+        if (controller.signal.aborted) {
+          console.info(`[resume:${logId}] ${stage}:cancelled t=${elapsedMs()}ms`);
+          return current;
+        }
+        const message = error instanceof Error ? error.message : "Resume processing failed";
+        if (stage !== "roles") {
+          console.error(`[resume:${logId}] ${stage}:failed t=${elapsedMs()}ms message="${message}"`);
+          await save((latest) => ({
+            status: "failed",
+            stages: {
+              ...latest.stages,
+              [stage]: { ...latest.stages[stage], status: "failed", error: message, finishedAt: new Date().toISOString() },
+            },
+          }));
+          return current;
+        }
+        // Results are stored by now, so job boards that cannot be read only leave the role counts out.
+        console.warn(`[resume:${logId}] roles:failed message="${message}"`);
+        outcome = { detail: "Job boards unavailable" };
+      }
+
+      const isLast = stage === stages[stages.length - 1];
+      const finished = await save((latest) => ({
+        status: isLast ? (stage === PROFILE_REVIEW_STAGE ? "review" : "completed") : "running",
+        stages: {
+          ...latest.stages,
+          [stage]: { ...latest.stages[stage], status: "completed", detail: outcome.detail, finishedAt: new Date().toISOString() },
+        },
+        state: { ...latest.state, ...outcome.state },
+        run_id: outcome.runId ?? latest.run_id,
+      }));
+      if (!finished) {
+        return current;
+      }
+      console.info(`[resume:${logId}] ${stage}:done detail="${outcome.detail}" t=${elapsedMs()}ms`);
+      await outcome.cleanup?.().catch((error: unknown) => {
+        console.warn(`[resume:${logId}] ${stage}:cleanup failed`, error);
+      });
+    }
+    return current;
+  } finally {
+    options.signal?.removeEventListener("abort", abortFromCaller);
+    // Stops work a timed-out stage left behind.
+    controller.abort();
+  }
+}
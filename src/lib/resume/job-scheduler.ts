@@ -0,0 +1,60 @@
+import "server-only";
+import { unstable_after as after } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { getOpenRolesSources } from "@/lib/jobs/server";
+import { runResumeJob } from "@/lib/resume/job-runner";
+import type { ResumeJobRow, ResumeJobStage } from "@/lib/resume/resume-jobs";
+import { recordUsage, type LimitSubject, type UsageLimits } from "@/lib/usage/limits";
+import { createUsageMeter } from "@/lib/usage/usage-meter";
+
+/**
+ * Jobs running in this process, so a cancel handled here stops in-flight model calls right away. A job
+ * running elsewhere stops at its next write, which finds it cancelled.
+ */
+const runningJobs = new Map<string, AbortController>();
+
+export interface ScheduleResumeJobOptions {
+  client: SupabaseClient;
+  limits: UsageLimits;
+  limitSubject: LimitSubject;
+}
+
+/** Runs the job from `from` once the response is sent; usage is charged when it stops. */
+export function scheduleResumeJob(job: ResumeJobRow, from: ResumeJobStage, options: ScheduleResumeJobOptions): void {
+  const logId = job.id.slice(0, 8);
+
+  after(async () => {
+    const controller = new AbortController();
+    runningJobs.get(job.id)?.abort();
+    runningJobs.set(job.id, controller);
+    const usageMeter = createUsageMeter();
+    let status: string = job.status;
+
+    try {
+      const finished = await runResumeJob(job, from, {
+        client: options.client,
+        usageMeter,
+        openRolesSources: getOpenRolesSources(),
+        signal: controller.signal,
+      });
+      status = finished.status;
+    } catch (error) {
+      // Only job writes throw; the job reads as interrupted once its stage times out and can be retried.
+      console.error(`[resume:${logId}] job:write-failed`, error);
+    } finally {
+      if (runningJobs.get(job.id) === controller) {
+        runningJobs.delete(job.id);
+      }
+      const usage = usageMeter.totals();
+      await recordUsage(options.limits, options.limitSubject, usage);
+      console.info(
+        `[resume:${logId}] job:stopped status=${status} tokens=${usage.inputTokens}+${usage.outputTokens} cost=$${usage.costUsd.toFixed(4)}`
+      );
+    }
+  });
+}
+
+export function abortResumeJob(jobId: string): void {
+  runningJobs.get(jobId)?.abort();
+}
@@ -0,0 +1,21 @@
+/** Words too generic to say anything about a match between a resume and a company or role. */
+const STOPWORDS = new Set([
+  "and", "the", "for", "with", "from", "into", "using", "based", "across", "other",
+  "product", "products", "service", "services", "solution", "solutions", "tool", "tools", "team", "teams",
+  "company", "companies", "experience", "work", "building", "build",
+]);
+
+function stem(word: string): string {
+  return word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word;
+}
+
+/** Lowercased, lightly stemmed words of three or more letters, without stopwords. */
+export function keywordSet(text: string): Set<string> {
+  const keywords = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^a-z0-9+#]+/)) {
+    if (word.length >= 3 && !STOPWORDS.has(word)) {
+      keywords.add(stem(word));
+    }
+  }
+  return keywords;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { MOCK_COMPANIES } from "@/lib/mock/companies";
+import { scoreResumeMatch, strongestDimension } from "@/lib/resume/match-score";
+import type { ResumeProfile } from "@/lib/resume/schemas";
+import type { Company } from "@/types/company";
+
+const profile: ResumeProfile = {
+  experienceAreas: [
+    { domain: "fraud detection", context: "Built chargeback models at a PSP", yearsApprox: 6 },
+    { domain: "developer tooling", context: "Internal SDKs", yearsApprox: 1 },
+  ],
+  industriesWorked: ["Fintech"],
+  problemSpaces: ["payment fraud", "identity verification"],
+  productTypes: ["API platforms"],
+  customerSegments: ["online merchants"],
+  totalYearsExperience: 8,
+  summary: "Risk engineer for payments.",
+};
+
+function company(overrides: Partial<Company>): Company {
+  return {
+    ...MOCK_COMPANIES[0],
+    niches: [],
+    categories: [],
+    business_models: [],
+    description: null,
+    problem_solved: null,
+    product_description: null,
+    target_customer: null,
+    ...overrides,
+  };
+}
+
+describe("scoreResumeMatch", () => {
+  it("scores each dimension by keyword coverage and weights domains by years", () => {
+    const score = scoreResumeMatch(
+      profile,
+      company({
+        niches: ["Fraud Detection"],
+        categories: ["Payments"],
+        problem_solved: "Stops payment fraud before checkout.",
+        target_customer: "Online merchants and marketplaces",
+        product_description: "A dashboard for risk teams.",
+      })
+    );
+
+    expect(score.dimensions.domain).toEqual({ score: 86, matched: ["fraud detection"], comparable: true });
+    expect(score.dimensions.problemSpace).toEqual({ score: 50, matched: ["payment fraud"], comparable: true });
+    expect(score.dimensions.customerSegment.score).toBe(100);
+    expect(score.dimensions.productType).toEqual({ score: 0, matched: [], comparable: true });
+    // 0.35 * 86 + 0.3 * 50 + 0.15 * 100 + 0.2 * 0
+    expect(score.overall).toBe(60);
+    expect(strongestDimension(score)).toBe("customerSegment");
+  });
+
+  it("leaves dimensions without data out of the overall score", () => {
+    const score = scoreResumeMatch(
+      { ...profile, customerSegments: [] },
+      company({ niches: ["Fraud Detection", "Developer Tooling"] })
+    );
+
+    expect(score.dimensions.customerSegment.comparable).toBe(false);
+    expect(score.dimensions.productType.comparable).toBe(false);
+    // Niches also describe problem spaces: "fraud" covers half of "payment fraud".
+    expect(score.dimensions.problemSpace).toMatchObject({ score: 25, matched: ["payment fraud"] });
+    // Domain 100 and problem space 25, weighted 0.35 and 0.3.
+    expect(score.overall).toBe(65);
+    expect(strongestDimension(scoreResumeMatch(profile, company({})))).toBeNull();
+  });
+});
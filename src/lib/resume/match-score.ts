@@ -0,0 +1,133 @@
+import { keywordSet } from "@/lib/resume/keywords";
+import type { ResumeProfile } from "@/lib/resume/schemas";
+import type { Company } from "@/types/company";
+
+export const MATCH_DIMENSIONS = ["domain", "problemSpace", "customerSegment", "productType"] as const;
+
+export type MatchDimension = (typeof MATCH_DIMENSIONS)[number];
+
+export const MATCH_DIMENSION_LABELS: Record<MatchDimension, string> = {
+  domain: "Domain",
+  problemSpace: "Problem space",
+  customerSegment: "Customers",
+  productType: "Product type",
+};
+
+/** Share of the overall score per dimension; they sum to 1. */
+const MATCH_DIMENSION_WEIGHTS: Record<MatchDimension, number> = {
+  domain: 0.35,
+  problemSpace: 0.3,
+  customerSegment: 0.15,
+  productType: 0.2,
+};
+
+/** A profile entry counts as matched when the company covers at least half of its keywords. */
+const MATCHED_COVERAGE = 0.5;
+
+export interface DimensionScore {
+  /** 0-100: how much of the profile's entries the company's fields cover. */
+  score: number;
+  /** Profile entries the company matched, e.g. "fraud prevention". */
+  matched: string[];
+  /** False when the profile or the company has nothing to compare; the overall score leaves it out. */
+  comparable: boolean;
+}
+
+/** Deterministic resume/company fit: keyword overlap per dimension, combined into a weighted 0-100 score. */
+export interface MatchScore {
+  overall: number;
+  dimensions: Record<MatchDimension, DimensionScore>;
+}
+
+interface ProfileEntry {
+  text: string;
+  weight: number;
+}
+
+function profileEntries(profile: ResumeProfile, dimension: MatchDimension): ProfileEntry[] {
+  switch (dimension) {
+    case "domain":
+      // Longer experience in a domain counts for more of the domain score.
+      return profile.experienceAreas.map((area) => ({ text: area.domain, weight: Math.max(1, area.yearsApprox) }));
+    case "problemSpace":
+      return profile.problemSpaces.map((text) => ({ text, weight: 1 }));
+    case "customerSegment":
+      return profile.customerSegments.map((text) => ({ text, weight: 1 }));
+    case "productType":
+      return profile.productTypes.map((text) => ({ text, weight: 1 }));
+  }
+}
+
+function companyText(company: Company, dimension: MatchDimension): string {
+  const parts: Array<string | null> = (() => {
+    switch (dimension) {
+      case "domain":
+        return [...company.niches, ...company.categories];
+      case "problemSpace":
+        return [company.problem_solved, company.description, ...company.niches];
+      case "customerSegment":
+        return [company.target_customer, ...company.business_models];
+      case "productType":
+        return [company.product_description, ...company.business_models, ...company.categories];
+    }
+  })();
+  return parts.filter(Boolean).join(" ");
+}
+
+function scoreDimension(entries: ProfileEntry[], companyKeywords: Set<string>): DimensionScore {
+  let weightedCoverage = 0;
+  let totalWeight = 0;
+  const matched: string[] = [];
+
+  for (const entry of entries) {
+    const keywords = [...keywordSet(entry.text)];
+    if (!keywords.length) {
+      continue;
+    }
+    const coverage = keywords.filter((keyword) => companyKeywords.has(keyword)).length / keywords.length;
+    weightedCoverage += entry.weight * coverage;
+    totalWeight += entry.weight;
+    if (coverage >= MATCHED_COVERAGE) {
+      matched.push(entry.text);
+    }
+  }
+
+  const comparable = totalWeight > 0 && companyKeywords.size > 0;
+  return {
+    score: comparable ? Math.round((100 * weightedCoverage) / totalWeight) : 0,
+    matched,
+    comparable,
+  };
+}
+
+export function scoreResumeMatch(profile: ResumeProfile, company: Company): MatchScore {
+  const dimensions = {} as Record<MatchDimension, DimensionScore>;
+  let weightedScore = 0;
+  let comparableWeight = 0;
+
+  for (const dimension of MATCH_DIMENSIONS) {
+    const result = scoreDimension(profileEntries(profile, dimension), keywordSet(companyText(company, dimension)));
+    dimensions[dimension] = result;
+    if (result.comparable) {
+      weightedScore += MATCH_DIMENSION_WEIGHTS[dimension] * result.score;
+      comparableWeight += MATCH_DIMENSION_WEIGHTS[dimension];
+    }
+  }
+
+  return {
+    overall: comparableWeight > 0 ? Math.round(weightedScore / comparableWeight) : 0,
+    dimensions,
+  };
+}
+
+/** The dimension that contributes most to the score, for explaining picks such as "Feeling Lucky". */
+export function strongestDimension(score: MatchScore): MatchDimension | null {
+  let strongest: MatchDimension | null = null;
+  for (const dimension of MATCH_DIMENSIONS) {
+    const candidate = score.dimensions[dimension];
+    if (candidate.comparable && candidate.score > 0 && (!strongest || candidate.score > score.dimensions[strongest].score)) {
+      strongest = dimension;
+    }
+  }
+  return strongest;
+}
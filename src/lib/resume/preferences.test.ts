@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { MOCK_COMPANIES } from "@/lib/mock/companies";
+import { companyStage, evaluatePreferenceFit, preferenceFilters, rescoreForPreferences } from "@/lib/resume/preferences";
+import { EMPTY_RESUME_PREFERENCES, resumePreferencesSchema, type ResumePreferences } from "@/lib/resume/schemas";
+import { toStructuredFilterRpcArgs } from "@/lib/search/filters";
+import type { Company } from "@/types/company";
+
+function company(id: string, overrides: Partial<Company> = {}): Company {
+  const base = MOCK_COMPANIES.find((candidate) => candidate.id === id);
+  if (!base) {
+    throw new Error(`No sample company ${id}`);
+  }
+  return { ...base, ...overrides };
+}
+
+describe("companyStage", () => {
+  it("takes the furthest labeled round and ignores acquisitions", () => {
+    expect(companyStage(company("saphira-ai"))).toBe("pre_seed");
+    expect(companyStage(company("sakana-ai")), "seed then Series B").toBe("series_b");
+    expect(companyStage(company("sailpoint-com"))).toBe("public");
+    expect(companyStage(company("run-ai", { status: "startup" }))).toBeNull();
+    expect(companyStage(company("sail-vr-com"))).toBeNull();
+  });
+});
+
+describe("evaluatePreferenceFit", () => {
+  const preferences: ResumePreferences = {
+    ...EMPTY_RESUME_PREFERENCES,
+    locations: ["Japan"],
+    stages: ["seed", "series_a"],
+    teamSizeBuckets: ["51-200"],
+    minRaisedUsd: 50_000_000,
+  };
+
+  it("labels satisfied, violated and unknown preferences", () => {
+    const sakana = company("sakana-ai", { team_size: "120 employees", total_raised_amount: 165_000_000 });
+
+    expect(evaluatePreferenceFit(sakana, preferences)).toEqual({
+      satisfied: ["HQ in Tokyo, Japan", "51-200 people", "Raised $165M"],
+      violated: ["Series B"],
+      unknown: [],
+    });
+    expect(evaluatePreferenceFit(company("sail-vr-com"), preferences)).toEqual({
+      satisfied: [],
+      violated: ["HQ in Orem, UT, United States"],
+      unknown: ["Stage", "Team size", "Funding raised"],
+    });
+  });
+
+  it("treats other locations as neutral for remote candidates and ranks by fit", () => {
+    const remote = { ...preferences, openToRemote: true };
+    const fit = evaluatePreferenceFit(company("sail-vr-com"), remote);
+
+    expect(fit.violated).toEqual([]);
+    expect(preferenceFilters(remote).hqCities).toBeUndefined();
+    expect(preferenceFilters(preferences).hqCities).toEqual(["Japan"]);
+    expect(toStructuredFilterRpcArgs(preferenceFilters({ ...preferences, locations: ["St. Louis*"] })).p_hq_cities).toEqual([
+      "St\\. Louis\\*",
+    ]);
+    expect(rescoreForPreferences(1, { satisfied: ["a", "b"], violated: [], unknown: [] })).toBeCloseTo(1.2);
+    expect(rescoreForPreferences(1, { satisfied: [], violated: ["a", "b", "c", "d"], unknown: [] })).toBe(0);
+  });
+});
+
+describe("resumePreferencesSchema", () => {
+  it("fills defaults and rejects an inverted funding range", () => {
+    expect(resumePreferencesSchema.parse({})).toEqual(EMPTY_RESUME_PREFERENCES);
+    expect(resumePreferencesSchema.safeParse({ minRaisedUsd: 10, maxRaisedUsd: 5 }).success).toBe(false);
+    expect(resumePreferencesSchema.safeParse({ stages: ["series_z"] }).success).toBe(false);
+  });
+});
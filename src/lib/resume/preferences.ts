@@ -0,0 +1,149 @@
+import { formatUsd, teamSizeBucket, type StructuredFilters } from "@/lib/search/filters";
+import type { ResumePreferences } from "@/lib/resume/schemas";
+import type { Company } from "@/types/company";
+
+export const COMPANY_STAGES = ["pre_seed", "seed", "series_a", "series_b", "growth", "public"] as const;
+
+export type CompanyStage = (typeof COMPANY_STAGES)[number];
+
+export const COMPANY_STAGE_LABELS: Record<CompanyStage, string> = {
+  pre_seed: "Pre-seed",
+  seed: "Seed",
+  series_a: "Series A",
+  series_b: "Series B",
+  growth: "Series C+",
+  public: "Public",
+};
+
+/** Checked in order, so "Pre-Seed" is not read as "Seed". */
+const ROUND_TYPE_STAGES: Array<[RegExp, CompanyStage]> = [
+  [/pre-?\s?seed/i, "pre_seed"],
+  [/seed/i, "seed"],
+  [/series\s*a\b/i, "series_a"],
+  [/series\s*b\b/i, "series_b"],
+  [/series\s*[c-z]\b|growth|late stage/i, "growth"],
+];
+
+/** Ranking boost per preference a company satisfies, and penalty per preference it violates. */
+const PREFERENCE_MATCH_BOOST = 0.1;
+const PREFERENCE_VIOLATION_PENALTY = 0.3;
+
+/** Which of the candidate's job-seeker preferences a company meets, as short labels for the results page. */
+export interface PreferenceFit {
+  satisfied: string[];
+  violated: string[];
+  /** Preferences the company's data cannot answer, e.g. no team size on file. */
+  unknown: string[];
+}
+
+/**
+ * Furthest stage a company has reached, from its funding round types (free text such as "Series A - II")
+ * or its public status. Acquisitions and unlabeled rounds say nothing about stage.
+ */
+export function companyStage(company: Company): CompanyStage | null {
+  if (company.status === "ipoed") {
+    return "public";
+  }
+
+  let furthest = -1;
+  for (const round of company.funding_rounds) {
+    const stage = ROUND_TYPE_STAGES.find(([pattern]) => round.type && pattern.test(round.type))?.[1];
+    if (stage) {
+      furthest = Math.max(furthest, COMPANY_STAGES.indexOf(stage));
+    }
+  }
+  return furthest >= 0 ? COMPANY_STAGES[furthest] : null;
+}
+
+export function hasJobPreferences(preferences: ResumePreferences): boolean {
+  return (
+    preferences.locations.length > 0
+    || preferences.stages.length > 0
+    || preferences.teamSizeBuckets.length > 0
+    || preferences.minRaisedUsd !== undefined
+    || preferences.maxRaisedUsd !== undefined
+  );
+}
+
+/**
+ * The preferences the search RPCs can enforce. Locations only filter when the candidate is not open
+ * to remote work; otherwise they just rank. Stage is not an RPC filter (see `companyStage`).
+ */
+export function preferenceFilters(preferences: ResumePreferences): StructuredFilters {
+  return {
+    minRaisedUsd: preferences.minRaisedUsd,
+    maxRaisedUsd: preferences.maxRaisedUsd,
+    // Both HQ lists match any whole words of `headquarters`, so one list covers cities, states and countries.
+    // `toStructuredFilterRpcArgs` escapes them, so a typed `.` or `*` is matched literally.
+    hqCities: preferences.openToRemote ? undefined : preferences.locations,
+    teamSizeBuckets: preferences.teamSizeBuckets,
+  };
+}
+
+function describeRaisedRange(preferences: ResumePreferences): string {
+  const { minRaisedUsd: min, maxRaisedUsd: max } = preferences;
+  if (min !== undefined && max !== undefined) {
+    return `raised ${formatUsd(min)}-${formatUsd(max)}`;
+  }
+  return min !== undefined ? `raised ≥ ${formatUsd(min)}` : `raised ≤ ${formatUsd(max ?? 0)}`;
+}
+
+export function evaluatePreferenceFit(company: Company, preferences: ResumePreferences): PreferenceFit {
+  const fit: PreferenceFit = { satisfied: [], violated: [], unknown: [] };
+
+  if (preferences.locations.length) {
+    const headquarters = company.headquarters?.trim();
+    if (!headquarters) {
+      fit.unknown.push("Headquarters");
+    } else if (preferences.locations.some((location) => headquarters.toLowerCase().includes(location.toLowerCase()))) {
+      fit.satisfied.push(`HQ in ${headquarters}`);
+    } else if (!preferences.openToRemote) {
+      fit.violated.push(`HQ in ${headquarters}`);
+    }
+  }
+
+  if (preferences.stages.length) {
+    const stage = companyStage(company);
+    if (!stage) {
+      fit.unknown.push("Stage");
+    } else {
+      (preferences.stages.includes(stage) ? fit.satisfied : fit.violated).push(COMPANY_STAGE_LABELS[stage]);
+    }
+  }
+
+  if (preferences.teamSizeBuckets.length) {
+    const bucket = teamSizeBucket(company.team_size);
+    if (!bucket) {
+      fit.unknown.push("Team size");
+    } else {
+      (preferences.teamSizeBuckets.includes(bucket) ? fit.satisfied : fit.violated).push(`${bucket} people`);
+    }
+  }
+
+  if (preferences.minRaisedUsd !== undefined || preferences.maxRaisedUsd !== undefined) {
+    const raised =
+      company.total_raised_amount !== null && (company.total_raised_currency_code ?? "USD").toUpperCase() === "USD"
+        ? company.total_raised_amount
+        : null;
+    if (raised === null) {
+      fit.unknown.push("Funding raised");
+    } else {
+      const withinRange =
+        (preferences.minRaisedUsd === undefined || raised >= preferences.minRaisedUsd)
+        && (preferences.maxRaisedUsd === undefined || raised <= preferences.maxRaisedUsd);
+      if (withinRange) {
+        fit.satisfied.push(`Raised ${formatUsd(raised)}`);
+      } else {
+        fit.violated.push(`Raised ${formatUsd(raised)}, wanted ${describeRaisedRange(preferences)}`);
+      }
+    }
+  }
+
+  return fit;
+}
+
+/** Search score adjusted for preference fit; unknowns neither help nor hurt. */
+export function rescoreForPreferences(score: number, fit: PreferenceFit): number {
+  const multiplier = 1 + PREFERENCE_MATCH_BOOST * fit.satisfied.length - PREFERENCE_VIOLATION_PENALTY * fit.violated.length;
+  return score * Math.max(0, multiplier);
+}
@@ -1,3 +1,5 @@
+import { EMPTY_RESUME_PREFERENCES, type ResumePreferences } from "@/lib/resume/schemas";
+
 export const resumeExtractionPrompt = `You are analyzing a resume to extract the candidate's domain expertise and professional experience areas.
 
 IMPORTANT: Focus on WHAT problems they solved and WHAT domains they worked in — NOT their tech stack or job titles.
@@ -17,14 +19,37 @@ Do NOT include:
 - Job titles or seniority levels
 - Education details`;
 
-export function buildSearchPlanPrompt(profileSummary: string, totalYears: number): string {
+/** Preference lines for a profile summary; empty when the candidate set none. */
+export function formatPreferences(preferences: ResumePreferences): string {
+  return [
+    preferences.includeSectors.length ? `Wants to work in: ${preferences.includeSectors.join(", ")}` : "",
+    preferences.excludeSectors.length ? `Not interested in: ${preferences.excludeSectors.join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function buildSearchPlanPrompt(
+  profileSummary: string,
+  totalYears: number,
+  preferences: ResumePreferences = EMPTY_RESUME_PREFERENCES
+): string {
   const baseSearchCount = Math.max(8, Math.min(20, Math.round(totalYears * 1.2)));
+  const preferenceLines = formatPreferences(preferences);
+  const preferencesSection = preferenceLines
+    ? `
+## Candidate Preferences
+${preferenceLines}
+- Plan several core searches inside the sectors they want to work in, even where the resume only touches them indirectly.
+- Do not plan any searches aimed at sectors they are not interested in.
+`
+    : "";
 
   return `You are planning targeted startup searches based on a candidate's professional profile.
 
 ## Candidate Profile
 ${profileSummary}
-
+${preferencesSection}
 ## Instructions
 
 Generate ${baseSearchCount}-${baseSearchCount + 5} specific search queries to find startups that match this person's domain expertise.
@@ -0,0 +1,311 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ResumeFormatId } from "@/lib/resume/formats";
+import type { ResumePreferences, ResumeProfile, SearchPlan } from "@/lib/resume/schemas";
+import type { SearchResult } from "@/lib/resume/search-strategy";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Stages in run order. "roles" reads job boards after the results are stored and never fails the job. */
+export const RESUME_JOB_STAGES = ["extract", "analyze", "plan", "search", "group", "roles"] as const;
+
+export type ResumeJobStage = (typeof RESUME_JOB_STAGES)[number];
+
+/** The job pauses after this stage until the candidate reviews the profile. */
+export const PROFILE_REVIEW_STAGE: ResumeJobStage = "analyze";
+
+export const RESUME_JOB_STAGE_LABELS: Record<ResumeJobStage, string> = {
+  extract: "Extracting resume text",
+  analyze: "Analyzing your experience",
+  plan: "Planning searches",
+  search: "Searching startups",
+  group: "Organizing results",
+  roles: "Checking open roles",
+};
+
+/**
+ * `maxDuration` of the routes that start stages. The stages up to the next pause run in the `after()` of
+ * one request, so their timeouts add up to less than this.
+ */
+export const RESUME_JOB_MAX_DURATION_S = 800;
+
+/** How long a stage may run; a job whose running stage has not been heard from for longer counts as interrupted. */
+export const RESUME_JOB_STAGE_TIMEOUTS_MS: Record<ResumeJobStage, number> = {
+  extract: 90_000,
+  analyze: 180_000,
+  plan: 120_000,
+  search: 420_000,
+  group: 180_000,
+  roles: 45_000,
+};
+
+const INTERRUPTED_GRACE_MS = 30_000;
+
+export const RESUME_JOB_INTERRUPTED_MESSAGE = "This step stopped before it finished. Retry it to continue.";
+
+/** "review": paused after analysis until the candidate confirms the profile. */
+export type ResumeJobStatus = "running" | "review" | "failed" | "completed" | "cancelled";
+
+export interface ResumeJobStageState {
+  status: "pending" | "running" | "completed" | "failed";
+  detail: string;
+  error: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface ResumeJobSearchProgress {
+  completed: number;
+  total: number;
+  currentQuery: string;
+}
+
+/** What each stage hands to the next, so a retried stage starts from the output of the stages before it. */
+export interface ResumeJobState {
+  /** The upload's format and name; its bytes are in `resume_job_uploads`. Dropped once its text is extracted. */
+  upload?: { formatId: ResumeFormatId; name: string };
+  resumeText?: string;
+  profile?: ResumeProfile;
+  preferences?: ResumePreferences;
+  searchPlan?: SearchPlan;
+  search?: { results: SearchResult[]; adjacentIds: string[] };
+}
+
+/** A resume match running in the background, one row per upload. */
+export interface ResumeJobRow {
+  id: string;
+  user_id: string;
+  status: ResumeJobStatus;
+  /** The stage running now, or the last one that ran: the failed stage when `status` is "failed". */
+  stage: ResumeJobStage;
+  stages: Record<ResumeJobStage, ResumeJobStageState>;
+  state: ResumeJobState;
+  progress: ResumeJobSearchProgress | null;
+  /** The stored `resume_runs` row, once results are grouped. */
+  run_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A file to extract, as read from the request. */
+export interface ResumeJobUpload {
+  formatId: ResumeFormatId;
+  name: string;
+  bytes: Buffer;
+}
+
+export type ResumeJobPatch = Partial<Pick<ResumeJobRow, "status" | "stage" | "stages" | "state" | "progress" | "run_id">>;
+
+/** What `GET /api/resume/jobs/[id]` returns; leaves out the upload and the extracted text. */
+export interface ResumeJobView {
+  id: string;
+  status: ResumeJobStatus;
+  stage: ResumeJobStage;
+  stages: Record<ResumeJobStage, ResumeJobStageState>;
+  progress: ResumeJobSearchProgress | null;
+  profile: ResumeProfile | null;
+  preferences: ResumePreferences | null;
+  runId: string | null;
+  /** Why the job failed, when it did. */
+  error: string | null;
+  updatedAt: string;
+}
+
+export function pendingStage(): ResumeJobStageState {
+  return { status: "pending", detail: "", error: null, startedAt: null, finishedAt: null };
+}
+
+/**
+ * A running job whose stage outlived its timeout without a write: the process running it went away,
+ * e.g. on a deploy or when the function hit its time limit.
+ */
+export function isResumeJobInterrupted(job: ResumeJobRow, now: Date = new Date()): boolean {
+  return (
+    job.status === "running" &&
+    now.getTime() - Date.parse(job.updated_at) > RESUME_JOB_STAGE_TIMEOUTS_MS[job.stage] + INTERRUPTED_GRACE_MS
+  );
+}
+
+export function resumeJobView(job: ResumeJobRow, now: Date = new Date()): ResumeJobView {
+  let { status, stages } = job;
+  if (isResumeJobInterrupted(job, now)) {
+    status = "failed";
+    stages = { ...stages, [job.stage]: { ...stages[job.stage], status: "failed", error: RESUME_JOB_INTERRUPTED_MESSAGE } };
+  }
+
+  return {
+    id: job.id,
+    status,
+    stage: job.stage,
+    stages,
+    progress: job.progress,
+    profile: job.state.profile ?? null,
+    preferences: job.state.preferences ?? null,
+    runId: job.run_id,
+    error: status === "failed" ? stages[job.stage].error : null,
+    updatedAt: job.updated_at,
+  };
+}
+
+/** Stages from `from` up to the next pause: the profile review, or the end of the job. */
+export function resumeJobStagesFrom(from: ResumeJobStage): ResumeJobStage[] {
+  const start = RESUME_JOB_STAGES.indexOf(from);
+  const reviewIndex = RESUME_JOB_STAGES.indexOf(PROFILE_REVIEW_STAGE);
+  const end = start <= reviewIndex ? reviewIndex + 1 : RESUME_JOB_STAGES.length;
+  return RESUME_JOB_STAGES.slice(start, end);
+}
+
+/** Stores the job and, separately, the uploaded file the extract stage reads. */
+export async function createResumeJob(client: SupabaseClient, userId: string, upload: ResumeJobUpload): Promise<ResumeJobRow> {
+  const now = new Date().toISOString();
+  const stages = Object.fromEntries(RESUME_JOB_STAGES.map((stage) => [stage, pendingStage()])) as ResumeJobRow["stages"];
+  const { data, error } = await client
+    .from("resume_jobs")
+    .insert({
+      id: crypto.randomUUID(),
+      user_id: userId,
+      status: "running",
+      stage: "extract",
+      stages,
+      state: { upload: { formatId: upload.formatId, name: upload.name } },
+      progress: null,
+      run_id: null,
+      created_at: now,
+      updated_at: now,
+    })
+    .select("*")
+    .single<ResumeJobRow>();
+  if (error) {
+    throw new Error(`createResumeJob failed: ${error.message}`);
+  }
+
+  // PostgREST reads and writes bytea as `\x`-prefixed hex.
+  const { error: uploadError } = await client
+    .from("resume_job_uploads")
+    .insert({ job_id: data.id, user_id: userId, content: `\\x${upload.bytes.toString("hex")}` });
+  if (uploadError) {
+    // A job without its file could only fail at extraction.
+    await client.from("resume_jobs").delete().eq("id", data.id).eq("user_id", userId);
+    throw new Error(`createResumeJob failed: ${uploadError.message}`);
+  }
+  return data;
+}
+
+/** The uploaded file of a job, or null once it was extracted and deleted. */
+export async function readResumeJobUpload(client: SupabaseClient, job: ResumeJobRow): Promise<Buffer | null> {
+  const { data, error } = await client
+    .from("resume_job_uploads")
+    .select("content")
+    .eq("job_id", job.id)
+    .eq("user_id", job.user_id)
+    .maybeSingle<{ content: string }>();
+  if (error) {
+    throw new Error(`readResumeJobUpload failed: ${error.message}`);
+  }
+  return data ? Buffer.from(data.content.replace(/^\\x/, ""), "hex") : null;
+}
+
+export async function deleteResumeJobUpload(client: SupabaseClient, job: ResumeJobRow): Promise<void> {
+  const { error } = await client.from("resume_job_uploads").delete().eq("job_id", job.id).eq("user_id", job.user_id);
+  if (error) {
+    throw new Error(`deleteResumeJobUpload failed: ${error.message}`);
+  }
+}
+
+export async function getResumeJob(client: SupabaseClient, userId: string, jobId: string): Promise<ResumeJobRow | null> {
+  if (!UUID_PATTERN.test(jobId)) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("resume_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle<ResumeJobRow>();
+  if (error) {
+    throw new Error(`getResumeJob failed: ${error.message}`);
+  }
+  return data;
+}
+
+/** Always later than `previous`, so a write guarded on `previous` can only succeed once. */
+function nextUpdatedAt(previous: string): string {
+  return new Date(Math.max(Date.now(), Date.parse(previous) + 1)).toISOString();
+}
+
+/**
+ * Writes `patch` only if the job is unchanged since `job` was read; returns null otherwise, e.g. when
+ * it was cancelled or another request retried it in the meantime.
+ */
+export async function updateResumeJob(
+  client: SupabaseClient,
+  job: ResumeJobRow,
+  patch: ResumeJobPatch
+): Promise<ResumeJobRow | null> {
+  const { data, error } = await client
+    .from("resume_jobs")
+    .update({ ...patch, updated_at: nextUpdatedAt(job.updated_at) })
+    .eq("id", job.id)
+    .eq("user_id", job.user_id)
+    .eq("updated_at", job.updated_at)
+    .select("*")
+    .maybeSingle<ResumeJobRow>();
+  if (error) {
+    throw new Error(`updateResumeJob failed: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Claims a stopped job to run again from `from`: that stage and every later one go back to pending,
+ * and `state` replaces the stage outputs. Returns null when the job changed since it was read.
+ */
+export async function restartResumeJob(
+  client: SupabaseClient,
+  job: ResumeJobRow,
+  from: ResumeJobStage,
+  state: ResumeJobState = job.state
+): Promise<ResumeJobRow | null> {
+  const start = RESUME_JOB_STAGES.indexOf(from);
+  const stages = { ...job.stages };
+  for (const stage of RESUME_JOB_STAGES.slice(start)) {
+    stages[stage] = pendingStage();
+  }
+
+  return updateResumeJob(client, job, {
+    status: "running",
+    stage: from,
+    stages,
+    state,
+    progress: null,
+    run_id: start <= RESUME_JOB_STAGES.indexOf("group") ? null : job.run_id,
+  });
+}
+
+/** Stops a running job; its running stage goes back to pending. Returns null for unknown jobs. */
+export async function cancelResumeJob(client: SupabaseClient, userId: string, jobId: string): Promise<ResumeJobRow | null> {
+  const job = await getResumeJob(client, userId, jobId);
+  if (!job || job.status !== "running") {
+    return job;
+  }
+
+  const { data, error } = await client
+    .from("resume_jobs")
+    .update({
+      status: "cancelled",
+      stages: { ...job.stages, [job.stage]: pendingStage() },
+      progress: null,
+      updated_at: nextUpdatedAt(job.updated_at),
+    })
+    .eq("id", job.id)
+    .eq("user_id", userId)
+    .eq("status", "running")
+    .select("*")
+    .maybeSingle<ResumeJobRow>();
+  if (error) {
+    throw new Error(`cancelResumeJob failed: ${error.message}`);
+  }
+  // Null here means the job finished or failed while cancelling; report it as it is now.
+  return data ?? (await getResumeJob(client, userId, jobId));
+}
@@ -0,0 +1,69 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+
+import { createInMemorySupabase } from "@/lib/mock/in-memory-supabase";
+import {
+  getResumeRun,
+  restoreResumeRun,
+  saveResumeRun,
+  saveResumeRunOpenRoles,
+  setResumeRunShared,
+  type ResumeRunInput,
+} from "@/lib/resume/resume-runs";
+import { EMPTY_RESUME_PREFERENCES } from "@/lib/resume/schemas";
+
+const OWNER_ID = "5b0f3a7e-2c1d-4e8f-9a6b-3d2c1b0a9f8e";
+const OTHER_ID = "0a9f8e7d-6c5b-4a3f-8e2d-1c0b9a8f7e6d";
+const RUN_ID = "6f1d2c1e-8a53-4f7e-9a3b-0d7c5b1e2f90";
+
+const input: ResumeRunInput = {
+  profile: {
+    experienceAreas: [{ domain: "speech recognition", context: "Built ASR models", yearsApprox: 4 }],
+    industriesWorked: ["Voice AI"],
+    problemSpaces: ["accent translation"],
+    productTypes: ["APIs"],
+    customerSegments: ["call centers"],
+    totalYearsExperience: 6,
+    summary: "Speech engineer.",
+  },
+  preferences: EMPTY_RESUME_PREFERENCES,
+  search_plan: { coreSearches: [], adjacentSearches: [], taxonomyFilters: [] },
+  raw_scores: { "sanas-ai": 0.82 },
+  grouped_results: {
+    groups: [
+      {
+        title: "Voice AI",
+        description: "Speech products",
+        companyIds: ["sanas-ai"],
+        companyReasons: [{ companyId: "sanas-ai", reason: "Accent translation for call centers" }],
+      },
+    ],
+    feelingLucky: { title: "Feeling Lucky", description: "Tangential", companyIds: [], companyReasons: [] },
+  },
+  preference_fit: null,
+  match_scores: {},
+};
+
+describe("resume runs", () => {
+  it("restores a run for its owner and for others only once it is shared", async () => {
+    const supabase = createInMemorySupabase();
+    await saveResumeRun(supabase.client, OWNER_ID, RUN_ID, input);
+    await saveResumeRunOpenRoles(supabase.client, OWNER_ID, RUN_ID, {
+      "sanas-ai": { totalCount: 4, relevantCount: 0, relevant: [] },
+    });
+
+    const restored = await restoreResumeRun(supabase.client, OWNER_ID, RUN_ID);
+
+    expect(restored?.isOwner).toBe(true);
+    expect(restored?.run).toMatchObject({ raw_scores: { "sanas-ai": 0.82 }, shared: false });
+    expect(restored?.run.open_roles?.["sanas-ai"].totalCount).toBe(4);
+    expect(Object.keys(restored?.companiesById ?? {})).toEqual(["sanas-ai"]);
+
+    expect(await getResumeRun(supabase.client, OTHER_ID, RUN_ID)).toBeNull();
+    expect(await setResumeRunShared(supabase.client, OTHER_ID, RUN_ID, true)).toBeNull();
+    expect((await setResumeRunShared(supabase.client, OWNER_ID, RUN_ID, true))?.shared).toBe(true);
+    expect((await restoreResumeRun(supabase.client, OTHER_ID, RUN_ID))?.isOwner).toBe(false);
+
+    expect(await getResumeRun(supabase.client, OWNER_ID, "not-a-run")).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+import type { CompanyOpenRoles } from "@/lib/jobs/open-roles";
+import type { MatchScore } from "@/lib/resume/match-score";
+import type { PreferenceFit } from "@/lib/resume/preferences";
+import type { GroupedResults, ResumePreferences, ResumeProfile, SearchPlan } from "@/lib/resume/schemas";
+import { getCompaniesByIds } from "@/lib/search/rpc";
+import type { Company } from "@/types/company";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const resumeRunUpdateSchema = z.object({ shared: z.boolean() });
+
+/** A finished resume search, stored so its results can be reopened, shared and continued in chat. */
+export interface ResumeRunRow {
+  id: string;
+  user_id: string;
+  profile: ResumeProfile;
+  preferences: ResumePreferences;
+  search_plan: SearchPlan;
+  /** Retrieval score per company before preference re-ranking and grouping. */
+  raw_scores: Record<string, number>;
+  grouped_results: GroupedResults;
+  preference_fit: Record<string, PreferenceFit> | null;
+  match_scores: Record<string, MatchScore>;
+  /** Filled in after the results, once the job boards were read. */
+  open_roles: Record<string, CompanyOpenRoles> | null;
+  /** Shared runs can be opened by any signed-in user with the link. */
+  shared: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ResumeRunInput = Pick<
+  ResumeRunRow,
+  "profile" | "preferences" | "search_plan" | "raw_scores" | "grouped_results" | "preference_fit" | "match_scores"
+>;
+
+/** Everything the resume page needs to show a stored run, including its companies. */
+export interface RestoredResumeRun {
+  run: ResumeRunRow;
+  companiesById: Record<string, Company>;
+  /** False when a shared run is opened by someone else; they can view it but not change sharing. */
+  isOwner: boolean;
+}
+
+export function resumeRunCompanyIds(grouped: GroupedResults): string[] {
+  return Array.from(new Set([...grouped.groups.flatMap((group) => group.companyIds), ...grouped.feelingLucky.companyIds]));
+}
+
+export async function saveResumeRun(
+  client: SupabaseClient,
+  userId: string,
+  runId: string,
+  input: ResumeRunInput
+): Promise<ResumeRunRow> {
+  const now = new Date().toISOString();
+  const { data, error } = await client
+    .from("resume_runs")
+    .insert({ id: runId, user_id: userId, ...input, open_roles: null, shared: false, created_at: now, updated_at: now })
+    .select("*")
+    .single<ResumeRunRow>();
+  if (error) {
+    throw new Error(`saveResumeRun failed: ${error.message}`);
+  }
+  return data;
+}
+
+export async function saveResumeRunOpenRoles(
+  client: SupabaseClient,
+  userId: string,
+  runId: string,
+  openRoles: Record<string, CompanyOpenRoles>
+): Promise<void> {
+  const { error } = await client
+    .from("resume_runs")
+    .update({ open_roles: openRoles, updated_at: new Date().toISOString() })
+    .eq("id", runId)
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error(`saveResumeRunOpenRoles failed: ${error.message}`);
+  }
+}
+
+/** The run when `userId` owns it or it is shared; null for unknown ids and other users' private runs. */
+export async function getResumeRun(client: SupabaseClient, userId: string, runId: string): Promise<ResumeRunRow | null> {
+  if (!UUID_PATTERN.test(runId)) {
+    return null;
+  }
+
+  const { data, error } = await client.from("resume_runs").select("*").eq("id", runId).maybeSingle<ResumeRunRow>();
+  if (error) {
+    throw new Error(`getResumeRun failed: ${error.message}`);
+  }
+  if (!data || (data.user_id !== userId && !data.shared)) {
+    return null;
+  }
+  return data;
+}
+
+/** Turns the share link on or off; returns null when the run is unknown or owned by someone else. */
+export async function setResumeRunShared(
+  client: SupabaseClient,
+  userId: string,
+  runId: string,
+  shared: boolean
+): Promise<ResumeRunRow | null> {
+  if (!UUID_PATTERN.test(runId)) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("resume_runs")
+    .update({ shared, updated_at: new Date().toISOString() })
+    .eq("id", runId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle<ResumeRunRow>();
+  if (error) {
+    throw new Error(`setResumeRunShared failed: ${error.message}`);
+  }
+  return data;
+}
+
+/** `searchClient` loads the run's companies when `client` is scoped to the user; defaults to `client`. */
+export async function restoreResumeRun(
+  client: SupabaseClient,
+  userId: string,
+  runId: string,
+  searchClient: SupabaseClient = client
+): Promise<RestoredResumeRun | null> {
+  const run = await getResumeRun(client, userId, runId);
+  if (!run) {
+    return null;
+  }
+
+  const companies = await getCompaniesByIds(searchClient, resumeRunCompanyIds(run.grouped_results));
+  return {
+    run,
+    companiesById: Object.fromEntries(companies.map((company) => [company.id, company])),
+    isOwner: run.user_id === userId,
+  };
+}
@@ -1,5 +1,9 @@
 import { z } from "zod";
 
+import { COMPANY_STAGES } from "@/lib/resume/preferences";
+import { TEAM_SIZE_BUCKETS } from "@/lib/search/filters";
+import { SECTORS } from "@/lib/search/taxonomy";
+
 export const resumeProfileSchema = z.object({
   experienceAreas: z.array(
     z.object({
@@ -18,6 +22,45 @@ export const resumeProfileSchema = z.object({
 
 export type ResumeProfile = z.infer<typeof resumeProfileSchema>;
 
+/** Set by the candidate while reviewing the extracted profile, before planning runs. */
+export const resumePreferencesSchema = z.object({
+  /** Sectors the candidate wants to move into; each gets its own taxonomy search. */
+  includeSectors: z.array(z.enum(SECTORS)).max(SECTORS.length).default([]),
+  /** Companies in these sectors are left out of the results. */
+  excludeSectors: z.array(z.enum(SECTORS)).max(SECTORS.length).default([]),
+  /** Cities, states or countries, matched against company headquarters. */
+  locations: z.array(z.string().trim().min(2).max(80)).max(10).default([]),
+  /** When set, locations rank companies instead of filtering them out. */
+  openToRemote: z.boolean().default(false),
+  stages: z.array(z.enum(COMPANY_STAGES)).max(COMPANY_STAGES.length).default([]),
+  teamSizeBuckets: z.array(z.enum(TEAM_SIZE_BUCKETS)).max(TEAM_SIZE_BUCKETS.length).default([]),
+  minRaisedUsd: z.number().nonnegative().optional(),
+  maxRaisedUsd: z.number().nonnegative().optional(),
+}).refine(
+  (preferences) =>
+    preferences.minRaisedUsd === undefined
+    || preferences.maxRaisedUsd === undefined
+    || preferences.minRaisedUsd <= preferences.maxRaisedUsd,
+  { message: "Minimum raised must not exceed the maximum", path: ["maxRaisedUsd"] }
+);
+
+export type ResumePreferences = z.infer<typeof resumePreferencesSchema>;
+
+export const EMPTY_RESUME_PREFERENCES: ResumePreferences = {
+  includeSectors: [],
+  excludeSectors: [],
+  locations: [],
+  openToRemote: false,
+  stages: [],
+  teamSizeBuckets: [],
+};
+
+/** Body of `POST /api/resume/search`: the reviewed profile and preferences. */
+export const resumeSearchRequestSchema = z.object({
+  profile: resumeProfileSchema,
+  preferences: resumePreferencesSchema.default(EMPTY_RESUME_PREFERENCES),
+});
+
 export const searchPlanSchema = z.object({
   coreSearches: z.array(
     z.object({
@@ -75,11 +118,3 @@ export function reasonsToMap(reasons: Array<{ companyId: string; reason: string
   }
   return map;
 }
-
-export type ResumeStreamEvent =
-  | { type: "activity"; data: { id: string; label: string; detail: string; status: "running" | "completed" } }
-  | { type: "resume_profile"; data: ResumeProfile }
-  | { type: "search_progress"; data: { completed: number; total: number; currentQuery: string } }
-  | { type: "heartbeat"; data: { stage: string; elapsedMs: number; pad?: string } }
-  | { type: "final_results"; data: { groups: GroupedResults; companiesById: Record<string, unknown> } }
-  | { type: "error"; data: { message: string } };
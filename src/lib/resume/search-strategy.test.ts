@@ -0,0 +1,141 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createInMemorySupabase, type InMemorySupabase } from "@/lib/mock/in-memory-supabase";
+import { createScriptedModelProvider, type ScriptedModelProvider } from "@/lib/mock/scripted-models";
+import { EMPTY_RESUME_PREFERENCES, type ResumePreferences, type ResumeProfile, type SearchPlan } from "@/lib/resume/schemas";
+
+const harness = vi.hoisted(() => ({
+  supabase: null as InMemorySupabase | null,
+  models: null as ScriptedModelProvider | null,
+}));
+
+vi.mock("@/lib/supabase/server", () => ({
+  getSupabaseServerClient: () => {
+    if (!harness.supabase) {
+      throw new Error("In-memory Supabase not installed");
+    }
+    return harness.supabase.client;
+  },
+}));
+
+vi.mock("@/lib/models/server", () => ({
+  getModelProvider: () => {
+    if (!harness.models) {
+      throw new Error("Scripted models not installed");
+    }
+    return harness.models;
+  },
+}));
+
+const { extractResumeProfile } = await import("@/lib/resume/extract");
+const { executeSearchPlan, fetchAndGroupResults, generateSearchPlan } = await import("@/lib/resume/search-strategy");
+
+const profile: ResumeProfile = {
+  experienceAreas: [{ domain: "financial crime compliance", context: "Built AML screening at a neobank", yearsApprox: 5 }],
+  industriesWorked: ["Fintech"],
+  problemSpaces: ["sanctions screening", "fraud prevention"],
+  productTypes: ["B2B SaaS"],
+  customerSegments: ["banks"],
+  totalYearsExperience: 7,
+  summary: "Compliance engineer focused on AML and fraud tooling for banks.",
+};
+
+const plan: SearchPlan = {
+  coreSearches: [
+    { query: "aml sanctions screening", searchType: "keyword", rationale: "Direct AML experience" },
+    { query: "financial crime compliance automation", searchType: "semantic", rationale: "Core domain" },
+  ],
+  adjacentSearches: [{ query: "candidate fraud detection", rationale: "Fraud skills transfer to hiring" }],
+  taxonomyFilters: [{ sectors: ["Fintech"], categories: ["Fraud Prevention"], rationale: "Fraud tooling" }],
+};
+
+afterEach(() => {
+  harness.supabase = null;
+  harness.models = null;
+});
+
+describe("resume pipeline", () => {
+  it("runs extraction, planning, retrieval and grouping offline", async () => {
+    harness.supabase = createInMemorySupabase();
+    harness.models = createScriptedModelProvider({
+      resume: {
+        resumeExtraction: { object: profile },
+        resumePlanning: { object: plan },
+      },
+    });
+
+    const extracted = await extractResumeProfile("Seven years building AML screening and fraud tooling for banks.");
+    const generatedPlan = await generateSearchPlan(extracted);
+    const progress: number[] = [];
+    const { results, adjacentIds } = await executeSearchPlan(generatedPlan, (completed) => {
+      progress.push(completed);
+    });
+    const { grouped, companiesById, matchScores } = await fetchAndGroupResults(results, adjacentIds, extracted);
+
+    expect(extracted).toEqual(profile);
+    expect(harness.models.calls.map((call) => call.slot)).toEqual([
+      "resumeExtraction",
+      "resumePlanning",
+      "resumeGrouping",
+    ]);
+    expect(progress.at(-1)).toBe(4);
+    expect(results.has("sandbar-ai")).toBe(true);
+    expect(companiesById["sandbar-ai"]?.company_name).toBe("Sandbar");
+
+    const groupedIds = [...grouped.groups.flatMap((group) => group.companyIds), ...grouped.feelingLucky.companyIds];
+    expect(groupedIds).toContain("sandbar-ai");
+    expect(groupedIds.every((companyId) => companyId in companiesById)).toBe(true);
+    expect(Object.keys(matchScores)).toEqual(Object.keys(companiesById));
+    expect(matchScores["sandbar-ai"]?.overall).toBeGreaterThan(0);
+  });
+
+  it("searches included sectors and leaves out excluded ones", async () => {
+    harness.supabase = createInMemorySupabase();
+    harness.models = createScriptedModelProvider({ resume: { resumePlanning: { object: plan } } });
+    const preferences: ResumePreferences = {
+      ...EMPTY_RESUME_PREFERENCES,
+      includeSectors: ["Media & Entertainment"],
+      excludeSectors: ["Security"],
+    };
+
+    const generatedPlan = await generateSearchPlan(profile, { preferences });
+    const { results, adjacentIds } = await executeSearchPlan(generatedPlan);
+    const { companiesById } = await fetchAndGroupResults(results, adjacentIds, profile, { preferences });
+
+    expect(harness.models.calls[0]?.promptText).toContain("Not interested in: Security");
+    expect(generatedPlan.taxonomyFilters.map((filter) => filter.sectors)).toEqual([["Fintech"], ["Media & Entertainment"]]);
+    expect(results.has("sandbar-ai"), "found by the AML searches").toBe(true);
+    expect(companiesById["sandbar-ai"]).toBeUndefined();
+    expect(companiesById["sail-vr-com"]?.sectors).toEqual(["Media & Entertainment"]);
+    expect(Object.values(companiesById).every((company) => !company.sectors.includes("Security"))).toBe(true);
+  });
+
+  it("filters every search by the candidate's locations", async () => {
+    harness.supabase = createInMemorySupabase();
+    harness.models = createScriptedModelProvider({});
+    const preferences: ResumePreferences = { ...EMPTY_RESUME_PREFERENCES, locations: ["United States"] };
+
+    const enterprisePlan: SearchPlan = {
+      ...plan,
+      taxonomyFilters: [{ sectors: ["Enterprise Software"], categories: [], rationale: "Compliance tooling" }],
+    };
+
+    const { results } = await executeSearchPlan(enterprisePlan, undefined, { preferences });
+
+    expect(harness.supabase.rpcCalls.map((call) => call.fn)).toEqual([
+      "search_companies_keyword_v2",
+      "search_companies_hybrid_v2",
+      "search_companies_hybrid_v2",
+      "search_companies_by_taxonomy_v2",
+    ]);
+    expect(new Set(harness.supabase.rpcCalls.map((call) => JSON.stringify(call.args.p_hq_cities)))).toEqual(
+      new Set(['["United States"]'])
+    );
+    const headquarters = Array.from(results.keys()).map(
+      (companyId) => harness.supabase?.companies.find((company) => company.id === companyId)?.headquarters
+    );
+    expect(results.has("santori-ai")).toBe(true);
+    expect(headquarters.every((location) => location?.includes("United States"))).toBe(true);
+  });
+});
@@ -1,21 +1,32 @@
 import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { embedMany } from "ai";
 
-import { getServerEnv } from "@/lib/env";
+import { getModelProvider } from "@/lib/models/server";
 import { getSupabaseServerClient } from "@/lib/supabase/server";
 import { searchHybrid, searchKeyword, searchByTaxonomy, getCompaniesByIds } from "@/lib/search/rpc";
+import { DEFAULT_STATUS_SCOPE, type SearchableCompanyStatus } from "@/lib/search/status-scope";
 import {
   searchPlanSchema,
   groupedResultsSchema,
+  EMPTY_RESUME_PREFERENCES,
+  type ResumePreferences,
   type ResumeProfile,
   type SearchPlan,
   type GroupedResults,
 } from "@/lib/resume/schemas";
-import { buildSearchPlanPrompt, buildGroupingPrompt } from "@/lib/resume/prompts";
+import {
+  evaluatePreferenceFit,
+  hasJobPreferences,
+  preferenceFilters,
+  rescoreForPreferences,
+  type PreferenceFit,
+} from "@/lib/resume/preferences";
+import { scoreResumeMatch, type MatchScore } from "@/lib/resume/match-score";
+import { buildSearchPlanPrompt, buildGroupingPrompt, formatPreferences } from "@/lib/resume/prompts";
+import type { UsageMeter } from "@/lib/usage/usage-meter";
 import type { Company } from "@/types/company";
 
-interface SearchResult {
+export interface SearchResult {
   companyId: string;
   score: number;
   source: string; // which query found it
@@ -26,9 +37,43 @@ interface ProgressCallback {
   (completed: number, total: number, currentQuery: string): void;
 }
 
-export async function generateSearchPlan(profile: ResumeProfile): Promise<SearchPlan> {
-  const env = getServerEnv();
 
+/** Options shared by the resume stages. */
+export interface ResumeStageOptions {
+  usageMeter?: UsageMeter;
+  /** Stops between batches and cancels in-flight model calls, embeddings and RPCs; the stage then rejects with the abort reason. */
+  abortSignal?: AbortSignal;
+  /** Preferences from the profile review; planning, search and grouping each honor their part. */
+  preferences?: ResumePreferences;
+}
+
+export interface ExecuteSearchPlanOptions extends ResumeStageOptions {
+  /** Company statuses to search; defaults to active startups. */
+  statusScope?: SearchableCompanyStatus[];
+}
+
+/**
+ * Forces the candidate's sector preferences into a plan: excluded sectors are removed from its
+ * taxonomy filters, and every included sector gets a taxonomy search of its own.
+ */
+export function applySectorPreferences(plan: SearchPlan, preferences: ResumePreferences): SearchPlan {
+  const excluded = new Set<string>(preferences.excludeSectors);
+  const taxonomyFilters = plan.taxonomyFilters
+    .map((filter) => ({ ...filter, sectors: filter.sectors.filter((sector) => !excluded.has(sector)) }))
+    .filter((filter) => filter.sectors.length > 0);
+
+  const searchedSectors = new Set(taxonomyFilters.flatMap((filter) => filter.sectors));
+  for (const sector of preferences.includeSectors) {
+    if (!searchedSectors.has(sector) && !excluded.has(sector)) {
+      taxonomyFilters.push({ sectors: [sector], categories: [], rationale: "Sector the candidate wants to work in" });
+    }
+  }
+
+  return { ...plan, taxonomyFilters };
+}
+
+export async function generateSearchPlan(profile: ResumeProfile, options: ResumeStageOptions = {}): Promise<SearchPlan> {
+  const preferences = options.preferences ?? EMPTY_RESUME_PREFERENCES;
   const profileSummary = [
     `Summary: ${profile.summary}`,
     `Total experience: ${profile.totalYearsExperience} years`,
@@ -39,29 +84,38 @@ export async function generateSearchPlan(profile: ResumeProfile): Promise<Search
     `Customer segments: ${profile.customerSegments.join(", ")}`,
   ].join("\n");
 
+  const models = getModelProvider();
   const result = await generateObject({
-    model: openai(env.OPENAI_MODEL),
+    model: models.languageModel("resumePlanning"),
     schema: searchPlanSchema,
-    prompt: buildSearchPlanPrompt(profileSummary, profile.totalYearsExperience),
+    prompt: buildSearchPlanPrompt(profileSummary, profile.totalYearsExperience, preferences),
+    abortSignal: options.abortSignal,
   });
+  options.usageMeter?.record(models.modelId("resumePlanning"), result.usage);
 
-  return result.object;
+  return applySectorPreferences(result.object, preferences);
 }
 
-async function embedQuery(text: string): Promise<number[]> {
-  const env = getServerEnv();
+async function embedQuery(text: string, usageMeter?: UsageMeter, abortSignal?: AbortSignal): Promise<number[]> {
+  const models = getModelProvider();
   const result = await embedMany({
-    model: openai.embedding(env.OPENAI_EMBEDDING_MODEL),
+    model: models.embeddingModel(),
     values: [text],
+    abortSignal,
   });
+  usageMeter?.record(models.modelId("embedding"), result.usage);
   return result.embeddings[0];
 }
 
 export async function executeSearchPlan(
   plan: SearchPlan,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options?: ExecuteSearchPlanOptions
 ): Promise<{ results: Map<string, SearchResult>; adjacentIds: Set<string> }> {
   const supabase = getSupabaseServerClient();
+  const statuses = options?.statusScope?.length ? options.statusScope : DEFAULT_STATUS_SCOPE;
+  const signal = options?.abortSignal;
+  const filters = options?.preferences ? preferenceFilters(options.preferences) : undefined;
   const results = new Map<string, SearchResult>();
   const adjacentIds = new Set<string>();
 
@@ -78,6 +132,7 @@ export async function executeSearchPlan(
   const BATCH_SIZE = 4;
 
   for (let i = 0; i < allSearches.length; i += BATCH_SIZE) {
+    signal?.throwIfAborted();
     const batch = allSearches.slice(i, i + BATCH_SIZE);
 
     const batchResults = await Promise.allSettled(
@@ -85,20 +140,24 @@ export async function executeSearchPlan(
         let rows: Array<{ companyId: string; score: number }> = [];
 
         if (search.searchType === "semantic") {
-          const embedding = await embedQuery(search.query);
+          const embedding = await embedQuery(search.query, options?.usageMeter, signal);
           const hybridRows = await searchHybrid(supabase, {
             queryText: search.query,
             queryEmbedding: embedding,
-            statuses: ["startup"],
+            statuses,
             limit: 30,
             minSemantic: 0.2,
+            filters,
+            signal,
           });
           rows = hybridRows.map((r) => ({ companyId: r.companyId, score: r.combinedScore }));
         } else if (search.searchType === "keyword") {
           const keywordRows = await searchKeyword(supabase, {
             queryText: search.query,
-            statuses: ["startup"],
+            statuses,
             limit: 30,
+            filters,
+            signal,
           });
           rows = keywordRows.map((r) => ({ companyId: r.companyId, score: r.combinedScore }));
         }
@@ -136,12 +195,15 @@ export async function executeSearchPlan(
 
   // Run taxonomy searches
   for (const taxSearch of taxonomySearches) {
+    signal?.throwIfAborted();
     try {
       const rows = await searchByTaxonomy(supabase, {
         sectors: taxSearch.sectors,
         categories: taxSearch.categories,
-        statuses: ["startup"],
+        statuses,
         limit: 50,
+        filters,
+        signal,
       });
       for (const row of rows) {
         const existing = results.get(row.companyId);
@@ -283,10 +345,18 @@ function normalizeGroupedResults(input: {
 export async function fetchAndGroupResults(
   results: Map<string, SearchResult>,
   adjacentIds: Set<string>,
-  profile: ResumeProfile
-): Promise<{ grouped: GroupedResults; companiesById: Record<string, Company> }> {
-  const env = getServerEnv();
+  profile: ResumeProfile,
+  options: ResumeStageOptions = {}
+): Promise<{
+  grouped: GroupedResults;
+  companiesById: Record<string, Company>;
+  preferenceFit?: Record<string, PreferenceFit>;
+  matchScores: Record<string, MatchScore>;
+}> {
   const supabase = getSupabaseServerClient();
+  const { abortSignal } = options;
+  const preferences = options.preferences ?? EMPTY_RESUME_PREFERENCES;
+  const excludedSectors = new Set<string>(preferences.excludeSectors);
 
   // Keep a broad but bounded candidate pool for grouping quality and prompt size.
   const rankedIds = Array.from(results.values())
@@ -298,14 +368,26 @@ export async function fetchAndGroupResults(
   // Fetch in batches of 50
   for (let i = 0; i < selectedIds.length; i += 50) {
     const batch = selectedIds.slice(i, i + 50);
-    const fetched = await getCompaniesByIds(supabase, batch);
+    const fetched = await getCompaniesByIds(supabase, batch, abortSignal);
     companies.push(...fetched);
   }
 
   const fetchedById = new Map(companies.map((c) => [c.id, c]));
-  const orderedCompanies = selectedIds
+  // Semantic and keyword searches are not sector-scoped, so excluded sectors are dropped here.
+  let orderedCompanies = selectedIds
     .map((id) => fetchedById.get(id))
-    .filter((company): company is Company => Boolean(company));
+    .filter((company): company is Company => Boolean(company))
+    .filter((company) => !company.sectors.some((sector) => excludedSectors.has(sector)));
+
+  // Re-rank by job-seeker preferences the RPC filters cannot enforce (stage, locations when open to remote).
+  let preferenceFit: Record<string, PreferenceFit> | undefined;
+  if (hasJobPreferences(preferences)) {
+    const fitById = Object.fromEntries(orderedCompanies.map((c) => [c.id, evaluatePreferenceFit(c, preferences)]));
+    const adjustedScore = (companyId: string) =>
+      rescoreForPreferences(results.get(companyId)?.score ?? 0, fitById[companyId]);
+    orderedCompanies = [...orderedCompanies].sort((a, b) => adjustedScore(b.id) - adjustedScore(a.id));
+    preferenceFit = fitById;
+  }
   const companiesById = Object.fromEntries(orderedCompanies.map((c) => [c.id, c]));
 
   const profileSummary = [
@@ -313,7 +395,10 @@ export async function fetchAndGroupResults(
     `Experience areas: ${profile.experienceAreas.map((a) => `${a.domain} (~${a.yearsApprox}y)`).join("; ")}`,
     `Industries: ${profile.industriesWorked.join(", ")}`,
     `Problem spaces: ${profile.problemSpaces.join(", ")}`,
-  ].join("\n");
+    formatPreferences(preferences),
+  ]
+    .filter(Boolean)
+    .join("\n");
 
   const companyList = orderedCompanies.map((c) => ({
     id: c.id,
@@ -327,18 +412,23 @@ export async function fetchAndGroupResults(
   );
   const groupingTargetCount = Math.min(RESUME_GROUPING_TARGET_COUNT, orderedCompanies.length);
 
+  const models = getModelProvider();
   const result = await generateObject({
-    model: openai(env.OPENAI_MODEL),
+    model: models.languageModel("resumeGrouping"),
     schema: groupedResultsSchema,
     prompt: buildGroupingPrompt(profileSummary, companyList, adjacentInPool, groupingTargetCount),
+    abortSignal,
   });
+  options.usageMeter?.record(models.modelId("resumeGrouping"), result.usage);
 
   const normalizedGrouped = normalizeGroupedResults({
     grouped: result.object,
-    orderedCompanyIds: selectedIds.filter((companyId) => Boolean(companiesById[companyId])),
+    orderedCompanyIds: orderedCompanies.map((company) => company.id),
     adjacentIds: adjacentInPool,
     targetCount: groupingTargetCount,
   });
 
-  return { grouped: normalizedGrouped, companiesById };
+  const matchScores = Object.fromEntries(orderedCompanies.map((c) => [c.id, scoreResumeMatch(profile, c)]));
+
+  return { grouped: normalizedGrouped, companiesById, preferenceFit, matchScores };
 }
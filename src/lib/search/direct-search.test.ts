@@ -0,0 +1,145 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  decodeSearchCursor,
+  directSearchRequestSchema,
+  encodeSearchCursor,
+  runDirectSearch,
+  searchParamsToRequestInput,
+  searchRequestKey,
+} from "@/lib/search/direct-search";
+
+function createRpcClient(responses: Record<string, Array<Record<string, unknown>>>) {
+  const rpc = vi.fn(async (fn: string, args: Record<string, unknown>) => {
+    if (fn === "get_companies_by_ids_v1") {
+      const ids = args.p_company_ids as string[];
+      return { data: ids.map((id) => ({ id, company_name: id.toUpperCase(), website_url: `https://${id}.com` })), error: null };
+    }
+    const rows = responses[fn] ?? [];
+    return { data: typeof args.p_limit === "number" ? rows.slice(0, args.p_limit) : rows, error: null };
+  });
+  return { client: { rpc } as unknown as SupabaseClient, rpc };
+}
+
+describe("directSearchRequestSchema", () => {
+  it("parses GET parameters including flat filter keys", () => {
+    const params = new URLSearchParams("q=vector+db&mode=keyword&limit=5&statuses=startup,acquired&hqCities=Berlin&minRaisedUsd=1000000");
+    const parsed = directSearchRequestSchema.parse(searchParamsToRequestInput(params));
+
+    expect(parsed).toMatchObject({
+      query: "vector db",
+      mode: "keyword",
+      limit: 5,
+      statuses: ["startup", "acquired"],
+      filters: { hqCities: ["Berlin"], minRaisedUsd: 1_000_000 },
+    });
+  });
+
+  it("requires taxonomy labels in taxonomy mode and a query otherwise", () => {
+    expect(directSearchRequestSchema.safeParse({ mode: "taxonomy" }).success).toBe(false);
+    expect(directSearchRequestSchema.safeParse({ mode: "hybrid" }).success).toBe(false);
+    expect(directSearchRequestSchema.safeParse({ mode: "taxonomy", sectors: ["Fintech"] }).success).toBe(true);
+  });
+
+  it("rejects filters in exact_name mode", () => {
+    const input = { query: "Sanas", mode: "exact_name" };
+
+    expect(directSearchRequestSchema.safeParse({ ...input, filters: { hqCities: ["Berlin"] } }).success).toBe(false);
+    expect(directSearchRequestSchema.safeParse({ ...input, filters: {} }).success).toBe(true);
+  });
+
+  it("rejects malformed cursors and cursors issued for another search", () => {
+    expect(directSearchRequestSchema.safeParse({ query: "x", cursor: "not-a-cursor" }).success).toBe(false);
+
+    const cursor = encodeSearchCursor({ offset: 20, requestKey: searchRequestKey({ query: "x", mode: "hybrid" }) });
+    expect(directSearchRequestSchema.safeParse({ query: "x", limit: 50, cursor }).success).toBe(true);
+    expect(directSearchRequestSchema.safeParse({ query: "y", cursor }).success).toBe(false);
+    expect(directSearchRequestSchema.safeParse({ query: "x", statuses: ["acquired"], cursor }).success).toBe(false);
+  });
+});
+
+describe("runDirectSearch", () => {
+  it("merges hybrid and keyword rows and pages with a cursor", async () => {
+    const { client, rpc } = createRpcClient({
+      search_companies_hybrid_v1: [
+        { company_id: "alpha", semantic_score: 0.8, keyword_score: 0.1, niche_score: 0, combined_score: 0.5, matched_fields: ["semantic"], matched_terms: [] },
+        { company_id: "beta", semantic_score: 0.6, keyword_score: 0, niche_score: 0, combined_score: 0.35, matched_fields: ["semantic"], matched_terms: [] },
+      ],
+      search_companies_keyword_v1: [
+        { company_id: "beta", keyword_score: 0.7, niche_score: 0, combined_score: 0.6, matched_terms: ["vector"] },
+        { company_id: "gamma", keyword_score: 0.2, niche_score: 0, combined_score: 0.17, matched_terms: ["db"] },
+      ],
+    });
+    const request = directSearchRequestSchema.parse({ query: "vector db", limit: 2 });
+
+    const first = await runDirectSearch(client, request, { embedQuery: async () => [0.1, 0.2] });
+    expect(first.results.map((result) => [result.rank, result.company.id])).toEqual([[1, "beta"], [2, "alpha"]]);
+    expect(first.results[0].matchedTerms).toEqual(["vector"]);
+    expect(first.nextCursor).not.toBeNull();
+    expect(decodeSearchCursor(first.nextCursor!)).toEqual({ offset: 2, requestKey: searchRequestKey(request) });
+
+    const second = await runDirectSearch(client, { ...request, cursor: first.nextCursor! }, { embedQuery: async () => [0.1, 0.2] });
+    expect(second.results.map((result) => result.company.id)).toEqual(["gamma"]);
+    expect(second.nextCursor).toBeNull();
+    expect(rpc).toHaveBeenCalledWith("search_companies_hybrid_v1", expect.objectContaining({ p_statuses: ["startup"] }));
+  });
+
+  it("walks every page of a merged ranking without repeating or dropping a company", async () => {
+    const ids = Array.from({ length: 45 }, (_, index) => `company-${String(index).padStart(2, "0")}`);
+    // Each source ranks the companies differently, so retrieving a shallower window on early pages
+    // would merge different scores than on later ones.
+    const { client, rpc } = createRpcClient({
+      search_companies_hybrid_v1: ids.map((id, index) => ({
+        company_id: id,
+        semantic_score: 0.9 - index * 0.01,
+        keyword_score: 0,
+        niche_score: 0,
+        combined_score: 0.9 - index * 0.01,
+        matched_fields: ["semantic"],
+        matched_terms: [],
+      })),
+      search_companies_keyword_v1: [...ids].reverse().filter((_, index) => index % 2 === 0).map((id, index) => ({
+        company_id: id,
+        keyword_score: 0.95 - index * 0.02,
+        niche_score: 0,
+        combined_score: 0.95 - index * 0.02,
+        matched_terms: ["db"],
+      })),
+    });
+    const request = directSearchRequestSchema.parse({ query: "vector db", limit: 7 });
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await runDirectSearch(client, { ...request, cursor }, { embedQuery: async () => [0.1] });
+      expect(page.results.map((result) => result.rank)).toEqual(page.results.map((_, index) => seen.length + index + 1));
+      seen.push(...page.results.map((result) => result.company.id));
+      cursor = page.nextCursor ?? undefined;
+      pages += 1;
+    } while (cursor && pages < 20);
+
+    expect(cursor).toBeUndefined();
+    expect(pages).toBe(7);
+    expect(new Set(seen).size).toBe(seen.length);
+    expect([...seen].sort()).toEqual(ids);
+    for (const [fn, args] of rpc.mock.calls) {
+      if (fn !== "get_companies_by_ids_v1") {
+        expect(args.p_limit).toBe(500);
+      }
+    }
+  });
+
+  it("routes structured filters to the v2 RPC", async () => {
+    const { client, rpc } = createRpcClient({
+      search_companies_keyword_v2: [{ company_id: "alpha", keyword_score: 0.4, niche_score: 0, combined_score: 0.34, matched_terms: [] }],
+    });
+    const request = directSearchRequestSchema.parse({ query: "payments", mode: "keyword", filters: { foundedYearMin: 2020 } });
+
+    const response = await runDirectSearch(client, request, { embedQuery: async () => [] });
+
+    expect(response.results).toHaveLength(1);
+    expect(rpc).toHaveBeenCalledWith("search_companies_keyword_v2", expect.objectContaining({ p_founded_year_min: 2020 }));
+  });
+});
@@ -0,0 +1,371 @@
+import { createHash } from "node:crypto";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+import {
+  buildCandidateFromExact,
+  buildCandidateFromHybrid,
+  buildCandidateFromKeyword,
+  buildCandidateFromTaxonomy,
+  mergeCandidates,
+  type SearchCandidate,
+} from "@/lib/agent/tools";
+import { hasStructuredFilters, structuredFiltersSchema, type StructuredFilters } from "@/lib/search/filters";
+import {
+  getCompaniesByIds,
+  searchByTaxonomy,
+  searchExactName,
+  searchHybrid,
+  searchKeyword,
+} from "@/lib/search/rpc";
+import { SEARCHABLE_COMPANY_STATUSES, normalizeStatusScope } from "@/lib/search/status-scope";
+import type { Company } from "@/types/company";
+
+export const DIRECT_SEARCH_MODES = ["hybrid", "keyword", "taxonomy", "exact_name"] as const;
+
+export type DirectSearchMode = (typeof DIRECT_SEARCH_MODES)[number];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+/**
+ * Deepest rank reachable through cursors. Every page retrieves this whole window and slices it, so
+ * merged scores, and with them the ranking, are the same on every page.
+ */
+const MAX_RESULT_WINDOW = 500;
+const TAXONOMY_CONSTRAINT_LIMIT = 2000;
+
+export const directSearchRequestSchema = z
+  .object({
+    query: z.string().trim().max(500).optional(),
+    mode: z.enum(DIRECT_SEARCH_MODES).default("hybrid"),
+    statuses: z.array(z.enum(SEARCHABLE_COMPANY_STATUSES)).optional(),
+    sectors: z.array(z.string().min(1)).optional(),
+    categories: z.array(z.string().min(1)).optional(),
+    businessModels: z.array(z.string().min(1)).optional(),
+    filters: structuredFiltersSchema.optional(),
+    limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+    cursor: z.string().optional(),
+  })
+  .superRefine((value, ctx) => {
+    const hasTaxonomy = Boolean(value.sectors?.length || value.categories?.length || value.businessModels?.length);
+    if (value.mode === "taxonomy" && !hasTaxonomy) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["sectors"],
+        message: "taxonomy mode requires at least one of sectors, categories or businessModels",
+      });
+    }
+    if (value.mode !== "taxonomy" && !value.query) {
+      ctx.addIssue({ code: "custom", path: ["query"], message: `${value.mode} mode requires a query` });
+    }
+    // Name lookup has no filtered RPC; refusing beats returning unfiltered results the caller thinks are filtered.
+    if (value.mode === "exact_name" && hasStructuredFilters(value.filters)) {
+      ctx.addIssue({ code: "custom", path: ["filters"], message: "exact_name mode does not support filters" });
+    }
+    if (value.cursor !== undefined) {
+      const cursor = decodeSearchCursor(value.cursor);
+      if (cursor === null) {
+        ctx.addIssue({ code: "custom", path: ["cursor"], message: "Invalid cursor" });
+      } else if (cursor.requestKey !== searchRequestKey(value)) {
+        ctx.addIssue({ code: "custom", path: ["cursor"], message: "Cursor belongs to a different search" });
+      }
+    }
+  });
+
+export type DirectSearchRequest = z.infer<typeof directSearchRequestSchema>;
+
+export interface DirectSearchScore {
+  /** Max of the per-source combined scores; the primary sort key after exact-name matches. */
+  combined: number;
+  semantic: number;
+  keyword: number;
+  niche: number;
+  exactMatch: number;
+}
+
+export interface DirectSearchResult {
+  /** 1-based position across all pages. */
+  rank: number;
+  company: Company;
+  score: DirectSearchScore;
+  matchedFields: string[];
+  matchedTerms: string[];
+}
+
+/**
+ * Response body of `GET/POST /api/search`.
+ * `nextCursor` is opaque; pass it back with the same query and filters to fetch the next page (any
+ * other request rejects it). The page size may change between pages.
+ */
+export interface DirectSearchResponse {
+  mode: DirectSearchMode;
+  query: string | null;
+  statuses: string[];
+  filters: StructuredFilters | null;
+  results: DirectSearchResult[];
+  /** Number of ranked matches in the result window; the same on every page. */
+  totalRetrieved: number;
+  nextCursor: string | null;
+  tookMs: number;
+}
+
+export interface DirectSearchDeps {
+  embedQuery: (text: string) => Promise<number[]>;
+}
+
+export interface SearchCursor {
+  offset: number;
+  /** `searchRequestKey` of the request the cursor was issued for. */
+  requestKey: string;
+}
+
+/** JSON with object keys sorted, so the same request hashes the same whichever order its fields came in. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Identifies what a search retrieves: everything but the page size and the cursor. */
+export function searchRequestKey(request: Omit<DirectSearchRequest, "limit" | "cursor">): string {
+  const { query, mode, sectors, categories, businessModels, filters } = request;
+  const key = canonicalJson({
+    query: query ?? "",
+    mode,
+    statuses: normalizeStatusScope(request.statuses),
+    sectors,
+    categories,
+    businessModels,
+    filters: hasStructuredFilters(filters) ? filters : undefined,
+  });
+  return createHash("sha256").update(key).digest("base64url").slice(0, 16);
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/** Returns the page offset and request key encoded in a cursor, or null when the cursor is malformed. */
+export function decodeSearchCursor(cursor: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as Partial<Record<keyof SearchCursor, unknown>>;
+    if (
+      typeof parsed.offset === "number"
+      && Number.isInteger(parsed.offset)
+      && parsed.offset >= 0
+      && typeof parsed.requestKey === "string"
+    ) {
+      return { offset: parsed.offset, requestKey: parsed.requestKey };
+    }
+  } catch {
+    // Malformed base64 or JSON.
+  }
+
+  return null;
+}
+
+const LIST_PARAMS = ["statuses", "sectors", "categories", "businessModels"] as const;
+const FILTER_NUMBER_PARAMS = ["minRaisedUsd", "maxRaisedUsd", "foundedYearMin", "foundedYearMax"] as const;
+const FILTER_LIST_PARAMS = ["hqCountries", "hqCities", "teamSizeBuckets"] as const;
+
+function readList(params: URLSearchParams, key: string): string[] | undefined {
+  const values = params
+    .getAll(key)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return values.length ? values : undefined;
+}
+
+function readNumber(params: URLSearchParams, key: string): number | string | undefined {
+  const raw = params.get(key)?.trim();
+  if (!raw) {
+    return undefined;
+  }
+  const parsed = Number(raw);
+  // Leave unparseable values as strings so schema validation reports them.
+  return Number.isFinite(parsed) ? parsed : raw;
+}
+
+/** Maps GET query parameters (`q`, comma-separated lists, flat filter keys) onto the request schema input. */
+export function searchParamsToRequestInput(params: URLSearchParams): Record<string, unknown> {
+  const input: Record<string, unknown> = {
+    query: params.get("q") ?? params.get("query") ?? undefined,
+    mode: params.get("mode") ?? undefined,
+    limit: readNumber(params, "limit"),
+    cursor: params.get("cursor") ?? undefined,
+  };
+
+  for (const key of LIST_PARAMS) {
+    input[key] = readList(params, key);
+  }
+
+  const filters: Record<string, unknown> = {};
+  for (const key of FILTER_NUMBER_PARAMS) {
+    const value = readNumber(params, key);
+    if (value !== undefined) {
+      filters[key] = value;
+    }
+  }
+  for (const key of FILTER_LIST_PARAMS) {
+    const value = readList(params, key);
+    if (value) {
+      filters[key] = value;
+    }
+  }
+  if (Object.keys(filters).length) {
+    input.filters = filters;
+  }
+
+  return input;
+}
+
+function sortCandidates(candidates: Iterable<SearchCandidate>): SearchCandidate[] {
+  // Company id as the final tie-breaker keeps pages stable across identical requests.
+  return Array.from(candidates).sort((a, b) =>
+    b.exactMatchScore - a.exactMatchScore
+    || b.combinedScore - a.combinedScore
+    || b.semanticScore - a.semanticScore
+    || a.companyId.localeCompare(b.companyId)
+  );
+}
+
+async function retrieveCandidates(
+  client: SupabaseClient,
+  request: DirectSearchRequest,
+  statuses: string[],
+  window: number,
+  deps: DirectSearchDeps
+): Promise<Map<string, SearchCandidate>> {
+  const merged = new Map<string, SearchCandidate>();
+  const query = request.query ?? "";
+  const filters = request.filters;
+
+  switch (request.mode) {
+    case "exact_name": {
+      const rows = await searchExactName(client, { queryText: query, statuses, limit: window });
+      mergeCandidates(merged, rows.map((row) => buildCandidateFromExact(row.companyId, row.nameScore, row.matchedName)));
+      break;
+    }
+    case "keyword": {
+      const rows = await searchKeyword(client, { queryText: query, statuses, limit: window, filters });
+      mergeCandidates(merged, rows.map(buildCandidateFromKeyword));
+      break;
+    }
+    case "taxonomy": {
+      const rows = await searchByTaxonomy(client, {
+        sectors: request.sectors,
+        categories: request.categories,
+        businessModels: request.businessModels,
+        statuses,
+        limit: window,
+        filters,
+      });
+      mergeCandidates(merged, rows.map(buildCandidateFromTaxonomy));
+      break;
+    }
+    case "hybrid": {
+      const embedding = await deps.embedQuery(query);
+      const [hybridRows, keywordRows] = await Promise.all([
+        searchHybrid(client, { queryText: query, queryEmbedding: embedding, statuses, limit: window, filters }),
+        searchKeyword(client, { queryText: query, statuses, limit: window, filters }),
+      ]);
+      mergeCandidates(merged, hybridRows.map(buildCandidateFromHybrid));
+      mergeCandidates(merged, keywordRows.map(buildCandidateFromKeyword));
+      break;
+    }
+  }
+
+  return merged;
+}
+
+/** Restricts query-driven modes to companies carrying the requested taxonomy labels. */
+async function applyTaxonomyConstraint(
+  client: SupabaseClient,
+  request: DirectSearchRequest,
+  statuses: string[],
+  candidates: Map<string, SearchCandidate>
+): Promise<void> {
+  const hasTaxonomy = Boolean(request.sectors?.length || request.categories?.length || request.businessModels?.length);
+  if (request.mode === "taxonomy" || !hasTaxonomy || candidates.size === 0) {
+    return;
+  }
+
+  const rows = await searchByTaxonomy(client, {
+    sectors: request.sectors,
+    categories: request.categories,
+    businessModels: request.businessModels,
+    statuses,
+    limit: TAXONOMY_CONSTRAINT_LIMIT,
+    filters: request.filters,
+  });
+  const allowed = new Set(rows.map((row) => row.companyId));
+  for (const companyId of Array.from(candidates.keys())) {
+    if (!allowed.has(companyId)) {
+      candidates.delete(companyId);
+    }
+  }
+}
+
+export async function runDirectSearch(
+  client: SupabaseClient,
+  request: DirectSearchRequest,
+  deps: DirectSearchDeps
+): Promise<DirectSearchResponse> {
+  const startedAt = Date.now();
+  const offset = request.cursor ? decodeSearchCursor(request.cursor)?.offset ?? 0 : 0;
+  const statuses = normalizeStatusScope(request.statuses);
+  const pageEnd = Math.min(offset + request.limit, MAX_RESULT_WINDOW);
+
+  const candidates = offset < MAX_RESULT_WINDOW
+    ? await retrieveCandidates(client, request, statuses, MAX_RESULT_WINDOW, deps)
+    : new Map<string, SearchCandidate>();
+  await applyTaxonomyConstraint(client, request, statuses, candidates);
+
+  const ranked = sortCandidates(candidates.values());
+  const page = ranked.slice(offset, pageEnd);
+  const companies = await getCompaniesByIds(client, page.map((candidate) => candidate.companyId));
+  const companiesById = new Map(companies.map((company) => [company.id, company]));
+
+  const results: DirectSearchResult[] = [];
+  for (const [index, candidate] of page.entries()) {
+    const company = companiesById.get(candidate.companyId);
+    if (!company) {
+      continue;
+    }
+    results.push({
+      rank: offset + index + 1,
+      company,
+      score: {
+        combined: candidate.combinedScore,
+        semantic: candidate.semanticScore,
+        keyword: candidate.keywordScore,
+        niche: candidate.nicheScore,
+        exactMatch: candidate.exactMatchScore,
+      },
+      matchedFields: candidate.matchedFields,
+      matchedTerms: candidate.matchedTerms,
+    });
+  }
+
+  const hasMore = ranked.length > pageEnd && pageEnd < MAX_RESULT_WINDOW;
+
+  return {
+    mode: request.mode,
+    query: request.query || null,
+    statuses,
+    filters: hasStructuredFilters(request.filters) ? request.filters ?? null : null,
+    results,
+    totalRetrieved: Math.min(ranked.length, MAX_RESULT_WINDOW),
+    nextCursor: hasMore ? encodeSearchCursor({ offset: pageEnd, requestKey: searchRequestKey(request) }) : null,
+    tookMs: Date.now() - startedAt,
+  };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { MOCK_COMPANIES } from "@/lib/mock/companies";
+import { createInMemorySupabase } from "@/lib/mock/in-memory-supabase";
+import {
+  describeStructuredFilters,
+  escapeRegexPattern,
+  hasStructuredFilters,
+  structuredFiltersSchema,
+  toStructuredFilterRpcArgs,
+  type StructuredFilters,
+} from "@/lib/search/filters";
+import { searchByTaxonomy } from "@/lib/search/rpc";
+
+describe("structured filters", () => {
+  it("treats empty lists and blank locations as no filters", () => {
+    expect(hasStructuredFilters(undefined)).toBe(false);
+    expect(hasStructuredFilters({ hqCities: ["  "], teamSizeBuckets: [] })).toBe(false);
+    expect(hasStructuredFilters({ foundedYearMin: 2019 })).toBe(true);
+  });
+
+  it("maps filters onto v2 RPC arguments with nulls for unset values", () => {
+    expect(
+      toStructuredFilterRpcArgs({
+        minRaisedUsd: 5_000_000.4,
+        hqCities: [" New York ", "New York"],
+        teamSizeBuckets: ["11-50"],
+      })
+    ).toEqual({
+      p_min_raised_usd: 5_000_000,
+      p_max_raised_usd: null,
+      p_founded_year_min: null,
+      p_founded_year_max: null,
+      p_hq_countries: null,
+      p_hq_cities: ["New York"],
+      p_team_size_buckets: ["11-50"],
+    });
+  });
+
+  it("escapes regex metacharacters in locations", () => {
+    expect(escapeRegexPattern("a.b*(c)|[d]\\")).toBe("a\\.b\\*\\(c\\)\\|\\[d\\]\\\\");
+    expect(toStructuredFilterRpcArgs({ hqCities: [".*"], hqCountries: ["U.S."] })).toMatchObject({
+      p_hq_cities: ["\\.\\*"],
+      p_hq_countries: ["U\\.S\\."],
+    });
+  });
+
+  it("matches HQ locations as whole words, so short country codes do not match inside city names", async () => {
+    const headquarters: Record<string, string> = {
+      milwaukee: "Milwaukee, Wisconsin, USA",
+      london: "London, UK",
+      cambridge: "Cambridge, U.K.",
+    };
+    const supabase = createInMemorySupabase({
+      companies: Object.entries(headquarters).map(([id, hq]) => ({
+        ...MOCK_COMPANIES[0],
+        id,
+        status: "startup",
+        sectors: ["Fintech"],
+        headquarters: hq,
+      })),
+    });
+    const matching = async (filters: StructuredFilters) =>
+      (await searchByTaxonomy(supabase.client, { sectors: ["Fintech"], statuses: ["startup"], filters })).map((row) => row.companyId);
+
+    expect(await matching({ hqCountries: ["UK"] })).toEqual(["london"]);
+    expect(await matching({ hqCountries: ["U.K."] })).toEqual(["cambridge"]);
+    expect(await matching({ hqCities: ["milwaukee"] })).toEqual(["milwaukee"]);
+    expect(await matching({ hqCities: ["Milwauk"] })).toEqual([]);
+  });
+
+  it("describes filters for activity details", () => {
+    expect(
+      describeStructuredFilters({
+        minRaisedUsd: 5_000_000,
+        maxRaisedUsd: 50_000_000,
+        foundedYearMin: 2019,
+        hqCountries: ["Germany"],
+      })
+    ).toBe("raised $5M-$50M; founded ≥ 2019; HQ: Germany");
+  });
+
+  it("rejects unknown team size buckets", () => {
+    expect(structuredFiltersSchema.safeParse({ teamSizeBuckets: ["2-5"] }).success).toBe(false);
+  });
+
+  it("rejects inverted raised and founded-year ranges", () => {
+    const raised = structuredFiltersSchema.safeParse({ minRaisedUsd: 50_000_000, maxRaisedUsd: 5_000_000 });
+    expect(raised.success).toBe(false);
+    expect(raised.error?.issues[0]).toMatchObject({ path: ["maxRaisedUsd"], message: "maxRaisedUsd must be at least minRaisedUsd" });
+
+    const founded = structuredFiltersSchema.safeParse({ foundedYearMin: 2022, foundedYearMax: 2018 });
+    expect(founded.success).toBe(false);
+    expect(founded.error?.issues[0]).toMatchObject({ path: ["foundedYearMax"], message: "foundedYearMax must be at least foundedYearMin" });
+
+    expect(structuredFiltersSchema.safeParse({ foundedYearMin: 2020, foundedYearMax: 2020 }).success).toBe(true);
+  });
+});
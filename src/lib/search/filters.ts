@@ -0,0 +1,151 @@
+import { z } from "zod";
+
+export const TEAM_SIZE_BUCKETS = ["1-10", "11-50", "51-200", "201-500", "501-1000", "1001+"] as const;
+
+export type TeamSizeBucket = (typeof TEAM_SIZE_BUCKETS)[number];
+
+const TEAM_SIZE_UPPER_BOUNDS: Array<[number, TeamSizeBucket]> = [
+  [10, "1-10"],
+  [50, "11-50"],
+  [200, "51-200"],
+  [500, "201-500"],
+  [1000, "501-1000"],
+];
+
+/** Bucket of a free-text team size ("11-50", "51-200 employees", "1,001+") by its lower bound; same as `company_team_size_bucket_v1`. */
+export function teamSizeBucket(teamSize: string | null): TeamSizeBucket | null {
+  const lowerBound = Number(teamSize?.match(/[0-9][0-9,]*/)?.[0]?.replace(/,/g, ""));
+  if (!teamSize || !Number.isFinite(lowerBound)) {
+    return null;
+  }
+  return TEAM_SIZE_UPPER_BOUNDS.find(([upper]) => lowerBound <= upper)?.[1] ?? "1001+";
+}
+
+export const structuredFiltersSchema = z
+  .object({
+    minRaisedUsd: z
+      .number()
+      .nonnegative()
+      .optional()
+      .describe("Minimum total raised in USD (e.g. 5000000 for $5M)"),
+    maxRaisedUsd: z
+      .number()
+      .nonnegative()
+      .optional()
+      .describe("Maximum total raised in USD"),
+    foundedYearMin: z.number().int().optional().describe("Earliest founded year, inclusive"),
+    foundedYearMax: z.number().int().optional().describe("Latest founded year, inclusive"),
+    hqCountries: z
+      .array(z.string().min(2))
+      .optional()
+      .describe("Headquarters countries, e.g. ['United States', 'UK']"),
+    hqCities: z
+      .array(z.string().min(2))
+      .optional()
+      .describe("Headquarters cities, e.g. ['New York', 'San Francisco']"),
+    teamSizeBuckets: z
+      .array(z.enum(TEAM_SIZE_BUCKETS))
+      .optional()
+      .describe("Employee count buckets"),
+  })
+  // An inverted range matches nothing; say so instead of returning an empty result the caller cannot explain.
+  .superRefine((value, ctx) => {
+    if (value.minRaisedUsd !== undefined && value.maxRaisedUsd !== undefined && value.minRaisedUsd > value.maxRaisedUsd) {
+      ctx.addIssue({ code: "custom", path: ["maxRaisedUsd"], message: "maxRaisedUsd must be at least minRaisedUsd" });
+    }
+    if (value.foundedYearMin !== undefined && value.foundedYearMax !== undefined && value.foundedYearMin > value.foundedYearMax) {
+      ctx.addIssue({ code: "custom", path: ["foundedYearMax"], message: "foundedYearMax must be at least foundedYearMin" });
+    }
+  });
+
+export type StructuredFilters = z.infer<typeof structuredFiltersSchema>;
+
+function cleanList(values: string[] | undefined): string[] {
+  return Array.from(new Set((values ?? []).map((value) => value.trim()).filter(Boolean)));
+}
+
+export function hasStructuredFilters(filters: StructuredFilters | null | undefined): boolean {
+  if (!filters) {
+    return false;
+  }
+
+  return (
+    filters.minRaisedUsd !== undefined
+    || filters.maxRaisedUsd !== undefined
+    || filters.foundedYearMin !== undefined
+    || filters.foundedYearMax !== undefined
+    || cleanList(filters.hqCountries).length > 0
+    || cleanList(filters.hqCities).length > 0
+    || (filters.teamSizeBuckets?.length ?? 0) > 0
+  );
+}
+
+/** Escapes regex metacharacters so user text matches itself inside a Postgres `~*` pattern. */
+export function escapeRegexPattern(value: string): string {
+  return value.replace(/[\\^$.*+?()[\]{}|]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Maps filters onto the shared `p_*` arguments of the `_v2` search RPCs. Locations are matched as
+ * whole words of `headquarters` with `~*` (see `company_passes_structured_filters_v1`), so they are
+ * escaped here.
+ */
+export function toStructuredFilterRpcArgs(filters: StructuredFilters | null | undefined): Record<string, unknown> {
+  const countries = cleanList(filters?.hqCountries).map(escapeRegexPattern);
+  const cities = cleanList(filters?.hqCities).map(escapeRegexPattern);
+  const buckets = filters?.teamSizeBuckets ?? [];
+
+  return {
+    p_min_raised_usd: filters?.minRaisedUsd !== undefined ? Math.round(filters.minRaisedUsd) : null,
+    p_max_raised_usd: filters?.maxRaisedUsd !== undefined ? Math.round(filters.maxRaisedUsd) : null,
+    p_founded_year_min: filters?.foundedYearMin ?? null,
+    p_founded_year_max: filters?.foundedYearMax ?? null,
+    p_hq_countries: countries.length ? countries : null,
+    p_hq_cities: cities.length ? cities : null,
+    p_team_size_buckets: buckets.length ? Array.from(new Set(buckets)) : null,
+  };
+}
+
+export function formatUsd(value: number): string {
+  if (value >= 1_000_000_000) {
+    return `$${Number((value / 1_000_000_000).toFixed(1))}B`;
+  }
+  if (value >= 1_000_000) {
+    return `$${Number((value / 1_000_000).toFixed(1))}M`;
+  }
+  if (value >= 1_000) {
+    return `$${Number((value / 1_000).toFixed(1))}K`;
+  }
+  return `$${value}`;
+}
+
+export function describeStructuredFilters(filters: StructuredFilters | null | undefined): string {
+  if (!filters || !hasStructuredFilters(filters)) {
+    return "";
+  }
+
+  const parts: string[] = [];
+  if (filters.minRaisedUsd !== undefined && filters.maxRaisedUsd !== undefined) {
+    parts.push(`raised ${formatUsd(filters.minRaisedUsd)}-${formatUsd(filters.maxRaisedUsd)}`);
+  } else if (filters.minRaisedUsd !== undefined) {
+    parts.push(`raised ≥ ${formatUsd(filters.minRaisedUsd)}`);
+  } else if (filters.maxRaisedUsd !== undefined) {
+    parts.push(`raised ≤ ${formatUsd(filters.maxRaisedUsd)}`);
+  }
+  if (filters.foundedYearMin !== undefined && filters.foundedYearMax !== undefined) {
+    parts.push(`founded ${filters.foundedYearMin}-${filters.foundedYearMax}`);
+  } else if (filters.foundedYearMin !== undefined) {
+    parts.push(`founded ≥ ${filters.foundedYearMin}`);
+  } else if (filters.foundedYearMax !== undefined) {
+    parts.push(`founded ≤ ${filters.foundedYearMax}`);
+  }
+  const locations = [...cleanList(filters.hqCities), ...cleanList(filters.hqCountries)];
+  if (locations.length) {
+    parts.push(`HQ: ${locations.join(", ")}`);
+  }
+  if (filters.teamSizeBuckets?.length) {
+    parts.push(`team: ${filters.teamSizeBuckets.join(", ")}`);
+  }
+
+  return parts.join("; ");
+}
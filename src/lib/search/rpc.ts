@@ -1,5 +1,6 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 
+import { hasStructuredFilters, toStructuredFilterRpcArgs, type StructuredFilters } from "@/lib/search/filters";
 import { normalizeCompanyRow } from "@/lib/search/normalize";
 import type { Company } from "@/types/company";
 
@@ -35,6 +36,14 @@ export interface TaxonomyResult {
   tagScore: number;
 }
 
+export interface SimilarCompanyResult {
+  companyId: string;
+  similarityScore: number;
+  taxonomyOverlap: number;
+  combinedScore: number;
+  sharedLabels: string[];
+}
+
 function asNumber(value: unknown, fallback = 0): number {
   if (typeof value === "number") {
     return value;
@@ -60,8 +69,14 @@ function vectorLiteral(vector: number[]): string {
   return `[${vector.map((value) => Number(value).toFixed(8)).join(",")}]`;
 }
 
-async function runRpc<T>(client: SupabaseClient, fn: string, args: Record<string, unknown>): Promise<T[]> {
-  const { data, error } = await client.rpc(fn, args);
+async function runRpc<T>(
+  client: SupabaseClient,
+  fn: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<T[]> {
+  const query = client.rpc(fn, args);
+  const { data, error } = await (signal ? query.abortSignal(signal) : query);
 
   if (error) {
     const hint = error.message.includes("structure of query does not match function result type")
@@ -79,13 +94,14 @@ export async function searchExactName(
     queryText: string;
     statuses: string[];
     limit?: number;
+    signal?: AbortSignal;
   },
 ): Promise<ExactNameResult[]> {
   const rows = await runRpc<Record<string, unknown>>(client, "search_exact_name_v1", {
     p_query_text: params.queryText,
     p_statuses: params.statuses,
     p_limit: params.limit ?? 10,
-  });
+  }, params.signal);
 
   return rows.map((row) => ({
     companyId: String(row.company_id ?? ""),
@@ -104,9 +120,11 @@ export async function searchHybrid(
     excludeIds?: string[];
     limit?: number;
     minSemantic?: number;
+    filters?: StructuredFilters;
+    signal?: AbortSignal;
   },
 ): Promise<HybridResult[]> {
-  const rows = await runRpc<Record<string, unknown>>(client, "search_companies_hybrid_v1", {
+  const args: Record<string, unknown> = {
     p_query_text: params.queryText,
     p_query_embedding: vectorLiteral(params.queryEmbedding),
     p_statuses: params.statuses,
@@ -114,7 +132,13 @@ export async function searchHybrid(
     p_exclude_ids: params.excludeIds ?? null,
     p_limit: params.limit ?? 120,
     p_min_semantic: params.minSemantic ?? 0.25,
-  });
+  };
+  const rows = hasStructuredFilters(params.filters)
+    ? await runRpc<Record<string, unknown>>(client, "search_companies_hybrid_v2", {
+      ...args,
+      ...toStructuredFilterRpcArgs(params.filters),
+    }, params.signal)
+    : await runRpc<Record<string, unknown>>(client, "search_companies_hybrid_v1", args, params.signal);
 
   return rows.map((row) => ({
     companyId: String(row.company_id ?? ""),
@@ -133,13 +157,21 @@ export async function searchKeyword(
     queryText: string;
     statuses: string[];
     limit?: number;
+    filters?: StructuredFilters;
+    signal?: AbortSignal;
   },
 ): Promise<KeywordResult[]> {
-  const rows = await runRpc<Record<string, unknown>>(client, "search_companies_keyword_v1", {
+  const args: Record<string, unknown> = {
     p_query_text: params.queryText,
     p_statuses: params.statuses,
     p_limit: params.limit ?? 120,
-  });
+  };
+  const rows = hasStructuredFilters(params.filters)
+    ? await runRpc<Record<string, unknown>>(client, "search_companies_keyword_v2", {
+      ...args,
+      ...toStructuredFilterRpcArgs(params.filters),
+    }, params.signal)
+    : await runRpc<Record<string, unknown>>(client, "search_companies_keyword_v1", args, params.signal);
 
   return rows.map((row) => ({
     companyId: String(row.company_id ?? ""),
@@ -158,15 +190,23 @@ export async function searchByTaxonomy(
     businessModels?: string[];
     statuses: string[];
     limit?: number;
+    filters?: StructuredFilters;
+    signal?: AbortSignal;
   },
 ): Promise<TaxonomyResult[]> {
-  const rows = await runRpc<Record<string, unknown>>(client, "search_companies_by_taxonomy_v1", {
+  const args: Record<string, unknown> = {
     p_sectors: params.sectors && params.sectors.length ? params.sectors : null,
     p_categories: params.categories && params.categories.length ? params.categories : null,
     p_business_models: params.businessModels && params.businessModels.length ? params.businessModels : null,
     p_statuses: params.statuses,
     p_limit: params.limit ?? 500,
-  });
+  };
+  const rows = hasStructuredFilters(params.filters)
+    ? await runRpc<Record<string, unknown>>(client, "search_companies_by_taxonomy_v2", {
+      ...args,
+      ...toStructuredFilterRpcArgs(params.filters),
+    }, params.signal)
+    : await runRpc<Record<string, unknown>>(client, "search_companies_by_taxonomy_v1", args, params.signal);
 
   return rows.map((row) => ({
     companyId: String(row.company_id ?? ""),
@@ -177,14 +217,51 @@ export async function searchByTaxonomy(
   }));
 }
 
-export async function getCompaniesByIds(client: SupabaseClient, companyIds: string[]): Promise<Company[]> {
+export async function findSimilarCompanies(
+  client: SupabaseClient,
+  params: {
+    companyId: string;
+    statuses: string[];
+    excludeIds?: string[];
+    limit?: number;
+    minSimilarity?: number;
+    signal?: AbortSignal;
+  },
+): Promise<SimilarCompanyResult[]> {
+  const rows = await runRpc<Record<string, unknown>>(client, "search_similar_companies_v1", {
+    p_company_id: params.companyId,
+    p_statuses: params.statuses,
+    p_exclude_ids: params.excludeIds && params.excludeIds.length ? params.excludeIds : null,
+    p_limit: params.limit ?? 30,
+    p_min_similarity: params.minSimilarity ?? 0.3,
+  }, params.signal);
+
+  return rows.map((row) => ({
+    companyId: String(row.company_id ?? ""),
+    similarityScore: asNumber(row.similarity_score),
+    taxonomyOverlap: asNumber(row.taxonomy_overlap),
+    combinedScore: asNumber(row.combined_score),
+    sharedLabels: asStringArray(row.shared_labels),
+  }));
+}
+
+export async function getCompaniesByIds(
+  client: SupabaseClient,
+  companyIds: string[],
+  signal?: AbortSignal,
+): Promise<Company[]> {
   if (!companyIds.length) {
     return [];
   }
 
   const rows = await runRpc<Record<string, unknown>>(client, "get_companies_by_ids_v1", {
     p_company_ids: companyIds,
-  });
+  }, signal);
 
   return rows.map((row) => normalizeCompanyRow(row));
 }
+
+export async function getCompanyById(client: SupabaseClient, companyId: string): Promise<Company | null> {
+  const [company] = await getCompaniesByIds(client, [companyId]);
+  return company ?? null;
+}
@@ -0,0 +1,166 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { SearchRunInsert, SearchRunResultInsert, SearchRunStepInsert } from "@/lib/search/telemetry";
+
+/** End reasons written by the orchestrators; `in_progress` marks runs that never finished. */
+export const SEARCH_RUN_END_REASONS = [
+  "in_progress",
+  "confidence_met",
+  "exact_match",
+  "converged",
+  "guardrail_hit",
+  "cancelled",
+  "error",
+] as const;
+
+export type SearchRunRow = SearchRunInsert & {
+  user_id: string | null;
+  /** Null for runs from before usage accounting. */
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  /** NUMERIC; may arrive as a string. */
+  cost_usd?: number | string | null;
+  created_at: string;
+};
+
+export type SearchRunStepRow = SearchRunStepInsert & { id: string; created_at: string };
+
+export type SearchRunResultRow = SearchRunResultInsert;
+
+export interface SearchRunFilters {
+  endReason?: string;
+  sessionId?: string;
+  minLatencyMs?: number;
+  maxLatencyMs?: number;
+  /** `created_at` of the last row on the previous page; returns strictly older runs. */
+  before?: string;
+  limit?: number;
+}
+
+export interface SearchRunDetail {
+  run: SearchRunRow;
+  /** Ordered by iteration, then step order. */
+  steps: SearchRunStepRow[];
+  /** Ordered by rank. */
+  results: SearchRunResultRow[];
+}
+
+const DEFAULT_RUN_PAGE_SIZE = 50;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const RUN_COLUMNS =
+  "id, session_id, user_id, query_text, status_scope, iteration_count, tool_call_count, final_candidate_count, end_reason, latency_ms, input_tokens, output_tokens, cost_usd, created_at";
+
+type PageSearchParams = Record<string, string | string[] | undefined>;
+
+function firstParam(params: PageSearchParams, key: string): string | undefined {
+  const value = params[key];
+  const first = (Array.isArray(value) ? value[0] : value)?.trim();
+  return first || undefined;
+}
+
+function readLatency(params: PageSearchParams, key: string): number | undefined {
+  const parsed = Number(firstParam(params, key));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/** Reads `/admin/runs` query parameters; unknown end reasons and malformed numbers are dropped. */
+export function searchRunFiltersFromParams(params: PageSearchParams): SearchRunFilters {
+  const endReason = firstParam(params, "endReason");
+  const before = firstParam(params, "before");
+
+  return {
+    endReason: SEARCH_RUN_END_REASONS.some((reason) => reason === endReason) ? endReason : undefined,
+    sessionId: firstParam(params, "session"),
+    minLatencyMs: readLatency(params, "minLatencyMs"),
+    maxLatencyMs: readLatency(params, "maxLatencyMs"),
+    before: before && !Number.isNaN(Date.parse(before)) ? before : undefined,
+  };
+}
+
+/** Inverse of `searchRunFiltersFromParams`, for pagination links. */
+export function searchRunFiltersToParams(filters: SearchRunFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const entries: Array<[string, string | number | undefined]> = [
+    ["endReason", filters.endReason],
+    ["session", filters.sessionId],
+    ["minLatencyMs", filters.minLatencyMs],
+    ["maxLatencyMs", filters.maxLatencyMs],
+    ["before", filters.before],
+  ];
+  for (const [key, value] of entries) {
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+  return params;
+}
+
+export async function listSearchRuns(client: SupabaseClient, filters: SearchRunFilters = {}): Promise<SearchRunRow[]> {
+  let query = client.from("search_runs").select(RUN_COLUMNS);
+  if (filters.endReason) {
+    query = query.eq("end_reason", filters.endReason);
+  }
+  if (filters.sessionId) {
+    query = query.eq("session_id", filters.sessionId);
+  }
+  if (filters.minLatencyMs !== undefined) {
+    query = query.gte("latency_ms", filters.minLatencyMs);
+  }
+  if (filters.maxLatencyMs !== undefined) {
+    query = query.lte("latency_ms", filters.maxLatencyMs);
+  }
+  if (filters.before) {
+    query = query.lt("created_at", filters.before);
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(filters.limit ?? DEFAULT_RUN_PAGE_SIZE);
+  if (error) {
+    throw new Error(`listSearchRuns failed: ${error.message}`);
+  }
+
+  return (data ?? []) as SearchRunRow[];
+}
+
+/** Returns null for unknown runs, including ids that are not UUIDs (Postgres would reject them). */
+export async function getSearchRunDetail(client: SupabaseClient, runId: string): Promise<SearchRunDetail | null> {
+  if (!UUID_PATTERN.test(runId)) {
+    return null;
+  }
+
+  const { data: run, error: runError } = await client
+    .from("search_runs")
+    .select(RUN_COLUMNS)
+    .eq("id", runId)
+    .maybeSingle<SearchRunRow>();
+  if (runError) {
+    throw new Error(`getSearchRunDetail failed: ${runError.message}`);
+  }
+  if (!run) {
+    return null;
+  }
+
+  const [stepsResult, resultsResult] = await Promise.all([
+    client
+      .from("search_run_steps")
+      .select("*")
+      .eq("run_id", runId)
+      .order("iteration_no", { ascending: true })
+      .order("step_order", { ascending: true })
+      .order("created_at", { ascending: true }),
+    client.from("search_run_results").select("run_id, company_id, rank, confidence, evidence").eq("run_id", runId).order("rank", { ascending: true }),
+  ]);
+  if (stepsResult.error) {
+    throw new Error(`getSearchRunDetail failed: ${stepsResult.error.message}`);
+  }
+  if (resultsResult.error) {
+    throw new Error(`getSearchRunDetail failed: ${resultsResult.error.message}`);
+  }
+
+  return {
+    run,
+    steps: (stepsResult.data ?? []) as SearchRunStepRow[],
+    results: (resultsResult.data ?? []) as SearchRunResultRow[],
+  };
+}
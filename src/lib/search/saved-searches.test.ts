@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createInMemorySupabase } from "@/lib/mock/in-memory-supabase";
+import { fakeEmbedding } from "@/lib/models/fake-provider";
+import type { SearchRunDetail } from "@/lib/search/run-history";
+import {
+  createSavedSearch,
+  diffNewCompanyIds,
+  getSavedSearch,
+  listSavedSearches,
+  rerunDueSavedSearches,
+  rerunSavedSearch,
+  savedSearchRequestFromRun,
+  type SavedSearchRow,
+} from "@/lib/search/saved-searches";
+
+const USER_ID = "5b0f3a7e-2c1d-4e8f-9a6b-3d2c1b0a9f8e";
+const deps = { embedQuery: async (text: string) => fakeEmbedding(text) };
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function runDetail(steps: Array<{ tool_name: string; input_summary: Record<string, unknown> }>): SearchRunDetail {
+  return {
+    run: {
+      id: "6f1d2c1e-8a53-4f7e-9a3b-0d7c5b1e2f90",
+      session_id: "session-1",
+      user_id: null,
+      query_text: "AI for compliance",
+      status_scope: ["startup", "acquired"],
+      iteration_count: 1,
+      tool_call_count: steps.length,
+      final_candidate_count: 5,
+      end_reason: "confidence_met",
+      latency_ms: 1200,
+      created_at: "2025-01-01T00:00:00.000Z",
+    },
+    steps: steps.map((step, index) => ({
+      ...step,
+      id: `step-${index}`,
+      run_id: "6f1d2c1e-8a53-4f7e-9a3b-0d7c5b1e2f90",
+      iteration_no: 1,
+      step_order: index + 1,
+      output_summary: {},
+      duration_ms: 10,
+      candidate_count_before: 0,
+      candidate_count_after: 0,
+      created_at: "2025-01-01T00:00:00.000Z",
+    })),
+    results: [],
+  };
+}
+
+describe("savedSearchRequestFromRun", () => {
+  it("keeps the run's query and scope with the last filters the agent applied", () => {
+    const request = savedSearchRequestFromRun(
+      runDetail([
+        { tool_name: "agent.search_semantic", input_summary: { query: "compliance", filters: { hqCountries: ["Japan"] } } },
+        { tool_name: "agent.search_keyword", input_summary: { keywords: "aml", filters: { foundedYearMin: 2018 } } },
+        { tool_name: "agent.search_semantic", input_summary: { query: "compliance automation" } },
+        { tool_name: "agent.get_company_details", input_summary: { filters: { foundedYearMin: 1990 } } },
+      ])
+    );
+
+    expect(request).toEqual({
+      query: "AI for compliance",
+      mode: "hybrid",
+      statuses: ["startup", "acquired"],
+      filters: { foundedYearMin: 2018 },
+    });
+  });
+});
+
+describe("diffNewCompanyIds", () => {
+  it("returns ids missing from the previous run in current order", () => {
+    expect(diffNewCompanyIds(["a", "b"], ["c", "b", "d", "a"])).toEqual(["c", "d"]);
+    expect(diffNewCompanyIds([], [])).toEqual([]);
+  });
+});
+
+describe("saved search runs", () => {
+  it("records a baseline, then reports companies new since the previous run", async () => {
+    const supabase = createInMemorySupabase();
+    const saved = await createSavedSearch(
+      supabase.client,
+      USER_ID,
+      { request: { query: "AI compliance and certification", mode: "hybrid" } },
+      deps
+    );
+
+    expect(saved.name).toBe("AI compliance and certification");
+    expect(saved.last_result_ids.length).toBeGreaterThan(1);
+    expect(saved.new_company_ids).toEqual([]);
+
+    // Pretend the previous run had not seen the first two companies yet.
+    const [first, second, ...rest] = saved.last_result_ids;
+    const outcome = await rerunSavedSearch(supabase.client, { ...saved, last_result_ids: rest }, deps);
+
+    expect(outcome).toEqual({ id: saved.id, status: "completed", newCompanyIds: [first, second] });
+    const stored = await getSavedSearch(supabase.client, USER_ID, saved.id);
+    expect(stored?.new_company_ids).toEqual([first, second]);
+    expect(stored?.last_result_ids).toEqual(saved.last_result_ids);
+
+    const failed = await rerunSavedSearch(supabase.client, stored as SavedSearchRow, {
+      embedQuery: async () => {
+        throw new Error("embedding offline");
+      },
+    });
+    expect(failed).toEqual({ id: saved.id, status: "error", error: "embedding offline" });
+    const afterFailure = await getSavedSearch(supabase.client, USER_ID, saved.id);
+    expect(afterFailure?.last_result_ids).toEqual(saved.last_result_ids);
+    expect(afterFailure?.new_company_ids).toEqual([first, second]);
+    expect(afterFailure?.last_run_error).toBe("embedding offline");
+  });
+
+  it("re-runs only searches that are due, oldest first", async () => {
+    const supabase = createInMemorySupabase();
+    const recent = await createSavedSearch(supabase.client, USER_ID, { name: "Recent", request: { query: "sales", mode: "keyword" } }, deps);
+    const stale = await createSavedSearch(supabase.client, USER_ID, { name: "Stale", request: { query: "security", mode: "keyword" } }, deps);
+    const staleRow = supabase.tables.get("saved_searches")?.find((row) => row.id === stale.id);
+    if (staleRow) {
+      staleRow.last_run_at = "2025-01-01T00:00:00.000Z";
+    }
+
+    const outcomes = await rerunDueSavedSearches(supabase.client, deps);
+
+    expect(outcomes.map((outcome) => outcome.id)).toEqual([stale.id]);
+    expect((await listSavedSearches(supabase.client, USER_ID)).map((row) => row.name).sort()).toEqual(["Recent", "Stale"]);
+    expect((await getSavedSearch(supabase.client, USER_ID, recent.id))?.last_run_at).toBe(recent.last_run_at);
+    expect(await getSavedSearch(supabase.client, USER_ID, "not-a-uuid")).toBeNull();
+    expect(await listSavedSearches(supabase.client, "0a9f8e7d-6c5b-4a3f-8e2d-1c0b9a8f7e6d")).toEqual([]);
+  });
+});
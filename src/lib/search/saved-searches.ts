@@ -0,0 +1,268 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  directSearchRequestSchema,
+  runDirectSearch,
+  type DirectSearchDeps,
+  type DirectSearchRequest,
+} from "@/lib/search/direct-search";
+import { describeStructuredFilters, hasStructuredFilters, structuredFiltersSchema } from "@/lib/search/filters";
+import type { SearchRunDetail } from "@/lib/search/run-history";
+import { describeStatusScope, normalizeStatusScope } from "@/lib/search/status-scope";
+
+/** Results kept per run; "new since last run" is computed within this window. */
+export const SAVED_SEARCH_RESULT_LIMIT = 50;
+/** Saved searches re-run by one scheduled invocation, oldest run first. */
+export const SAVED_SEARCH_RERUN_BATCH_SIZE = 25;
+/** Skips searches re-run more recently than this, so repeated cron calls do not reset "new since last run". */
+export const SAVED_SEARCH_RERUN_INTERVAL_MS = 20 * 60 * 60 * 1000;
+
+const MAX_NAME_LENGTH = 120;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** Agent tools whose input carries structured filters. */
+const FILTERED_RETRIEVAL_TOOLS = new Set(["agent.search_semantic", "agent.search_keyword", "agent.search_taxonomy"]);
+
+/** A `/api/search` request without paging; stored as `saved_searches.request`. */
+export type SavedSearchRequest = Omit<DirectSearchRequest, "limit" | "cursor">;
+
+export interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  request: SavedSearchRequest;
+  source_run_id: string | null;
+  /** Ranked company ids from the latest successful run. */
+  last_result_ids: string[];
+  /** Ids in `last_result_ids` that the run before it did not return. */
+  new_company_ids: string[];
+  last_run_at: string;
+  last_run_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateSavedSearchInput {
+  name?: string;
+  request: SavedSearchRequest;
+  sourceRunId?: string | null;
+}
+
+export interface SavedSearchDeps extends DirectSearchDeps {
+  /**
+   * Client for the search RPCs when `client` is scoped to a user; defaults to `client`.
+   * Routes pass the service-role client here and the user's client for the saved_searches rows.
+   */
+  searchClient?: SupabaseClient;
+}
+
+export type SavedSearchRerunOutcome =
+  | { id: string; status: "completed"; newCompanyIds: string[] }
+  | { id: string; status: "error"; error: string };
+
+/** Validates a stored or submitted request; throws `Invalid saved search request: ...`. */
+export function parseSavedSearchRequest(value: unknown): SavedSearchRequest {
+  const parsed = directSearchRequestSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(`Invalid saved search request: ${parsed.error.issues.map((issue) => issue.message).join("; ")}`);
+  }
+
+  const request: SavedSearchRequest & Partial<Pick<DirectSearchRequest, "limit" | "cursor">> = { ...parsed.data };
+  delete request.limit;
+  delete request.cursor;
+  return request;
+}
+
+/**
+ * Rebuilds a chat run as a direct-search request: the run's query and status scope, plus the
+ * structured filters from the last retrieval step that used any (the agent may loosen them mid-run).
+ */
+export function savedSearchRequestFromRun(detail: SearchRunDetail): SavedSearchRequest {
+  let filters: SavedSearchRequest["filters"];
+  for (const step of detail.steps) {
+    if (!FILTERED_RETRIEVAL_TOOLS.has(step.tool_name)) {
+      continue;
+    }
+    const parsed = structuredFiltersSchema.safeParse(step.input_summary.filters);
+    if (parsed.success && hasStructuredFilters(parsed.data)) {
+      filters = parsed.data;
+    }
+  }
+
+  return parseSavedSearchRequest({
+    query: detail.run.query_text,
+    mode: "hybrid",
+    statuses: normalizeStatusScope(detail.run.status_scope),
+    filters,
+  });
+}
+
+export function defaultSavedSearchName(request: SavedSearchRequest): string {
+  const base = request.query || [...(request.sectors ?? []), ...(request.categories ?? []), ...(request.businessModels ?? [])].join(", ");
+  return base.length > MAX_NAME_LENGTH ? `${base.slice(0, MAX_NAME_LENGTH - 3)}...` : base || "Saved search";
+}
+
+/** One-line summary of everything but the query: mode, status scope, taxonomy and filters. */
+export function describeSavedSearchRequest(request: SavedSearchRequest): string {
+  const taxonomy = [...(request.sectors ?? []), ...(request.categories ?? []), ...(request.businessModels ?? [])];
+  return [
+    request.mode,
+    describeStatusScope(normalizeStatusScope(request.statuses)),
+    taxonomy.join(", "),
+    describeStructuredFilters(request.filters),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Ids in `current` that are missing from `previous`, in `current` order. */
+export function diffNewCompanyIds(previous: string[], current: string[]): string[] {
+  const seen = new Set(previous);
+  return current.filter((id) => !seen.has(id));
+}
+
+async function fetchResultIds(client: SupabaseClient, request: SavedSearchRequest, deps: SavedSearchDeps): Promise<string[]> {
+  const response = await runDirectSearch(deps.searchClient ?? client, { ...request, limit: SAVED_SEARCH_RESULT_LIMIT }, deps);
+  return response.results.map((result) => result.company.id);
+}
+
+/** Runs the search once to record the baseline, so the first scheduled run only reports later additions. */
+export async function createSavedSearch(
+  client: SupabaseClient,
+  userId: string,
+  input: CreateSavedSearchInput,
+  deps: SavedSearchDeps
+): Promise<SavedSearchRow> {
+  const resultIds = await fetchResultIds(client, input.request, deps);
+  const now = new Date().toISOString();
+
+  const { data, error } = await client
+    .from("saved_searches")
+    .insert({
+      id: crypto.randomUUID(),
+      user_id: userId,
+      name: input.name?.trim().slice(0, MAX_NAME_LENGTH) || defaultSavedSearchName(input.request),
+      request: input.request,
+      source_run_id: input.sourceRunId ?? null,
+      last_result_ids: resultIds,
+      new_company_ids: [],
+      last_run_at: now,
+      last_run_error: null,
+      created_at: now,
+      updated_at: now,
+    })
+    .select("*")
+    .single<SavedSearchRow>();
+  if (error) {
+    throw new Error(`createSavedSearch failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function listSavedSearches(client: SupabaseClient, userId: string): Promise<SavedSearchRow[]> {
+  const { data, error } = await client
+    .from("saved_searches")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) {
+    throw new Error(`listSavedSearches failed: ${error.message}`);
+  }
+
+  return (data ?? []) as SavedSearchRow[];
+}
+
+/** Returns null for unknown ids and other users' searches, including ids that are not UUIDs. */
+export async function getSavedSearch(client: SupabaseClient, userId: string, id: string): Promise<SavedSearchRow | null> {
+  if (!UUID_PATTERN.test(id)) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("saved_searches")
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle<SavedSearchRow>();
+  if (error) {
+    throw new Error(`getSavedSearch failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/** Returns false when nothing was deleted. */
+export async function deleteSavedSearch(client: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(id)) {
+    return false;
+  }
+
+  const { data, error } = await client.from("saved_searches").delete().eq("id", id).eq("user_id", userId).select("id");
+  if (error) {
+    throw new Error(`deleteSavedSearch failed: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Re-runs a saved search and replaces its result set; `new_company_ids` becomes the diff against
+ * the previous set. A failed run keeps the previous results and records the error instead.
+ */
+export async function rerunSavedSearch(
+  client: SupabaseClient,
+  saved: SavedSearchRow,
+  deps: SavedSearchDeps
+): Promise<SavedSearchRerunOutcome> {
+  const now = new Date().toISOString();
+  let update: Partial<SavedSearchRow>;
+  let outcome: SavedSearchRerunOutcome;
+
+  try {
+    const resultIds = await fetchResultIds(client, parseSavedSearchRequest(saved.request), deps);
+    const newCompanyIds = diffNewCompanyIds(saved.last_result_ids, resultIds);
+    update = { last_result_ids: resultIds, new_company_ids: newCompanyIds, last_run_error: null };
+    outcome = { id: saved.id, status: "completed", newCompanyIds };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[saved-searches] Re-run failed", saved.id, message);
+    update = { last_run_error: message };
+    outcome = { id: saved.id, status: "error", error: message };
+  }
+
+  const { error } = await client
+    .from("saved_searches")
+    .update({ ...update, last_run_at: now, updated_at: now })
+    .eq("id", saved.id);
+  if (error) {
+    throw new Error(`rerunSavedSearch failed: ${error.message}`);
+  }
+
+  return outcome;
+}
+
+/** Re-runs the saved searches whose last run is older than the interval, oldest first, for every user. */
+export async function rerunDueSavedSearches(
+  client: SupabaseClient,
+  deps: SavedSearchDeps,
+  options: { now?: Date; intervalMs?: number; limit?: number } = {}
+): Promise<SavedSearchRerunOutcome[]> {
+  const cutoff = new Date((options.now ?? new Date()).getTime() - (options.intervalMs ?? SAVED_SEARCH_RERUN_INTERVAL_MS));
+  const { data, error } = await client
+    .from("saved_searches")
+    .select("*")
+    .lt("last_run_at", cutoff.toISOString())
+    .order("last_run_at", { ascending: true })
+    .limit(options.limit ?? SAVED_SEARCH_RERUN_BATCH_SIZE);
+  if (error) {
+    throw new Error(`rerunDueSavedSearches failed: ${error.message}`);
+  }
+
+  const outcomes: SavedSearchRerunOutcome[] = [];
+  // Sequential: each hybrid run embeds the query and issues several RPCs.
+  for (const saved of (data ?? []) as SavedSearchRow[]) {
+    outcomes.push(await rerunSavedSearch(client, saved, deps));
+  }
+
+  return outcomes;
+}
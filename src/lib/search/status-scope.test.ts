@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { inferStatusScopeFromMessage, normalizeStatusScope } from "@/lib/search/status-scope";
+
+describe("inferStatusScopeFromMessage", () => {
+  it("infers acquired companies from exit phrasing", () => {
+    expect(inferStatusScopeFromMessage("fintech companies acquired in the last few years")).toEqual(["acquired"]);
+  });
+
+  it("infers IPO'd and closed companies", () => {
+    expect(inferStatusScopeFromMessage("devtools startups that went public")).toEqual(["ipoed"]);
+    expect(inferStatusScopeFromMessage("AI companies that shut down")).toEqual(["closed"]);
+  });
+
+  it("keeps active startups when the message asks to include them", () => {
+    expect(inferStatusScopeFromMessage("healthcare startups including acquired ones")).toEqual(["startup", "acquired"]);
+  });
+
+  it("infers statuses only from phrases about what happened to the companies", () => {
+    expect(inferStatusScopeFromMessage("security startups that were acquired by Cisco")).toEqual(["acquired"]);
+    expect(inferStatusScopeFromMessage("IPO'd fintechs")).toEqual(["ipoed"]);
+  });
+
+  it("returns null when no status is mentioned", () => {
+    expect(inferStatusScopeFromMessage("AI tools for accounting teams")).toBeNull();
+  });
+
+  it("ignores markets and phrases that only resemble a status", () => {
+    expect(inferStatusScopeFromMessage("talent acquisition software startups")).toBeNull();
+    expect(inferStatusScopeFromMessage("customer acquisition tools")).toBeNull();
+    expect(inferStatusScopeFromMessage("tools for public companies")).toBeNull();
+    expect(inferStatusScopeFromMessage("startups that exited stealth")).toBeNull();
+  });
+});
+
+describe("normalizeStatusScope", () => {
+  it("drops unknown statuses and falls back to startups", () => {
+    expect(normalizeStatusScope(["closed", "failed_parsing", "acquired"])).toEqual(["acquired", "closed"]);
+    expect(normalizeStatusScope(["changed_name"])).toEqual(["startup"]);
+    expect(normalizeStatusScope(undefined)).toEqual(["startup"]);
+  });
+});
@@ -0,0 +1,67 @@
+/** Company statuses users can search; `failed_parsing` and `changed_name` are data-quality states, not scopes. */
+export const SEARCHABLE_COMPANY_STATUSES = ["startup", "acquired", "ipoed", "closed"] as const;
+
+export type SearchableCompanyStatus = (typeof SEARCHABLE_COMPANY_STATUSES)[number];
+
+export const DEFAULT_STATUS_SCOPE: SearchableCompanyStatus[] = ["startup"];
+
+export const STATUS_SCOPE_LABELS: Record<SearchableCompanyStatus, string> = {
+  startup: "Active startups",
+  acquired: "Acquired",
+  ipoed: "IPO'd",
+  closed: "Closed",
+};
+
+function isSearchableStatus(value: unknown): value is SearchableCompanyStatus {
+  return typeof value === "string" && (SEARCHABLE_COMPANY_STATUSES as readonly string[]).includes(value);
+}
+
+/** Keeps known statuses in canonical order; falls back to the default scope when nothing valid remains. */
+export function normalizeStatusScope(value: unknown): SearchableCompanyStatus[] {
+  if (!Array.isArray(value)) {
+    return [...DEFAULT_STATUS_SCOPE];
+  }
+
+  const requested = new Set(value.filter(isSearchableStatus));
+  const normalized = SEARCHABLE_COMPANY_STATUSES.filter((status) => requested.has(status));
+  return normalized.length ? normalized : [...DEFAULT_STATUS_SCOPE];
+}
+
+// Only phrases that describe what happened to the companies: "acquisition" or "public companies" alone
+// usually name a market ("customer acquisition tools", "software for public companies").
+const STATUS_PATTERNS: Array<{ status: SearchableCompanyStatus; pattern: RegExp }> = [
+  {
+    status: "acquired",
+    pattern:
+      /\b((?:was|were|been|being|got|get) (?:acquired|bought)|acquired (?:companies|startups?|ones|businesses|by|in)|(?:companies|startups?|ones) acquired)\b/,
+  },
+  { status: "ipoed", pattern: /\b(ipo'?d|ipo'?ed|went public|gone public|(?:had|completed) (?:an|their) ipo)\b/ },
+  {
+    status: "closed",
+    pattern: /\b(shut ?down|shutdowns?|defunct|went under|out of business|dead (?:startups?|companies)|closed (?:down|startups?|companies))\b/,
+  },
+];
+
+const INCLUDE_ACTIVE_PATTERN = /\b(including|as well as|along with|or still|still active|active (?:startups?|companies)|any status|all statuses)\b/;
+
+/**
+ * Infers a status scope from phrases like "acquired in the last few years" or "startups that went public".
+ * Returns null when the message does not mention a status so the caller keeps the current scope.
+ */
+export function inferStatusScopeFromMessage(message: string): SearchableCompanyStatus[] | null {
+  const normalized = message.toLowerCase();
+  if (/\b(any status|all statuses|regardless of status)\b/.test(normalized)) {
+    return [...SEARCHABLE_COMPANY_STATUSES];
+  }
+
+  const matched = STATUS_PATTERNS.filter(({ pattern }) => pattern.test(normalized)).map(({ status }) => status);
+  if (!matched.length) {
+    return null;
+  }
+
+  return normalizeStatusScope(INCLUDE_ACTIVE_PATTERN.test(normalized) ? ["startup", ...matched] : matched);
+}
+
+export function describeStatusScope(scope: SearchableCompanyStatus[]): string {
+  return scope.map((status) => STATUS_SCOPE_LABELS[status]).join(", ");
+}
@@ -1,8 +1,12 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 
-interface SearchRunInsert {
+import type { UsageTotals } from "@/lib/usage/usage-meter";
+
+export interface SearchRunInsert {
   id: string;
   session_id: string;
+  /** Null for eval runs and replays, and for runs from before sign-in existed. */
+  user_id?: string | null;
   query_text: string;
   status_scope: string[];
   iteration_count: number;
@@ -21,9 +25,12 @@ interface SearchRunUpdate {
   final_candidate_count?: number;
   end_reason?: string;
   latency_ms?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  cost_usd?: number;
 }
 
-interface SearchRunStepInsert {
+export interface SearchRunStepInsert {
   run_id: string;
   iteration_no: number;
   step_order: number;
@@ -35,7 +42,7 @@ interface SearchRunStepInsert {
   candidate_count_after: number;
 }
 
-interface SearchRunResultInsert {
+export interface SearchRunResultInsert {
   run_id: string;
   company_id: string;
   rank: number;
@@ -43,6 +50,11 @@ interface SearchRunResultInsert {
   evidence: Record<string, unknown>;
 }
 
+/** Model usage so far, written with every run update so a failed or paused run still records what it spent. */
+export function searchRunUsageColumns(usage: UsageTotals): Pick<SearchRunUpdate, "input_tokens" | "output_tokens" | "cost_usd"> {
+  return { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens, cost_usd: usage.costUsd };
+}
+
 export async function insertSearchRun(client: SupabaseClient, payload: SearchRunInsert): Promise<string | null> {
   const { data, error } = await client
     .from("search_runs")
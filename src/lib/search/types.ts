@@ -54,7 +54,8 @@ export interface SearchRunTelemetry {
   runId: string;
   iterationCount: number;
   toolCallCount: number;
-  endReason: "exact_match" | "confidence_met" | "converged" | "guardrail_hit" | "error";
+  endReason: "exact_match" | "confidence_met" | "converged" | "guardrail_hit" | "cancelled" | "error";
+  statusScope?: string[];
 }
 
 export interface FinalAnswerPayload {
@@ -4,7 +4,17 @@ import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { getServerEnv } from "@/lib/env";
 
 let cachedClient: SupabaseClient | null = null;
+let cachedAuthClient: SupabaseClient | null = null;
 
+const SERVER_AUTH_OPTIONS = {
+  autoRefreshToken: false,
+  persistSession: false,
+} as const;
+
+/**
+ * Service-role client: bypasses row-level security. Use it for the search RPCs, run telemetry,
+ * pending clarifications and system jobs, never for rows owned by a user.
+ */
 export function getSupabaseServerClient(): SupabaseClient {
   if (cachedClient) {
     return cachedClient;
@@ -13,11 +23,33 @@ export function getSupabaseServerClient(): SupabaseClient {
   const env = getServerEnv();
 
   cachedClient = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
+    auth: SERVER_AUTH_OPTIONS,
   });
 
   return cachedClient;
 }
+
+/** Anon-key client for Supabase Auth calls (sending links, verifying tokens, refreshing sessions). */
+export function getSupabaseAuthClient(): SupabaseClient {
+  if (cachedAuthClient) {
+    return cachedAuthClient;
+  }
+
+  const env = getServerEnv();
+
+  cachedAuthClient = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY, {
+    auth: SERVER_AUTH_OPTIONS,
+  });
+
+  return cachedAuthClient;
+}
+
+/** Client that acts as the signed-in user, so row-level security policies apply. */
+export function createUserSupabaseClient(accessToken: string): SupabaseClient {
+  const env = getServerEnv();
+
+  return createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY, {
+    auth: SERVER_AUTH_OPTIONS,
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+}
@@ -0,0 +1,86 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { addUsageTotals, EMPTY_USAGE, type UsageTotals } from "@/lib/usage/usage-meter";
+
+/**
+ * Request counters and daily usage behind rate limits and budgets. The Postgres store is
+ * shared by every server instance; the in-memory store is for tests and single-process dev.
+ */
+export interface LimitStore {
+  /** Counts one request for `key` in the window starting at `windowStart`; returns the count including it. */
+  increment(key: string, windowStart: string): Promise<number>;
+  addUsage(key: string, day: string, usage: UsageTotals): Promise<void>;
+  getUsage(key: string, day: string): Promise<UsageTotals>;
+}
+
+export function createInMemoryLimitStore(): LimitStore {
+  const counters = new Map<string, number>();
+  const usage = new Map<string, UsageTotals>();
+
+  return {
+    async increment(key, windowStart) {
+      const counterKey = `${key}@${windowStart}`;
+      const count = (counters.get(counterKey) ?? 0) + 1;
+      counters.set(counterKey, count);
+      return count;
+    },
+    async addUsage(key, day, added) {
+      const usageKey = `${key}@${day}`;
+      usage.set(usageKey, addUsageTotals(usage.get(usageKey) ?? EMPTY_USAGE, added));
+    },
+    async getUsage(key, day) {
+      return usage.get(`${key}@${day}`) ?? EMPTY_USAGE;
+    },
+  };
+}
+
+interface DailyUsageRow {
+  input_tokens: number | string;
+  output_tokens: number | string;
+  cost_usd: number | string;
+}
+
+/** Counters and usage are upserted by RPCs so concurrent requests on different instances cannot lose updates. */
+export function createSupabaseLimitStore(client: SupabaseClient): LimitStore {
+  return {
+    async increment(key, windowStart) {
+      const { data, error } = await client.rpc("increment_request_counter", { p_key: key, p_window_start: windowStart });
+      if (error) {
+        throw new Error(`increment_request_counter failed: ${error.message}`);
+      }
+      return Number(data);
+    },
+    async addUsage(key, day, usage) {
+      const { error } = await client.rpc("add_daily_usage", {
+        p_key: key,
+        p_day: day,
+        p_input_tokens: usage.inputTokens,
+        p_output_tokens: usage.outputTokens,
+        p_cost_usd: usage.costUsd,
+      });
+      if (error) {
+        throw new Error(`add_daily_usage failed: ${error.message}`);
+      }
+    },
+    async getUsage(key, day) {
+      const { data, error } = await client
+        .from("daily_usage")
+        .select("input_tokens, output_tokens, cost_usd")
+        .eq("key", key)
+        .eq("day", day)
+        .maybeSingle<DailyUsageRow>();
+      if (error) {
+        throw new Error(`getDailyUsage failed: ${error.message}`);
+      }
+      if (!data) {
+        return EMPTY_USAGE;
+      }
+      // BIGINT and NUMERIC columns can arrive as strings.
+      return {
+        inputTokens: Number(data.input_tokens),
+        outputTokens: Number(data.output_tokens),
+        costUsd: Number(data.cost_usd),
+      };
+    },
+  };
+}
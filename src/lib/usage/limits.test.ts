@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createInMemoryLimitStore, type LimitStore } from "@/lib/usage/limit-store";
+import {
+  BUDGET_EXCEEDED_MESSAGE,
+  checkUsageLimits,
+  limitExceededResponse,
+  recordUsage,
+  SERVICE_BUDGET_EXCEEDED_MESSAGE,
+  type UsageLimitConfig,
+  type UsageLimits,
+} from "@/lib/usage/limits";
+import { createUsageMeter, usageCostUsd } from "@/lib/usage/usage-meter";
+
+const NOW = new Date("2025-03-10T18:00:30.000Z");
+const SUBJECT = { userId: "user-1", sessionId: "session-1", ip: "203.0.113.7" };
+
+function buildLimits(config: Partial<UsageLimitConfig> = {}, store: LimitStore = createInMemoryLimitStore()): UsageLimits {
+  return {
+    store,
+    config: {
+      rateLimits: { chat: { limit: 2, windowMs: 60_000 }, resume: { limit: 1, windowMs: 3_600_000 }, resume_search: { limit: 1, windowMs: 3_600_000 } },
+      dailyUserTokenBudget: null,
+      dailyUserCostBudgetUsd: null,
+      dailyTotalCostBudgetUsd: null,
+      ...config,
+    },
+  };
+}
+
+describe("createUsageMeter", () => {
+  it("sums language model and embedding usage and prices known models", () => {
+    const meter = createUsageMeter();
+    meter.record("gpt-4o-mini-2024-07-18", { inputTokens: 1_000_000, outputTokens: 100_000, totalTokens: 1_100_000 });
+    meter.record("text-embedding-3-small", { tokens: 500_000 });
+    meter.record("llama-3.1-70b", { inputTokens: 200, outputTokens: undefined });
+
+    const totals = meter.totals();
+    expect(totals.inputTokens).toBe(1_500_200);
+    expect(totals.outputTokens).toBe(100_000);
+    expect(totals.costUsd).toBeCloseTo(0.15 + 0.06 + 0.01, 6);
+    expect(usageCostUsd("llama-3.1-70b", { inputTokens: 1_000, outputTokens: 1_000 })).toBe(0);
+  });
+});
+
+describe("checkUsageLimits", () => {
+  it("rate limits per fixed window and reports when the window resets", async () => {
+    const limits = buildLimits();
+
+    expect((await checkUsageLimits(limits, "chat", SUBJECT, NOW)).allowed).toBe(true);
+    expect((await checkUsageLimits(limits, "chat", SUBJECT, NOW)).allowed).toBe(true);
+    expect(await checkUsageLimits(limits, "chat", SUBJECT, NOW)).toMatchObject({
+      allowed: false,
+      code: "rate_limited",
+      retryAfterSeconds: 30,
+    });
+    expect((await checkUsageLimits(limits, "resume", SUBJECT, NOW)).allowed).toBe(true);
+    expect((await checkUsageLimits(limits, "chat", SUBJECT, new Date("2025-03-10T18:01:00.000Z"))).allowed).toBe(true);
+  });
+
+  it("limits an IP across users", async () => {
+    const limits = buildLimits();
+    await checkUsageLimits(limits, "resume", SUBJECT, NOW);
+
+    const decision = await checkUsageLimits(limits, "resume", { userId: "user-2", ip: SUBJECT.ip }, NOW);
+
+    expect(decision).toMatchObject({ allowed: false, code: "rate_limited" });
+  });
+
+  it("refuses requests once the user's or the deployment's daily budget is spent", async () => {
+    const limits = buildLimits({ dailyUserTokenBudget: 1_000, dailyTotalCostBudgetUsd: 5 });
+    await recordUsage(limits, SUBJECT, { inputTokens: 900, outputTokens: 100, costUsd: 0.01 }, NOW);
+
+    expect(await checkUsageLimits(limits, "chat", SUBJECT, NOW)).toEqual({
+      allowed: false,
+      code: "budget_exceeded",
+      message: BUDGET_EXCEEDED_MESSAGE,
+      retryAfterSeconds: 6 * 3600 - 30,
+    });
+    expect((await checkUsageLimits(limits, "chat", { userId: "user-2" }, NOW)).allowed).toBe(true);
+    expect((await checkUsageLimits(limits, "chat", SUBJECT, new Date("2025-03-11T00:00:00.000Z"))).allowed).toBe(true);
+
+    await recordUsage(limits, { userId: "user-2" }, { inputTokens: 10, outputTokens: 0, costUsd: 5 }, NOW);
+    expect(await checkUsageLimits(limits, "chat", { userId: "user-3" }, NOW)).toMatchObject({
+      allowed: false,
+      message: SERVICE_BUDGET_EXCEEDED_MESSAGE,
+    });
+  });
+
+  it("allows requests when the store is unavailable", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const failing: LimitStore = {
+      increment: async () => {
+        throw new Error("increment_request_counter failed: connection refused");
+      },
+      addUsage: async () => undefined,
+      getUsage: async () => ({ inputTokens: 0, outputTokens: 0, costUsd: 0 }),
+    };
+
+    expect(await checkUsageLimits(buildLimits({}, failing), "chat", SUBJECT, NOW)).toEqual({ allowed: true });
+    vi.restoreAllMocks();
+  });
+});
+
+describe("limitExceededResponse", () => {
+  it("is a 429 carrying one NDJSON error event", async () => {
+    const response = limitExceededResponse({
+      allowed: false,
+      code: "budget_exceeded",
+      message: BUDGET_EXCEEDED_MESSAGE,
+      retryAfterSeconds: 120,
+    });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("120");
+    expect(await response.text()).toBe(
+      `${JSON.stringify({ type: "error", data: { message: BUDGET_EXCEEDED_MESSAGE, code: "budget_exceeded" } })}\n`
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import type { LimitStore } from "@/lib/usage/limit-store";
+import { totalTokens, type UsageTotals } from "@/lib/usage/usage-meter";
+
+export const LIMITED_ROUTES = ["chat", "resume", "resume_search"] as const;
+
+export type LimitedRoute = (typeof LIMITED_ROUTES)[number];
+
+export const RATE_LIMITED_MESSAGE = "You're sending requests too quickly. Please wait a moment and try again.";
+export const BUDGET_EXCEEDED_MESSAGE = "You've reached today's usage limit. It resets at midnight UTC.";
+export const SERVICE_BUDGET_EXCEEDED_MESSAGE = "Search has reached its usage limit for today. Please try again tomorrow.";
+
+const TOTAL_USAGE_KEY = "total";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface UsageLimitConfig {
+  rateLimits: Record<LimitedRoute, RateLimitRule>;
+  /** Per user per UTC day, across chat and resume; null disables the budget. */
+  dailyUserTokenBudget: number | null;
+  dailyUserCostBudgetUsd: number | null;
+  /** Whole deployment per UTC day. */
+  dailyTotalCostBudgetUsd: number | null;
+}
+
+export interface UsageLimits {
+  store: LimitStore;
+  config: UsageLimitConfig;
+}
+
+export interface LimitSubject {
+  userId: string;
+  sessionId?: string | null;
+  ip?: string | null;
+}
+
+export type LimitErrorCode = "rate_limited" | "budget_exceeded";
+
+export type LimitDecision =
+  | { allowed: true }
+  | { allowed: false; code: LimitErrorCode; message: string; retryAfterSeconds: number };
+
+/** The NDJSON `error` event both streaming routes send when a request is refused. */
+export interface LimitErrorEvent {
+  type: "error";
+  data: { message: string; code: LimitErrorCode };
+}
+
+function utcDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(now: Date): number {
+  const nextDay = Date.parse(`${utcDay(now)}T00:00:00.000Z`) + DAY_MS;
+  return Math.max(1, Math.ceil((nextDay - now.getTime()) / 1000));
+}
+
+function userUsageKey(userId: string): string {
+  return `user:${userId}`;
+}
+
+/** Every identity a request is rate limited under: the user, plus the chat session and client IP when known. */
+export function rateLimitKeys(route: LimitedRoute, subject: LimitSubject): string[] {
+  return [
+    `${route}:user:${subject.userId}`,
+    subject.sessionId ? `${route}:session:${subject.sessionId}` : null,
+    subject.ip ? `${route}:ip:${subject.ip}` : null,
+  ].filter((key): key is string => key !== null);
+}
+
+/** First hop of `X-Forwarded-For`, as set by Vercel and most proxies. */
+export function clientIp(request: Request): string | null {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || request.headers.get("x-real-ip")?.trim() || null;
+}
+
+async function checkBudgets(limits: UsageLimits, subject: LimitSubject, now: Date): Promise<LimitDecision> {
+  const { config, store } = limits;
+  const day = utcDay(now);
+  const retryAfterSeconds = secondsUntilNextUtcDay(now);
+
+  if (config.dailyTotalCostBudgetUsd !== null) {
+    const total = await store.getUsage(TOTAL_USAGE_KEY, day);
+    if (total.costUsd >= config.dailyTotalCostBudgetUsd) {
+      return { allowed: false, code: "budget_exceeded", message: SERVICE_BUDGET_EXCEEDED_MESSAGE, retryAfterSeconds };
+    }
+  }
+
+  if (config.dailyUserTokenBudget !== null || config.dailyUserCostBudgetUsd !== null) {
+    const usage = await store.getUsage(userUsageKey(subject.userId), day);
+    const overTokens = config.dailyUserTokenBudget !== null && totalTokens(usage) >= config.dailyUserTokenBudget;
+    const overCost = config.dailyUserCostBudgetUsd !== null && usage.costUsd >= config.dailyUserCostBudgetUsd;
+    if (overTokens || overCost) {
+      return { allowed: false, code: "budget_exceeded", message: BUDGET_EXCEEDED_MESSAGE, retryAfterSeconds };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Budgets are checked before the request is counted, so refused requests don't use up the rate
+ * limit. Rate limits use fixed windows. A failing store lets the request through: limits protect
+ * the bill and should not take search down with them.
+ */
+export async function checkUsageLimits(
+  limits: UsageLimits,
+  route: LimitedRoute,
+  subject: LimitSubject,
+  now = new Date()
+): Promise<LimitDecision> {
+  try {
+    const budget = await checkBudgets(limits, subject, now);
+    if (!budget.allowed) {
+      return budget;
+    }
+
+    const rule = limits.config.rateLimits[route];
+    const windowStartMs = Math.floor(now.getTime() / rule.windowMs) * rule.windowMs;
+    const windowStart = new Date(windowStartMs).toISOString();
+    const counts = await Promise.all(rateLimitKeys(route, subject).map((key) => limits.store.increment(key, windowStart)));
+    if (counts.some((count) => count > rule.limit)) {
+      return {
+        allowed: false,
+        code: "rate_limited",
+        message: RATE_LIMITED_MESSAGE,
+        retryAfterSeconds: Math.max(1, Math.ceil((windowStartMs + rule.windowMs - now.getTime()) / 1000)),
+      };
+    }
+
+    return { allowed: true };
+  } catch (error) {
+    console.error("[usage] Limit check failed; allowing request", error);
+    return { allowed: true };
+  }
+}
+
+/** Adds a finished request's usage to the user's and the deployment's daily totals. Never throws. */
+export async function recordUsage(limits: UsageLimits, subject: LimitSubject, usage: UsageTotals, now = new Date()): Promise<void> {
+  if (!totalTokens(usage)) {
+    return;
+  }
+
+  const day = utcDay(now);
+  try {
+    await Promise.all([
+      limits.store.addUsage(userUsageKey(subject.userId), day, usage),
+      limits.store.addUsage(TOTAL_USAGE_KEY, day, usage),
+    ]);
+  } catch (error) {
+    console.error("[usage] Failed to record usage", error);
+  }
+}
+
+/** `429` with a single NDJSON `error` event, so streaming clients read it like any other failure. */
+export function limitExceededResponse(decision: Extract<LimitDecision, { allowed: false }>): Response {
+  const event: LimitErrorEvent = { type: "error", data: { message: decision.message, code: decision.code } };
+  return new Response(`${JSON.stringify(event)}\n`, {
+    status: 429,
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Retry-After": String(decision.retryAfterSeconds),
+    },
+  });
+}
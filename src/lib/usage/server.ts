@@ -0,0 +1,39 @@
+import "server-only";
+
+import { getServerEnv } from "@/lib/env";
+import { getSupabaseServerClient } from "@/lib/supabase/server";
+import { createInMemoryLimitStore, createSupabaseLimitStore, type LimitStore } from "@/lib/usage/limit-store";
+import type { UsageLimits } from "@/lib/usage/limits";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+let cachedMemoryStore: LimitStore | null = null;
+
+/** Limits from the server env. The in-memory store only holds within one process, so production uses Postgres. */
+export function getUsageLimits(): UsageLimits {
+  const env = getServerEnv();
+
+  let store: LimitStore;
+  if (env.RATE_LIMIT_STORE === "memory") {
+    cachedMemoryStore ??= createInMemoryLimitStore();
+    store = cachedMemoryStore;
+  } else {
+    store = createSupabaseLimitStore(getSupabaseServerClient());
+  }
+
+  return {
+    store,
+    config: {
+      rateLimits: {
+        chat: { limit: env.CHAT_RATE_LIMIT_PER_MINUTE, windowMs: MINUTE_MS },
+        resume: { limit: env.RESUME_RATE_LIMIT_PER_HOUR, windowMs: HOUR_MS },
+        // Counted apart from uploads so confirming an extracted profile does not spend a second upload.
+        resume_search: { limit: env.RESUME_RATE_LIMIT_PER_HOUR, windowMs: HOUR_MS },
+      },
+      dailyUserTokenBudget: env.DAILY_USER_TOKEN_BUDGET ?? null,
+      dailyUserCostBudgetUsd: env.DAILY_USER_COST_BUDGET_USD ?? null,
+      dailyTotalCostBudgetUsd: env.DAILY_TOTAL_COST_BUDGET_USD ?? null,
+    },
+  };
+}
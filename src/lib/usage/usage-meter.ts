@@ -0,0 +1,101 @@
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  costUsd: number;
+}
+
+/** USD per million tokens. Embedding models only bill input. */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * OpenAI list prices. Model ids not listed here (local or self-hosted models) cost nothing,
+ * but their tokens still count toward token budgets.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+  "text-embedding-3-small": { inputPerMillion: 0.02, outputPerMillion: 0 },
+  "text-embedding-3-large": { inputPerMillion: 0.13, outputPerMillion: 0 },
+};
+
+export const EMPTY_USAGE: UsageTotals = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+function tokenCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+}
+
+/**
+ * Reads the `usage` (or `totalUsage`) field of an AI SDK result: `{ inputTokens, outputTokens }`
+ * for language models, `{ tokens }` for embeddings. Missing counts read as zero.
+ */
+export function readTokenUsage(usage: unknown): TokenUsage {
+  if (typeof usage !== "object" || usage === null) {
+    return { inputTokens: 0, outputTokens: 0 };
+  }
+
+  const record = usage as Record<string, unknown>;
+  if ("tokens" in record) {
+    return { inputTokens: tokenCount(record.tokens), outputTokens: 0 };
+  }
+  return { inputTokens: tokenCount(record.inputTokens), outputTokens: tokenCount(record.outputTokens) };
+}
+
+/** Matches dated snapshots (`gpt-4o-mini-2024-07-18`) to their base model; the longest known prefix wins. */
+function findPrice(modelId: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[modelId]) {
+    return prices[modelId];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((known) => modelId.startsWith(`${known}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+export function usageCostUsd(modelId: string, usage: TokenUsage, prices = DEFAULT_MODEL_PRICES): number {
+  const price = findPrice(modelId, prices);
+  if (!price) {
+    return 0;
+  }
+
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+export function addUsageTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens;
+}
+
+/** Accumulates the token usage and cost of every model call made for one request. */
+export interface UsageMeter {
+  record(modelId: string, usage: unknown): void;
+  totals(): UsageTotals;
+}
+
+export function createUsageMeter(prices = DEFAULT_MODEL_PRICES): UsageMeter {
+  let totals = EMPTY_USAGE;
+
+  return {
+    record(modelId, usage) {
+      const tokens = readTokenUsage(usage);
+      totals = addUsageTotals(totals, { ...tokens, costUsd: usageCostUsd(modelId, tokens, prices) });
+    },
+    totals: () => totals,
+  };
+}
@@ -4,3 +4,7 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]): string {
   return twMerge(clsx(inputs));
 }
+
+export function companyPermalink(companyId: string): string {
+  return `/companies/${encodeURIComponent(companyId)}`;
+}
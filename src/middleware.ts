@@ -0,0 +1,63 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  accessTokenExpiresAt,
+  writeSessionCookies,
+  type SessionTokens,
+} from "@/lib/auth/session";
+
+/** Refresh this long before expiry so a token does not lapse mid-request. */
+const REFRESH_MARGIN_MS = 60_000;
+
+async function refreshTokens(refreshToken: string): Promise<SessionTokens | null> {
+  // Middleware runs on the edge runtime, outside the `server-only` env module.
+  const url = process.env.SUPABASE_URL;
+  const anonKey = process.env.SUPABASE_ANON_KEY;
+  if (!url || !anonKey) {
+    return null;
+  }
+
+  const client = createClient(url, anonKey, { auth: { autoRefreshToken: false, persistSession: false } });
+  const { data, error } = await client.auth.refreshSession({ refresh_token: refreshToken });
+  if (error || !data.session) {
+    return null;
+  }
+
+  return { accessToken: data.session.access_token, refreshToken: data.session.refresh_token };
+}
+
+/**
+ * Keeps the session cookies fresh: Supabase access tokens last an hour, and server components
+ * cannot write cookies, so expiring tokens are swapped here before pages and routes read them.
+ */
+export async function middleware(request: NextRequest): Promise<NextResponse> {
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  if (!refreshToken) {
+    return NextResponse.next();
+  }
+
+  const expiresAt = accessToken ? accessTokenExpiresAt(accessToken) : null;
+  if (expiresAt !== null && expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return NextResponse.next();
+  }
+
+  const tokens = await refreshTokens(refreshToken);
+  // Forward the new tokens to this request's handlers, then persist them on the response.
+  if (tokens) {
+    request.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken);
+    request.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken);
+  } else {
+    request.cookies.delete([ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE]);
+  }
+  const response = NextResponse.next({ request });
+  writeSessionCookies(response.cookies, tokens);
+  return response;
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|api/cron|auth/confirm|.*\\.(?:png|ico|svg)$).*)"],
+};
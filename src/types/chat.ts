@@ -1,3 +1,5 @@
+import type { SearchableCompanyStatus } from "@/lib/search/status-scope";
+import type { LimitErrorCode } from "@/lib/usage/limits";
 import type { Company, CompanyReference } from "@/types/company";
 
 export type ChatRole = "user" | "assistant";
@@ -8,6 +10,8 @@ export interface ChatMessage {
   content: string;
   references?: CompanyReference[];
   createdAt: string;
+  /** Answer still streaming: text and references are provisional until the final answer replaces them. */
+  pending?: boolean;
 }
 
 export type AgentStepStatus = "pending" | "running" | "completed";
@@ -26,6 +30,9 @@ export interface MockAssistantResult {
 
 export interface ChatClientContext {
   previousCandidateIds: string[];
+  statusScope?: SearchableCompanyStatus[];
+  /** Set by "More like this": seeds a similarity search from this company id. */
+  similarToCompanyId?: string;
 }
 
 export interface AgentActivityEventPayload {
@@ -46,9 +53,28 @@ export interface ClarificationRequestData {
   options: ClarificationOption[];
 }
 
+/** Provisional matches shown before reranking; the final answer replaces them in place. */
+export interface PreliminaryResultsData {
+  references: CompanyReference[];
+  companiesById: Record<string, Company>;
+}
+
 export type AgentStreamEvent =
   | { type: "activity"; data: AgentActivityEventPayload }
+  | { type: "preliminary_results"; data: PreliminaryResultsData }
+  /** One delta of the streamed answer text; append in order. */
   | { type: "partial_text"; data: { text: string } }
-  | { type: "final_answer"; data: { content: string; references: CompanyReference[]; companiesById?: Record<string, Company> } }
+  | {
+      type: "final_answer";
+      data: {
+        content: string;
+        references: CompanyReference[];
+        companiesById?: Record<string, Company>;
+        statusScope?: SearchableCompanyStatus[];
+        /** Persisted run; `endReason: "error"` runs are fallbacks with no stored telemetry. */
+        telemetry?: { runId: string; endReason: string };
+      };
+    }
   | { type: "clarification_request"; data: ClarificationRequestData }
-  | { type: "error"; data: { message: string } };
+  /** `code` is set when a rate limit or daily budget refused the request. */
+  | { type: "error"; data: { message: string; code?: LimitErrorCode } };
@@ -0,0 +1,14 @@
+-- Persist agent runs paused on clarify_with_user so answers resume across restarts and instances.
+
+CREATE TABLE IF NOT EXISTS pending_clarifications (
+  session_id TEXT PRIMARY KEY,
+  run_id UUID NOT NULL,
+  runtime_prompt TEXT NOT NULL,
+  state JSONB NOT NULL,
+  messages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  context JSONB NOT NULL DEFAULT '{}'::jsonb,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_clarifications_expires ON pending_clarifications(expires_at);
@@ -0,0 +1,90 @@
+-- Nearest-neighbor "similar companies" lookup seeded by a company id, boosted by taxonomy overlap.
+
+CREATE OR REPLACE FUNCTION search_similar_companies_v1(
+  p_company_id TEXT,
+  p_statuses TEXT[] DEFAULT ARRAY['startup'],
+  p_exclude_ids TEXT[] DEFAULT NULL,
+  p_limit INT DEFAULT 30,
+  p_min_similarity FLOAT DEFAULT 0.3
+)
+RETURNS TABLE (
+  company_id TEXT,
+  similarity_score FLOAT,
+  taxonomy_overlap INT,
+  combined_score FLOAT,
+  shared_labels TEXT[]
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_embedding VECTOR(1536);
+  v_sectors TEXT[];
+  v_categories TEXT[];
+  v_business_models TEXT[];
+BEGIN
+  SELECT ce.embedding
+  INTO v_embedding
+  FROM company_embeddings ce
+  WHERE ce.company_id = p_company_id
+    AND ce.embedding_type = 'searchable_profile'
+  LIMIT 1;
+
+  IF v_embedding IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    coalesce(c.sectors, ARRAY[]::TEXT[]),
+    coalesce(c.categories, ARRAY[]::TEXT[]),
+    coalesce(c.business_models, ARRAY[]::TEXT[])
+  INTO v_sectors, v_categories, v_business_models
+  FROM companies c
+  WHERE c.id = p_company_id;
+
+  RETURN QUERY
+  WITH neighbors AS (
+    SELECT
+      ce.company_id::TEXT AS company_id,
+      (1 - (ce.embedding <=> v_embedding))::FLOAT AS similarity_score
+    FROM company_embeddings ce
+    JOIN companies c ON c.id = ce.company_id
+    WHERE ce.embedding_type = 'searchable_profile'
+      AND ce.company_id <> p_company_id
+      AND (p_statuses IS NULL OR array_length(p_statuses, 1) IS NULL OR c.status = ANY(p_statuses))
+      AND (p_exclude_ids IS NULL OR array_length(p_exclude_ids, 1) IS NULL OR NOT (c.id = ANY(p_exclude_ids)))
+      AND (1 - (ce.embedding <=> v_embedding)) >= p_min_similarity
+    ORDER BY ce.embedding <=> v_embedding
+    -- Oversample so the taxonomy boost can reorder beyond the raw vector top-k.
+    LIMIT greatest(1, p_limit) * 3
+  ),
+  overlap AS (
+    SELECT
+      n.company_id,
+      n.similarity_score,
+      coalesce(
+        ARRAY(
+          SELECT DISTINCT label
+          FROM unnest(
+            coalesce(c.sectors, ARRAY[]::TEXT[])
+            || coalesce(c.categories, ARRAY[]::TEXT[])
+            || coalesce(c.business_models, ARRAY[]::TEXT[])
+          ) AS label
+          WHERE label = ANY(v_sectors || v_categories || v_business_models)
+          ORDER BY label
+        ),
+        ARRAY[]::TEXT[]
+      )::TEXT[] AS shared_labels
+    FROM neighbors n
+    JOIN companies c ON c.id = n.company_id
+  )
+  SELECT
+    o.company_id::TEXT,
+    o.similarity_score::FLOAT,
+    coalesce(array_length(o.shared_labels, 1), 0)::INT AS taxonomy_overlap,
+    (0.85 * o.similarity_score + 0.05 * least(coalesce(array_length(o.shared_labels, 1), 0), 3))::FLOAT AS combined_score,
+    o.shared_labels
+  FROM overlap o
+  ORDER BY combined_score DESC, o.similarity_score DESC
+  LIMIT greatest(1, p_limit);
+END;
+$$;
@@ -0,0 +1,19 @@
+-- Saved searches: a direct-search request re-run on a schedule, diffed against the last seen result ids.
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  -- `/api/search` request body (query, mode, statuses, taxonomy, filters) without limit/cursor.
+  request JSONB NOT NULL,
+  source_run_id UUID REFERENCES search_runs(id) ON DELETE SET NULL,
+  last_result_ids TEXT[] NOT NULL DEFAULT '{}',
+  -- Ids in last_result_ids that were missing from the run before it.
+  new_company_ids TEXT[] NOT NULL DEFAULT '{}',
+  last_run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_run_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_last_run_at ON saved_searches(last_run_at);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_created_at ON saved_searches(created_at DESC);
@@ -0,0 +1,25 @@
+-- Company lists (shortlists / watchlists) with per-company notes, tags and outreach status.
+
+CREATE TABLE IF NOT EXISTS company_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS company_list_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES company_lists(id) ON DELETE CASCADE,
+  company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  notes TEXT NOT NULL DEFAULT '',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'saved'
+    CHECK (status IN ('saved', 'contacted', 'applied', 'interviewing', 'offer', 'rejected')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (list_id, company_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_lists_created_at ON company_lists(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_company_list_items_company ON company_list_items(company_id);
@@ -0,0 +1,28 @@
+-- Server-side chat history. A conversation's id is the chat sessionId, so search_runs.session_id
+-- (and pending_clarifications.session_id) point at the conversation that produced them.
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  -- Client context restored when the conversation is resumed.
+  status_scope TEXT[] NOT NULL DEFAULT '{startup}',
+  previous_candidate_ids TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS conversation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- CompanyReference[] shown under an assistant answer.
+  company_references JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- search_runs id of the answer. Not a foreign key: answers whose telemetry insert failed keep theirs.
+  run_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (conversation_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_updated_at ON conversations(updated_at DESC);
@@ -0,0 +1,61 @@
+-- Per-user ownership. Signed-in requests reach user-owned tables through a client that carries the
+-- user's JWT, so these policies decide what each user can see; the service role bypasses them and is
+-- kept for the search RPCs, run telemetry, pending clarifications and scheduled jobs.
+-- Rows created before this migration have no owner and are only reachable with the service role.
+
+ALTER TABLE search_runs ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE company_lists ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_search_runs_user ON search_runs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_company_lists_user ON company_lists(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations(user_id, updated_at DESC);
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS saved_searches_owner ON saved_searches;
+CREATE POLICY saved_searches_owner ON saved_searches
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS company_lists_owner ON company_lists;
+CREATE POLICY company_lists_owner ON company_lists
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS company_list_items_owner ON company_list_items;
+CREATE POLICY company_list_items_owner ON company_list_items
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM company_lists l WHERE l.id = list_id AND l.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM company_lists l WHERE l.id = list_id AND l.user_id = auth.uid()));
+
+DROP POLICY IF EXISTS conversations_owner ON conversations;
+CREATE POLICY conversations_owner ON conversations
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS conversation_messages_owner ON conversation_messages;
+CREATE POLICY conversation_messages_owner ON conversation_messages
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid()));
+
+-- Telemetry is written by the service role; users may read their own runs.
+ALTER TABLE search_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_run_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_run_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pending_clarifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS search_runs_owner_read ON search_runs;
+CREATE POLICY search_runs_owner_read ON search_runs
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
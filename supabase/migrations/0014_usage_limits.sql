@@ -0,0 +1,60 @@
+-- Rate-limit counters, daily token/cost totals for budgets, and per-run usage on search_runs.
+-- Only the service role touches the counter tables; RLS is enabled with no policies so user clients cannot.
+
+CREATE TABLE IF NOT EXISTS request_counters (
+  key TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  count INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_counters_window ON request_counters(window_start);
+
+CREATE TABLE IF NOT EXISTS daily_usage (
+  key TEXT NOT NULL,
+  day DATE NOT NULL,
+  input_tokens BIGINT NOT NULL DEFAULT 0,
+  output_tokens BIGINT NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (key, day)
+);
+
+ALTER TABLE request_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION increment_request_counter(p_key TEXT, p_window_start TIMESTAMPTZ)
+RETURNS INT
+LANGUAGE sql
+AS $$
+  INSERT INTO request_counters (key, window_start, count)
+  VALUES (p_key, p_window_start, 1)
+  ON CONFLICT (key, window_start) DO UPDATE SET count = request_counters.count + 1
+  RETURNING count;
+$$;
+
+CREATE OR REPLACE FUNCTION add_daily_usage(
+  p_key TEXT,
+  p_day DATE,
+  p_input_tokens BIGINT,
+  p_output_tokens BIGINT,
+  p_cost_usd NUMERIC
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO daily_usage (key, day, input_tokens, output_tokens, cost_usd)
+  VALUES (p_key, p_day, p_input_tokens, p_output_tokens, p_cost_usd)
+  ON CONFLICT (key, day) DO UPDATE SET
+    input_tokens = daily_usage.input_tokens + EXCLUDED.input_tokens,
+    output_tokens = daily_usage.output_tokens + EXCLUDED.output_tokens,
+    cost_usd = daily_usage.cost_usd + EXCLUDED.cost_usd,
+    updated_at = NOW();
+$$;
+
+REVOKE EXECUTE ON FUNCTION increment_request_counter(TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_daily_usage(TEXT, DATE, BIGINT, BIGINT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE search_runs ADD COLUMN IF NOT EXISTS input_tokens INT;
+ALTER TABLE search_runs ADD COLUMN IF NOT EXISTS output_tokens INT;
+ALTER TABLE search_runs ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6);
@@ -0,0 +1,11 @@
+-- Open roles per company as last fetched from its public ATS job board (Greenhouse, Lever, Ashby, Workable).
+-- A cache written and read by the service role only; RLS is enabled with no policies so user clients cannot.
+
+CREATE TABLE IF NOT EXISTS company_open_roles (
+  company_id TEXT PRIMARY KEY REFERENCES companies(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('greenhouse', 'lever', 'ashby', 'workable')),
+  roles JSONB NOT NULL DEFAULT '[]'::jsonb,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE company_open_roles ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,35 @@
+-- Finished resume searches: the reviewed profile and preferences, the search plan, retrieval scores and
+-- grouped results, keyed by the run id the search route logs under. The owner can turn on a share link,
+-- which lets any signed-in user open the run read-only.
+
+CREATE TABLE IF NOT EXISTS resume_runs (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile JSONB NOT NULL,
+  preferences JSONB NOT NULL,
+  search_plan JSONB NOT NULL,
+  -- Company id -> retrieval score, before preference re-ranking and grouping.
+  raw_scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  grouped_results JSONB NOT NULL,
+  preference_fit JSONB,
+  match_scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  open_roles JSONB,
+  shared BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resume_runs_user ON resume_runs(user_id, created_at DESC);
+
+ALTER TABLE resume_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS resume_runs_owner ON resume_runs;
+CREATE POLICY resume_runs_owner ON resume_runs
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS resume_runs_shared_read ON resume_runs;
+CREATE POLICY resume_runs_shared_read ON resume_runs
+  FOR SELECT TO authenticated
+  USING (shared);
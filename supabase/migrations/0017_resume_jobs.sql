@@ -0,0 +1,29 @@
+-- Resume matching as a background job. Each stage (extract, analyze, plan, search, group, roles) stores
+-- its status and output here as it finishes, so the page can poll progress, reattach after a reload,
+-- and retry a failed stage without redoing the ones before it.
+
+CREATE TABLE IF NOT EXISTS resume_jobs (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('running', 'review', 'failed', 'completed', 'cancelled')),
+  -- The stage running now, or the last one that ran.
+  stage TEXT NOT NULL CHECK (stage IN ('extract', 'analyze', 'plan', 'search', 'group', 'roles')),
+  -- Stage name -> { status, detail, error, startedAt, finishedAt }.
+  stages JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Stage outputs: the upload until its text is extracted, the text, profile, preferences, plan and search hits.
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  progress JSONB,
+  run_id UUID REFERENCES resume_runs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_resume_jobs_user ON resume_jobs(user_id, created_at DESC);
+
+ALTER TABLE resume_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS resume_jobs_owner ON resume_jobs;
+CREATE POLICY resume_jobs_owner ON resume_jobs
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,8 @@
+-- The user a paused run belongs to, as a column so taking a pending clarification can be limited to its
+-- owner in the same delete. Null for eval runs and replays, which have no user.
+
+ALTER TABLE pending_clarifications ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+UPDATE pending_clarifications
+SET user_id = (context->>'userId')::uuid
+WHERE user_id IS NULL AND context->>'userId' IS NOT NULL;
@@ -0,0 +1,51 @@
+-- HQ country and city filters match whole words of `headquarters` instead of any substring, so "UK"
+-- no longer matches "Milwaukee" and "Rome" no longer matches "Romeoville". Locations arrive
+-- regex-escaped from `toStructuredFilterRpcArgs`; the surrounding groups accept a start, end or
+-- non-word character so locations ending in punctuation ("U.S.") still match.
+
+CREATE OR REPLACE FUNCTION company_passes_structured_filters_v1(
+  p_total_raised_amount BIGINT,
+  p_total_raised_currency_code TEXT,
+  p_founded_year INT,
+  p_headquarters TEXT,
+  p_team_size TEXT,
+  p_min_raised_usd BIGINT DEFAULT NULL,
+  p_max_raised_usd BIGINT DEFAULT NULL,
+  p_founded_year_min INT DEFAULT NULL,
+  p_founded_year_max INT DEFAULT NULL,
+  p_hq_countries TEXT[] DEFAULT NULL,
+  p_hq_cities TEXT[] DEFAULT NULL,
+  p_team_size_buckets TEXT[] DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (
+      (p_min_raised_usd IS NULL AND p_max_raised_usd IS NULL)
+      OR (
+        p_total_raised_amount IS NOT NULL
+        AND upper(coalesce(p_total_raised_currency_code, 'USD')) = 'USD'
+        AND (p_min_raised_usd IS NULL OR p_total_raised_amount >= p_min_raised_usd)
+        AND (p_max_raised_usd IS NULL OR p_total_raised_amount <= p_max_raised_usd)
+      )
+    )
+    AND (p_founded_year_min IS NULL OR (p_founded_year IS NOT NULL AND p_founded_year >= p_founded_year_min))
+    AND (p_founded_year_max IS NULL OR (p_founded_year IS NOT NULL AND p_founded_year <= p_founded_year_max))
+    AND (
+      p_hq_countries IS NULL
+      OR array_length(p_hq_countries, 1) IS NULL
+      OR EXISTS (SELECT 1 FROM unnest(p_hq_countries) loc WHERE p_headquarters ~* ('(^|\W)' || loc || '(\W|$)'))
+    )
+    AND (
+      p_hq_cities IS NULL
+      OR array_length(p_hq_cities, 1) IS NULL
+      OR EXISTS (SELECT 1 FROM unnest(p_hq_cities) loc WHERE p_headquarters ~* ('(^|\W)' || loc || '(\W|$)'))
+    )
+    AND (
+      p_team_size_buckets IS NULL
+      OR array_length(p_team_size_buckets, 1) IS NULL
+      OR company_team_size_bucket_v1(p_team_size) = ANY(p_team_size_buckets)
+    )
+$$;
@@ -0,0 +1,28 @@
+-- Uploaded resume files, one row per job until its text is extracted. They used to sit base64-encoded
+-- in `resume_jobs.state`, which every progress write and poll read back in full.
+
+CREATE TABLE IF NOT EXISTS resume_job_uploads (
+  job_id UUID PRIMARY KEY REFERENCES resume_jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content BYTEA NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE resume_job_uploads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS resume_job_uploads_owner ON resume_job_uploads;
+CREATE POLICY resume_job_uploads_owner ON resume_job_uploads
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Jobs still waiting for extraction move their upload over; later stages never read it.
+INSERT INTO resume_job_uploads (job_id, user_id, content, created_at)
+SELECT id, user_id, decode(state->'upload'->>'base64', 'base64'), created_at
+FROM resume_jobs
+WHERE state->'upload' ? 'base64'
+ON CONFLICT (job_id) DO NOTHING;
+
+UPDATE resume_jobs
+SET state = jsonb_set(state, '{upload}', (state->'upload') - 'base64')
+WHERE state->'upload' ? 'base64';